@@ -1,19 +1,16 @@
-// const { createDefaultPreset } = require("ts-jest");
-// const tsJestTransformCfg = createDefaultPreset().transform; // Not needed if using preset directly
+// The package is an ES module, so the tests run as ESM too: jest needs
+// --experimental-vm-modules (see the test script) and the .js suffixes on
+// relative imports map back to the .ts sources.
 
 /** @type {import('ts-jest').JestConfigWithTsJest} */
-module.exports = {
-  preset: "ts-jest", // This line is simpler and usually sufficient
+export default {
+  preset: "ts-jest/presets/default-esm",
   testEnvironment: "node",
-  // moduleNameMapper: { // May not be needed for simple setups
-  //   '^(\\.{1,2}/.*)\\.js$': '$1',
-  // },
-  // transform: { // ts-jest preset usually handles this
-  //   '^.+\\.tsx?$': [
-  //     'ts-jest',
-  //     {
-  //       useESM: false, // Set to true if you are using ES Modules
-  //     },
-  //   ],
-  // },
+  roots: ["<rootDir>/src"],
+  moduleNameMapper: {
+    "^(\\.{1,2}/.*)\\.js$": "$1",
+  },
+  transform: {
+    "^.+\\.ts$": ["ts-jest", { useESM: true }],
+  },
 };
@@ -1,36 +1,22 @@
 import dotenv from "dotenv";
 import express from "express";
 import path from "path";
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { createInstagramServer } from "./server.js";
 import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-} from "@modelcontextprotocol/sdk/types.js";
-import { getInstagramAuthUrl } from "./tools/instagramAuth.js";
-import { postImageToInstagram } from "./tools/instagramPostImage.js";
-import { postCarouselToInstagram } from "./tools/instagramPostCarousel.js";
-import { postReelToInstagram } from "./tools/instagramPostReel.js";
-
-// Enhanced logging utility
-function logError(context: string, error: any) {
-  console.error(`[ERROR] ${context}:`, {
-    message: error.message,
-    stack: error.stack,
-    type: error.type || "Unknown",
-    statusCode: error.statusCode,
-    fbTraceId: error.fbTraceId,
-    originalError: error.originalError,
-  });
-}
-
-function logInfo(context: string, data: any) {
-  console.error(`[INFO] ${context}:`, data);
-}
-
-function logDebug(context: string, data: any) {
-  console.error(`[DEBUG] ${context}:`, data);
-}
+  getActiveSessionCount,
+  mountMcpHttpTransport,
+} from "./transports/httpTransport.js";
+import { getAccountStorePath, listAccounts } from "./services/accountStore.js";
+import { getMediaHostingMode } from "./services/mediaHosting.js";
+import { mountStagedMediaRoute } from "./services/staticMediaHost.js";
+import { recoverInterruptedOperations } from "./services/publishPipeline.js";
+import { MissedJobPolicy, startScheduler } from "./services/scheduler.js";
+import { startTokenRefresher } from "./services/tokenManager.js";
+import {
+  isWebhookReceiverEnabled,
+  mountWebhookRoute,
+} from "./services/webhookReceiver.js";
 
 // Load environment variables from .env.local
 // Try multiple paths: current directory, server directory, and parent directory
@@ -59,285 +45,142 @@ if (!envLoaded) {
   console.warn("Warning: Could not load .env.local from any expected location");
 }
 
-const app = express();
-const port = process.env.PORT || 3000;
+function logInfo(context: string, data: any) {
+  console.error(`[INFO] ${context}:`, data);
+}
 
-// Create MCP server instance
-const server = new Server(
-  {
-    name: "instagram-server",
-    version: "1.0.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
+type TransportMode = "stdio" | "http";
+
+// `--transport=http` (or `--transport http`) wins over MCP_TRANSPORT
+function getTransportMode(): TransportMode {
+  const argv = process.argv.slice(2);
+  let mode = process.env.MCP_TRANSPORT;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--transport=")) {
+      mode = argv[i].slice("--transport=".length);
+    } else if (argv[i] === "--transport" && argv[i + 1]) {
+      mode = argv[i + 1];
+    } else if (argv[i] === "--http") {
+      mode = "http";
+    }
   }
-);
-
-// Register tools list handler
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      {
-        name: "instagram-auth",
-        description: "Generates an Instagram OAuth URL for authentication.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            redirectUri: {
-              type: "string",
-              format: "uri",
-              description:
-                "The redirect URI for OAuth callback (optional, defaults to localhost:6001)",
-            },
-          },
-        },
-      },
-      {
-        name: "instagram-post-image",
-        description: "Posts an image to Instagram.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            imageUrl: {
-              type: "string",
-              format: "uri",
-              description:
-                "The public URL of the image to post (must be JPEG and HTTPS).",
-            },
-            caption: {
-              type: "string",
-              description: "The caption for the image post.",
-            },
-          },
-          required: ["imageUrl"],
-        },
-      },
-      {
-        name: "instagram-post-carousel",
-        description: "Posts a carousel of images/videos to Instagram.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            mediaItems: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  type: {
-                    type: "string",
-                    enum: ["IMAGE", "VIDEO"],
-                    description: "Type of media: IMAGE or VIDEO.",
-                  },
-                  url: {
-                    type: "string",
-                    format: "uri",
-                    description:
-                      "Public URL of the image or video (HTTPS required for images, must be JPEG).",
-                  },
-                },
-                required: ["type", "url"],
-              },
-              minItems: 2,
-              maxItems: 10,
-              description:
-                "Array of media items (2-10 items). IMPORTANT: For videos, ensure they meet Instagram's specifications.",
-            },
-            caption: {
-              type: "string",
-              description: "The caption for the carousel post.",
-            },
-          },
-          required: ["mediaItems"],
-        },
-      },
-      {
-        name: "instagram-post-reel",
-        description: "Posts a Reel to Instagram.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            videoUrl: {
-              type: "string",
-              format: "uri",
-              description: "Public URL of the video to post as a Reel.",
-            },
-            coverUrl: {
-              type: "string",
-              format: "uri",
-              description:
-                "Public URL of the cover image for the Reel. If not provided, Instagram will use the first frame.",
-            },
-            caption: {
-              type: "string",
-              description: "The caption for the Reel.",
-            },
-            shareToFeed: {
-              type: "boolean",
-              description:
-                "Whether to also share the Reel to the main feed (default: true if not specified by IG). Check API docs for current default behavior if not explicitly set.",
-            },
-          },
-          required: ["videoUrl"],
-        },
-      },
-    ],
-  };
-});
-
-// Register tool call handler
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  logInfo("Tool Request", { tool: name, args });
-
-  try {
-    switch (name) {
-      case "instagram-auth": {
-        logDebug("Instagram Auth", "Processing auth request");
-        const { redirectUri } = (args as any) || {};
-        const result = getInstagramAuthUrl({
-          redirectUri:
-            (redirectUri as string) ||
-            "https://localhost:6001/auth/callback/instagram-standalone",
-        });
-
-        logInfo("Instagram Auth Success", { state: result.state });
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Instagram OAuth URL: ${result.oauthUrl}. State: ${result.state}`,
-            },
-          ],
-        };
-      }
-
-      case "instagram-post-image": {
-        logDebug("Instagram Post Image", "Starting image post process");
-        const { imageUrl, caption } = args as any;
-
-        logInfo("Image Post Request", {
-          imageUrl: imageUrl?.substring(0, 100) + "...",
-          captionLength: caption?.length || 0,
-        });
-
-        const result = await postImageToInstagram({
-          imageUrl,
-          caption,
-        });
-
-        logInfo("Image Post Success", { postId: result.postId });
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Image posted successfully! Post ID: ${result.postId}`,
-            },
-          ],
-        };
-      }
-
-      case "instagram-post-carousel": {
-        logDebug("Instagram Post Carousel", "Starting carousel post process");
-        const { mediaItems, caption } = args as any;
+  return mode === "http" ? "http" : "stdio";
+}
 
-        logInfo("Carousel Post Request", {
-          mediaCount: mediaItems?.length || 0,
-          captionLength: caption?.length || 0,
-        });
+// Unset leaves the scheduler's default; anything else must be a known policy
+function getMissedJobPolicy(): MissedJobPolicy | undefined {
+  const policy = process.env.INSTAGRAM_SCHEDULER_MISSED_POLICY;
+  if (!policy) return undefined;
+  if (policy !== "run" && policy !== "flag") {
+    throw new Error(
+      `INSTAGRAM_SCHEDULER_MISSED_POLICY must be "run" or "flag", got "${policy}".`
+    );
+  }
+  return policy;
+}
 
-        const result = await postCarouselToInstagram({
-          mediaItems,
-          caption,
-        });
+const app = express();
+const port = process.env.PORT || 3000;
+let transportReady = false;
 
-        logInfo("Carousel Post Success", { postId: result.postId });
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Carousel posted successfully! Post ID: ${result.postId}`,
-            },
-          ],
-        };
-      }
+app.get("/", (req, res) => {
+  res.send("MCP Instagram Server is running!");
+});
 
-      case "instagram-post-reel": {
-        logDebug("Instagram Post Reel", "Starting reel post process");
-        const { videoUrl, coverUrl, caption, shareToFeed } = args as any;
+// Liveness: the process is up and serving requests
+app.get("/healthz", (req, res) => {
+  res.json({ status: "ok", timestamp: new Date().toISOString() });
+});
 
-        logInfo("Reel Post Request", {
-          hasVideo: !!videoUrl,
-          hasCover: !!coverUrl,
-          captionLength: caption?.length || 0,
-          shareToFeed,
-        });
+// Readiness: the MCP transport is connected and credentials are readable
+app.get("/readyz", (req, res) => {
+  let accountStore: { ok: boolean; accounts?: number; error?: string };
+  try {
+    accountStore = { ok: true, accounts: listAccounts().length };
+  } catch (error: any) {
+    accountStore = { ok: false, error: `${getAccountStorePath()}: ${error.message}` };
+  }
+  const ready = transportReady && accountStore.ok;
+  res.status(ready ? 200 : 503).json({
+    status: ready ? "ready" : "not ready",
+    transport: getTransportMode(),
+    transportReady,
+    sessions: getActiveSessionCount(),
+    accountStore,
+  });
+});
 
-        const result = await postReelToInstagram({
-          videoUrl,
-          caption,
-          coverUrl,
-          shareToFeed,
-        });
+// Signed URLs for local files staged by the built-in media host
+mountStagedMediaRoute(app);
 
-        logInfo("Reel Post Success", { postId: result.postId });
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Reel posted successfully! Post ID: ${result.postId}`,
-            },
-          ],
-        };
-      }
+// Meta webhook deliveries (comments, mentions, story insights, messages)
+mountWebhookRoute(app);
 
-      default:
-        logError("Unknown Tool", `Tool not found: ${name}`);
-        throw new Error(`Tool not found: ${name}`);
-    }
-  } catch (error: any) {
-    logError(`Tool Execution (${name})`, error);
+// Rejects if the port can't be bound (e.g. already in use)
+async function listen(): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    const server = app.listen(Number(port));
+    server.once("listening", resolve);
+    server.once("error", reject);
+  });
+}
 
-    // Return detailed error information
-    const errorMessage = error.message || "Unknown error occurred";
-    const errorType = error.type || "UNKNOWN_ERROR";
-    const statusCode = error.statusCode;
-    const fbTraceId = error.fbTraceId;
+async function startHttpTransport(): Promise<void> {
+  const authToken = process.env.MCP_HTTP_AUTH_TOKEN;
+  if (!authToken && process.env.MCP_HTTP_ALLOW_UNAUTHENTICATED !== "true") {
+    throw new Error(
+      "MCP_HTTP_AUTH_TOKEN must be set to serve MCP over HTTP (or set MCP_HTTP_ALLOW_UNAUTHENTICATED=true for local testing)."
+    );
+  }
+  mountMcpHttpTransport(app, {
+    createServer: createInstagramServer,
+    authToken,
+    sessionIdleTimeoutMs:
+      Number(process.env.MCP_HTTP_SESSION_IDLE_TIMEOUT_MS) || undefined,
+  });
+  await listen();
+  logInfo(
+    "MCP Server",
+    `Instagram MCP Server listening on http://localhost:${port}/mcp (Streamable HTTP) and /sse (SSE)`
+  );
+}
 
-    let detailedError = `Error: ${errorMessage}`;
-    if (errorType !== "UNKNOWN_ERROR") {
-      detailedError += ` (Type: ${errorType})`;
-    }
-    if (statusCode) {
-      detailedError += ` (Status: ${statusCode})`;
-    }
-    if (fbTraceId) {
-      detailedError += ` (Trace ID: ${fbTraceId})`;
+async function main() {
+  // Checked before anything starts, so a typo fails the startup
+  const missedJobPolicy = getMissedJobPolicy();
+
+  if (getTransportMode() === "http") {
+    await startHttpTransport();
+  } else {
+    // Connect MCP server to StdioTransport
+    const transport = new StdioServerTransport();
+    await createInstagramServer().connect(transport);
+    logInfo("MCP Server", "Instagram MCP Server running on stdio");
+    // Instagram must be able to fetch staged files and Meta to deliver
+    // webhooks even without HTTP MCP
+    if (getMediaHostingMode() === "static" || isWebhookReceiverEnabled()) {
+      await listen();
+      logInfo("HTTP", `Serving staged media and webhooks on port ${port}`);
     }
-
-    return {
-      isError: true,
-      content: [
-        {
-          type: "text",
-          text: detailedError,
-        },
-      ],
-    };
   }
-});
+  transportReady = true;
 
-app.get("/", (req, res) => {
-  res.send("MCP Instagram Server is running!");
-});
+  recoverInterruptedOperations();
 
-async function main() {
-  // Connect MCP server to StdioTransport
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  logInfo("MCP Server", "Instagram MCP Server running on stdio");
+  startTokenRefresher({
+    intervalMs:
+      Number(process.env.INSTAGRAM_TOKEN_REFRESH_INTERVAL_MS) || undefined,
+    refreshWithinDays:
+      Number(process.env.INSTAGRAM_TOKEN_REFRESH_WITHIN_DAYS) || undefined,
+  });
+
+  startScheduler({
+    intervalMs: Number(process.env.INSTAGRAM_SCHEDULER_INTERVAL_MS) || undefined,
+    missedJobPolicy,
+    missedJobGraceMs:
+      Number(process.env.INSTAGRAM_SCHEDULER_MISSED_GRACE_MINUTES) * 60000 ||
+      undefined,
+  });
 }
 
 main().catch((error) => {
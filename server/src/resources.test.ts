@@ -0,0 +1,89 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { upsertAccount } from "./services/accountStore.js";
+import { registerInstagramResources } from "./resources.js";
+
+const ACCOUNT_ID = "17841405822304914";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("resource subscriptions", () => {
+  let dataDir: string;
+  let server: Server;
+  let client: Client;
+  let updated: string[];
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "resources-test-"));
+    process.env.INSTAGRAM_MCP_DATA_DIR = dataDir;
+    process.env.INSTAGRAM_LEGACY_USER_FILE = path.join(dataDir, "user.json");
+    upsertAccount({ id: ACCOUNT_ID, username: "stub.account", accessToken: "token" });
+
+    server = new Server(
+      { name: "test", version: "1.0.0" },
+      { capabilities: { resources: { subscribe: true } } }
+    );
+    registerInstagramResources(server);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    updated = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updated.push(notification.params.uri);
+    });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([
+      server.connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+    delete process.env.INSTAGRAM_MCP_DATA_DIR;
+    delete process.env.INSTAGRAM_LEGACY_USER_FILE;
+  });
+
+  const refreshToken = async () => {
+    upsertAccount({ id: ACCOUNT_ID, username: "stub.account", accessToken: "new-token" });
+    await sleep(20);
+  };
+
+  it("tells a client that subscribed by username, under that URI", async () => {
+    await client.subscribeResource({ uri: "instagram://account/stub.account" });
+    await client.subscribeResource({ uri: `instagram://account/${ACCOUNT_ID}` });
+
+    await refreshToken();
+
+    expect(updated.sort()).toEqual([
+      `instagram://account/${ACCOUNT_ID}`,
+      "instagram://account/stub.account",
+    ]);
+  });
+
+  it("stops after unsubscribing by either form", async () => {
+    await client.subscribeResource({ uri: "instagram://account/stub.account" });
+    await client.subscribeResource({ uri: `instagram://account/${ACCOUNT_ID}` });
+    await client.unsubscribeResource({ uri: "instagram://account/stub.account" });
+
+    await refreshToken();
+    expect(updated).toEqual([`instagram://account/${ACCOUNT_ID}`]);
+
+    await client.unsubscribeResource({ uri: `instagram://account/${ACCOUNT_ID}` });
+    updated = [];
+    await refreshToken();
+    expect(updated).toEqual([]);
+  });
+
+  it("stops listening once the session closes", async () => {
+    await client.subscribeResource({ uri: `instagram://account/${ACCOUNT_ID}` });
+    await client.close();
+
+    await refreshToken();
+    expect(updated).toEqual([]);
+  });
+});
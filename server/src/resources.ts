@@ -0,0 +1,401 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import {
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
+  ReadResourceRequestSchema,
+  Resource,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  InstagramApiError,
+  InstagramErrorType,
+  handleInstagramError,
+} from "./services/instagramGraphApi.js";
+import {
+  createClientForAccount,
+  listAccounts,
+  onAccountChange,
+  resolveAccount,
+} from "./services/accountStore.js";
+import { getTokenStatus } from "./services/tokenManager.js";
+import {
+  getOperation,
+  listOperations,
+  onOperationChange,
+} from "./services/operationStore.js";
+import { getJob, listJobs, onJobChange } from "./services/jobStore.js";
+import {
+  WebhookEvent,
+  listWebhookEvents,
+  onWebhookQueueChange,
+} from "./services/webhookEvents.js";
+import {
+  getInstagramMedia,
+  listInstagramMedia,
+} from "./tools/instagramMedia.js";
+import { getInstagramMediaInsights } from "./tools/instagramInsights.js";
+
+// MCP resources: accounts, posts and their insights, post operations,
+// scheduled posts and the webhook event queue, readable as JSON without a
+// tool call. Clients can subscribe to any of them and are told when the
+// server sees it change.
+
+function logError(context: string, error: any) {
+  console.error(`[ERROR] Resources - ${context}:`, error);
+}
+
+// Pending webhook events; subscribers are told when events arrive or are
+// acknowledged
+export const WEBHOOK_EVENTS_URI = "instagram://webhook-events";
+
+const MIME_TYPE = "application/json";
+// Posts listed per account by resources/list
+const RECENT_MEDIA_PER_ACCOUNT = 10;
+const RECENT_OPERATIONS = 20;
+// Listed posts whose account is remembered; the oldest are forgotten first
+const MAX_REMEMBERED_MEDIA = 2000;
+
+const ACCOUNT_URI_TEMPLATE = "instagram://account/{id}";
+
+const PROFILE_FIELDS =
+  "username,name,biography,website,profile_picture_url,followers_count,follows_count,media_count,account_type";
+
+interface GraphProfile {
+  username?: string;
+  name?: string;
+  biography?: string;
+  website?: string;
+  profile_picture_url?: string;
+  followers_count?: number;
+  follows_count?: number;
+  media_count?: number;
+  account_type?: string;
+}
+
+interface ResourceTemplateDefinition {
+  name: string;
+  uriTemplate: string;
+  description: string;
+  read: (id: string) => Promise<unknown>;
+}
+
+// Media IDs don't say which account owns them, so the account a post was
+// listed under is remembered for reading it later. Posts not listed yet, or
+// forgotten since, are read with the default account.
+const mediaAccounts = new Map<string, string>();
+
+function rememberMediaAccount(mediaId: string, accountId: string): void {
+  // Re-inserting moves the post to the newest end
+  mediaAccounts.delete(mediaId);
+  mediaAccounts.set(mediaId, accountId);
+  if (mediaAccounts.size > MAX_REMEMBERED_MEDIA) {
+    mediaAccounts.delete(mediaAccounts.keys().next().value!);
+  }
+}
+
+const accountUri = (id: string) => `instagram://account/${id}`;
+const mediaUri = (id: string) => `instagram://media/${id}`;
+const insightsUri = (id: string) => `instagram://media/${id}/insights`;
+const operationUri = (id: string) => `instagram://operations/${id}`;
+const scheduledPostUri = (id: string) => `instagram://scheduled-posts/${id}`;
+
+async function readAccount(ref: string): Promise<unknown> {
+  const { account, client } = createClientForAccount(ref);
+  try {
+    const profile = await client.get<GraphProfile>(`/${client.igUserId}`, {
+      fields: PROFILE_FIELDS,
+    });
+    return {
+      ...listAccounts().find((summary) => summary.id === account.id),
+      profile: {
+        username: profile.username,
+        name: profile.name,
+        biography: profile.biography,
+        website: profile.website,
+        profilePictureUrl: profile.profile_picture_url,
+        followersCount: profile.followers_count,
+        followsCount: profile.follows_count,
+        mediaCount: profile.media_count,
+        accountType: profile.account_type,
+      },
+      token: getTokenStatus(account),
+    };
+  } catch (error) {
+    throw handleInstagramError(error);
+  }
+}
+
+async function readMedia(mediaId: string): Promise<unknown> {
+  const { media } = await getInstagramMedia({
+    mediaId,
+    account: mediaAccounts.get(mediaId),
+  });
+  return media;
+}
+
+async function readInsights(mediaId: string): Promise<unknown> {
+  const { retries, ...insights } = await getInstagramMediaInsights({
+    mediaId,
+    account: mediaAccounts.get(mediaId),
+  });
+  return insights;
+}
+
+async function readOperation(id: string): Promise<unknown> {
+  const operation = getOperation(id);
+  if (!operation) {
+    throw new InstagramApiError(
+      `Post operation not found: ${id}`,
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  return operation;
+}
+
+async function readScheduledPost(id: string): Promise<unknown> {
+  const job = getJob(id);
+  if (!job) {
+    throw new InstagramApiError(
+      `Scheduled post not found: ${id}`,
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  return job;
+}
+
+const RESOURCE_TEMPLATES: ResourceTemplateDefinition[] = [
+  {
+    name: "Instagram account",
+    uriTemplate: ACCOUNT_URI_TEMPLATE,
+    description:
+      "A stored account by IG user ID or username: profile, follower and post counts, and token status",
+    read: readAccount,
+  },
+  {
+    name: "Instagram post",
+    uriTemplate: "instagram://media/{id}",
+    description:
+      "A post by media ID: caption, permalink, timestamp, media URLs, counts and carousel children",
+    read: readMedia,
+  },
+  {
+    name: "Instagram post insights",
+    uriTemplate: "instagram://media/{id}/insights",
+    description: "A post's insights, as returned by instagram-media-insights",
+    read: readInsights,
+  },
+  {
+    name: "Post operation",
+    uriTemplate: "instagram://operations/{id}",
+    description: "A post operation's stage, status, container and post ID",
+    read: readOperation,
+  },
+  {
+    name: "Scheduled post",
+    uriTemplate: "instagram://scheduled-posts/{id}",
+    description: "A scheduled post's run time, status and arguments",
+    read: readScheduledPost,
+  },
+];
+
+const templateMatchers = RESOURCE_TEMPLATES.map((definition) => ({
+  definition,
+  template: new UriTemplate(definition.uriTemplate),
+}));
+
+const accountTemplate = new UriTemplate(ACCOUNT_URI_TEMPLATE);
+
+// Changes are announced under the account ID, so an account URI that names
+// the account by username is keyed by its ID. Anything else, including an
+// account that isn't stored, keys as itself.
+function subscriptionKey(uri: string): string {
+  const match = accountTemplate.match(uri);
+  if (!match || typeof match.id !== "string") return uri;
+  try {
+    return accountUri(resolveAccount(match.id).id);
+  } catch {
+    return uri;
+  }
+}
+
+// Comments carry their post as media.id; mentions and story insights as
+// media_id
+function webhookMediaId(event: WebhookEvent): string | undefined {
+  const value = event.value as
+    | { media?: { id?: string }; media_id?: string }
+    | undefined;
+  return value?.media?.id || value?.media_id;
+}
+
+function shorten(text: string, length: number): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > length ? `${flat.slice(0, length)}...` : flat;
+}
+
+// Accounts, their most recent posts, recent operations, pending scheduled
+// posts and the webhook queue. Reading recent posts costs one Graph API call
+// per account; an account whose call fails is listed without its posts.
+async function listInstagramResources(): Promise<Resource[]> {
+  const accounts = listAccounts();
+  const resources: Resource[] = accounts.map((account) => ({
+    uri: accountUri(account.id),
+    name: `@${account.username}`,
+    description: `Instagram account ${account.id}${account.isDefault ? " (default)" : ""}`,
+    mimeType: MIME_TYPE,
+  }));
+
+  for (const account of accounts) {
+    try {
+      const { media } = await listInstagramMedia({
+        account: account.id,
+        limit: RECENT_MEDIA_PER_ACCOUNT,
+      });
+      for (const post of media) {
+        rememberMediaAccount(post.id, account.id);
+        resources.push({
+          uri: mediaUri(post.id),
+          name: `@${account.username} ${post.productType || post.mediaType} ${post.timestamp}`,
+          description: post.caption ? shorten(post.caption, 100) : undefined,
+          mimeType: MIME_TYPE,
+        });
+      }
+    } catch (error) {
+      logError(`Recent Posts (@${account.username})`, error);
+    }
+  }
+
+  for (const operation of listOperations().slice(0, RECENT_OPERATIONS)) {
+    resources.push({
+      uri: operationUri(operation.id),
+      name: `${operation.postType} post operation (${operation.status})`,
+      description: `Started ${operation.createdAt}, stage ${operation.stage}`,
+      mimeType: MIME_TYPE,
+    });
+  }
+  for (const job of listJobs("pending")) {
+    resources.push({
+      uri: scheduledPostUri(job.id),
+      name: `Scheduled ${job.postType} post`,
+      description: `Runs at ${job.runAt}`,
+      mimeType: MIME_TYPE,
+    });
+  }
+  resources.push({
+    uri: WEBHOOK_EVENTS_URI,
+    name: "Pending webhook events",
+    description:
+      "Events from the webhook endpoint not yet acknowledged, oldest first",
+    mimeType: MIME_TYPE,
+  });
+  return resources;
+}
+
+async function readInstagramResource(uri: string): Promise<unknown> {
+  if (uri === WEBHOOK_EVENTS_URI) {
+    return listWebhookEvents({ status: "pending" });
+  }
+  for (const { definition, template } of templateMatchers) {
+    const match = template.match(uri);
+    if (match && typeof match.id === "string") {
+      return definition.read(match.id);
+    }
+  }
+  throw new Error(`Resource not found: ${uri}`);
+}
+
+// Registers the resource handlers and tells this session's subscribers about
+// changes until its connection closes
+export function registerInstagramResources(server: Server): void {
+  // Resource URIs this session's client has subscribed to, by the URI
+  // changes are announced under
+  const subscriptions = new Map<string, Set<string>>();
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: await listInstagramResources() };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: RESOURCE_TEMPLATES.map(
+        ({ name, uriTemplate, description }) => ({
+          name,
+          uriTemplate,
+          description,
+          mimeType: MIME_TYPE,
+        })
+      ),
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const data = await readInstagramResource(uri);
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: MIME_TYPE,
+          text: JSON.stringify(data, null, 2),
+        },
+      ],
+    };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const key = subscriptionKey(uri);
+    subscriptions.set(key, (subscriptions.get(key) || new Set()).add(uri));
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const key = subscriptionKey(uri);
+    const subscribed = subscriptions.get(key);
+    subscribed?.delete(uri);
+    if (subscribed?.size === 0) subscriptions.delete(key);
+    return {};
+  });
+
+  // The client is told under each URI it subscribed with
+  const notify = (uris: string[]) => {
+    for (const uri of new Set(uris)) {
+      for (const subscribed of subscriptions.get(uri) || []) {
+        server
+          .sendResourceUpdated({ uri: subscribed })
+          .catch((error) => logError("Resource Update Notification", error));
+      }
+    }
+  };
+
+  // The stores are shared by every session, so each server listens for
+  // itself and stops when its connection closes
+  const stopListening = [
+    onWebhookQueueChange((events) => {
+      const mediaIds = events
+        .filter((event) => event.status === "pending")
+        .map(webhookMediaId)
+        .filter((id): id is string => !!id);
+      notify([
+        WEBHOOK_EVENTS_URI,
+        ...mediaIds.flatMap((id) => [mediaUri(id), insightsUri(id)]),
+      ]);
+    }),
+    onOperationChange((operation) => {
+      notify([
+        operationUri(operation.id),
+        // A published post changes the account's post count
+        ...(operation.status === "succeeded"
+          ? [accountUri(operation.accountId)]
+          : []),
+      ]);
+    }),
+    onJobChange((job) => notify([scheduledPostUri(job.id)])),
+    onAccountChange((accountId) => notify([accountUri(accountId)])),
+  ];
+  server.onclose = () => {
+    for (const stop of stopListening) stop();
+  };
+}
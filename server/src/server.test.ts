@@ -0,0 +1,83 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { createInstagramServer } from "./server.js";
+
+describe("createInstagramServer", () => {
+  let dataDir: string;
+  let client: Client;
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "server-test-"));
+    process.env.INSTAGRAM_MCP_DATA_DIR = dataDir;
+    process.env.INSTAGRAM_LEGACY_USER_FILE = path.join(dataDir, "user.json");
+
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([
+      createInstagramServer().connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+    delete process.env.INSTAGRAM_MCP_DATA_DIR;
+    delete process.env.INSTAGRAM_LEGACY_USER_FILE;
+  });
+
+  it("lists every tool once, with an object input schema", async () => {
+    const { tools } = await client.listTools();
+    const names = tools.map((tool) => tool.name);
+    expect(new Set(names).size).toBe(names.length);
+    expect(names).toEqual(
+      expect.arrayContaining([
+        "instagram-auth",
+        "instagram-post-image",
+        "instagram-moderate-comments",
+        "instagram-reschedule-post",
+      ])
+    );
+    for (const tool of tools) {
+      expect(tool.inputSchema.type).toBe("object");
+      expect(tool.description).toBeTruthy();
+    }
+  });
+
+  it("runs the tool named in the call", async () => {
+    const result = await client.callTool({
+      name: "instagram-lint-caption",
+      arguments: { caption: "Sunset #travel" },
+    });
+    expect(result.isError).toBeFalsy();
+    expect(result.content).toEqual([
+      expect.objectContaining({
+        text: expect.stringMatching(/^Caption is OK to post\.\nLength: 14\//),
+      }),
+    ]);
+  });
+
+  it("returns failures as error results", async () => {
+    const missing = await client.callTool({ name: "instagram-nope", arguments: {} });
+    expect(missing).toMatchObject({
+      isError: true,
+      content: [{ type: "text", text: "Error: Tool not found: instagram-nope" }],
+    });
+
+    const invalid = await client.callTool({
+      name: "instagram-post-status",
+      arguments: { operationId: "missing" },
+    });
+    expect(invalid).toMatchObject({
+      isError: true,
+      content: [
+        {
+          text: "Error: Post operation not found: missing (Type: INVALID_REQUEST)",
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { authTool } from "./tools/instagramAuth.js";
+import { authCompleteTool } from "./tools/instagramAuthComplete.js";
+import { listAccountsTool } from "./tools/instagramListAccounts.js";
+import { tokenStatusTool } from "./tools/instagramTokenStatus.js";
+import { publishingLimitTool } from "./tools/instagramPublishingLimit.js";
+import { postImageTool } from "./tools/instagramPostImage.js";
+import { postCarouselTool } from "./tools/instagramPostCarousel.js";
+import { postReelTool } from "./tools/instagramPostReel.js";
+import { postStoryTool } from "./tools/instagramPostStory.js";
+import { searchLocationsTool } from "./tools/instagramSearchLocations.js";
+import {
+  getMediaTool,
+  listMediaTool,
+  searchMediaTool,
+} from "./tools/instagramMedia.js";
+import {
+  accountInsightsTool,
+  mediaInsightsTool,
+} from "./tools/instagramInsights.js";
+import {
+  deleteCommentTool,
+  hideCommentTool,
+  listCommentsTool,
+  moderateCommentsTool,
+  replyCommentTool,
+  setCommentsEnabledTool,
+} from "./tools/instagramComments.js";
+import { lintCaptionTool } from "./tools/instagramLintCaption.js";
+import {
+  ackWebhookEventsTool,
+  listWebhookEventsTool,
+} from "./tools/instagramWebhookEvents.js";
+import { postStatusTool } from "./tools/instagramPostStatus.js";
+import {
+  cancelScheduledPostTool,
+  listScheduledPostsTool,
+  reschedulePostTool,
+  schedulePostTool,
+} from "./tools/instagramSchedulePost.js";
+import { InstagramTool } from "./tools/toolSupport.js";
+import {
+  formatCaptionProblems,
+  formatMediaProblems,
+  formatRetries,
+} from "./tools/toolFormatting.js";
+import { registerInstagramResources } from "./resources.js";
+
+// Enhanced logging utility
+function logError(context: string, error: any) {
+  console.error(`[ERROR] ${context}:`, {
+    message: error.message,
+    stack: error.stack,
+    type: error.type || "Unknown",
+    statusCode: error.statusCode,
+    fbTraceId: error.fbTraceId,
+    originalError: error.originalError,
+  });
+}
+
+function logInfo(context: string, data: any) {
+  console.error(`[INFO] ${context}:`, data);
+}
+
+// Every tool, in the order tools/list returns them. Each tool module owns its
+// definitions and handlers.
+const TOOLS: InstagramTool[] = [
+  authTool,
+  authCompleteTool,
+  listAccountsTool,
+  tokenStatusTool,
+  publishingLimitTool,
+  postImageTool,
+  postCarouselTool,
+  postReelTool,
+  postStoryTool,
+  searchLocationsTool,
+  listMediaTool,
+  getMediaTool,
+  searchMediaTool,
+  mediaInsightsTool,
+  accountInsightsTool,
+  listCommentsTool,
+  replyCommentTool,
+  hideCommentTool,
+  deleteCommentTool,
+  setCommentsEnabledTool,
+  moderateCommentsTool,
+  lintCaptionTool,
+  listWebhookEventsTool,
+  ackWebhookEventsTool,
+  postStatusTool,
+  schedulePostTool,
+  listScheduledPostsTool,
+  cancelScheduledPostTool,
+  reschedulePostTool,
+];
+
+const TOOLS_BY_NAME = new Map(TOOLS.map((tool) => [tool.name, tool]));
+
+// Builds an MCP server with every Instagram tool registered. Each transport
+// connection (stdio, or one HTTP session) gets its own instance.
+export function createInstagramServer(): Server {
+  // Create MCP server instance
+  const server = new Server(
+    {
+      name: "instagram-server",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true },
+        logging: {},
+      },
+    }
+  );
+
+  // Register tools list handler
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: TOOLS.map(({ name, description, inputSchema }) => ({
+        name,
+        description,
+        inputSchema,
+      })),
+    };
+  });
+
+  // Register tool call handler
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+
+    logInfo("Tool Request", { tool: name, args });
+
+    try {
+      const tool = TOOLS_BY_NAME.get(name);
+      if (!tool) {
+        logError("Unknown Tool", `Tool not found: ${name}`);
+        throw new Error(`Tool not found: ${name}`);
+      }
+      return await tool.handle(args || {}, {
+        server,
+        extra,
+        progressToken: request.params._meta?.progressToken,
+      });
+    } catch (error: any) {
+      logError(`Tool Execution (${name})`, error);
+
+      // Return detailed error information
+      const errorMessage = error.message || "Unknown error occurred";
+      const errorType = error.type || "UNKNOWN_ERROR";
+      const statusCode = error.statusCode;
+      const fbTraceId = error.fbTraceId;
+
+      let detailedError = `Error: ${errorMessage}`;
+      if (errorType !== "UNKNOWN_ERROR") {
+        detailedError += ` (Type: ${errorType})`;
+      }
+      if (statusCode) {
+        detailedError += ` (Status: ${statusCode})`;
+      }
+      if (fbTraceId) {
+        detailedError += ` (Trace ID: ${fbTraceId})`;
+      }
+      detailedError += formatMediaProblems(error.problems);
+      detailedError += formatCaptionProblems(error.captionProblems);
+      detailedError += formatRetries(error.retries);
+
+      return {
+        isError: true,
+        content: [
+          {
+            type: "text",
+            text: detailedError,
+          },
+        ],
+      };
+    }
+  });
+
+  registerInstagramResources(server);
+
+  return server;
+}
@@ -0,0 +1,214 @@
+import * as fs from "fs";
+import * as path from "path";
+import { resolveDataPath } from "../utils/dataDir.js";
+import { readJsonFile, writeJsonFile } from "../utils/jsonFile.js";
+import { ChangeListeners } from "../utils/changeListeners.js";
+import {
+  InstagramApiError,
+  InstagramErrorType,
+  InstagramGraphClient,
+} from "./instagramGraphApi.js";
+import { RetryPolicy } from "./retryPolicy.js";
+
+// Registry of authenticated Instagram accounts, keyed by IG user id
+const DEFAULT_ACCOUNTS_FILE = "accounts.json";
+
+export interface StoredAccount {
+  id: string;
+  username: string;
+  name?: string;
+  picture?: string;
+  accessToken: string;
+  // Token lifetime, so it can be refreshed before Instagram expires it
+  tokenIssuedAt?: string;
+  tokenExpiresAt?: string;
+  scopes?: string[];
+  // Set while token refreshes keep failing; cleared by a successful one
+  tokenRefreshFailure?: TokenRefreshFailure;
+  updatedAt: string;
+}
+
+export interface TokenRefreshFailure {
+  // Failed attempts in a row
+  failures: number;
+  lastAttemptAt: string;
+  lastError: string;
+}
+
+// What tools may show to the agent: everything except the token
+export type AccountSummary = Omit<StoredAccount, "accessToken"> & {
+  isDefault: boolean;
+};
+
+interface AccountStoreDocument {
+  accounts: StoredAccount[];
+}
+
+// Called with the ID of each account stored or updated, e.g. after a token
+// refresh
+const accountListeners = new ChangeListeners<string>();
+
+export function onAccountChange(
+  listener: (accountId: string) => void
+): () => void {
+  return accountListeners.add(listener);
+}
+
+export function getAccountStorePath(): string {
+  return process.env.INSTAGRAM_CREDENTIALS_FILE
+    ? path.resolve(process.env.INSTAGRAM_CREDENTIALS_FILE)
+    : resolveDataPath(DEFAULT_ACCOUNTS_FILE);
+}
+
+// The auth server still writes a single user.json; pick it up so that logins
+// made through it keep working.
+function getLegacyUserFilePath(): string {
+  return process.env.INSTAGRAM_LEGACY_USER_FILE
+    ? path.resolve(process.env.INSTAGRAM_LEGACY_USER_FILE)
+    : path.resolve(process.cwd(), "../user.json");
+}
+
+function readLegacyAccount(): StoredAccount | undefined {
+  const legacyPath = getLegacyUserFilePath();
+  if (!fs.existsSync(legacyPath)) return undefined;
+  try {
+    const userData = JSON.parse(fs.readFileSync(legacyPath, "utf-8"));
+    if (!userData.id || !userData.accessToken) return undefined;
+    // user.json has no issue time; the file is written right after login
+    const writtenAt = fs.statSync(legacyPath).mtime;
+    const expiresIn = Number(userData.expiresIn);
+    return {
+      id: String(userData.id),
+      username: userData.username || String(userData.id),
+      name: userData.name,
+      picture: userData.picture,
+      accessToken: userData.accessToken,
+      tokenIssuedAt: writtenAt.toISOString(),
+      tokenExpiresAt:
+        expiresIn > 0
+          ? new Date(writtenAt.getTime() + expiresIn * 1000).toISOString()
+          : undefined,
+      updatedAt: writtenAt.toISOString(),
+    };
+  } catch (error) {
+    console.error(`Ignoring unreadable legacy user file ${legacyPath}:`, error);
+    return undefined;
+  }
+}
+
+function loadAccounts(): StoredAccount[] {
+  const accounts = readJsonFile<AccountStoreDocument>(getAccountStorePath(), {
+    accounts: [],
+  }).accounts;
+
+  const legacyAccount = readLegacyAccount();
+  if (legacyAccount) {
+    const existing = accounts.find((account) => account.id === legacyAccount.id);
+    if (!existing) {
+      accounts.push(legacyAccount);
+      saveAccounts(accounts);
+    } else if (
+      existing.accessToken !== legacyAccount.accessToken &&
+      Date.parse(legacyAccount.updatedAt) > Date.parse(existing.updatedAt)
+    ) {
+      Object.assign(existing, legacyAccount);
+      saveAccounts(accounts);
+    }
+  }
+  return accounts;
+}
+
+function saveAccounts(accounts: StoredAccount[]): void {
+  writeJsonFile(getAccountStorePath(), { accounts });
+}
+
+function normalizeAccountRef(ref: string): string {
+  return ref.trim().replace(/^@/, "").toLowerCase();
+}
+
+function getDefaultAccountRef(): string | undefined {
+  return process.env.INSTAGRAM_DEFAULT_ACCOUNT || undefined;
+}
+
+function findAccount(
+  accounts: StoredAccount[],
+  ref: string
+): StoredAccount | undefined {
+  const normalized = normalizeAccountRef(ref);
+  return accounts.find(
+    (account) =>
+      account.id === normalized ||
+      account.username.toLowerCase() === normalized
+  );
+}
+
+export function listAccounts(): AccountSummary[] {
+  const accounts = loadAccounts();
+  const defaultAccount = resolveDefault(accounts);
+  return accounts.map(({ accessToken, ...summary }) => ({
+    ...summary,
+    isDefault: summary.id === defaultAccount?.id,
+  }));
+}
+
+function resolveDefault(accounts: StoredAccount[]): StoredAccount | undefined {
+  const defaultRef = getDefaultAccountRef();
+  if (defaultRef) return findAccount(accounts, defaultRef);
+  return accounts.length === 1 ? accounts[0] : undefined;
+}
+
+// Resolves an `account` tool argument (IG user id or username) to a stored account
+export function resolveAccount(ref?: string): StoredAccount {
+  const accounts = loadAccounts();
+  if (accounts.length === 0) {
+    throw new InstagramApiError(
+      `No Instagram accounts are configured. Authenticate first; credentials are read from ${getAccountStorePath()}.`,
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+
+  const account = ref ? findAccount(accounts, ref) : resolveDefault(accounts);
+  if (!account) {
+    const known = accounts.map((a) => `@${a.username} (${a.id})`).join(", ");
+    throw new InstagramApiError(
+      ref
+        ? `Unknown Instagram account "${ref}". Known accounts: ${known}.`
+        : `Several Instagram accounts are configured; pass "account" or set INSTAGRAM_DEFAULT_ACCOUNT. Known accounts: ${known}.`,
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  return account;
+}
+
+export function getStoredAccounts(): StoredAccount[] {
+  return loadAccounts();
+}
+
+export function upsertAccount(
+  account: Omit<StoredAccount, "updatedAt">
+): StoredAccount {
+  const accounts = loadAccounts();
+  const stored: StoredAccount = {
+    ...account,
+    updatedAt: new Date().toISOString(),
+  };
+  const index = accounts.findIndex((existing) => existing.id === account.id);
+  if (index === -1) accounts.push(stored);
+  else accounts[index] = { ...accounts[index], ...stored };
+  saveAccounts(accounts);
+  accountListeners.notify(stored.id);
+  return stored;
+}
+
+export function createClientForAccount(
+  ref?: string,
+  retryPolicy?: Partial<RetryPolicy>
+): { account: StoredAccount; client: InstagramGraphClient } {
+  const account = resolveAccount(ref);
+  const client = new InstagramGraphClient({
+    igUserId: account.id,
+    accessToken: account.accessToken,
+    retryPolicy,
+  });
+  return { account, client };
+}
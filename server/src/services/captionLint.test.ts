@@ -0,0 +1,116 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  CaptionValidationError,
+  MAX_CAPTION_LENGTH,
+  analyzeCaption,
+  assertCaptionValid,
+  loadCaptionRules,
+} from "./captionLint.js";
+
+const codes = (caption: string, rules = {}) =>
+  analyzeCaption(caption, rules).problems.map(
+    (problem) => `${problem.severity}:${problem.code}`
+  );
+
+describe("analyzeCaption", () => {
+  it("collects hashtags and mentions, skipping e-mail addresses and URLs", () => {
+    const analysis = analyzeCaption(
+      "Sunset with @Jane.Doe. #Travel #travel #Été — mail me@example.com, see example.com/#anchor",
+      {}
+    );
+    expect(analysis).toMatchObject({
+      hashtags: ["travel", "été"],
+      mentions: ["jane.doe"],
+      hashtagCount: 3,
+      mentionCount: 1,
+      duplicateHashtags: ["travel"],
+    });
+    expect(codes("#a #a", {})).toEqual(["warning:duplicate_hashtag"]);
+  });
+
+  it("counts length in code points, as Instagram does", () => {
+    expect(analyzeCaption("👋🏽 hi", {}).length).toBe(5);
+    expect(codes("x".repeat(MAX_CAPTION_LENGTH))).toEqual([]);
+    expect(codes("x".repeat(MAX_CAPTION_LENGTH + 1))).toEqual([
+      "error:caption_too_long",
+    ]);
+  });
+
+  it("refuses more than 30 hashtags or 20 mentions, repeats included", () => {
+    expect(codes("#tag ".repeat(31))).toContain("error:too_many_hashtags");
+    expect(
+      codes(Array.from({ length: 21 }, (_, i) => `@user${i}`).join(" "))
+    ).toEqual(["error:too_many_mentions"]);
+  });
+
+  it("warns about banned hashtags unless the rules block them", () => {
+    const rules = { bannedHashtags: ["#Alone"] };
+    expect(codes("#alone again", rules)).toEqual(["warning:banned_hashtag"]);
+    expect(codes("#alone again", { ...rules, blockBannedHashtags: true })).toEqual([
+      "error:banned_hashtag",
+    ]);
+    expect(analyzeCaption("#ALONE", rules).bannedHashtags).toEqual(["alone"]);
+  });
+
+  it("warns about hashtags made only of digits", () => {
+    expect(codes("#2025 #y2025")).toEqual(["warning:numeric_hashtag"]);
+  });
+});
+
+describe("assertCaptionValid", () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "caption-test-"));
+    process.env.INSTAGRAM_MCP_DATA_DIR = dataDir;
+    fs.writeFileSync(
+      path.join(dataDir, "caption-rules.json"),
+      JSON.stringify({ bannedHashtags: ["alone"] })
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+    delete process.env.INSTAGRAM_MCP_DATA_DIR;
+  });
+
+  it("returns the warnings from the rules file", () => {
+    expect(assertCaptionValid("#alone").problems).toEqual([
+      expect.objectContaining({ severity: "warning", code: "banned_hashtag" }),
+    ]);
+  });
+
+  it("refuses a rules file with the wrong shape", () => {
+    const rulesFile = path.join(dataDir, "caption-rules.json");
+    fs.writeFileSync(rulesFile, JSON.stringify({ bannedHashtags: "alone" }));
+    expect(() => loadCaptionRules()).toThrow(
+      `Caption rules in ${rulesFile} need bannedHashtags as a list of strings.`
+    );
+
+    fs.writeFileSync(rulesFile, JSON.stringify(["alone"]));
+    expect(() => assertCaptionValid("#alone")).toThrow(
+      `Caption rules in ${rulesFile} must be a JSON object.`
+    );
+  });
+
+  it("throws with every problem when there is an error", () => {
+    let error: unknown;
+    try {
+      assertCaptionValid(`${"#alone ".repeat(31)}`);
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(CaptionValidationError);
+    const { message, captionProblems } = error as CaptionValidationError;
+    expect(message).toBe(
+      "Caption failed validation: Caption has 31 hashtags; the limit is 30"
+    );
+    expect(captionProblems.map((problem) => problem.code)).toEqual([
+      "too_many_hashtags",
+      "banned_hashtag",
+      "duplicate_hashtag",
+    ]);
+  });
+});
@@ -0,0 +1,202 @@
+import * as path from "path";
+import {
+  InstagramApiError,
+  InstagramErrorType,
+} from "./instagramGraphApi.js";
+import { resolveDataPath } from "../utils/dataDir.js";
+import { readJsonFile } from "../utils/jsonFile.js";
+
+// Caption checks run before any post: Instagram rejects captions over its
+// limits, and banned hashtags quietly hide a post from hashtag pages.
+
+export const MAX_CAPTION_LENGTH = 2200;
+export const MAX_HASHTAGS = 30;
+export const MAX_MENTIONS = 20;
+
+const DEFAULT_RULES_FILE = "caption-rules.json";
+
+export type CaptionProblemSeverity = "error" | "warning";
+
+export interface CaptionProblem {
+  severity: CaptionProblemSeverity;
+  code: string;
+  message: string;
+}
+
+export interface CaptionAnalysis {
+  // Characters as Instagram counts them (Unicode code points)
+  length: number;
+  // Unique tags in order of first use, lower-cased, without # or @
+  hashtags: string[];
+  mentions: string[];
+  // Every occurrence, duplicates included; the limits apply to these
+  hashtagCount: number;
+  mentionCount: number;
+  duplicateHashtags: string[];
+  bannedHashtags: string[];
+  problems: CaptionProblem[];
+}
+
+// Contents of the rules file
+export interface CaptionRules {
+  bannedHashtags?: string[];
+  // Refuse to post captions with banned hashtags instead of warning
+  blockBannedHashtags?: boolean;
+}
+
+// Carries every problem found; the message lists the errors
+export class CaptionValidationError extends InstagramApiError {
+  constructor(public captionProblems: CaptionProblem[]) {
+    super(
+      `Caption failed validation: ${captionProblems
+        .filter((problem) => problem.severity === "error")
+        .map((problem) => problem.message)
+        .join("; ")}`,
+      InstagramErrorType.INVALID_REQUEST
+    );
+    this.name = "CaptionValidationError";
+  }
+}
+
+// A # or @ only starts a tag after whitespace, punctuation or the start of
+// the caption, so e-mail addresses and URL fragments are not counted
+const HASHTAG_PATTERN = /(?<![\p{L}\p{N}_&/])#([\p{L}\p{M}\p{N}_]+)/gu;
+const MENTION_PATTERN = /(?<![\p{L}\p{N}_.@/])@([A-Za-z0-9._]{1,30})/gu;
+
+export function getCaptionRulesPath(): string {
+  return process.env.INSTAGRAM_CAPTION_RULES_FILE
+    ? path.resolve(process.env.INSTAGRAM_CAPTION_RULES_FILE)
+    : resolveDataPath(DEFAULT_RULES_FILE);
+}
+
+function invalidRules(message: string) {
+  return new InstagramApiError(
+    `Caption rules in ${getCaptionRulesPath()} ${message}`,
+    InstagramErrorType.INVALID_REQUEST
+  );
+}
+
+// Read on every call so edits to the file apply without a restart. A file
+// with the wrong shape is refused rather than half-applied.
+export function loadCaptionRules(): CaptionRules {
+  const rules = readJsonFile<CaptionRules>(getCaptionRulesPath(), {});
+  if (!rules || typeof rules !== "object" || Array.isArray(rules)) {
+    throw invalidRules("must be a JSON object.");
+  }
+  if (
+    rules.bannedHashtags !== undefined &&
+    (!Array.isArray(rules.bannedHashtags) ||
+      rules.bannedHashtags.some((tag) => typeof tag !== "string"))
+  ) {
+    throw invalidRules("need bannedHashtags as a list of strings.");
+  }
+  if (
+    rules.blockBannedHashtags !== undefined &&
+    typeof rules.blockBannedHashtags !== "boolean"
+  ) {
+    throw invalidRules("need blockBannedHashtags as true or false.");
+  }
+  return rules;
+}
+
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^[#@]/, "").toLowerCase();
+}
+
+function collectMatches(caption: string, pattern: RegExp): string[] {
+  // Usernames can't end with a period, so one there ends the sentence
+  return Array.from(caption.matchAll(pattern), (match) =>
+    match[1].replace(/\.+$/, "").toLowerCase()
+  ).filter(Boolean);
+}
+
+export function analyzeCaption(
+  caption: string | undefined,
+  rules: CaptionRules = loadCaptionRules()
+): CaptionAnalysis {
+  const text = caption || "";
+  const problems: CaptionProblem[] = [];
+  const report = (
+    severity: CaptionProblemSeverity,
+    code: string,
+    message: string
+  ) => problems.push({ severity, code, message });
+
+  const length = Array.from(text).length;
+  const allHashtags = collectMatches(text, HASHTAG_PATTERN);
+  const allMentions = collectMatches(text, MENTION_PATTERN);
+  const hashtags = [...new Set(allHashtags)];
+  const mentions = [...new Set(allMentions)];
+  const duplicateHashtags = hashtags.filter(
+    (tag) => allHashtags.indexOf(tag) !== allHashtags.lastIndexOf(tag)
+  );
+  const banned = new Set((rules.bannedHashtags || []).map(normalizeTag));
+  const bannedHashtags = hashtags.filter((tag) => banned.has(tag));
+
+  if (length > MAX_CAPTION_LENGTH) {
+    report(
+      "error",
+      "caption_too_long",
+      `Caption is ${length} characters; the limit is ${MAX_CAPTION_LENGTH}`
+    );
+  }
+  if (allHashtags.length > MAX_HASHTAGS) {
+    report(
+      "error",
+      "too_many_hashtags",
+      `Caption has ${allHashtags.length} hashtags; the limit is ${MAX_HASHTAGS}`
+    );
+  }
+  if (allMentions.length > MAX_MENTIONS) {
+    report(
+      "error",
+      "too_many_mentions",
+      `Caption has ${allMentions.length} mentions; the limit is ${MAX_MENTIONS}`
+    );
+  }
+  if (bannedHashtags.length > 0) {
+    report(
+      rules.blockBannedHashtags ? "error" : "warning",
+      "banned_hashtag",
+      `Banned hashtags: ${bannedHashtags.map((tag) => `#${tag}`).join(", ")}; posts using them may be hidden from hashtag pages`
+    );
+  }
+  if (duplicateHashtags.length > 0) {
+    report(
+      "warning",
+      "duplicate_hashtag",
+      `Repeated hashtags: ${duplicateHashtags.map((tag) => `#${tag}`).join(", ")}; each repeat still counts towards the ${MAX_HASHTAGS} limit`
+    );
+  }
+  const numericHashtags = hashtags.filter((tag) => /^\d+$/.test(tag));
+  if (numericHashtags.length > 0) {
+    report(
+      "warning",
+      "numeric_hashtag",
+      `Hashtags made only of digits are not linked: ${numericHashtags.map((tag) => `#${tag}`).join(", ")}`
+    );
+  }
+
+  return {
+    length,
+    hashtags,
+    mentions,
+    hashtagCount: allHashtags.length,
+    mentionCount: allMentions.length,
+    duplicateHashtags,
+    bannedHashtags,
+    problems,
+  };
+}
+
+// Run by the post tools: throws on errors, so the problems left in the
+// returned analysis are all warnings
+export function assertCaptionValid(
+  caption: string | undefined
+): CaptionAnalysis {
+  const analysis = analyzeCaption(caption);
+  if (analysis.problems.some((problem) => problem.severity === "error")) {
+    throw new CaptionValidationError(analysis.problems);
+  }
+  return analysis;
+}
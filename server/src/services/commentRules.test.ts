@@ -0,0 +1,64 @@
+import { CommentRule, compileCommentRules } from "./commentRules.js";
+
+const RULES_FILE = "/config/comment-rules.json";
+
+describe("compileCommentRules", () => {
+  beforeEach(() => {
+    process.env.INSTAGRAM_COMMENT_RULES_FILE = RULES_FILE;
+  });
+
+  afterEach(() => {
+    delete process.env.INSTAGRAM_COMMENT_RULES_FILE;
+  });
+
+  const compile = (...rules: CommentRule[]) => compileCommentRules({ rules });
+
+  it("matches keywords as whole words, ignoring case", () => {
+    const matchRule = compile({ name: "spam", keywords: ["free followers"], action: "hide" });
+    expect(matchRule("Get FREE Followers now")).toMatchObject({
+      rule: { name: "spam" },
+      matched: "FREE Followers",
+    });
+    expect(matchRule("free followersss")).toBeUndefined();
+  });
+
+  it("lets the first matching rule decide", () => {
+    const matchRule = compile(
+      { name: "links", pattern: "https?://", action: "delete" },
+      { name: "promo", keywords: ["promo"], action: "hide" }
+    );
+    expect(matchRule("promo at https://example.com")!.rule.name).toBe("links");
+    expect(matchRule("promo code")!.rule.name).toBe("promo");
+  });
+
+  it("drops the g flag so every comment is tested from the start", () => {
+    const matchRule = compile({ name: "caps", pattern: "BUY", flags: "g", action: "hide" });
+    expect(matchRule("BUY")).toBeDefined();
+    expect(matchRule("BUY")).toBeDefined();
+    expect(matchRule("buy")).toBeUndefined();
+  });
+
+  it.each<[string, unknown, string]>([
+    ["no name", { keywords: ["a"], action: "hide" }, "#1 in /config/comment-rules.json needs a name."],
+    ["an unknown action", { name: "r", keywords: ["a"], action: "ban" }, '"r" in /config/comment-rules.json has action "ban"; use one of hide, delete, reply.'],
+    ["a reply action without text", { name: "r", keywords: ["a"], action: "reply" }, "needs the reply text to post."],
+    ["no keywords or pattern", { name: "r", keywords: [" "], action: "hide" }, "needs keywords or a pattern."],
+    ["keywords that are not strings", { name: "r", keywords: ["a", 5], action: "hide" }, "needs keywords as a list of strings."],
+    ["keywords that are not a list", { name: "r", keywords: "spam", action: "hide" }, "needs keywords as a list of strings."],
+    ["a pattern that is not a string", { name: "r", pattern: 5, action: "hide" }, "needs the pattern as a string."],
+    ["an invalid pattern", { name: "r", pattern: "(", action: "hide" }, "has an invalid pattern"],
+  ])("refuses a rule with %s", (_, rule, message) => {
+    expect(() => compile(rule as CommentRule)).toThrow(
+      expect.objectContaining({
+        type: "INVALID_REQUEST",
+        message: expect.stringContaining(message),
+      })
+    );
+  });
+
+  it("refuses an empty rules file", () => {
+    expect(() => compileCommentRules({})).toThrow(
+      `No comment rules found in ${RULES_FILE}.`
+    );
+  });
+});
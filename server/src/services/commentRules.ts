@@ -0,0 +1,147 @@
+import * as path from "path";
+import {
+  InstagramApiError,
+  InstagramErrorType,
+} from "./instagramGraphApi.js";
+import { resolveDataPath } from "../utils/dataDir.js";
+import { readJsonFile } from "../utils/jsonFile.js";
+
+// Rules for instagram-moderate-comments: each names the words or pattern to
+// look for in a comment and what to do with a comment that has them.
+
+const DEFAULT_RULES_FILE = "comment-rules.json";
+
+export type CommentRuleAction = "hide" | "delete" | "reply";
+
+const RULE_ACTIONS: CommentRuleAction[] = ["hide", "delete", "reply"];
+
+export interface CommentRule {
+  name: string;
+  // Words or phrases matched case-insensitively as whole words
+  keywords?: string[];
+  // A regular expression tested against the comment text
+  pattern?: string;
+  // Flags for pattern; "i" when omitted
+  flags?: string;
+  action: CommentRuleAction;
+  // Text posted by the reply action
+  reply?: string;
+}
+
+// Contents of the rules file
+export interface CommentRules {
+  rules?: CommentRule[];
+}
+
+export interface CommentRuleMatch {
+  rule: CommentRule;
+  // The part of the comment that matched
+  matched: string;
+}
+
+interface CompiledCommentRule {
+  rule: CommentRule;
+  patterns: RegExp[];
+}
+
+export function getCommentRulesPath(): string {
+  return process.env.INSTAGRAM_COMMENT_RULES_FILE
+    ? path.resolve(process.env.INSTAGRAM_COMMENT_RULES_FILE)
+    : resolveDataPath(DEFAULT_RULES_FILE);
+}
+
+// Read on every call so edits to the file apply without a restart
+export function loadCommentRules(): CommentRules {
+  return readJsonFile<CommentRules>(getCommentRulesPath(), {});
+}
+
+function invalidRule(index: number, rule: CommentRule, message: string) {
+  return new InstagramApiError(
+    `Comment rule ${rule?.name ? `"${rule.name}"` : `#${index + 1}`} in ${getCommentRulesPath()} ${message}`,
+    InstagramErrorType.INVALID_REQUEST
+  );
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// A keyword only matches between non-word characters, so "ass" does not
+// match "class"
+function keywordPattern(keyword: string): RegExp {
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}_])${escapeRegExp(keyword.trim())}(?![\\p{L}\\p{N}_])`,
+    "iu"
+  );
+}
+
+function compileRule(rule: CommentRule, index: number): CompiledCommentRule {
+  if (!rule || typeof rule.name !== "string" || !rule.name.trim()) {
+    throw invalidRule(index, rule, "needs a name.");
+  }
+  if (!RULE_ACTIONS.includes(rule.action)) {
+    throw invalidRule(
+      index,
+      rule,
+      `has action "${rule.action}"; use one of ${RULE_ACTIONS.join(", ")}.`
+    );
+  }
+  if (rule.action === "reply" && !rule.reply?.trim()) {
+    throw invalidRule(index, rule, "needs the reply text to post.");
+  }
+  if (
+    rule.keywords !== undefined &&
+    (!Array.isArray(rule.keywords) ||
+      rule.keywords.some((keyword) => typeof keyword !== "string"))
+  ) {
+    throw invalidRule(index, rule, "needs keywords as a list of strings.");
+  }
+  if (rule.pattern !== undefined && typeof rule.pattern !== "string") {
+    throw invalidRule(index, rule, "needs the pattern as a string.");
+  }
+  const keywords = (rule.keywords || []).filter((keyword) => keyword.trim());
+  if (keywords.length === 0 && !rule.pattern) {
+    throw invalidRule(index, rule, "needs keywords or a pattern.");
+  }
+
+  const patterns = keywords.map(keywordPattern);
+  if (rule.pattern) {
+    try {
+      // g and y would make each test start where the last one stopped
+      const flags = (rule.flags ?? "i").replace(/[gy]/g, "");
+      patterns.push(new RegExp(rule.pattern, flags));
+    } catch (error: any) {
+      throw invalidRule(
+        index,
+        rule,
+        `has an invalid pattern: ${error.message}`
+      );
+    }
+  }
+  return { rule, patterns };
+}
+
+// Checks every rule up front, so a mistake in the file stops the run before
+// any comment is touched
+export function compileCommentRules(
+  rules: CommentRules = loadCommentRules()
+): (text: string) => CommentRuleMatch | undefined {
+  if (!rules.rules || rules.rules.length === 0) {
+    throw new InstagramApiError(
+      `No comment rules found in ${getCommentRulesPath()}.`,
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  const compiled = rules.rules.map(compileRule);
+
+  // The first rule that matches decides what happens to a comment
+  return (text) => {
+    for (const { rule, patterns } of compiled) {
+      for (const pattern of patterns) {
+        const match = pattern.exec(text);
+        if (match) return { rule, matched: match[0] };
+      }
+    }
+    return undefined;
+  };
+}
@@ -0,0 +1,127 @@
+import sharp from "sharp";
+import { autoFixImage, convertImage } from "./imageConversion.js";
+import { MediaSource } from "./mediaHosting.js";
+import { getImageSpec } from "./mediaInspection.js";
+
+const feedSpec = getImageSpec("image");
+
+function blank(width: number, height: number, channels: 3 | 4 = 3) {
+  return sharp({
+    create: {
+      width,
+      height,
+      channels,
+      background: { r: 200, g: 40, b: 40, alpha: 0.5 },
+    },
+  });
+}
+
+const localSource = (data: Buffer, fileName: string): MediaSource => ({
+  kind: "local",
+  media: {
+    data,
+    contentType: fileName.endsWith(".png") ? "image/png" : "image/jpeg",
+    fileName,
+  },
+});
+
+describe("convertImage", () => {
+  it("pads a tall transparent PNG into an sRGB JPEG", async () => {
+    const png = await blank(400, 1000, 4).png().toBuffer();
+    const converted = await convertImage(png, feedSpec, { padColor: "#000000" });
+
+    expect(converted).toMatchObject({ width: 800, height: 1000 });
+    expect(converted.changes).toEqual([
+      "Converted PNG to JPEG",
+      "Flattened transparency onto white",
+      "Padded 400x1000 to 800x1000",
+    ]);
+    const output = await sharp(converted.data).metadata();
+    expect(output).toMatchObject({
+      format: "jpeg",
+      width: 800,
+      height: 1000,
+      space: "srgb",
+      hasAlpha: false,
+    });
+    expect(output.icc).toBeDefined();
+    // The bars take the pad colour
+    const { data } = await sharp(converted.data)
+      .extract({ left: 0, top: 500, width: 1, height: 1 })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    expect(Math.max(...data)).toBeLessThan(20);
+  });
+
+  it("crops a wide image to the widest ratio allowed", async () => {
+    const jpeg = await blank(1000, 400).jpeg().toBuffer();
+    const converted = await convertImage(jpeg, feedSpec, {
+      aspectPolicy: "center-crop",
+    });
+    expect(converted).toMatchObject({ width: 764, height: 400 });
+    expect(converted.changes).toEqual(["Center-cropped 1000x400 to 764x400"]);
+    expect(await sharp(converted.data).metadata()).toMatchObject({
+      width: 764,
+      height: 400,
+    });
+  });
+
+  it("applies the EXIF orientation and fits the width", async () => {
+    const jpeg = await blank(1000, 1800)
+      .jpeg()
+      .withMetadata({ orientation: 6 })
+      .toBuffer();
+    const converted = await convertImage(jpeg, feedSpec);
+    expect(converted.changes).toEqual([
+      "Applied the EXIF orientation",
+      "Resized 1800x1000 to 1440x800",
+    ]);
+    const output = await sharp(converted.data).metadata();
+    expect(output).toMatchObject({ width: 1440, height: 800 });
+    expect(output.orientation ?? 1).toBe(1);
+  });
+
+  it("lowers the JPEG quality until the file fits", async () => {
+    const converted = await convertImage(
+      await blank(400, 400).jpeg().toBuffer(),
+      { ...feedSpec, maxBytes: 1 }
+    );
+    expect(converted.changes).toEqual([
+      "Encoded at JPEG quality 66 to fit the size limit",
+    ]);
+  });
+});
+
+describe("autoFixImage", () => {
+  it("leaves an image without fixable problems alone", async () => {
+    const source = localSource(
+      await blank(1080, 1080).withIccProfile("srgb").jpeg().toBuffer(),
+      "square.jpg"
+    );
+    const result = await autoFixImage({ field: "imageUrl", source, target: "image" });
+    expect(result).toEqual({ source });
+  });
+
+  it("replaces a failing image with a converted local JPEG", async () => {
+    const source = localSource(await blank(400, 1000).png().toBuffer(), "photo.png");
+    const result = await autoFixImage(
+      { field: "imageUrl", source, target: "image" },
+      { aspectPolicy: "center-crop" }
+    );
+
+    expect(result.fix).toEqual({
+      field: "imageUrl",
+      changes: ["Converted PNG to JPEG", "Center-cropped 400x1000 to 400x500"],
+    });
+    expect(result.source).toMatchObject({
+      kind: "local",
+      media: { contentType: "image/jpeg", fileName: "photo.jpg" },
+    });
+    const media = (result.source as Extract<MediaSource, { kind: "local" }>).media;
+    expect(await sharp(media.data).metadata()).toMatchObject({
+      format: "jpeg",
+      width: 400,
+      height: 500,
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import * as path from "path";
+import sharp from "sharp";
+import { LocalMedia, MediaSource } from "./mediaHosting.js";
+import {
+  ImageSpec,
+  MediaToInspect,
+  getImageSpec,
+  inspectMedia,
+} from "./mediaInspection.js";
+import { createHttpByteSource } from "../utils/byteSource.js";
+
+// Opt-in repair of images that fail Instagram's checks: re-encode as sRGB
+// JPEG, bring the aspect ratio into range and fit the width and file size.
+
+function logInfo(context: string, data: any) {
+  console.error(`[INFO] ImageConversion - ${context}:`, data);
+}
+
+// How an out-of-range aspect ratio is brought into range: "pad" adds bars,
+// "center-crop" cuts equally from both sides, "smart-crop" keeps the most
+// salient region
+export type AspectPolicy = "pad" | "center-crop" | "smart-crop";
+
+export interface ImageFixOptions {
+  aspectPolicy?: AspectPolicy;
+  // Bar colour for the pad policy (default white)
+  padColor?: string;
+}
+
+export interface MediaFix {
+  field: string;
+  changes: string[];
+}
+
+// Problems a re-encode can solve; anything else is left to validation
+const FIXABLE_PROBLEMS = new Set([
+  "unsupported_format",
+  "aspect_ratio",
+  "resolution",
+  "color_space",
+  "file_too_large",
+]);
+
+// Sources bigger than this are not worth downloading to shrink
+const MAX_SOURCE_BYTES = 50 * 1024 * 1024;
+const JPEG_QUALITIES = [90, 82, 74, 66];
+
+function ratioLabel(width: number, height: number): string {
+  return `${width}x${height}`;
+}
+
+async function readSourceBytes(source: MediaSource): Promise<Buffer> {
+  if (source.kind === "local") return source.media.data;
+  const bytes = await createHttpByteSource(source.url, MAX_SOURCE_BYTES);
+  return bytes.read(0, bytes.size);
+}
+
+// Returns the target canvas for the aspect ratio limits, or undefined when
+// the image is already within them
+function fitAspectRatio(
+  width: number,
+  height: number,
+  spec: ImageSpec,
+  policy: AspectPolicy
+): { width: number; height: number } | undefined {
+  const ratio = width / height;
+  const { minAspectRatio = 0, maxAspectRatio = Infinity } = spec;
+  const target =
+    ratio < minAspectRatio
+      ? minAspectRatio
+      : ratio > maxAspectRatio
+        ? maxAspectRatio
+        : undefined;
+  if (!target) return undefined;
+
+  if (policy === "pad") {
+    // Grow the short side
+    return ratio < target
+      ? { width: Math.round(height * target), height }
+      : { width, height: Math.round(width / target) };
+  }
+  // Shrink the long side
+  return ratio < target
+    ? { width, height: Math.round(width / target) }
+    : { width: Math.round(height * target), height };
+}
+
+// sourceProfile is the embedded ICC profile's description, if known
+export async function convertImage(
+  data: Buffer,
+  spec: ImageSpec,
+  options: ImageFixOptions = {},
+  sourceProfile?: string
+): Promise<{ data: Buffer; width: number; height: number; changes: string[] }> {
+  const policy = options.aspectPolicy || "pad";
+  const changes: string[] = [];
+  const metadata = await sharp(data).metadata();
+  const orientation = metadata.orientation || 1;
+
+  // rotate() applies the EXIF orientation, so work in displayed dimensions
+  let width = (orientation >= 5 ? metadata.height : metadata.width) || 0;
+  let height = (orientation >= 5 ? metadata.width : metadata.height) || 0;
+  let pipeline = sharp(data).rotate();
+  if (orientation !== 1) changes.push("Applied the EXIF orientation");
+
+  if (metadata.format !== "jpeg") {
+    changes.push(`Converted ${String(metadata.format).toUpperCase()} to JPEG`);
+  }
+  if (metadata.space && metadata.space !== "srgb") {
+    changes.push(`Converted the ${metadata.space} colour space to sRGB`);
+  } else if (sourceProfile && !/srgb/i.test(sourceProfile)) {
+    changes.push(`Converted the "${sourceProfile}" colour profile to sRGB`);
+  }
+  if (metadata.hasAlpha) {
+    changes.push("Flattened transparency onto white");
+  }
+
+  const canvas = fitAspectRatio(width, height, spec, policy);
+  if (canvas) {
+    const before = ratioLabel(width, height);
+    pipeline = sharp(
+      await pipeline
+        .resize({
+          width: canvas.width,
+          height: canvas.height,
+          fit: policy === "pad" ? "contain" : "cover",
+          position: policy === "smart-crop" ? sharp.strategy.attention : "centre",
+          background: options.padColor || "#ffffff",
+        })
+        .toBuffer()
+    );
+    changes.push(
+      `${policy === "pad" ? "Padded" : policy === "smart-crop" ? "Smart-cropped" : "Center-cropped"} ${before} to ${ratioLabel(canvas.width, canvas.height)}`
+    );
+    width = canvas.width;
+    height = canvas.height;
+  }
+
+  const targetWidth =
+    spec.maxWidth && width > spec.maxWidth
+      ? spec.maxWidth
+      : spec.minWidth && width < spec.minWidth
+        ? spec.minWidth
+        : undefined;
+  if (targetWidth) {
+    const targetHeight = Math.round((height * targetWidth) / width);
+    pipeline = pipeline.resize({ width: targetWidth, height: targetHeight });
+    changes.push(
+      `Resized ${ratioLabel(width, height)} to ${ratioLabel(targetWidth, targetHeight)}`
+    );
+    width = targetWidth;
+    height = targetHeight;
+  }
+
+  const prepared = await pipeline
+    .flatten({ background: "#ffffff" })
+    .toColourspace("srgb")
+    .toBuffer();
+  // Step the quality down until the file fits
+  const encode = (quality: number) =>
+    sharp(prepared).jpeg({ quality, mozjpeg: true }).withIccProfile("srgb").toBuffer();
+  let quality = JPEG_QUALITIES[0];
+  let output = await encode(quality);
+  for (const lower of JPEG_QUALITIES.slice(1)) {
+    if (output.length <= spec.maxBytes) break;
+    quality = lower;
+    output = await encode(quality);
+  }
+  if (quality !== JPEG_QUALITIES[0]) {
+    changes.push(`Encoded at JPEG quality ${quality} to fit the size limit`);
+  }
+  return { data: output, width, height, changes };
+}
+
+// Inspects the image and, if it has problems a re-encode can solve, returns
+// a converted local copy in place of the original source
+export async function autoFixImage(
+  item: MediaToInspect,
+  options: ImageFixOptions = {}
+): Promise<{ source: MediaSource; fix?: MediaFix }> {
+  const inspection = await inspectMedia(item);
+  if (!inspection.problems.some((problem) => FIXABLE_PROBLEMS.has(problem.code))) {
+    return { source: item.source };
+  }
+
+  const spec = getImageSpec(item.target);
+  const converted = await convertImage(
+    await readSourceBytes(item.source),
+    spec,
+    options,
+    inspection.image?.iccProfile
+  );
+  if (converted.changes.length === 0) {
+    return { source: item.source };
+  }
+
+  const originalName =
+    item.source.kind === "local"
+      ? item.source.media.fileName
+      : path.basename(new URL(item.source.url).pathname) || "image";
+  const media: LocalMedia = {
+    data: converted.data,
+    contentType: "image/jpeg",
+    fileName: `${path.parse(originalName).name || "image"}.jpg`,
+  };
+  logInfo("Converted", { field: item.field, changes: converted.changes });
+  return {
+    source: { kind: "local", media },
+    fix: { field: item.field, changes: converted.changes },
+  };
+}
@@ -0,0 +1,83 @@
+import type { Response } from "node-fetch";
+import type { ApiUsage, RetryEvent } from "./retryPolicy.js";
+
+// Error types shared by the Graph API client and the retry policy, kept apart
+// from both so neither has to import the other for them.
+export enum InstagramErrorType {
+  EXPIRED_TOKEN = "EXPIRED_TOKEN",
+  INVALID_TOKEN = "INVALID_TOKEN",
+  INSUFFICIENT_SCOPE = "INSUFFICIENT_SCOPE",
+  RATE_LIMIT = "RATE_LIMIT",
+  INVALID_REQUEST = "INVALID_REQUEST",
+  NETWORK_ERROR = "NETWORK_ERROR",
+  UNKNOWN_ERROR = "UNKNOWN_ERROR",
+}
+
+export class InstagramApiError extends Error {
+  // Usage headers of the failed response, used to pace retries
+  public usage?: ApiUsage;
+  // Retries that happened before the operation finally failed
+  public retries?: RetryEvent[];
+
+  constructor(
+    message: string,
+    public type: InstagramErrorType,
+    public statusCode?: number,
+    public fbTraceId?: string,
+    public originalError?: unknown
+  ) {
+    super(message);
+    this.name = "InstagramApiError";
+  }
+}
+
+// Graph API error codes and the error type each one maps to. Codes that are
+// not listed are treated as INVALID_REQUEST.
+const ERROR_CODE_TYPES: Record<number, InstagramErrorType> = {
+  190: InstagramErrorType.EXPIRED_TOKEN,
+  100: InstagramErrorType.INSUFFICIENT_SCOPE,
+  200: InstagramErrorType.INSUFFICIENT_SCOPE,
+  4: InstagramErrorType.RATE_LIMIT,
+  17: InstagramErrorType.RATE_LIMIT,
+};
+
+export function classifyErrorCode(code: number | undefined): InstagramErrorType {
+  if (code === undefined) return InstagramErrorType.INVALID_REQUEST;
+  return ERROR_CODE_TYPES[code] || InstagramErrorType.INVALID_REQUEST;
+}
+
+export function handleInstagramError(
+  error: any,
+  response?: Response
+): InstagramApiError {
+  if (error instanceof InstagramApiError) {
+    return error;
+  }
+  if (error && error.error && typeof error.error === "object") {
+    // Likely an Instagram API error structure
+    const igError = error.error;
+    return new InstagramApiError(
+      igError.message || "Instagram API error",
+      classifyErrorCode(igError.code),
+      igError.code,
+      igError.fbtrace_id,
+      error
+    );
+  }
+  if (response && !response.ok) {
+    return new InstagramApiError(
+      error?.message || `HTTP error ${response.status}`,
+      InstagramErrorType.NETWORK_ERROR,
+      response.status,
+      undefined,
+      error
+    );
+  }
+  return new InstagramApiError(
+    error?.message || "Unknown error",
+    InstagramErrorType.UNKNOWN_ERROR,
+    undefined,
+    undefined,
+    error
+  );
+}
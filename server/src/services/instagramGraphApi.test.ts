@@ -0,0 +1,130 @@
+import {
+  StubResponse,
+  useGraphApiStub,
+} from "../tools/__fixtures__/toolTestSetup.js";
+import {
+  InstagramGraphClient,
+  getGraphApiBaseUrl,
+} from "./instagramGraphApi.js";
+
+describe("InstagramGraphClient", () => {
+  // Responses to the container status checks, in order; the last one repeats
+  let statusResponses: StubResponse[];
+  let statusChecks: number;
+
+  useGraphApiStub(() => {
+    const response =
+      statusResponses[Math.min(statusChecks, statusResponses.length - 1)];
+    statusChecks++;
+    return response;
+  });
+
+  const status = (statusCode: string): StubResponse => ({
+    body: { id: "container-1", status_code: statusCode },
+  });
+
+  let client: InstagramGraphClient;
+
+  beforeEach(() => {
+    statusChecks = 0;
+    client = new InstagramGraphClient({
+      igUserId: "17841405822304914",
+      accessToken: "secret-token",
+      retryPolicy: { maxAttempts: 1 },
+    });
+  });
+
+  describe("waitForContainerReady", () => {
+    it("polls until the container is FINISHED", async () => {
+      statusResponses = [
+        status("IN_PROGRESS"),
+        status("IN_PROGRESS"),
+        status("FINISHED"),
+      ];
+      const polls: string[] = [];
+      await client.waitForContainerReady("container-1", {
+        pollIntervalMs: 10,
+        onPoll: (statusCode) => polls.push(statusCode),
+      });
+      expect(polls).toEqual(["IN_PROGRESS", "IN_PROGRESS", "FINISHED"]);
+    });
+
+    it("times out while the container is still processing", async () => {
+      statusResponses = [status("IN_PROGRESS")];
+      await expect(
+        client.waitForContainerReady("container-1", {
+          maxWaitTimeMs: 100,
+          pollIntervalMs: 30,
+        })
+      ).rejects.toMatchObject({
+        type: "UNKNOWN_ERROR",
+        message: "Media container processing timed out.",
+      });
+      expect(statusChecks).toBeGreaterThanOrEqual(2);
+    });
+
+    it("stops at once when processing fails", async () => {
+      statusResponses = [status("IN_PROGRESS"), status("ERROR")];
+      await expect(
+        client.waitForContainerReady("container-1", { pollIntervalMs: 10 })
+      ).rejects.toMatchObject({
+        type: "INVALID_REQUEST",
+        message: "Media container processing failed or expired. Status: ERROR",
+      });
+      expect(statusChecks).toBe(2);
+    });
+
+    it("keeps polling through network errors but not through API errors", async () => {
+      statusResponses = [{ status: 503, body: {} }, status("FINISHED")];
+      await client.waitForContainerReady("container-1", { pollIntervalMs: 10 });
+      expect(statusChecks).toBe(2);
+
+      statusChecks = 0;
+      statusResponses = [
+        {
+          status: 400,
+          body: {
+            error: {
+              message: "Unsupported get request",
+              type: "GraphMethodException",
+              code: 100,
+            },
+          },
+        },
+        status("FINISHED"),
+      ];
+      await expect(
+        client.waitForContainerReady("container-1", { pollIntervalMs: 10 })
+      ).rejects.toMatchObject({ message: "Unsupported get request" });
+      expect(statusChecks).toBe(1);
+    });
+  });
+
+  describe("describeRequest", () => {
+    it("redacts the access token from POST bodies and GET queries", () => {
+      const post = client.describeRequest("POST", "/17841405822304914/media", {
+        image_url: "https://example.com/a.jpg",
+        user_tags: [{ username: "friend", x: 0.5, y: 0.5 }],
+      });
+      expect(post).toEqual({
+        method: "POST",
+        url: `${getGraphApiBaseUrl()}/17841405822304914/media`,
+        body: {
+          image_url: "https://example.com/a.jpg",
+          user_tags: '[{"username":"friend","x":0.5,"y":0.5}]',
+          access_token: "REDACTED",
+        },
+      });
+
+      const get = client.describeRequest("GET", "/container-1", {
+        fields: "status_code",
+      });
+      expect(get).toEqual({
+        method: "GET",
+        url: `${getGraphApiBaseUrl()}/container-1?fields=status_code&access_token=REDACTED`,
+      });
+      expect(JSON.stringify([post, get])).not.toContain("secret-token");
+      expect(statusChecks).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,371 @@
+import fetch, { Response } from "node-fetch";
+import {
+  ApiUsage,
+  RetryEvent,
+  RetryPolicy,
+  isUsageAboveThreshold,
+  computeRetryDelay,
+  parseUsageHeaders,
+  resolveRetryPolicy,
+  sleep,
+  withRetry,
+} from "./retryPolicy.js";
+import {
+  InstagramApiError,
+  InstagramErrorType,
+  handleInstagramError,
+} from "./instagramErrors.js";
+
+export {
+  InstagramApiError,
+  InstagramErrorType,
+  classifyErrorCode,
+  handleInstagramError,
+} from "./instagramErrors.js";
+
+// Shared Instagram Graph API client used by every tool. The API version and
+// host are read lazily so values loaded from .env.local by index.ts apply.
+const DEFAULT_GRAPH_API_VERSION = "v19.0";
+const DEFAULT_GRAPH_API_HOST = "https://graph.instagram.com";
+
+export function getGraphApiVersion(): string {
+  return process.env.INSTAGRAM_GRAPH_API_VERSION || DEFAULT_GRAPH_API_VERSION;
+}
+
+export function getGraphApiHost(): string {
+  return (process.env.INSTAGRAM_GRAPH_API_HOST || DEFAULT_GRAPH_API_HOST).replace(
+    /\/+$/,
+    ""
+  );
+}
+
+export function getGraphApiBaseUrl(): string {
+  return `${getGraphApiHost()}/${getGraphApiVersion()}`;
+}
+
+function logDebug(context: string, data: any) {
+  console.error(`[DEBUG] InstagramGraphApi - ${context}:`, data);
+}
+
+function logError(context: string, error: any) {
+  console.error(`[ERROR] InstagramGraphApi - ${context}:`, error);
+}
+
+// Request and response types for the endpoints used by the tools
+export type MediaType = "IMAGE" | "VIDEO" | "REELS" | "CAROUSEL" | "STORIES";
+
+// A tagged account. x and y (0 to 1, from the top left) place the tag on an
+// image; tags on videos have no position.
+export interface UserTag {
+  username: string;
+  x?: number;
+  y?: number;
+}
+
+export type TrialGraduationStrategy = "MANUAL" | "SS_PERFORMANCE";
+
+export interface MediaContainerParams {
+  media_type?: MediaType;
+  image_url?: string;
+  video_url?: string;
+  caption?: string;
+  cover_url?: string;
+  share_to_feed?: boolean;
+  is_carousel_item?: boolean;
+  children?: string[];
+  // Milliseconds into the video for the Reel thumbnail
+  thumb_offset?: number;
+  audio_name?: string;
+  collaborators?: string[];
+  location_id?: string;
+  user_tags?: UserTag[];
+  trial_params?: { graduation_strategy: TrialGraduationStrategy };
+  // Accessibility text for images
+  alt_text?: string;
+}
+
+export interface MediaContainerResponse {
+  id: string;
+}
+
+export interface PublishResponse {
+  id: string;
+}
+
+export type ContainerStatusCode =
+  | "EXPIRED"
+  | "ERROR"
+  | "FINISHED"
+  | "IN_PROGRESS"
+  | "PUBLISHED";
+
+export interface MediaContainerStatusResponse {
+  status_code: ContainerStatusCode;
+  id: string;
+}
+
+export interface WaitForContainerOptions {
+  maxWaitTimeMs?: number;
+  pollIntervalMs?: number;
+  // Called with each status Instagram reports while the container processes
+  onPoll?: (statusCode: string, elapsedMs: number) => void;
+}
+
+export type GraphApiParams = Record<
+  string,
+  string | number | boolean | string[] | object | undefined
+>;
+
+export type GraphHttpMethod = "GET" | "POST" | "DELETE";
+
+// A request as the client would send it, with the access token redacted
+export interface GraphRequestPreview {
+  method: GraphHttpMethod;
+  url: string;
+  // Form fields of a POST, as encoded on the wire
+  body?: Record<string, string>;
+}
+
+const REDACTED_TOKEN = "REDACTED";
+
+export interface InstagramGraphClientOptions {
+  igUserId: string;
+  accessToken: string;
+  retryPolicy?: Partial<RetryPolicy>;
+  // Overrides getGraphApiBaseUrl(), for the Facebook Graph API endpoints
+  baseUrl?: string;
+}
+
+function toSearchParams(params: GraphApiParams): URLSearchParams {
+  const searchParams = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined) continue;
+    // Lists of strings are comma separated; structured values go as JSON
+    const encoded =
+      Array.isArray(value) && value.every((item) => typeof item === "string")
+        ? value.join(",")
+        : typeof value === "object"
+          ? JSON.stringify(value)
+          : String(value);
+    searchParams.append(key, encoded);
+  }
+  return searchParams;
+}
+
+export class InstagramGraphClient {
+  readonly igUserId: string;
+  readonly retryPolicy: RetryPolicy;
+  // Every retry and usage-based pause, reported back in the tool result
+  readonly retryEvents: RetryEvent[] = [];
+  private readonly accessToken: string;
+  private readonly baseUrl?: string;
+  private lastUsage?: ApiUsage;
+
+  constructor(options: InstagramGraphClientOptions) {
+    if (!options.igUserId || !options.accessToken) {
+      throw new InstagramApiError(
+        "An Instagram user ID and access token are required.",
+        InstagramErrorType.INVALID_REQUEST
+      );
+    }
+    this.igUserId = options.igUserId;
+    this.accessToken = options.accessToken;
+    this.baseUrl = options.baseUrl;
+    this.retryPolicy = resolveRetryPolicy(options.retryPolicy);
+  }
+
+  async get<T>(path: string, params: GraphApiParams = {}): Promise<T> {
+    const query = toSearchParams({ ...params, access_token: this.accessToken });
+    return this.requestWithRetry<T>("GET", path, `${path}?${query.toString()}`);
+  }
+
+  async post<T>(path: string, params: GraphApiParams = {}): Promise<T> {
+    const body = toSearchParams({ ...params, access_token: this.accessToken });
+    return this.requestWithRetry<T>("POST", path, path, body);
+  }
+
+  async delete<T>(path: string, params: GraphApiParams = {}): Promise<T> {
+    const query = toSearchParams({ ...params, access_token: this.accessToken });
+    return this.requestWithRetry<T>(
+      "DELETE",
+      path,
+      `${path}?${query.toString()}`
+    );
+  }
+
+  // Builds the URL and body get/post/delete would send, without sending
+  // anything
+  describeRequest(
+    method: GraphHttpMethod,
+    path: string,
+    params: GraphApiParams = {}
+  ): GraphRequestPreview {
+    const url = `${this.baseUrl || getGraphApiBaseUrl()}${path}`;
+    const encoded = toSearchParams({ ...params, access_token: REDACTED_TOKEN });
+    return method === "POST"
+      ? { method, url, body: Object.fromEntries(encoded) }
+      : { method, url: `${url}?${encoded.toString()}` };
+  }
+
+  async createMediaContainer(params: MediaContainerParams): Promise<string> {
+    const responseData = await this.post<MediaContainerResponse>(
+      `/${this.igUserId}/media`,
+      { ...params }
+    );
+    if (!responseData.id) {
+      throw new InstagramApiError(
+        "Media container ID not found in response.",
+        InstagramErrorType.UNKNOWN_ERROR
+      );
+    }
+    return responseData.id;
+  }
+
+  async getContainerStatus(
+    containerId: string
+  ): Promise<MediaContainerStatusResponse> {
+    return this.get<MediaContainerStatusResponse>(`/${containerId}`, {
+      fields: "status_code",
+    });
+  }
+
+  async waitForContainerReady(
+    containerId: string,
+    options: WaitForContainerOptions = {}
+  ): Promise<void> {
+    const { maxWaitTimeMs = 60000, pollIntervalMs = 3000, onPoll } = options;
+    const startTime = Date.now();
+    while (Date.now() - startTime < maxWaitTimeMs) {
+      try {
+        const statusResult = await this.getContainerStatus(containerId);
+        onPoll?.(statusResult.status_code, Date.now() - startTime);
+        // A resumed post may find its container already published
+        if (
+          statusResult.status_code === "FINISHED" ||
+          statusResult.status_code === "PUBLISHED"
+        ) {
+          return;
+        }
+        if (
+          statusResult.status_code === "ERROR" ||
+          statusResult.status_code === "EXPIRED"
+        ) {
+          throw new InstagramApiError(
+            `Media container processing failed or expired. Status: ${statusResult.status_code}`,
+            InstagramErrorType.INVALID_REQUEST
+          );
+        }
+        // status_code === "IN_PROGRESS" or others, continue polling
+      } catch (error) {
+        // Don't stop polling for transient network errors
+        if (
+          !(error instanceof InstagramApiError) ||
+          error.type !== InstagramErrorType.NETWORK_ERROR
+        ) {
+          throw handleInstagramError(error);
+        }
+        logError("Container Polling (will retry)", error);
+      }
+      await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+    }
+    throw new InstagramApiError(
+      "Media container processing timed out.",
+      InstagramErrorType.UNKNOWN_ERROR
+    );
+  }
+
+  async publishMediaContainer(creationId: string): Promise<string> {
+    const responseData = await this.post<PublishResponse>(
+      `/${this.igUserId}/media_publish`,
+      { creation_id: creationId }
+    );
+    if (!responseData.id) {
+      throw new InstagramApiError(
+        "Post ID not found in publish response.",
+        InstagramErrorType.UNKNOWN_ERROR
+      );
+    }
+    return responseData.id;
+  }
+
+  private async requestWithRetry<T>(
+    method: GraphHttpMethod,
+    path: string,
+    pathWithQuery: string,
+    body?: URLSearchParams
+  ): Promise<T> {
+    const operation = `${method} ${path}`;
+    return withRetry(
+      operation,
+      async () => {
+        await this.throttleIfNeeded(operation);
+        return this.request<T>(method, pathWithQuery, body);
+      },
+      this.retryPolicy,
+      (event) => {
+        console.error(
+          `[INFO] InstagramGraphApi - Retry:`,
+          `${event.operation} attempt ${event.attempt} failed (${event.reason}), retrying in ${event.delayMs}ms`
+        );
+        this.retryEvents.push(event);
+      }
+    );
+  }
+
+  // Pause before the next call when the last response reported high usage
+  private async throttleIfNeeded(operation: string): Promise<void> {
+    if (!isUsageAboveThreshold(this.lastUsage, this.retryPolicy)) return;
+    const delayMs = Math.min(
+      this.retryPolicy.maxDelayMs,
+      computeRetryDelay(this.retryPolicy, 1, this.lastUsage)
+    );
+    this.retryEvents.push({
+      kind: "throttle",
+      operation,
+      attempt: 0,
+      delayMs,
+      reason: `API usage above ${this.retryPolicy.usageThresholdPercent}%`,
+      at: new Date().toISOString(),
+    });
+    this.lastUsage = undefined;
+    await sleep(delayMs);
+  }
+
+  private async request<T>(
+    method: GraphHttpMethod,
+    pathWithQuery: string,
+    body?: URLSearchParams
+  ): Promise<T> {
+    const url = `${this.baseUrl || getGraphApiBaseUrl()}${pathWithQuery}`;
+    logDebug("Request", `${method} ${url.split("?")[0]}`);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers: body
+          ? { "Content-Type": "application/x-www-form-urlencoded" }
+          : undefined,
+        body: body?.toString(),
+      });
+    } catch (error: any) {
+      throw new InstagramApiError(
+        error?.message || "Network request failed",
+        InstagramErrorType.NETWORK_ERROR,
+        undefined,
+        undefined,
+        error
+      );
+    }
+
+    logDebug("Response", `${response.status} ${response.statusText}`);
+    this.lastUsage = parseUsageHeaders(response.headers);
+    const responseData: any = await response.json().catch(() => ({}));
+    if (!response.ok || responseData?.error) {
+      const apiError = handleInstagramError(responseData, response);
+      apiError.usage = this.lastUsage;
+      throw apiError;
+    }
+    return responseData as T;
+  }
+}
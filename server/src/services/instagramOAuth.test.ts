@@ -0,0 +1,306 @@
+import { createHash } from "crypto";
+import * as fs from "fs";
+import { IncomingMessage, Server, ServerResponse, createServer } from "http";
+import { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import { InstagramApiError, InstagramErrorType } from "./instagramGraphApi.js";
+import {
+  exchangeCodeForToken,
+  exchangeForLongLivedToken,
+  fetchProfile,
+} from "./instagramOAuth.js";
+import { getStoredAccounts } from "./accountStore.js";
+import { getInstagramAuthUrl } from "../tools/instagramAuth.js";
+import { completeInstagramAuth } from "../tools/instagramAuthComplete.js";
+
+// The exchange runs against a local stub of the Instagram token endpoint and
+// Graph API host, through INSTAGRAM_OAUTH_TOKEN_URL and
+// INSTAGRAM_GRAPH_API_HOST.
+const APP_ID = "990602627938098";
+const APP_SECRET = "stub-app-secret";
+const REDIRECT_URI = "https://localhost:6001/auth/callback/instagram-standalone";
+const VALID_CODE = "AQBx-stub-code";
+const USER_ID = "17841405822304914";
+const SHORT_LIVED_TOKEN = "IGQVJ-short-lived";
+const LONG_LIVED_TOKEN = "IGQVJ-long-lived";
+const LONG_LIVED_EXPIRES_IN = 5183944;
+
+interface StubRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  form: URLSearchParams;
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+describe("Instagram OAuth exchange", () => {
+  let stub: Server;
+  let requests: StubRequest[];
+  // Set by a test to require a PKCE verifier matching this challenge
+  let expectedChallenge: string | undefined;
+  let dataDir: string;
+
+  function handleStub(req: IncomingMessage, res: ServerResponse, body: string) {
+    const url = new URL(req.url || "/", "http://stub");
+    const form = new URLSearchParams(body);
+    requests.push({
+      method: req.method || "GET",
+      path: url.pathname,
+      query: url.searchParams,
+      form,
+    });
+
+    if (url.pathname === "/oauth/access_token" && req.method === "POST") {
+      const verifier = form.get("code_verifier");
+      const challenge =
+        verifier &&
+        createHash("sha256").update(verifier).digest("base64url");
+      if (
+        form.get("client_id") !== APP_ID ||
+        form.get("client_secret") !== APP_SECRET ||
+        form.get("grant_type") !== "authorization_code" ||
+        form.get("redirect_uri") !== REDIRECT_URI ||
+        form.get("code") !== VALID_CODE ||
+        (expectedChallenge !== undefined && challenge !== expectedChallenge)
+      ) {
+        sendJson(res, 400, {
+          error_type: "OAuthException",
+          code: 400,
+          error_message: "Invalid authorization code",
+        });
+        return;
+      }
+      sendJson(res, 200, {
+        data: [
+          {
+            access_token: SHORT_LIVED_TOKEN,
+            user_id: Number(USER_ID),
+            permissions:
+              "instagram_business_basic,instagram_business_content_publish",
+          },
+        ],
+      });
+      return;
+    }
+
+    if (url.pathname === "/access_token") {
+      if (
+        url.searchParams.get("grant_type") !== "ig_exchange_token" ||
+        url.searchParams.get("client_secret") !== APP_SECRET ||
+        url.searchParams.get("access_token") !== SHORT_LIVED_TOKEN
+      ) {
+        sendJson(res, 400, {
+          error: {
+            message: "Invalid OAuth access token.",
+            type: "OAuthException",
+            code: 190,
+          },
+        });
+        return;
+      }
+      sendJson(res, 200, {
+        access_token: LONG_LIVED_TOKEN,
+        token_type: "bearer",
+        expires_in: LONG_LIVED_EXPIRES_IN,
+      });
+      return;
+    }
+
+    if (url.pathname.endsWith("/me")) {
+      sendJson(res, 200, {
+        user_id: USER_ID,
+        username: "stub.account",
+        name: "Stub Account",
+        profile_picture_url: "https://example.com/picture.jpg",
+      });
+      return;
+    }
+
+    sendJson(res, 404, { error: { message: "Unknown path", code: 100 } });
+  }
+
+  beforeAll(async () => {
+    stub = createServer((req, res) => {
+      readBody(req).then((body) => handleStub(req, res, body));
+    });
+    await new Promise<void>((resolve) => stub.listen(0, "127.0.0.1", resolve));
+    const host = `http://127.0.0.1:${(stub.address() as AddressInfo).port}`;
+    process.env.INSTAGRAM_APP_ID = APP_ID;
+    process.env.INSTAGRAM_APP_SECRET = APP_SECRET;
+    process.env.INSTAGRAM_OAUTH_TOKEN_URL = `${host}/oauth/access_token`;
+    process.env.INSTAGRAM_GRAPH_API_HOST = host;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => stub.close(resolve));
+    for (const name of [
+      "INSTAGRAM_APP_ID",
+      "INSTAGRAM_APP_SECRET",
+      "INSTAGRAM_OAUTH_TOKEN_URL",
+      "INSTAGRAM_GRAPH_API_HOST",
+    ]) {
+      delete process.env[name];
+    }
+  });
+
+  beforeEach(() => {
+    requests = [];
+    expectedChallenge = undefined;
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "oauth-test-"));
+    process.env.INSTAGRAM_MCP_DATA_DIR = dataDir;
+    process.env.INSTAGRAM_LEGACY_USER_FILE = path.join(dataDir, "user.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+    delete process.env.INSTAGRAM_MCP_DATA_DIR;
+    delete process.env.INSTAGRAM_LEGACY_USER_FILE;
+    delete process.env.INSTAGRAM_OAUTH_STATE_TTL_MS;
+  });
+
+  describe("token endpoints", () => {
+    it("exchanges a code for a short-lived token", async () => {
+      const token = await exchangeCodeForToken({
+        code: VALID_CODE,
+        redirectUri: REDIRECT_URI,
+      });
+      expect(token).toEqual({
+        accessToken: SHORT_LIVED_TOKEN,
+        userId: USER_ID,
+        scopes: [
+          "instagram_business_basic",
+          "instagram_business_content_publish",
+        ],
+      });
+      expect(requests[0].form.has("code_verifier")).toBe(false);
+    });
+
+    it("reports a rejected code as an OAuth error", async () => {
+      const error = await exchangeCodeForToken({
+        code: "expired-code",
+        redirectUri: REDIRECT_URI,
+      }).catch((caught) => caught);
+      expect(error).toBeInstanceOf(InstagramApiError);
+      expect(error.message).toBe("Invalid authorization code");
+      expect(error.type).toBe(InstagramErrorType.INVALID_TOKEN);
+    });
+
+    it("swaps a short-lived token for a long-lived one", async () => {
+      await expect(exchangeForLongLivedToken(SHORT_LIVED_TOKEN)).resolves.toEqual(
+        { accessToken: LONG_LIVED_TOKEN, expiresIn: LONG_LIVED_EXPIRES_IN }
+      );
+      await expect(
+        exchangeForLongLivedToken("not-a-token")
+      ).rejects.toBeInstanceOf(InstagramApiError);
+    });
+
+    it("reads the profile from the versioned Graph API path", async () => {
+      const profile = await fetchProfile(LONG_LIVED_TOKEN);
+      expect(profile).toMatchObject({ userId: USER_ID, username: "stub.account" });
+      expect(requests[0].path).toMatch(/^\/v[\d.]+\/me$/);
+      expect(requests[0].query.get("access_token")).toBe(LONG_LIVED_TOKEN);
+    });
+  });
+
+  describe("auth flow", () => {
+    function startAuth(usePkce: boolean) {
+      const { oauthUrl, state } = getInstagramAuthUrl({
+        redirectUri: REDIRECT_URI,
+        usePkce,
+      });
+      const challenge = new URL(oauthUrl).searchParams.get("code_challenge");
+      return { state, challenge };
+    }
+
+    it("stores the account with the long-lived token", async () => {
+      const { state } = startAuth(false);
+      const result = await completeInstagramAuth({
+        callbackUrl: `${REDIRECT_URI}?code=${VALID_CODE}%23_&state=${state}`,
+      });
+
+      expect(result).toMatchObject({ accountId: USER_ID, username: "stub.account" });
+      const expiresIn = Date.parse(result.tokenExpiresAt!) - Date.now();
+      expect(expiresIn).toBeGreaterThan((LONG_LIVED_EXPIRES_IN - 60) * 1000);
+      expect(expiresIn).toBeLessThanOrEqual(LONG_LIVED_EXPIRES_IN * 1000);
+
+      const [account] = getStoredAccounts();
+      expect(account.accessToken).toBe(LONG_LIVED_TOKEN);
+      expect(account.scopes).toEqual([
+        "instagram_business_basic",
+        "instagram_business_content_publish",
+      ]);
+    });
+
+    it("sends the PKCE verifier matching the challenge", async () => {
+      const { state, challenge } = startAuth(true);
+      expect(challenge).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expectedChallenge = challenge!;
+
+      await completeInstagramAuth({ code: VALID_CODE, state });
+      const verifier = requests[0].form.get("code_verifier");
+      expect(verifier).toMatch(/^[A-Za-z0-9_-]{43,128}$/);
+    });
+
+    it("fails when the verifier doesn't match the challenge", async () => {
+      const { state } = startAuth(true);
+      expectedChallenge = "challenge-of-another-flow";
+      await expect(
+        completeInstagramAuth({ code: VALID_CODE, state })
+      ).rejects.toThrow("Invalid authorization code");
+      expect(getStoredAccounts()).toEqual([]);
+    });
+
+    it("rejects a state that was already used", async () => {
+      const { state } = startAuth(false);
+      await completeInstagramAuth({ code: VALID_CODE, state });
+      requests = [];
+
+      await expect(
+        completeInstagramAuth({ code: VALID_CODE, state })
+      ).rejects.toThrow("Unknown or already used OAuth state");
+      expect(requests).toEqual([]);
+    });
+
+    it("rejects a state that was used by a failed exchange", async () => {
+      const { state } = startAuth(false);
+      await expect(
+        completeInstagramAuth({ code: "wrong-code", state })
+      ).rejects.toThrow("Invalid authorization code");
+      await expect(
+        completeInstagramAuth({ code: VALID_CODE, state })
+      ).rejects.toThrow("Unknown or already used OAuth state");
+    });
+
+    it("rejects an expired state", async () => {
+      process.env.INSTAGRAM_OAUTH_STATE_TTL_MS = "1";
+      const { state } = startAuth(false);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      await expect(
+        completeInstagramAuth({ code: VALID_CODE, state })
+      ).rejects.toThrow("The OAuth state has expired");
+      expect(requests).toEqual([]);
+    });
+
+    it("rejects an unknown or missing state", async () => {
+      await expect(
+        completeInstagramAuth({ code: VALID_CODE, state: "forged-state" })
+      ).rejects.toThrow("Unknown or already used OAuth state");
+      await expect(
+        completeInstagramAuth({ code: VALID_CODE })
+      ).rejects.toThrow("The OAuth callback has no state parameter");
+      expect(requests).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import fetch, { Response } from "node-fetch";
+import {
+  InstagramApiError,
+  InstagramErrorType,
+  getGraphApiBaseUrl,
+  getGraphApiHost,
+  handleInstagramError,
+} from "./instagramGraphApi.js";
+
+// Code-for-token exchange, based on instagram-auth-server/src/server.js.
+// The token endpoint is configurable so the flow can run against a stub.
+const DEFAULT_OAUTH_TOKEN_URL = "https://api.instagram.com/oauth/access_token";
+
+export interface ShortLivedToken {
+  accessToken: string;
+  userId: string;
+  scopes?: string[];
+}
+
+export interface LongLivedToken {
+  accessToken: string;
+  expiresIn?: number;
+}
+
+export interface InstagramProfile {
+  userId: string;
+  username: string;
+  name?: string;
+  picture?: string;
+}
+
+export interface CodeExchangeInput {
+  code: string;
+  redirectUri: string;
+  codeVerifier?: string;
+}
+
+function getOAuthTokenUrl(): string {
+  return process.env.INSTAGRAM_OAUTH_TOKEN_URL || DEFAULT_OAUTH_TOKEN_URL;
+}
+
+function getAppCredentials(): { appId: string; appSecret: string } {
+  const appId = process.env.INSTAGRAM_APP_ID;
+  const appSecret = process.env.INSTAGRAM_APP_SECRET;
+  if (!appId || !appSecret) {
+    throw new InstagramApiError(
+      "INSTAGRAM_APP_ID and INSTAGRAM_APP_SECRET must be configured to complete authentication.",
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  return { appId, appSecret };
+}
+
+// The OAuth endpoints report errors as { error_type, code, error_message }
+// rather than the Graph API's { error: { ... } } shape.
+function toOAuthError(responseData: any, response: Response): InstagramApiError {
+  if (responseData?.error_message) {
+    return new InstagramApiError(
+      responseData.error_message,
+      responseData.error_type === "OAuthException"
+        ? InstagramErrorType.INVALID_TOKEN
+        : InstagramErrorType.INVALID_REQUEST,
+      responseData.code || response.status,
+      undefined,
+      responseData
+    );
+  }
+  return handleInstagramError(responseData, response);
+}
+
+async function readJson(
+  url: string,
+  init?: Parameters<typeof fetch>[1]
+): Promise<any> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error: any) {
+    throw new InstagramApiError(
+      error?.message || "Network request failed",
+      InstagramErrorType.NETWORK_ERROR,
+      undefined,
+      undefined,
+      error
+    );
+  }
+  const responseData: any = await response.json().catch(() => ({}));
+  if (!response.ok || responseData?.error || responseData?.error_message) {
+    throw toOAuthError(responseData, response);
+  }
+  return responseData;
+}
+
+function parseScopes(permissions: unknown): string[] | undefined {
+  if (Array.isArray(permissions)) return permissions.map(String);
+  if (typeof permissions === "string" && permissions) {
+    return permissions.split(",").map((scope) => scope.trim());
+  }
+  return undefined;
+}
+
+export async function exchangeCodeForToken(
+  input: CodeExchangeInput
+): Promise<ShortLivedToken> {
+  const { appId, appSecret } = getAppCredentials();
+  const body = new URLSearchParams({
+    client_id: appId,
+    client_secret: appSecret,
+    grant_type: "authorization_code",
+    redirect_uri: input.redirectUri,
+    code: input.code,
+  });
+  if (input.codeVerifier) {
+    body.append("code_verifier", input.codeVerifier);
+  }
+
+  const responseData = await readJson(getOAuthTokenUrl(), {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: body.toString(),
+  });
+  // Newer API versions wrap the token in a one-element `data` array
+  const tokenData = Array.isArray(responseData.data)
+    ? responseData.data[0]
+    : responseData;
+  if (!tokenData?.access_token) {
+    throw new InstagramApiError(
+      "Access token not found in code exchange response.",
+      InstagramErrorType.UNKNOWN_ERROR
+    );
+  }
+  return {
+    accessToken: tokenData.access_token,
+    userId: String(tokenData.user_id),
+    scopes: parseScopes(tokenData.permissions),
+  };
+}
+
+export async function exchangeForLongLivedToken(
+  shortLivedToken: string
+): Promise<LongLivedToken> {
+  const { appSecret } = getAppCredentials();
+  const url = new URL(`${getGraphApiHost()}/access_token`);
+  url.searchParams.append("grant_type", "ig_exchange_token");
+  url.searchParams.append("client_secret", appSecret);
+  url.searchParams.append("access_token", shortLivedToken);
+
+  const responseData = await readJson(url.toString());
+  if (!responseData.access_token) {
+    throw new InstagramApiError(
+      "Failed to get long-lived access token.",
+      InstagramErrorType.UNKNOWN_ERROR
+    );
+  }
+  return {
+    accessToken: responseData.access_token,
+    expiresIn: Number(responseData.expires_in) || undefined,
+  };
+}
+
+export async function fetchProfile(
+  accessToken: string
+): Promise<InstagramProfile> {
+  const url = new URL(`${getGraphApiBaseUrl()}/me`);
+  url.searchParams.append("fields", "user_id,username,name,profile_picture_url");
+  url.searchParams.append("access_token", accessToken);
+
+  const profile = await readJson(url.toString());
+  if (!profile.user_id || !profile.username) {
+    throw new InstagramApiError(
+      "User profile response is missing user_id or username.",
+      InstagramErrorType.UNKNOWN_ERROR
+    );
+  }
+  return {
+    userId: String(profile.user_id),
+    username: profile.username,
+    name: profile.name,
+    picture: profile.profile_picture_url,
+  };
+}
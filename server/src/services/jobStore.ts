@@ -0,0 +1,105 @@
+import { randomUUID } from "crypto";
+import { resolveDataPath } from "../utils/dataDir.js";
+import { readJsonFile, writeJsonFile } from "../utils/jsonFile.js";
+import { ChangeListeners } from "../utils/changeListeners.js";
+import {
+  InstagramPostCarouselInput,
+  InstagramPostImageInput,
+  InstagramPostReelInput,
+} from "./postInputs.js";
+
+// Durable store for scheduled posts, kept as a JSON document in the data dir
+const JOB_STORE_FILE = "scheduled-jobs.json";
+
+export type ScheduledPostType = "image" | "carousel" | "reel";
+
+export type ScheduledJobStatus =
+  | "pending"
+  | "running"
+  | "succeeded"
+  | "failed"
+  | "cancelled"
+  | "missed";
+
+export type ScheduledPostInput =
+  | { postType: "image"; input: InstagramPostImageInput }
+  | { postType: "carousel"; input: InstagramPostCarouselInput }
+  | { postType: "reel"; input: InstagramPostReelInput };
+
+export type ScheduledJob = ScheduledPostInput & {
+  id: string;
+  runAt: string;
+  status: ScheduledJobStatus;
+  createdAt: string;
+  updatedAt: string;
+  attempts: number;
+  postId?: string;
+  error?: string;
+};
+
+interface JobStoreDocument {
+  jobs: ScheduledJob[];
+}
+
+const jobListeners = new ChangeListeners<ScheduledJob>();
+
+function getJobStorePath(): string {
+  return resolveDataPath(JOB_STORE_FILE);
+}
+
+function loadJobs(): ScheduledJob[] {
+  return readJsonFile<JobStoreDocument>(getJobStorePath(), { jobs: [] }).jobs;
+}
+
+function saveJobs(jobs: ScheduledJob[]): void {
+  writeJsonFile(getJobStorePath(), { jobs });
+}
+
+// Called with each job as it is added or updated. Returns a function that
+// removes the listener.
+export function onJobChange(listener: (job: ScheduledJob) => void): () => void {
+  return jobListeners.add(listener);
+}
+
+export function listJobs(status?: ScheduledJobStatus): ScheduledJob[] {
+  return loadJobs()
+    .filter((job) => !status || job.status === status)
+    .sort((a, b) => Date.parse(a.runAt) - Date.parse(b.runAt));
+}
+
+export function getJob(id: string): ScheduledJob | undefined {
+  return loadJobs().find((job) => job.id === id);
+}
+
+export function addJob(post: ScheduledPostInput, runAt: Date): ScheduledJob {
+  const now = new Date().toISOString();
+  const job: ScheduledJob = {
+    ...post,
+    id: randomUUID(),
+    runAt: runAt.toISOString(),
+    status: "pending",
+    createdAt: now,
+    updatedAt: now,
+    attempts: 0,
+  };
+  saveJobs([...loadJobs(), job]);
+  jobListeners.notify(job);
+  return job;
+}
+
+export function updateJob(
+  id: string,
+  changes: Partial<Omit<ScheduledJob, "id" | "postType" | "input">>
+): ScheduledJob | undefined {
+  const jobs = loadJobs();
+  const index = jobs.findIndex((job) => job.id === id);
+  if (index === -1) return undefined;
+  jobs[index] = {
+    ...jobs[index],
+    ...changes,
+    updatedAt: new Date().toISOString(),
+  };
+  saveJobs(jobs);
+  jobListeners.notify(jobs[index]);
+  return jobs[index];
+}
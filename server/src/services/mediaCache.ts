@@ -0,0 +1,52 @@
+import { resolveDataPath } from "../utils/dataDir.js";
+import { readJsonFile, writeJsonFile } from "../utils/jsonFile.js";
+
+// Local copy of each account's published media, so captions can be searched
+// without paging through the Graph API on every query
+const MEDIA_CACHE_FILE = "media-cache.json";
+
+export interface CachedMedia {
+  id: string;
+  mediaType: string;
+  productType?: string;
+  caption?: string;
+  permalink?: string;
+  timestamp: string;
+}
+
+export interface AccountMediaCache {
+  // Newest first, as the media edge returns them
+  media: CachedMedia[];
+  syncedAt: string;
+  // False until a sync has reached the account's oldest post
+  complete: boolean;
+}
+
+interface MediaCacheDocument {
+  accounts: Record<string, AccountMediaCache>;
+}
+
+function getMediaCachePath(): string {
+  return resolveDataPath(MEDIA_CACHE_FILE);
+}
+
+function loadMediaCache(): MediaCacheDocument {
+  return readJsonFile<MediaCacheDocument>(getMediaCachePath(), {
+    accounts: {},
+  });
+}
+
+export function getAccountMediaCache(
+  accountId: string
+): AccountMediaCache | undefined {
+  return loadMediaCache().accounts[accountId];
+}
+
+export function saveAccountMediaCache(
+  accountId: string,
+  cache: AccountMediaCache
+): void {
+  const document = loadMediaCache();
+  document.accounts[accountId] = cache;
+  writeJsonFile(getMediaCachePath(), document);
+}
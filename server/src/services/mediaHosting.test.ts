@@ -0,0 +1,111 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { InstagramApiError } from "./instagramGraphApi.js";
+import { LocalMedia, resolveMediaSource } from "./mediaHosting.js";
+
+describe("resolveMediaSource", () => {
+  let tempDir: string;
+  let root: string;
+  let outside: string;
+
+  beforeEach(() => {
+    tempDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), "media-root-test-"))
+    );
+    root = path.join(tempDir, "media");
+    fs.mkdirSync(path.join(root, "reels"), { recursive: true });
+    fs.writeFileSync(path.join(root, "reels", "clip.MP4"), "video");
+    fs.writeFileSync(path.join(root, "photo.jpg"), "image");
+    outside = path.join(tempDir, "secret.txt");
+    fs.writeFileSync(outside, "secret");
+    process.env.MEDIA_LOCAL_ROOT = root;
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    delete process.env.MEDIA_LOCAL_ROOT;
+  });
+
+  function localMedia(value: string): LocalMedia {
+    const source = resolveMediaSource(value);
+    if (source.kind !== "local") throw new Error("Expected local media");
+    return source.media;
+  }
+
+  function rejection(value: string): InstagramApiError {
+    try {
+      resolveMediaSource(value);
+    } catch (error) {
+      return error as InstagramApiError;
+    }
+    throw new Error(`Expected ${value} to be refused`);
+  }
+
+  it("passes URLs through", () => {
+    expect(resolveMediaSource("https://example.com/a.jpg")).toEqual({
+      kind: "url",
+      url: "https://example.com/a.jpg",
+    });
+  });
+
+  it("decodes base64 data URIs", () => {
+    const media = localMedia(
+      `data:image/png;base64,${Buffer.from("png").toString("base64")}`
+    );
+    expect(media).toEqual({
+      data: Buffer.from("png"),
+      contentType: "image/png",
+      fileName: "upload.png",
+    });
+  });
+
+  it("reads files relative to the root, by absolute path and as file URLs", () => {
+    expect(localMedia("reels/clip.MP4")).toMatchObject({
+      contentType: "video/mp4",
+      fileName: "clip.MP4",
+    });
+    expect(localMedia(path.join(root, "photo.jpg")).data.toString()).toBe(
+      "image"
+    );
+    expect(
+      localMedia(pathToFileURL(path.join(root, "photo.jpg")).href).contentType
+    ).toBe("image/jpeg");
+  });
+
+  it("refuses paths that leave the root", () => {
+    for (const value of [
+      "../secret.txt",
+      "reels/../../secret.txt",
+      outside,
+      pathToFileURL(outside).href,
+      "/etc/passwd",
+    ]) {
+      expect(rejection(value).message).toBe(
+        `Media file not found under MEDIA_LOCAL_ROOT: ${value}`
+      );
+    }
+  });
+
+  it("refuses symlinks that point outside the root", () => {
+    fs.symlinkSync(outside, path.join(root, "link.jpg"));
+    expect(rejection("link.jpg").message).toMatch(/^Media file not found/);
+  });
+
+  it("gives the same error for missing files and directories", () => {
+    expect(rejection("missing.jpg").message).toBe(
+      "Media file not found under MEDIA_LOCAL_ROOT: missing.jpg"
+    );
+    expect(rejection("reels").message).toBe(
+      "Media file not found under MEDIA_LOCAL_ROOT: reels"
+    );
+  });
+
+  it("refuses local paths while no root is configured", () => {
+    delete process.env.MEDIA_LOCAL_ROOT;
+    expect(rejection("photo.jpg").message).toMatch(
+      /Local media files are disabled/
+    );
+  });
+});
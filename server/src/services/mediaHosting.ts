@@ -0,0 +1,233 @@
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import {
+  InstagramApiError,
+  InstagramErrorType,
+} from "./instagramGraphApi.js";
+import { createStaticMediaHost } from "./staticMediaHost.js";
+import { createS3MediaHost } from "./s3MediaHost.js";
+
+// Instagram fetches media from a public URL, so local files and base64 content
+// are first staged on a media host and removed again once the post is done.
+
+function logInfo(context: string, data: any) {
+  console.error(`[INFO] MediaHosting - ${context}:`, data);
+}
+
+function logError(context: string, error: any) {
+  console.error(`[ERROR] MediaHosting - ${context}:`, error);
+}
+
+export interface LocalMedia {
+  data: Buffer;
+  contentType: string;
+  fileName: string;
+}
+
+export interface StagedMedia {
+  url: string;
+  cleanup(): Promise<void>;
+}
+
+export interface MediaHostingAdapter {
+  name: string;
+  stage(media: LocalMedia): Promise<StagedMedia>;
+}
+
+export type MediaSource =
+  | { kind: "url"; url: string }
+  | { kind: "local"; media: LocalMedia };
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".heic": "image/heic",
+  ".mp4": "video/mp4",
+  ".mov": "video/quicktime",
+};
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/webp": ".webp",
+  "image/heic": ".heic",
+  "video/mp4": ".mp4",
+  "video/quicktime": ".mov",
+};
+
+export function extensionForContentType(contentType: string): string {
+  return EXTENSIONS[contentType] || "";
+}
+
+function parseDataUri(value: string): LocalMedia {
+  const match = /^data:([^;,]+)?(;base64)?,(.*)$/s.exec(value);
+  if (!match || !match[2]) {
+    throw new InstagramApiError(
+      "Only base64 data URIs are supported (data:<mime>;base64,<content>).",
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  const contentType = match[1] || "application/octet-stream";
+  return {
+    data: Buffer.from(match[3], "base64"),
+    contentType,
+    fileName: `upload${extensionForContentType(contentType)}`,
+  };
+}
+
+// Local paths are only read from under MEDIA_LOCAL_ROOT: over the HTTP
+// transport any client could otherwise make the server read any file it can.
+function getLocalMediaRoot(): string {
+  const root = process.env.MEDIA_LOCAL_ROOT;
+  if (!root) {
+    throw new InstagramApiError(
+      "Local media files are disabled. Set MEDIA_LOCAL_ROOT to the directory they may be read from, or pass a URL or data URI.",
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  try {
+    return fs.realpathSync(path.resolve(root));
+  } catch {
+    throw new InstagramApiError(
+      "MEDIA_LOCAL_ROOT does not exist.",
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+}
+
+function isInside(root: string, filePath: string): boolean {
+  const relative = path.relative(root, filePath);
+  return (
+    relative !== "" &&
+    !relative.startsWith(`..${path.sep}`) &&
+    relative !== ".." &&
+    !path.isAbsolute(relative)
+  );
+}
+
+function readLocalFile(value: string): LocalMedia {
+  const root = getLocalMediaRoot();
+  // The same error whether the file is missing, not a file or outside the
+  // root, so callers can't probe the file system
+  const unavailable = () =>
+    new InstagramApiError(
+      `Media file not found under MEDIA_LOCAL_ROOT: ${value}`,
+      InstagramErrorType.INVALID_REQUEST
+    );
+
+  let filePath: string;
+  try {
+    const requested = value.startsWith("file://")
+      ? fileURLToPath(value)
+      : path.resolve(root, value);
+    // Resolves symlinks, so a link inside the root can't point outside it
+    filePath = fs.realpathSync(requested);
+  } catch {
+    throw unavailable();
+  }
+  if (!isInside(root, filePath) || !fs.statSync(filePath).isFile()) {
+    throw unavailable();
+  }
+  const extension = path.extname(filePath).toLowerCase();
+  return {
+    data: fs.readFileSync(filePath),
+    contentType: CONTENT_TYPES[extension] || "application/octet-stream",
+    fileName: path.basename(filePath),
+  };
+}
+
+// Accepts an https:// URL, a data: URI with base64 content, or a local path
+// under MEDIA_LOCAL_ROOT (absolute, relative to it, or file://)
+export function resolveMediaSource(value: string): MediaSource {
+  if (!value || typeof value !== "string") {
+    throw new InstagramApiError(
+      "A media URL, file path or data URI is required.",
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  if (/^https?:\/\//i.test(value)) return { kind: "url", url: value };
+  if (value.startsWith("data:")) {
+    return { kind: "local", media: parseDataUri(value) };
+  }
+  return { kind: "local", media: readLocalFile(value) };
+}
+
+// MEDIA_HOSTING picks the adapter explicitly; otherwise it is inferred from
+// which of the two hosts has been configured
+export function getMediaHostingMode(): string | undefined {
+  if (process.env.MEDIA_HOSTING) return process.env.MEDIA_HOSTING;
+  if (process.env.MEDIA_S3_BUCKET) return "s3";
+  if (process.env.MEDIA_PUBLIC_BASE_URL) return "static";
+  return undefined;
+}
+
+export function getMediaHostingAdapter(): MediaHostingAdapter {
+  const adapter = getMediaHostingMode();
+
+  switch (adapter) {
+    case "static":
+      return createStaticMediaHost();
+    case "s3":
+      return createS3MediaHost();
+    case undefined:
+      throw new InstagramApiError(
+        "Posting local files requires a media host. Set MEDIA_PUBLIC_BASE_URL (built-in static host) or MEDIA_S3_BUCKET (S3-compatible bucket).",
+        InstagramErrorType.INVALID_REQUEST
+      );
+    default:
+      throw new InstagramApiError(
+        `Unknown MEDIA_HOSTING "${adapter}". Use "static" or "s3".`,
+        InstagramErrorType.INVALID_REQUEST
+      );
+  }
+}
+
+export async function stageLocalMedia(media: LocalMedia): Promise<StagedMedia> {
+  const adapter = getMediaHostingAdapter();
+  const staged = await adapter.stage(media);
+  logInfo("Staged", {
+    adapter: adapter.name,
+    fileName: media.fileName,
+    bytes: media.data.length,
+  });
+  return staged;
+}
+
+// Turns any accepted media value into a public URL Instagram can fetch
+export async function stageMedia(
+  value: string | MediaSource
+): Promise<StagedMedia> {
+  const source = typeof value === "string" ? resolveMediaSource(value) : value;
+  if (source.kind === "url") {
+    return { url: source.url, cleanup: async () => {} };
+  }
+  return stageLocalMedia(source.media);
+}
+
+// Tracks everything staged for one post so it can all be removed at the end
+export class MediaStaging {
+  private readonly staged: StagedMedia[] = [];
+
+  async stage(value: string | MediaSource): Promise<string> {
+    const staged = await stageMedia(value);
+    this.staged.push(staged);
+    return staged.url;
+  }
+
+  get isEmpty(): boolean {
+    return this.staged.length === 0;
+  }
+
+  async cleanup(): Promise<void> {
+    for (const staged of this.staged.splice(0)) {
+      try {
+        await staged.cleanup();
+      } catch (error) {
+        logError("Staged Media Cleanup", error);
+      }
+    }
+  }
+}
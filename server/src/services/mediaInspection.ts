@@ -0,0 +1,418 @@
+import {
+  InstagramApiError,
+  InstagramErrorType,
+} from "./instagramGraphApi.js";
+import { MediaSource } from "./mediaHosting.js";
+import {
+  ByteSource,
+  createBufferByteSource,
+  createHttpByteSource,
+} from "../utils/byteSource.js";
+import { ImageFormat, ImageInfo, readImageInfo } from "../utils/imageHeaders.js";
+import { VideoInfo, readVideoInfo } from "../utils/mp4Metadata.js";
+
+// Checks media against Instagram's publishing specs before any container is
+// created, so a bad file fails fast instead of after the upload.
+// https://developers.facebook.com/docs/instagram-platform/instagram-graph-api/reference/ig-user/media
+
+function logInfo(context: string, data: any) {
+  console.error(`[INFO] MediaInspection - ${context}:`, data);
+}
+
+// Which slot the media fills; each has its own limits
+export type MediaTarget =
+  | "image"
+  | "carouselImage"
+  | "carouselVideo"
+  | "reel"
+  | "reelCover"
+  | "storyImage"
+  | "storyVideo";
+
+export type MediaProblemSeverity = "error" | "warning";
+
+export interface MediaProblem {
+  severity: MediaProblemSeverity;
+  code: string;
+  message: string;
+  // Tool argument the problem belongs to, e.g. "mediaItems[2].url"
+  field: string;
+}
+
+export interface MediaInspection {
+  field: string;
+  target: MediaTarget;
+  sizeBytes?: number;
+  image?: ImageInfo;
+  video?: VideoInfo;
+  problems: MediaProblem[];
+}
+
+export interface MediaToInspect {
+  field: string;
+  source: MediaSource;
+  target: MediaTarget;
+}
+
+export interface ImageSpec {
+  kind: "image";
+  formats: ImageFormat[];
+  maxBytes: number;
+  // width / height
+  minAspectRatio?: number;
+  maxAspectRatio?: number;
+  // Outside this range Instagram rescales the image
+  minWidth?: number;
+  maxWidth?: number;
+}
+
+interface VideoSpec {
+  kind: "video";
+  maxBytes: number;
+  minDurationSeconds: number;
+  maxDurationSeconds: number;
+  minAspectRatio: number;
+  maxAspectRatio: number;
+  maxWidth: number;
+  minFrameRate: number;
+  maxFrameRate: number;
+  maxVideoBitrateKbps: number;
+  videoCodecs: string[];
+  audioCodecs: string[];
+  maxAudioSampleRate: number;
+}
+
+const MB = 1024 * 1024;
+
+const FEED_IMAGE_SPEC: ImageSpec = {
+  kind: "image",
+  formats: ["jpeg"],
+  maxBytes: 8 * MB,
+  minAspectRatio: 4 / 5,
+  maxAspectRatio: 1.91,
+  minWidth: 320,
+  maxWidth: 1440,
+};
+
+const VIDEO_DEFAULTS = {
+  kind: "video" as const,
+  maxWidth: 1920,
+  minFrameRate: 23,
+  maxFrameRate: 60,
+  maxVideoBitrateKbps: 25000,
+  videoCodecs: ["h264", "hevc"],
+  audioCodecs: ["aac"],
+  maxAudioSampleRate: 48000,
+};
+
+const MEDIA_SPECS: Record<MediaTarget, ImageSpec | VideoSpec> = {
+  image: FEED_IMAGE_SPEC,
+  carouselImage: FEED_IMAGE_SPEC,
+  reelCover: { kind: "image", formats: ["jpeg"], maxBytes: 8 * MB },
+  // Stories are shown full screen at 9:16; other ratios are letterboxed
+  storyImage: {
+    kind: "image",
+    formats: ["jpeg"],
+    maxBytes: 8 * MB,
+    minWidth: 320,
+    maxWidth: 1920,
+  },
+  reel: {
+    ...VIDEO_DEFAULTS,
+    maxBytes: 300 * MB,
+    minDurationSeconds: 3,
+    maxDurationSeconds: 15 * 60,
+    minAspectRatio: 0.01,
+    maxAspectRatio: 10,
+  },
+  storyVideo: {
+    ...VIDEO_DEFAULTS,
+    maxBytes: 100 * MB,
+    minDurationSeconds: 3,
+    maxDurationSeconds: 60,
+    minAspectRatio: 0.1,
+    maxAspectRatio: 10,
+  },
+  carouselVideo: {
+    ...VIDEO_DEFAULTS,
+    maxBytes: 100 * MB,
+    minDurationSeconds: 3,
+    maxDurationSeconds: 60,
+    minAspectRatio: 4 / 5,
+    maxAspectRatio: 16 / 9,
+  },
+};
+
+export function getImageSpec(target: MediaTarget): ImageSpec {
+  const spec = MEDIA_SPECS[target];
+  if (spec.kind !== "image") {
+    throw new Error(`${target} is not an image target`);
+  }
+  return spec;
+}
+
+type ProblemReporter = (
+  severity: MediaProblemSeverity,
+  code: string,
+  message: string
+) => void;
+
+// Rounding in encoders puts e.g. 1080x1350 a hair off 4:5
+const ASPECT_TOLERANCE = 0.005;
+
+// Carries every problem found (warnings too); the message lists the errors
+export class MediaValidationError extends InstagramApiError {
+  constructor(public problems: MediaProblem[]) {
+    super(
+      `Media failed validation: ${problems
+        .filter((problem) => problem.severity === "error")
+        .map((problem) => `${problem.field}: ${problem.message}`)
+        .join("; ")}`,
+      InstagramErrorType.INVALID_REQUEST
+    );
+    this.name = "MediaValidationError";
+  }
+}
+
+export function formatBytes(bytes: number): string {
+  return `${Math.round((bytes / MB) * 10) / 10} MB`;
+}
+
+function formatRatio(ratio: number): string {
+  return `${Math.round(ratio * 1000) / 1000}:1`;
+}
+
+function checkAspectRatio(
+  width: number | undefined,
+  height: number | undefined,
+  spec: { minAspectRatio?: number; maxAspectRatio?: number },
+  report: ProblemReporter
+): void {
+  if (!width || !height) return;
+  const ratio = width / height;
+  const { minAspectRatio = 0, maxAspectRatio = Infinity } = spec;
+  if (
+    ratio < minAspectRatio - ASPECT_TOLERANCE ||
+    ratio > maxAspectRatio + ASPECT_TOLERANCE
+  ) {
+    report(
+      "error",
+      "aspect_ratio",
+      `Aspect ratio ${formatRatio(ratio)} (${width}x${height}) is outside ${formatRatio(minAspectRatio)} to ${formatRatio(maxAspectRatio)}`
+    );
+  }
+}
+
+function checkImage(
+  image: ImageInfo,
+  spec: ImageSpec,
+  report: ProblemReporter
+): void {
+  if (!image.format) {
+    report("error", "unsupported_format", "Not a recognised image file");
+    return;
+  }
+  if (!spec.formats.includes(image.format)) {
+    report(
+      "error",
+      "unsupported_format",
+      `Image is ${image.format.toUpperCase()}; Instagram only accepts ${spec.formats.map((format) => format.toUpperCase()).join(", ")}`
+    );
+  }
+  if (!image.width || !image.height) {
+    report("warning", "unreadable", "Could not read the image dimensions");
+    return;
+  }
+  checkAspectRatio(image.width, image.height, spec, report);
+  if (spec.minWidth && image.width < spec.minWidth) {
+    report(
+      "warning",
+      "resolution",
+      `Width ${image.width}px is below ${spec.minWidth}px; Instagram will upscale it`
+    );
+  }
+  if (spec.maxWidth && image.width > spec.maxWidth) {
+    report(
+      "warning",
+      "resolution",
+      `Width ${image.width}px is above ${spec.maxWidth}px; Instagram will downscale it`
+    );
+  }
+  if (image.colorSpace === "CMYK" || image.colorSpace === "YCCK") {
+    report(
+      "error",
+      "color_space",
+      `Image uses the ${image.colorSpace} colour space; convert it to sRGB`
+    );
+  } else if (image.iccProfile && !/srgb/i.test(image.iccProfile)) {
+    report(
+      "warning",
+      "color_space",
+      `Embedded colour profile "${image.iccProfile}" is not sRGB; Instagram will convert it and colours may shift`
+    );
+  }
+}
+
+function checkVideo(
+  video: VideoInfo,
+  spec: VideoSpec,
+  report: ProblemReporter
+): void {
+  if (!video.container || !video.videoCodec) {
+    report(
+      "error",
+      "unsupported_format",
+      "Not a readable MP4 or MOV file with a video track"
+    );
+    return;
+  }
+  if (!spec.videoCodecs.includes(video.videoCodec)) {
+    report(
+      "error",
+      "video_codec",
+      `Video codec ${video.videoCodec} is not supported; use ${spec.videoCodecs.join(" or ")}`
+    );
+  }
+  if (video.audioCodec && !spec.audioCodecs.includes(video.audioCodec)) {
+    report(
+      "error",
+      "audio_codec",
+      `Audio codec ${video.audioCodec} is not supported; use ${spec.audioCodecs.join(" or ")}`
+    );
+  }
+  if (video.audioSampleRate && video.audioSampleRate > spec.maxAudioSampleRate) {
+    report(
+      "error",
+      "audio_sample_rate",
+      `Audio sample rate ${video.audioSampleRate} Hz is above ${spec.maxAudioSampleRate} Hz`
+    );
+  }
+  if (video.durationSeconds !== undefined) {
+    if (
+      video.durationSeconds < spec.minDurationSeconds ||
+      video.durationSeconds > spec.maxDurationSeconds
+    ) {
+      report(
+        "error",
+        "duration",
+        `Duration ${video.durationSeconds}s is outside ${spec.minDurationSeconds}s to ${spec.maxDurationSeconds}s`
+      );
+    }
+  }
+  checkAspectRatio(video.width, video.height, spec, report);
+  if (video.width && video.width > spec.maxWidth) {
+    report(
+      "warning",
+      "resolution",
+      `Width ${video.width}px is above ${spec.maxWidth}px; Instagram will downscale it`
+    );
+  }
+  if (
+    video.frameRate &&
+    (video.frameRate < spec.minFrameRate || video.frameRate > spec.maxFrameRate)
+  ) {
+    report(
+      "error",
+      "frame_rate",
+      `Frame rate ${video.frameRate} fps is outside ${spec.minFrameRate} to ${spec.maxFrameRate} fps`
+    );
+  }
+  if (video.videoBitrateKbps && video.videoBitrateKbps > spec.maxVideoBitrateKbps) {
+    report(
+      "error",
+      "bitrate",
+      `Video bitrate ${Math.round(video.videoBitrateKbps / 100) / 10} Mbps is above ${spec.maxVideoBitrateKbps / 1000} Mbps`
+    );
+  }
+  if (video.fastStart === false) {
+    report(
+      "warning",
+      "moov_at_end",
+      "The moov atom is at the end of the file; Instagram recommends moving it to the front (faststart)"
+    );
+  }
+  if (video.editListChangesTiming) {
+    report(
+      "warning",
+      "edit_list",
+      "The video has an edit list that delays, cuts or retimes a track, which Instagram may ignore; re-export the video with the edits applied"
+    );
+  }
+}
+
+async function openSource(source: MediaSource, maxBytes: number): Promise<ByteSource> {
+  if (source.kind === "local") {
+    return createBufferByteSource(source.media.data, source.media.contentType);
+  }
+  return createHttpByteSource(source.url, maxBytes);
+}
+
+export async function inspectMedia(item: MediaToInspect): Promise<MediaInspection> {
+  const { field, source, target } = item;
+  const spec = MEDIA_SPECS[target];
+  const inspection: MediaInspection = { field, target, problems: [] };
+  const report: ProblemReporter = (severity, code, message) => {
+    inspection.problems.push({ severity, code, message, field });
+  };
+
+  if (source.kind === "url" && !source.url.startsWith("https://")) {
+    report("error", "not_https", "Media URLs must use HTTPS");
+    return inspection;
+  }
+
+  try {
+    const bytes = await openSource(source, spec.maxBytes);
+    inspection.sizeBytes = bytes.size;
+    if (bytes.size > spec.maxBytes) {
+      report(
+        "error",
+        "file_too_large",
+        `File is ${formatBytes(bytes.size)}; the limit is ${formatBytes(spec.maxBytes)}`
+      );
+      return inspection;
+    }
+    if (spec.kind === "image") {
+      inspection.image = await readImageInfo(bytes);
+      checkImage(inspection.image, spec, report);
+    } else {
+      inspection.video = await readVideoInfo(bytes);
+      checkVideo(inspection.video, spec, report);
+    }
+  } catch (error: any) {
+    report(
+      "error",
+      error instanceof InstagramApiError ? "not_accessible" : "unreadable",
+      error?.message || "Could not read the media file"
+    );
+  }
+  return inspection;
+}
+
+// Inspects every item in parallel and throws a MediaValidationError listing
+// all errors at once; warnings are returned for the tool result.
+export async function validatePostMedia(
+  items: MediaToInspect[]
+): Promise<MediaInspection[]> {
+  const inspections = await Promise.all(items.map(inspectMedia));
+  const problems = inspections.flatMap((inspection) => inspection.problems);
+  const errorCount = problems.filter(
+    (problem) => problem.severity === "error"
+  ).length;
+  logInfo("Inspected", {
+    items: inspections.length,
+    errors: errorCount,
+    warnings: problems.length - errorCount,
+  });
+  if (errorCount > 0) {
+    throw new MediaValidationError(problems);
+  }
+  return inspections;
+}
+
+export function collectMediaWarnings(
+  inspections: MediaInspection[]
+): MediaProblem[] {
+  return inspections.flatMap((inspection) =>
+    inspection.problems.filter((problem) => problem.severity === "warning")
+  );
+}
@@ -0,0 +1,66 @@
+import {
+  InstagramApiError,
+  InstagramErrorType,
+} from "./instagramGraphApi.js";
+
+// OAuth requests started by instagram-auth and not yet completed. Kept in
+// memory: an auth flow that outlives a server restart simply starts over.
+export interface PendingAuth {
+  state: string;
+  nonce: string;
+  redirectUri: string;
+  scopes: string[];
+  // PKCE verifier, sent with the token exchange when PKCE was requested
+  codeVerifier?: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+const DEFAULT_STATE_TTL_MS = 10 * 60 * 1000;
+
+const pendingAuths = new Map<string, PendingAuth>();
+
+function getStateTtlMs(): number {
+  return Number(process.env.INSTAGRAM_OAUTH_STATE_TTL_MS) || DEFAULT_STATE_TTL_MS;
+}
+
+function pruneExpired(now: number): void {
+  for (const [state, pending] of pendingAuths) {
+    if (pending.expiresAt <= now) pendingAuths.delete(state);
+  }
+}
+
+export function savePendingAuth(
+  pending: Omit<PendingAuth, "createdAt" | "expiresAt">
+): PendingAuth {
+  const now = Date.now();
+  pruneExpired(now);
+  const saved = { ...pending, createdAt: now, expiresAt: now + getStateTtlMs() };
+  pendingAuths.set(pending.state, saved);
+  return saved;
+}
+
+// Each state can be used once; a replayed or unknown state is rejected
+export function consumePendingAuth(state: string | undefined): PendingAuth {
+  if (!state) {
+    throw new InstagramApiError(
+      "The OAuth callback has no state parameter.",
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  const pending = pendingAuths.get(state);
+  pendingAuths.delete(state);
+  if (!pending) {
+    throw new InstagramApiError(
+      "Unknown or already used OAuth state. Start again with instagram-auth.",
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  if (pending.expiresAt <= Date.now()) {
+    throw new InstagramApiError(
+      "The OAuth state has expired. Start again with instagram-auth.",
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  return pending;
+}
@@ -0,0 +1,121 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  PostOperation,
+  addOperation,
+  findOperationByKey,
+  getOperation,
+  listOperations,
+  onOperationChange,
+  updateOperation,
+} from "./operationStore.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addImageOperation(idempotencyKey: string) {
+  return addOperation({
+    idempotencyKey,
+    postType: "image",
+    accountId: "17841405822304914",
+    inputHash: "hash",
+  });
+}
+
+describe("operation store", () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "operation-store-test-"));
+    process.env.INSTAGRAM_MCP_DATA_DIR = dataDir;
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+    delete process.env.INSTAGRAM_MCP_DATA_DIR;
+  });
+
+  it("creates running operations and finds them by ID or key", () => {
+    const operation = addImageOperation("key-1");
+    expect(operation).toMatchObject({
+      stage: "pending",
+      status: "running",
+      attempts: 0,
+      history: [{ stage: "pending" }],
+    });
+    expect(getOperation(operation.id)).toEqual(operation);
+    expect(findOperationByKey("key-1")).toEqual(operation);
+    expect(findOperationByKey("key-2")).toBeUndefined();
+  });
+
+  it("adds a stage to the history only when the stage changes", () => {
+    const { id } = addImageOperation("key-1");
+    updateOperation(id, { stage: "validated" });
+    updateOperation(id, { stage: "validated", containerStatus: "IN_PROGRESS" });
+    const updated = updateOperation(id, { stage: "containers_created" })!;
+
+    expect(updated.history.map((event) => event.stage)).toEqual([
+      "pending",
+      "validated",
+      "containers_created",
+    ]);
+    expect(updated.containerStatus).toBe("IN_PROGRESS");
+    expect(updateOperation("missing", { stage: "ready" })).toBeUndefined();
+  });
+
+  it("lists the newest operations first", () => {
+    const first = addImageOperation("key-1");
+    const second = addImageOperation("key-2");
+    // Both were likely created in the same millisecond, so date the first
+    // one back
+    const file = path.join(dataDir, "operations.json");
+    const { operations } = JSON.parse(fs.readFileSync(file, "utf8"));
+    operations[0].createdAt = new Date(Date.now() - 1000).toISOString();
+    fs.writeFileSync(file, JSON.stringify({ operations }));
+    expect(listOperations().map((operation) => operation.id)).toEqual([
+      second.id,
+      first.id,
+    ]);
+  });
+
+  it("drops finished operations past the retention period, but not running ones", () => {
+    const old = new Date(Date.now() - 31 * DAY_MS).toISOString();
+    const stale = (id: string, status: PostOperation["status"]) => ({
+      id,
+      idempotencyKey: id,
+      postType: "image",
+      accountId: "17841405822304914",
+      inputHash: "hash",
+      stage: "pending",
+      status,
+      attempts: 1,
+      history: [],
+      createdAt: old,
+      updatedAt: old,
+    });
+    fs.writeFileSync(
+      path.join(dataDir, "operations.json"),
+      JSON.stringify({
+        operations: [stale("finished", "succeeded"), stale("interrupted", "running")],
+      })
+    );
+
+    addImageOperation("key-1");
+
+    expect(getOperation("finished")).toBeUndefined();
+    expect(getOperation("interrupted")).toBeDefined();
+  });
+
+  it("tells listeners about every change until they stop", () => {
+    const seen: string[] = [];
+    const stop = onOperationChange((operation) =>
+      seen.push(`${operation.idempotencyKey}:${operation.stage}`)
+    );
+    const { id } = addImageOperation("key-1");
+    updateOperation(id, { stage: "validated" });
+    stop();
+    updateOperation(id, { stage: "ready" });
+
+    expect(seen).toEqual(["key-1:pending", "key-1:validated"]);
+  });
+});
@@ -0,0 +1,158 @@
+import { randomUUID } from "crypto";
+import { resolveDataPath } from "../utils/dataDir.js";
+import { readJsonFile, writeJsonFile } from "../utils/jsonFile.js";
+import { ChangeListeners } from "../utils/changeListeners.js";
+
+// Durable log of post operations, so a publish interrupted by a crash or a
+// timeout can be resumed instead of creating a duplicate post
+const OPERATION_STORE_FILE = "operations.json";
+
+// Finished operations are kept this long for idempotent replays
+const OPERATION_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type PostOperationType = "image" | "carousel" | "reel" | "story";
+
+// Stages in the order an operation passes through them
+export type PostOperationStage =
+  | "pending"
+  | "validated"
+  | "containers_created"
+  | "ready"
+  | "published";
+
+export type PostOperationStatus = "running" | "succeeded" | "failed";
+
+export interface PostOperationEvent {
+  stage: PostOperationStage;
+  at: string;
+}
+
+export interface PostOperation {
+  id: string;
+  idempotencyKey: string;
+  postType: PostOperationType;
+  accountId: string;
+  // Hash of the post arguments; a key reused for a different post is refused
+  inputHash: string;
+  // Furthest stage reached; a failed operation resumes from here
+  stage: PostOperationStage;
+  status: PostOperationStatus;
+  attempts: number;
+  history: PostOperationEvent[];
+  // Carousel children in item order, recorded as each is created; null for
+  // an item whose container does not exist yet
+  childContainerIds?: (string | null)[];
+  containerId?: string;
+  // Latest status_code Instagram reported while the container processed
+  containerStatus?: string;
+  // Set just before media_publish, so a resume knows the post may be live
+  publishRequestedAt?: string;
+  postId?: string;
+  // Tool-specific data gathered before the containers were created (quota,
+  // media warnings), reused when the operation resumes
+  context?: Record<string, unknown>;
+  // The tool result, returned again for repeated calls
+  result?: unknown;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface OperationStoreDocument {
+  operations: PostOperation[];
+}
+
+const operationListeners = new ChangeListeners<PostOperation>();
+
+function getOperationStorePath(): string {
+  return resolveDataPath(OPERATION_STORE_FILE);
+}
+
+function loadOperations(): PostOperation[] {
+  return readJsonFile<OperationStoreDocument>(getOperationStorePath(), {
+    operations: [],
+  }).operations;
+}
+
+function saveOperations(operations: PostOperation[]): void {
+  writeJsonFile(getOperationStorePath(), { operations });
+}
+
+// Called with each operation as it is created or updated. Returns a function
+// that removes the listener.
+export function onOperationChange(
+  listener: (operation: PostOperation) => void
+): () => void {
+  return operationListeners.add(listener);
+}
+
+export function listOperations(): PostOperation[] {
+  return loadOperations().sort(
+    (a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt)
+  );
+}
+
+export function getOperation(id: string): PostOperation | undefined {
+  return loadOperations().find((operation) => operation.id === id);
+}
+
+export function findOperationByKey(
+  idempotencyKey: string
+): PostOperation | undefined {
+  return loadOperations().find(
+    (operation) => operation.idempotencyKey === idempotencyKey
+  );
+}
+
+export function addOperation(
+  operation: Pick<
+    PostOperation,
+    "idempotencyKey" | "postType" | "accountId" | "inputHash"
+  >
+): PostOperation {
+  const now = new Date().toISOString();
+  const created: PostOperation = {
+    ...operation,
+    id: randomUUID(),
+    stage: "pending",
+    status: "running",
+    attempts: 0,
+    history: [{ stage: "pending", at: now }],
+    createdAt: now,
+    updatedAt: now,
+  };
+  const cutoff = Date.now() - OPERATION_RETENTION_MS;
+  const kept = loadOperations().filter(
+    (existing) =>
+      existing.status === "running" || Date.parse(existing.updatedAt) > cutoff
+  );
+  saveOperations([...kept, created]);
+  operationListeners.notify(created);
+  return created;
+}
+
+// Moving to a new stage also appends it to the history
+export function updateOperation(
+  id: string,
+  changes: Partial<
+    Omit<PostOperation, "id" | "idempotencyKey" | "postType" | "history">
+  >
+): PostOperation | undefined {
+  const operations = loadOperations();
+  const index = operations.findIndex((operation) => operation.id === id);
+  if (index === -1) return undefined;
+  const current = operations[index];
+  const now = new Date().toISOString();
+  operations[index] = {
+    ...current,
+    ...changes,
+    history:
+      changes.stage && changes.stage !== current.stage
+        ? [...current.history, { stage: changes.stage, at: now }]
+        : current.history,
+    updatedAt: now,
+  };
+  saveOperations(operations);
+  operationListeners.notify(operations[index]);
+  return operations[index];
+}
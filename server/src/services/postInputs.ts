@@ -0,0 +1,95 @@
+import { TrialGraduationStrategy, UserTag } from "./instagramGraphApi.js";
+import { RetryPolicy } from "./retryPolicy.js";
+import { AspectPolicy } from "./imageConversion.js";
+
+// Inputs of the post tools. They live with the services because scheduled
+// jobs store them and the scheduler replays them.
+
+// instagram-post-image
+export interface InstagramPostImageInput {
+  // HTTPS URL, local file path or base64 data: URI
+  imageUrl: string;
+  caption?: string;
+  // People tagged on the image, positioned by x/y
+  userTags?: UserTag[];
+  locationId?: string;
+  altText?: string;
+  // IG user id or username; defaults to the only/default stored account
+  account?: string;
+  retryPolicy?: Partial<RetryPolicy>;
+  // Convert the image to a compliant sRGB JPEG instead of rejecting it
+  autoFix?: boolean;
+  aspectPolicy?: AspectPolicy;
+  padColor?: string;
+  // Repeating a call with the same key resumes or replays it instead of
+  // posting twice; a random key is used when omitted
+  idempotencyKey?: string;
+  // Only for previewImagePost: also create the container, unpublished
+  createContainers?: boolean;
+}
+
+// One image or video of a carousel
+export interface CarouselMediaItem {
+  type: "IMAGE" | "VIDEO";
+  // HTTPS URL, local file path or base64 data: URI
+  url: string;
+  // People tagged on this item; only images take x/y positions
+  userTags?: UserTag[];
+  // Images only
+  altText?: string;
+}
+
+// instagram-post-carousel
+export interface InstagramPostCarouselInput {
+  mediaItems: CarouselMediaItem[];
+  caption?: string;
+  locationId?: string;
+  // IG user id or username; defaults to the only/default stored account
+  account?: string;
+  retryPolicy?: Partial<RetryPolicy>;
+  // Convert image items to compliant sRGB JPEGs instead of rejecting them
+  autoFix?: boolean;
+  aspectPolicy?: AspectPolicy;
+  padColor?: string;
+  // Repeating a call with the same key resumes or replays it instead of
+  // posting twice; a random key is used when omitted
+  idempotencyKey?: string;
+  // Only for previewCarouselPost: also create the containers, unpublished
+  createContainers?: boolean;
+}
+
+// instagram-post-reel
+export interface InstagramPostReelInput {
+  // HTTPS URL, local file path or base64 data: URI (also for coverUrl)
+  videoUrl: string;
+  coverUrl?: string;
+  caption?: string;
+  shareToFeed?: boolean;
+  // Milliseconds into the video to take the cover frame from; not allowed
+  // together with coverUrl
+  thumbOffset?: number;
+  // Name for the Reel's original audio
+  audioName?: string;
+  // Usernames invited as co-authors
+  collaborators?: string[];
+  locationId?: string;
+  // Usernames to tag; tags on videos have no position
+  userTags?: string[];
+  // Post as a trial reel, shown to non-followers first
+  trialGraduation?: TrialGraduationStrategy;
+  // IG user id or username; defaults to the only/default stored account
+  account?: string;
+  retryPolicy?: Partial<RetryPolicy>;
+  // Repeating a call with the same key resumes or replays it instead of
+  // posting twice; a random key is used when omitted
+  idempotencyKey?: string;
+  // Return once the container is created and keep polling and publishing
+  // in the background (see startReelPost)
+  async?: boolean;
+  // How long to wait for Instagram to process the video, and how often to
+  // check; the default wait is longer in async mode
+  maxWaitTimeMs?: number;
+  pollIntervalMs?: number;
+  // Only for previewReelPost: also create the container, unpublished
+  createContainers?: boolean;
+}
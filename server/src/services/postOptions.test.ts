@@ -0,0 +1,94 @@
+import { UserTag } from "./instagramGraphApi.js";
+import {
+  PostOptionProblems,
+  validateAltText,
+  validateCollaborators,
+  validateLocationId,
+  validateUserTags,
+} from "./postOptions.js";
+
+describe("post options", () => {
+  let problems: PostOptionProblems;
+
+  beforeEach(() => {
+    problems = new PostOptionProblems();
+  });
+
+  describe("validateCollaborators", () => {
+    it("strips @ and leaves valid usernames", () => {
+      expect(validateCollaborators(["@jane.doe", " joe_1 "], "collaborators", problems)).toEqual([
+        "jane.doe",
+        "joe_1",
+      ]);
+      expect(validateCollaborators([], "collaborators", problems)).toBeUndefined();
+      expect(problems.messages).toEqual([]);
+    });
+
+    it("reports too many, invalid and repeated usernames", () => {
+      validateCollaborators(["a", "b c", "A", "d"], "collaborators", problems);
+      expect(problems.messages).toEqual([
+        "collaborators: at most 3 collaborators can be invited, got 4",
+        'collaborators[1]: "b c" is not a valid username',
+        "collaborators[2]: @A is listed twice",
+      ]);
+    });
+  });
+
+  describe("validateUserTags", () => {
+    it("keeps positions on images and refuses them on videos", () => {
+      const tags: UserTag[] = [{ username: "@jane", x: 0.5, y: 1 }];
+      expect(validateUserTags(tags, "userTags", true, problems)).toEqual([
+        { username: "jane", x: 0.5, y: 1 },
+      ]);
+      expect(problems.messages).toEqual([]);
+
+      validateUserTags(tags, "userTags", false, problems);
+      expect(problems.messages).toEqual([
+        "userTags[0]: tags on videos cannot have x/y coordinates",
+      ]);
+    });
+
+    it("needs a position from 0 to 1 on images", () => {
+      validateUserTags([{ username: "jane", x: 1.5 } as UserTag], "mediaItems[0].userTags", true, problems);
+      expect(problems.messages).toEqual([
+        "mediaItems[0].userTags[0].x: must be a number from 0 to 1",
+        "mediaItems[0].userTags[0].y: must be a number from 0 to 1",
+      ]);
+    });
+
+    it("refuses more than 20 tags", () => {
+      const tags = Array.from({ length: 21 }, (_, i) => ({ username: `user${i}` }));
+      expect(validateUserTags(tags, "userTags", false, problems)).toHaveLength(21);
+      expect(problems.messages).toEqual([
+        "userTags: at most 20 people can be tagged, got 21",
+      ]);
+    });
+  });
+
+  it("needs a numeric location ID", () => {
+    expect(validateLocationId(" 213385402 ", "locationId", problems)).toBe("213385402");
+    expect(validateLocationId("", "locationId", problems)).toBeUndefined();
+    validateLocationId("Paris", "locationId", problems);
+    expect(problems.messages).toEqual([
+      'locationId: "Paris" is not a numeric location ID (see instagram-search-locations)',
+    ]);
+  });
+
+  it("refuses blank alt text", () => {
+    expect(validateAltText(" A red door ", "altText", problems)).toBe("A red door");
+    expect(validateAltText("  ", "altText", problems)).toBeUndefined();
+    expect(problems.messages).toEqual(["altText: must not be empty"]);
+  });
+
+  it("throws every problem at once as an invalid request", () => {
+    problems.add("locationId", "is wrong");
+    problems.add("altText", "must not be empty");
+    expect(() => problems.throwIfAny()).toThrow(
+      expect.objectContaining({
+        type: "INVALID_REQUEST",
+        message: "Invalid post options: locationId: is wrong; altText: must not be empty",
+      })
+    );
+    expect(() => new PostOptionProblems().throwIfAny()).not.toThrow();
+  });
+});
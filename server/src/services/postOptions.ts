@@ -0,0 +1,166 @@
+import {
+  InstagramApiError,
+  InstagramErrorType,
+  UserTag,
+} from "./instagramGraphApi.js";
+
+// Checks for the optional post fields (tags, collaborators, location, alt
+// text) that are sent with the container request. Problems are collected per
+// argument and reported together, like the media checks.
+
+// Instagram's limits per media item
+export const MAX_USER_TAGS = 20;
+export const MAX_COLLABORATORS = 3;
+
+// Public usernames: letters, digits, periods and underscores, up to 30
+const USERNAME_PATTERN = /^[a-z0-9._]{1,30}$/i;
+
+// Collects "field: message" strings for one tool call
+export class PostOptionProblems {
+  readonly messages: string[] = [];
+
+  add(field: string, message: string): void {
+    this.messages.push(`${field}: ${message}`);
+  }
+
+  throwIfAny(): void {
+    if (this.messages.length === 0) return;
+    throw new InstagramApiError(
+      `Invalid post options: ${this.messages.join("; ")}`,
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+}
+
+// Strips a leading @, which Instagram does not accept
+export function normalizeUsername(username: string): string {
+  return String(username ?? "").trim().replace(/^@/, "");
+}
+
+function checkUsernames(
+  usernames: string[],
+  field: string,
+  problems: PostOptionProblems
+): void {
+  const seen = new Set<string>();
+  usernames.forEach((username, index) => {
+    if (!USERNAME_PATTERN.test(username)) {
+      problems.add(
+        `${field}[${index}]`,
+        `"${username}" is not a valid username`
+      );
+    } else if (seen.has(username.toLowerCase())) {
+      problems.add(`${field}[${index}]`, `@${username} is listed twice`);
+    }
+    seen.add(username.toLowerCase());
+  });
+}
+
+export function validateCollaborators(
+  collaborators: string[] | undefined,
+  field: string,
+  problems: PostOptionProblems
+): string[] | undefined {
+  if (!collaborators) return undefined;
+  if (!Array.isArray(collaborators)) {
+    problems.add(field, "must be a list of usernames");
+    return undefined;
+  }
+  const usernames = collaborators.map(normalizeUsername);
+  if (usernames.length > MAX_COLLABORATORS) {
+    problems.add(
+      field,
+      `at most ${MAX_COLLABORATORS} collaborators can be invited, got ${usernames.length}`
+    );
+  }
+  checkUsernames(usernames, field, problems);
+  return usernames.length > 0 ? usernames : undefined;
+}
+
+// positioned: whether the tags go on an image and need x/y coordinates
+export function validateUserTags(
+  tags: UserTag[] | undefined,
+  field: string,
+  positioned: boolean,
+  problems: PostOptionProblems
+): UserTag[] | undefined {
+  if (!tags) return undefined;
+  if (!Array.isArray(tags)) {
+    problems.add(field, "must be a list of tags");
+    return undefined;
+  }
+  if (tags.length > MAX_USER_TAGS) {
+    problems.add(
+      field,
+      `at most ${MAX_USER_TAGS} people can be tagged, got ${tags.length}`
+    );
+  }
+  const normalized = tags.map((tag) => ({
+    ...tag,
+    username: normalizeUsername(tag?.username),
+  }));
+  checkUsernames(
+    normalized.map((tag) => tag.username),
+    field,
+    problems
+  );
+
+  normalized.forEach((tag, index) => {
+    const hasPosition = tag.x !== undefined || tag.y !== undefined;
+    if (!positioned) {
+      if (hasPosition) {
+        problems.add(
+          `${field}[${index}]`,
+          "tags on videos cannot have x/y coordinates"
+        );
+      }
+      return;
+    }
+    for (const axis of ["x", "y"] as const) {
+      const value = tag[axis];
+      if (
+        typeof value !== "number" ||
+        !Number.isFinite(value) ||
+        value < 0 ||
+        value > 1
+      ) {
+        problems.add(
+          `${field}[${index}].${axis}`,
+          "must be a number from 0 to 1"
+        );
+      }
+    }
+  });
+  if (normalized.length === 0) return undefined;
+  return normalized.map((tag) =>
+    positioned
+      ? { username: tag.username, x: tag.x, y: tag.y }
+      : { username: tag.username }
+  );
+}
+
+export function validateLocationId(
+  locationId: string | undefined,
+  field: string,
+  problems: PostOptionProblems
+): string | undefined {
+  if (locationId === undefined || locationId === "") return undefined;
+  const value = String(locationId).trim();
+  if (!/^\d+$/.test(value)) {
+    problems.add(field, `"${locationId}" is not a numeric location ID (see instagram-search-locations)`);
+  }
+  return value;
+}
+
+export function validateAltText(
+  altText: string | undefined,
+  field: string,
+  problems: PostOptionProblems
+): string | undefined {
+  if (altText === undefined) return undefined;
+  const value = String(altText).trim();
+  if (!value) {
+    problems.add(field, "must not be empty");
+  }
+  return value || undefined;
+}
@@ -0,0 +1,167 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  ACCOUNT_ID,
+  useAccountDataDir,
+  useGraphApiStub,
+} from "../tools/__fixtures__/toolTestSetup.js";
+import { InstagramGraphClient, getGraphApiBaseUrl } from "./instagramGraphApi.js";
+import { MediaSource, MediaStaging } from "./mediaHosting.js";
+import { PostPreviewRecorder } from "./postPreview.js";
+
+describe("PostPreviewRecorder", () => {
+  let posts: URLSearchParams[];
+  let statusChecks: Record<string, number>;
+  let finalStatus: string;
+
+  // Names each container after its request; a container reports IN_PROGRESS
+  // on its first check and finalStatus after that
+  useGraphApiStub(({ method, url, params }) => {
+    if (method === "POST") {
+      posts.push(params);
+      return { body: { id: `container-${posts.length}` } };
+    }
+    const containerId = url.pathname.split("/").pop()!;
+    statusChecks[containerId] = (statusChecks[containerId] || 0) + 1;
+    return {
+      body: {
+        id: containerId,
+        status_code: statusChecks[containerId] > 1 ? finalStatus : "IN_PROGRESS",
+      },
+    };
+  });
+  const dataDir = useAccountDataDir("preview-test-", {
+    MEDIA_PUBLIC_BASE_URL: "https://media.example.com",
+  });
+
+  let client: InstagramGraphClient;
+  let staging: MediaStaging;
+
+  beforeEach(() => {
+    posts = [];
+    statusChecks = {};
+    finalStatus = "FINISHED";
+    client = new InstagramGraphClient({ igUserId: ACCOUNT_ID, accessToken: "token" });
+    staging = new MediaStaging();
+  });
+
+  afterEach(async () => {
+    await staging.cleanup();
+  });
+
+  const localImage: MediaSource = {
+    kind: "local",
+    media: {
+      data: Buffer.from("image"),
+      contentType: "image/jpeg",
+      fileName: "photo.jpg",
+    },
+  };
+
+  const stagedFiles = () =>
+    fs.existsSync(path.join(dataDir(), "staged-media"))
+      ? fs.readdirSync(path.join(dataDir(), "staged-media"))
+      : [];
+
+  const recordPost = async (recorder: PostPreviewRecorder) => {
+    const imageUrl = await recorder.mediaUrl("imageUrl", localImage);
+    const containerId = await recorder.createContainer(
+      "image",
+      { image_url: imageUrl, caption: "Sunset" },
+      true
+    );
+    recorder.publish(containerId);
+    return recorder.finish({
+      account: { id: ACCOUNT_ID, username: "stub.account" },
+      media: [],
+      caption: {} as never,
+      publishingLimit: {} as never,
+      mediaWarnings: [],
+      mediaFixes: [],
+    });
+  };
+
+  it("lists the requests with placeholders and sends none of them", async () => {
+    const preview = await recordPost(new PostPreviewRecorder(client, staging, false));
+
+    const base = getGraphApiBaseUrl();
+    expect(preview.requests).toEqual([
+      {
+        method: "POST",
+        url: `${base}/${ACCOUNT_ID}/media`,
+        body: {
+          image_url: "{staged:imageUrl}",
+          caption: "Sunset",
+          access_token: "REDACTED",
+        },
+      },
+      {
+        method: "GET",
+        url: `${base}/{container:image}?fields=status_code&access_token=REDACTED`,
+      },
+      {
+        method: "POST",
+        url: `${base}/${ACCOUNT_ID}/media_publish`,
+        body: { creation_id: "{container:image}", access_token: "REDACTED" },
+      },
+    ]);
+    expect(preview).toMatchObject({
+      dryRun: true,
+      status: "Dry run: nothing was created or published",
+      containers: [],
+    });
+    expect(posts).toHaveLength(0);
+    expect(stagedFiles()).toHaveLength(0);
+  });
+
+  it("stages the media and creates the containers with createContainers, without publishing", async () => {
+    const recorder = new PostPreviewRecorder(client, staging, true, {
+      pollIntervalMs: 10,
+    });
+    const preview = await recordPost(recorder);
+
+    expect(stagedFiles()).toHaveLength(1);
+    expect(posts).toHaveLength(1);
+    expect(posts[0].get("image_url")).toMatch(
+      /^https:\/\/media\.example\.com\/.+\.jpg/
+    );
+    expect(statusChecks).toEqual({ "container-1": 2 });
+    expect(preview.containers).toEqual([
+      { field: "image", containerId: "container-1", statusCode: "FINISHED" },
+    ]);
+    expect(preview.status).toMatch(/^Dry run: containers created and left unpublished/);
+    const base = getGraphApiBaseUrl();
+    expect(
+      preview.requests.map(({ method, url }) => `${method} ${url.split("?")[0]}`)
+    ).toEqual([
+      `POST ${base}/${ACCOUNT_ID}/media`,
+      `GET ${base}/container-1`,
+      `POST ${base}/${ACCOUNT_ID}/media_publish`,
+    ]);
+    expect(preview.requests[2].body?.creation_id).toBe("container-1");
+  });
+
+  it("waits for containers the post would not poll, but does not list the check", async () => {
+    const recorder = new PostPreviewRecorder(client, staging, true, {
+      pollIntervalMs: 10,
+    });
+    await recorder.createContainer(
+      "mediaItems[0]",
+      { image_url: "https://example.com/a.jpg" },
+      false
+    );
+    expect(statusChecks).toEqual({ "container-1": 2 });
+    expect(recorder.requests.map(({ method }) => method)).toEqual(["POST"]);
+  });
+
+  it("fails when Instagram can't process a container", async () => {
+    finalStatus = "ERROR";
+    const recorder = new PostPreviewRecorder(client, staging, true, {
+      pollIntervalMs: 10,
+    });
+    await expect(recordPost(recorder)).rejects.toMatchObject({
+      message: "Media container processing failed or expired. Status: ERROR",
+    });
+    expect(recorder.containers).toEqual([]);
+  });
+});
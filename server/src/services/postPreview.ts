@@ -0,0 +1,157 @@
+import {
+  GraphRequestPreview,
+  InstagramGraphClient,
+  MediaContainerParams,
+  WaitForContainerOptions,
+} from "./instagramGraphApi.js";
+import { MediaSource, MediaStaging } from "./mediaHosting.js";
+import {
+  MediaInspection,
+  MediaProblem,
+  MediaTarget,
+} from "./mediaInspection.js";
+import { MediaFix } from "./imageConversion.js";
+import { CaptionAnalysis } from "./captionLint.js";
+import { RetryEvent } from "./retryPolicy.js";
+import { ImageInfo } from "../utils/imageHeaders.js";
+import { VideoInfo } from "../utils/mp4Metadata.js";
+import { InstagramPublishingLimitOutput } from "../tools/instagramPublishingLimit.js";
+
+// Dry runs of the post tools: the same checks as a real post, then the Graph
+// API calls the post would make are listed instead of made. With
+// createContainers the containers are created as well, but never published.
+
+// What was found out about one piece of media
+export interface PreviewMedia {
+  field: string;
+  target: MediaTarget;
+  // Set for URL sources, which Instagram fetches directly
+  url?: string;
+  // Set for local files and data URIs, which are staged on the media host
+  fileName?: string;
+  contentType?: string;
+  sizeBytes?: number;
+  image?: ImageInfo;
+  video?: VideoInfo;
+}
+
+// A container created by a dry run with createContainers
+export interface PreviewContainer {
+  field: string;
+  containerId: string;
+  statusCode: string;
+}
+
+export interface PostPreview {
+  dryRun: true;
+  status: string;
+  account: { id: string; username: string };
+  media: PreviewMedia[];
+  caption: CaptionAnalysis;
+  // Quota as checked now; the dry run itself does not use any
+  publishingLimit: InstagramPublishingLimitOutput;
+  mediaWarnings: MediaProblem[];
+  mediaFixes: MediaFix[];
+  // Every call creating and publishing the post would make, in order
+  requests: GraphRequestPreview[];
+  containers: PreviewContainer[];
+  retries: RetryEvent[];
+}
+
+export function describePreviewMedia(
+  source: MediaSource,
+  inspection: MediaInspection
+): PreviewMedia {
+  return {
+    field: inspection.field,
+    target: inspection.target,
+    ...(source.kind === "url"
+      ? { url: source.url }
+      : {
+          fileName: source.media.fileName,
+          contentType: source.media.contentType,
+        }),
+    sizeBytes: inspection.sizeBytes,
+    image: inspection.image,
+    video: inspection.video,
+  };
+}
+
+// Records the requests a post would send. Values that only exist once the
+// post runs, such as container IDs and staged media URLs, are shown as
+// {placeholders} unless createContainers is set; then the media is staged
+// and each container is created and polled until Instagram has processed it.
+export class PostPreviewRecorder {
+  readonly requests: GraphRequestPreview[] = [];
+  readonly containers: PreviewContainer[] = [];
+
+  constructor(
+    private readonly client: InstagramGraphClient,
+    private readonly staging: MediaStaging,
+    private readonly createContainers: boolean,
+    private readonly waitOptions: WaitForContainerOptions = {}
+  ) {}
+
+  // Nothing is uploaded to the media host unless containers are created
+  async mediaUrl(field: string, source: MediaSource): Promise<string> {
+    if (source.kind === "url") return source.url;
+    return this.createContainers
+      ? this.staging.stage(source)
+      : `{staged:${field}}`;
+  }
+
+  // polled: whether the post waits for this container before going on
+  async createContainer(
+    field: string,
+    params: MediaContainerParams,
+    polled: boolean
+  ): Promise<string> {
+    const { client } = this;
+    this.requests.push(
+      client.describeRequest("POST", `/${client.igUserId}/media`, { ...params })
+    );
+    let containerId = `{container:${field}}`;
+    if (this.createContainers) {
+      containerId = await client.createMediaContainer(params);
+      // Waiting on every container, not just the polled ones, means the
+      // staged media can be removed once the dry run returns
+      await client.waitForContainerReady(containerId, this.waitOptions);
+      this.containers.push({ field, containerId, statusCode: "FINISHED" });
+    }
+    if (polled) {
+      this.requests.push(
+        client.describeRequest("GET", `/${containerId}`, {
+          fields: "status_code",
+        })
+      );
+    }
+    return containerId;
+  }
+
+  publish(containerId: string): void {
+    const { client } = this;
+    this.requests.push(
+      client.describeRequest("POST", `/${client.igUserId}/media_publish`, {
+        creation_id: containerId,
+      })
+    );
+  }
+
+  finish(
+    preview: Omit<
+      PostPreview,
+      "dryRun" | "status" | "requests" | "containers" | "retries"
+    >
+  ): PostPreview {
+    return {
+      dryRun: true,
+      status: this.createContainers
+        ? "Dry run: containers created and left unpublished; Instagram expires them after 24 hours"
+        : "Dry run: nothing was created or published",
+      ...preview,
+      requests: this.requests,
+      containers: this.containers,
+      retries: this.client.retryEvents,
+    };
+  }
+}
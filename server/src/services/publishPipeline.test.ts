@@ -0,0 +1,103 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { getOperation, updateOperation } from "./operationStore.js";
+import {
+  beginPostOperation,
+  completePostOperation,
+  failPostOperation,
+  recoverInterruptedOperations,
+  releasePostOperation,
+  replayPostOperation,
+} from "./publishPipeline.js";
+
+const ACCOUNT_ID = "17841405822304914";
+
+describe("post operations", () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "publish-pipeline-test-"));
+    process.env.INSTAGRAM_MCP_DATA_DIR = dataDir;
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+    delete process.env.INSTAGRAM_MCP_DATA_DIR;
+  });
+
+  const input = {
+    imageUrl: "https://example.com/a.jpg",
+    caption: "Hello",
+    idempotencyKey: "key-1",
+  };
+
+  it("resumes a failed operation under the same key", () => {
+    const first = beginPostOperation("image", ACCOUNT_ID, input);
+    failPostOperation(first, new Error("Network down"));
+    releasePostOperation(first);
+
+    // Fields that don't change the post are left out of the comparison
+    const withRetryPolicy = { ...input, retryPolicy: { maxAttempts: 5 } };
+    const resumed = beginPostOperation("image", ACCOUNT_ID, withRetryPolicy);
+    expect(resumed).toMatchObject({
+      id: first.id,
+      status: "running",
+      attempts: 2,
+      error: undefined,
+    });
+    releasePostOperation(resumed);
+  });
+
+  it("replays a succeeded operation", () => {
+    const operation = beginPostOperation("image", ACCOUNT_ID, input);
+    completePostOperation(operation, { postId: "18023345989012587", status: "Posted" });
+    releasePostOperation(operation);
+
+    const again = beginPostOperation("image", ACCOUNT_ID, input);
+    expect(replayPostOperation(again)).toMatchObject({
+      postId: "18023345989012587",
+      operationId: operation.id,
+      replayed: true,
+    });
+  });
+
+  it("refuses a key reused for a different post", () => {
+    const operation = beginPostOperation("image", ACCOUNT_ID, input);
+    releasePostOperation(operation);
+
+    const changed = { ...input, caption: "Changed" };
+    expect(() => beginPostOperation("image", ACCOUNT_ID, changed)).toThrow(
+      'Idempotency key "key-1" was already used for a different post.'
+    );
+    expect(() => beginPostOperation("reel", ACCOUNT_ID, input)).toThrow();
+    expect(() => beginPostOperation("image", "17841400000000000", input)).toThrow();
+  });
+
+  it("refuses a key whose operation is still in progress", () => {
+    const operation = beginPostOperation("image", ACCOUNT_ID, input);
+    expect(() => beginPostOperation("image", ACCOUNT_ID, input)).toThrow(
+      `Operation ${operation.id} for this idempotency key is already in progress.`
+    );
+    releasePostOperation(operation);
+  });
+
+  it("marks operations cut off by a restart as failed, leaving active ones", () => {
+    const active = beginPostOperation("image", ACCOUNT_ID, input);
+    const interrupted = beginPostOperation("image", ACCOUNT_ID, {
+      ...input,
+      idempotencyKey: "key-2",
+    });
+    releasePostOperation(interrupted);
+    updateOperation(interrupted.id, { stage: "containers_created" });
+
+    recoverInterruptedOperations();
+
+    expect(getOperation(interrupted.id)).toMatchObject({
+      status: "failed",
+      error: 'Server stopped at stage "containers_created"; call the tool again with idempotencyKey "key-2" to resume.',
+    });
+    expect(getOperation(active.id)!.status).toBe("running");
+    releasePostOperation(active);
+  });
+});
@@ -0,0 +1,378 @@
+import { createHash, randomUUID } from "crypto";
+import {
+  InstagramApiError,
+  InstagramErrorType,
+  InstagramGraphClient,
+  WaitForContainerOptions,
+} from "./instagramGraphApi.js";
+import {
+  PostOperation,
+  PostOperationStage,
+  PostOperationType,
+  addOperation,
+  findOperationByKey,
+  getOperation,
+  listOperations,
+  updateOperation,
+} from "./operationStore.js";
+import { PostOptionProblems } from "./postOptions.js";
+import { MediaStaging } from "./mediaHosting.js";
+
+// Drives a post through validated -> containers_created -> ready ->
+// published, recording each step so a repeated call with the same
+// idempotency key resumes where the last attempt stopped.
+
+function logInfo(context: string, data: any) {
+  console.error(`[INFO] PublishPipeline - ${context}:`, data);
+}
+
+// Added to every post tool's output
+export interface PostOperationOutput {
+  operationId: string;
+  idempotencyKey: string;
+  // True when the post was already published by an earlier call
+  replayed?: boolean;
+}
+
+// Progress of a post, reported while it waits on Instagram
+export interface PostProgressUpdate {
+  operationId: string;
+  stage: PostOperationStage;
+  message: string;
+  // Milliseconds spent waiting so far, out of the wait limit
+  elapsedMs?: number;
+  maxWaitTimeMs?: number;
+  // Set when the post failed
+  error?: string;
+}
+
+export type PostProgressReporter = (update: PostProgressUpdate) => void;
+
+// Input fields that don't change what gets posted (the account is compared
+// by resolved ID instead)
+const UNHASHED_INPUT_FIELDS = new Set([
+  "idempotencyKey",
+  "retryPolicy",
+  "account",
+  "async",
+  "maxWaitTimeMs",
+  "pollIntervalMs",
+]);
+
+// How far back a post published by an interrupted attempt is looked for
+const PUBLISH_LOOKUP_SLACK_MS = 5 * 60 * 1000;
+
+// Operations being worked on by this process; anything else marked
+// "running" was interrupted and may be resumed
+const activeOperations = new Set<string>();
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .sort()
+      .filter((key) => record[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function hashPostInput(input: object): string {
+  const hashed = Object.fromEntries(
+    Object.entries(input).filter(([key]) => !UNHASHED_INPUT_FIELDS.has(key))
+  );
+  return createHash("sha256").update(stableStringify(hashed)).digest("hex");
+}
+
+// Finds or creates the operation for this call. A succeeded operation is
+// returned as is so the caller can replay its result.
+export function beginPostOperation(
+  postType: PostOperationType,
+  accountId: string,
+  input: { idempotencyKey?: string }
+): PostOperation {
+  const idempotencyKey = input.idempotencyKey || randomUUID();
+  const inputHash = hashPostInput(input);
+  const existing = findOperationByKey(idempotencyKey);
+
+  if (existing) {
+    if (
+      existing.postType !== postType ||
+      existing.accountId !== accountId ||
+      existing.inputHash !== inputHash
+    ) {
+      throw new InstagramApiError(
+        `Idempotency key "${idempotencyKey}" was already used for a different post.`,
+        InstagramErrorType.INVALID_REQUEST
+      );
+    }
+    if (activeOperations.has(existing.id)) {
+      throw new InstagramApiError(
+        `Operation ${existing.id} for this idempotency key is already in progress.`,
+        InstagramErrorType.INVALID_REQUEST
+      );
+    }
+    if (existing.status === "succeeded") {
+      logInfo("Replay", { id: existing.id, postId: existing.postId });
+      return existing;
+    }
+    logInfo("Resume", { id: existing.id, stage: existing.stage });
+  }
+
+  const operation =
+    existing || addOperation({ idempotencyKey, postType, accountId, inputHash });
+  activeOperations.add(operation.id);
+  return updateOperation(operation.id, {
+    status: "running",
+    attempts: operation.attempts + 1,
+    error: undefined,
+  })!;
+}
+
+export function replayPostOperation<T>(operation: PostOperation): T {
+  return { ...(operation.result as T), replayed: true };
+}
+
+export function advancePostOperation(
+  operation: PostOperation,
+  stage: PostOperationStage,
+  changes: Partial<PostOperation> = {}
+): PostOperation {
+  return updateOperation(operation.id, { ...changes, stage }) || operation;
+}
+
+// Returns the container from an earlier attempt if Instagram still has it.
+// Expired or failed containers are dropped so new ones get created.
+export async function reuseContainer(
+  client: InstagramGraphClient,
+  operation: PostOperation
+): Promise<{ operation: PostOperation; containerId?: string }> {
+  if (!operation.containerId) return { operation };
+  const { status_code } = await client.getContainerStatus(operation.containerId);
+  if (status_code !== "EXPIRED" && status_code !== "ERROR") {
+    return { operation, containerId: operation.containerId };
+  }
+  logInfo("Container Unusable", {
+    id: operation.id,
+    containerId: operation.containerId,
+    status: status_code,
+  });
+  return {
+    operation: advancePostOperation(operation, "validated", {
+      containerId: undefined,
+      childContainerIds: undefined,
+      publishRequestedAt: undefined,
+    }),
+  };
+}
+
+// Bounds on how long and how often a post polls its container, whatever the
+// client asks for, so one call can neither poll the Graph API in a tight loop
+// nor stay open indefinitely
+export const DEFAULT_POLL_INTERVAL_MS = 3000;
+const MIN_POLL_INTERVAL_MS = 1000;
+const MAX_POLL_INTERVAL_MS = 30 * 1000;
+export const MAX_WAIT_TIME_MS = 15 * 60 * 1000;
+
+// The wait arguments of the post tools that poll a video container
+export interface PostWaitInput {
+  maxWaitTimeMs?: number;
+  pollIntervalMs?: number;
+}
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+export function validateWaitOptions(
+  input: PostWaitInput,
+  problems: PostOptionProblems
+): void {
+  for (const field of ["maxWaitTimeMs", "pollIntervalMs"] as const) {
+    if (input[field] !== undefined && !isPositiveNumber(input[field])) {
+      problems.add(field, "must be a positive number of milliseconds");
+    }
+  }
+}
+
+// The client's wait options clamped to the bounds above, with defaults for
+// the ones left out
+export function resolveWaitOptions(
+  input: PostWaitInput,
+  defaultMaxWaitTimeMs: number
+): Required<PostWaitInput> {
+  const clamp = (value: number, min: number, max: number) =>
+    Math.min(Math.max(value, min), max);
+  return {
+    maxWaitTimeMs: Math.min(
+      isPositiveNumber(input.maxWaitTimeMs)
+        ? input.maxWaitTimeMs
+        : defaultMaxWaitTimeMs,
+      MAX_WAIT_TIME_MS
+    ),
+    pollIntervalMs: clamp(
+      isPositiveNumber(input.pollIntervalMs)
+        ? input.pollIntervalMs
+        : DEFAULT_POLL_INTERVAL_MS,
+      MIN_POLL_INTERVAL_MS,
+      MAX_POLL_INTERVAL_MS
+    ),
+  };
+}
+
+// Polls the container until Instagram has processed it, recording each
+// status on the operation and passing it to onProgress
+export async function waitForPostContainer(
+  client: InstagramGraphClient,
+  operation: PostOperation,
+  containerId: string,
+  options: Omit<WaitForContainerOptions, "onPoll">,
+  onProgress?: PostProgressReporter
+): Promise<PostOperation> {
+  await client.waitForContainerReady(containerId, {
+    ...options,
+    onPoll: (statusCode, elapsedMs) => {
+      operation = advancePostOperation(operation, operation.stage, {
+        containerStatus: statusCode,
+      });
+      onProgress?.({
+        operationId: operation.id,
+        stage: operation.stage,
+        message: `Container ${containerId} is ${statusCode} after ${Math.round(elapsedMs / 1000)}s`,
+        elapsedMs,
+        maxWaitTimeMs: options.maxWaitTimeMs,
+      });
+    },
+  });
+  return advancePostOperation(operation, "ready");
+}
+
+// Removes a post's staged media once Instagram no longer needs it. Instagram
+// fetches the staged files while it processes the container, so when a post
+// gave up with its container still processing (e.g. the wait timed out) the
+// files stay up until Instagram has finished with it, or MAX_WAIT_TIME_MS
+// passes; calling again with the same key reuses that container.
+export async function releaseStagedMedia(
+  client: InstagramGraphClient,
+  operation: PostOperation,
+  containerId: string | undefined,
+  staging: MediaStaging,
+  pollIntervalMs: number
+): Promise<void> {
+  const stored = getOperation(operation.id);
+  if (
+    !containerId ||
+    staging.isEmpty ||
+    stored?.stage !== "containers_created" ||
+    stored.containerStatus === "ERROR" ||
+    stored.containerStatus === "EXPIRED"
+  ) {
+    await staging.cleanup();
+    return;
+  }
+  client
+    .waitForContainerReady(containerId, {
+      maxWaitTimeMs: MAX_WAIT_TIME_MS,
+      pollIntervalMs,
+    })
+    .catch(() => undefined)
+    .finally(() => staging.cleanup());
+}
+
+// Looks for the post an interrupted media_publish created. Stories are not
+// listed on the media edge, so they are looked up on the stories edge.
+async function findPublishedMedia(
+  client: InstagramGraphClient,
+  operation: PostOperation,
+  since: string,
+  caption?: string
+): Promise<string | undefined> {
+  const edge = operation.postType === "story" ? "stories" : "media";
+  const response = await client.get<{
+    data?: { id: string; caption?: string; timestamp: string }[];
+  }>(`/${client.igUserId}/${edge}`, { fields: "id,caption,timestamp", limit: 25 });
+  const earliest = Date.parse(since) - PUBLISH_LOOKUP_SLACK_MS;
+  return response.data?.find(
+    (media) =>
+      Date.parse(media.timestamp) >= earliest &&
+      (media.caption || "") === (caption || "")
+  )?.id;
+}
+
+// Publishes the operation's container, unless an earlier attempt already did
+export async function publishPostOperation(
+  client: InstagramGraphClient,
+  operation: PostOperation,
+  caption?: string
+): Promise<string> {
+  const containerId = operation.containerId!;
+  if (operation.publishRequestedAt) {
+    const { status_code } = await client.getContainerStatus(containerId);
+    if (status_code === "PUBLISHED") {
+      const postId = await findPublishedMedia(
+        client,
+        operation,
+        operation.publishRequestedAt,
+        caption
+      );
+      if (!postId) {
+        throw new InstagramApiError(
+          `Container ${containerId} was already published, but the post could not be found yet. Check the account before retrying.`,
+          InstagramErrorType.UNKNOWN_ERROR
+        );
+      }
+      logInfo("Found Earlier Publish", { id: operation.id, postId });
+      return postId;
+    }
+  }
+  updateOperation(operation.id, { publishRequestedAt: new Date().toISOString() });
+  return client.publishMediaContainer(containerId);
+}
+
+export function completePostOperation<T extends { postId: string }>(
+  operation: PostOperation,
+  result: T
+): T & PostOperationOutput {
+  const output = {
+    ...result,
+    operationId: operation.id,
+    idempotencyKey: operation.idempotencyKey,
+  };
+  advancePostOperation(operation, "published", {
+    status: "succeeded",
+    postId: result.postId,
+    result: output,
+  });
+  return output;
+}
+
+export function failPostOperation(operation: PostOperation, error: any): void {
+  updateOperation(operation.id, {
+    status: "failed",
+    error: error.type
+      ? `${error.message} (Type: ${error.type})`
+      : error.message || "Unknown error",
+  });
+}
+
+export function releasePostOperation(operation: PostOperation): void {
+  activeOperations.delete(operation.id);
+}
+
+// Marks operations cut off by a restart as failed; calling the tool again
+// with the same idempotency key resumes them
+export function recoverInterruptedOperations(): void {
+  for (const operation of listOperations()) {
+    if (operation.status !== "running" || activeOperations.has(operation.id)) {
+      continue;
+    }
+    updateOperation(operation.id, {
+      status: "failed",
+      error: `Server stopped at stage "${operation.stage}"; call the tool again with idempotencyKey "${operation.idempotencyKey}" to resume.`,
+    });
+    logInfo("Interrupted Operation", { id: operation.id, stage: operation.stage });
+  }
+}
@@ -0,0 +1,146 @@
+import { jest } from "@jest/globals";
+import { InstagramApiError, InstagramErrorType } from "./instagramErrors.js";
+import {
+  DEFAULT_RETRY_POLICY,
+  RetryEvent,
+  computeRetryDelay,
+  isRetryableError,
+  isUsageAboveThreshold,
+  parseUsageHeaders,
+  resolveRetryPolicy,
+  withRetry,
+} from "./retryPolicy.js";
+
+const headers = (values: Record<string, string>) => ({
+  get: (name: string) => values[name] ?? null,
+});
+
+const graphError = (code: number, extra: object = {}) =>
+  new InstagramApiError(
+    "Graph API error",
+    InstagramErrorType.INVALID_REQUEST,
+    400,
+    undefined,
+    { error: { code, ...extra } }
+  );
+
+describe("resolveRetryPolicy", () => {
+  it("takes valid overrides and keeps the defaults for the rest", () => {
+    expect(
+      resolveRetryPolicy({ maxAttempts: 5, baseDelayMs: -1, maxDelayMs: NaN })
+    ).toEqual({ ...DEFAULT_RETRY_POLICY, maxAttempts: 5 });
+  });
+
+  it("always makes at least one attempt", () => {
+    expect(resolveRetryPolicy({ maxAttempts: 0 }).maxAttempts).toBe(1);
+    expect(resolveRetryPolicy({ maxAttempts: 2.7 }).maxAttempts).toBe(2);
+  });
+});
+
+describe("parseUsageHeaders", () => {
+  it("takes the highest figure from each usage header", () => {
+    const usage = parseUsageHeaders(
+      headers({
+        "x-app-usage": JSON.stringify({ call_count: 12, total_cputime: 40, total_time: 7 }),
+        "x-business-use-case-usage": JSON.stringify({
+          "1234": [
+            { type: "instagram", call_count: 95, total_time: 10, estimated_time_to_regain_access: 0 },
+            { type: "instagram", call_count: 20, total_time: 60, estimated_time_to_regain_access: 3 },
+          ],
+        }),
+        "retry-after": "30",
+      })
+    );
+    expect(usage).toEqual({
+      appUsagePercent: 40,
+      businessUseCaseUsagePercent: 95,
+      regainAccessMinutes: 3,
+      retryAfterSeconds: 30,
+    });
+    expect(isUsageAboveThreshold(usage, DEFAULT_RETRY_POLICY)).toBe(true);
+  });
+
+  it("ignores headers that are missing or not JSON", () => {
+    const usage = parseUsageHeaders(headers({ "x-app-usage": "not json" }));
+    expect(usage).toEqual({});
+    expect(isUsageAboveThreshold(usage, DEFAULT_RETRY_POLICY)).toBe(false);
+  });
+});
+
+describe("isRetryableError", () => {
+  it.each<[string, boolean, unknown]>([
+    ["a rate limit", true, new InstagramApiError("Too many calls", InstagramErrorType.RATE_LIMIT, 400)],
+    ["a transient Graph API code", true, graphError(2)],
+    ["an error flagged is_transient", true, graphError(100, { is_transient: true })],
+    ["an invalid parameter", false, graphError(100)],
+    ["an expired token", false, new InstagramApiError("Expired", InstagramErrorType.EXPIRED_TOKEN, 400)],
+    ["a server error", true, new InstagramApiError("Bad gateway", InstagramErrorType.NETWORK_ERROR, 502)],
+    ["a request with no response", true, new InstagramApiError("Socket reset", InstagramErrorType.NETWORK_ERROR)],
+    ["a 404", false, new InstagramApiError("Not found", InstagramErrorType.NETWORK_ERROR, 404)],
+    ["an error from outside the client", false, new Error("boom")],
+  ])("%s is retryable: %s", (_, retryable, error) => {
+    expect(isRetryableError(error)).toBe(retryable);
+  });
+});
+
+describe("computeRetryDelay", () => {
+  const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1000, maxDelayMs: 5000 };
+
+  it("doubles the delay per attempt with equal jitter, up to the maximum", () => {
+    for (const [attempt, exponential] of [[1, 1000], [2, 2000], [3, 4000], [4, 5000]]) {
+      const delay = computeRetryDelay(policy, attempt);
+      expect(delay).toBeGreaterThanOrEqual(exponential / 2);
+      expect(delay).toBeLessThanOrEqual(exponential);
+    }
+  });
+
+  it("waits at least as long as Instagram asks", () => {
+    expect(computeRetryDelay(policy, 1, { retryAfterSeconds: 3 })).toBe(3000);
+    expect(computeRetryDelay(policy, 1, { regainAccessMinutes: 2 })).toBe(120000);
+  });
+});
+
+describe("withRetry", () => {
+  const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1, maxDelayMs: 10 };
+  const rateLimited = () =>
+    new InstagramApiError("Too many calls", InstagramErrorType.RATE_LIMIT, 400);
+
+  it("retries retryable errors and reports each retry", async () => {
+    const events: RetryEvent[] = [];
+    const fn = jest
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(rateLimited())
+      .mockResolvedValue("ok");
+
+    await expect(withRetry("GET /me", fn, policy, (event) => events.push(event))).resolves.toBe("ok");
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(events).toEqual([
+      expect.objectContaining({
+        kind: "retry",
+        operation: "GET /me",
+        attempt: 1,
+        reason: "RATE_LIMIT: Too many calls",
+      }),
+    ]);
+  });
+
+  it("gives up after maxAttempts", async () => {
+    const fn = jest.fn<() => Promise<string>>().mockRejectedValue(rateLimited());
+    await expect(withRetry("GET /me", fn, policy, () => {})).rejects.toThrow("Too many calls");
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry permanent errors", async () => {
+    const fn = jest.fn<() => Promise<string>>().mockRejectedValue(graphError(100));
+    await expect(withRetry("GET /me", fn, policy, () => {})).rejects.toThrow();
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops when Instagram asks for a longer wait than the policy allows", async () => {
+    const error = rateLimited();
+    error.usage = { retryAfterSeconds: 60 };
+    const fn = jest.fn<() => Promise<string>>().mockRejectedValue(error);
+    await expect(withRetry("GET /me", fn, policy, () => {})).rejects.toBe(error);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,204 @@
+import { InstagramApiError, InstagramErrorType } from "./instagramErrors.js";
+
+// Retry behaviour for Graph API calls. Every tool can override any field.
+export interface RetryPolicy {
+  // Total number of attempts, including the first one
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Back off before the next call once any usage header reports this much
+  // of the quota as consumed
+  usageThresholdPercent: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  usageThresholdPercent: 90,
+};
+
+// Usage reported by the X-App-Usage and X-Business-Use-Case-Usage headers
+export interface ApiUsage {
+  appUsagePercent?: number;
+  businessUseCaseUsagePercent?: number;
+  regainAccessMinutes?: number;
+  retryAfterSeconds?: number;
+}
+
+export interface RetryEvent {
+  kind: "retry" | "throttle";
+  operation: string;
+  attempt: number;
+  delayMs: number;
+  reason: string;
+  at: string;
+}
+
+// Graph API error codes documented as transient ("temporary issue, retry")
+const TRANSIENT_ERROR_CODES = new Set([1, 2]);
+
+export function resolveRetryPolicy(
+  overrides?: Partial<RetryPolicy>
+): RetryPolicy {
+  const policy = { ...DEFAULT_RETRY_POLICY };
+  if (!overrides) return policy;
+  for (const key of Object.keys(policy) as (keyof RetryPolicy)[]) {
+    const value = overrides[key];
+    if (typeof value === "number" && Number.isFinite(value) && value >= 0) {
+      policy[key] = value;
+    }
+  }
+  policy.maxAttempts = Math.max(1, Math.floor(policy.maxAttempts));
+  return policy;
+}
+
+function maxPercent(...values: unknown[]): number | undefined {
+  const numbers = values.filter(
+    (value): value is number => typeof value === "number"
+  );
+  return numbers.length > 0 ? Math.max(...numbers) : undefined;
+}
+
+function parseJsonHeader(value: string | null): any {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+export function parseUsageHeaders(headers: {
+  get(name: string): string | null;
+}): ApiUsage {
+  const usage: ApiUsage = {};
+
+  const appUsage = parseJsonHeader(headers.get("x-app-usage"));
+  if (appUsage && typeof appUsage === "object") {
+    usage.appUsagePercent = maxPercent(
+      appUsage.call_count,
+      appUsage.total_cputime,
+      appUsage.total_time
+    );
+  }
+
+  // Shape: { "<business-id>": [{ type, call_count, total_cputime, total_time, estimated_time_to_regain_access }] }
+  const bucUsage = parseJsonHeader(headers.get("x-business-use-case-usage"));
+  if (bucUsage && typeof bucUsage === "object") {
+    for (const entries of Object.values(bucUsage)) {
+      if (!Array.isArray(entries)) continue;
+      for (const entry of entries) {
+        usage.businessUseCaseUsagePercent = maxPercent(
+          usage.businessUseCaseUsagePercent,
+          entry.call_count,
+          entry.total_cputime,
+          entry.total_time
+        );
+        usage.regainAccessMinutes = maxPercent(
+          usage.regainAccessMinutes,
+          entry.estimated_time_to_regain_access
+        );
+      }
+    }
+  }
+
+  const retryAfter = Number(headers.get("retry-after"));
+  if (Number.isFinite(retryAfter) && retryAfter > 0) {
+    usage.retryAfterSeconds = retryAfter;
+  }
+
+  return usage;
+}
+
+export function isUsageAboveThreshold(
+  usage: ApiUsage | undefined,
+  policy: RetryPolicy
+): boolean {
+  if (!usage) return false;
+  const highest = maxPercent(
+    usage.appUsagePercent,
+    usage.businessUseCaseUsagePercent
+  );
+  return highest !== undefined && highest >= policy.usageThresholdPercent;
+}
+
+// Permanent errors (bad input, expired token, missing scope) are never retried
+export function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof InstagramApiError)) return false;
+  if (error.type === InstagramErrorType.RATE_LIMIT) return true;
+  // The Graph API's { error: { ... } } body, when there was one
+  const original = error.originalError as
+    | { error?: { is_transient?: boolean; code?: number } }
+    | undefined;
+  const igError = original?.error;
+  if (igError && typeof igError === "object") {
+    return (
+      igError.is_transient === true ||
+      (igError.code !== undefined && TRANSIENT_ERROR_CODES.has(igError.code))
+    );
+  }
+  if (error.type === InstagramErrorType.NETWORK_ERROR) {
+    // No status code means the request never got a response (socket reset, DNS, timeout)
+    return (
+      error.statusCode === undefined ||
+      error.statusCode === 429 ||
+      error.statusCode >= 500
+    );
+  }
+  return false;
+}
+
+export function computeRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  usage?: ApiUsage
+): number {
+  const exponential = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** Math.max(0, attempt - 1)
+  );
+  // Equal jitter keeps at least half of the exponential delay
+  const jittered = exponential / 2 + Math.random() * (exponential / 2);
+  const serverHintMs = Math.max(
+    (usage?.retryAfterSeconds || 0) * 1000,
+    (usage?.regainAccessMinutes || 0) * 60000
+  );
+  return Math.round(Math.max(jittered, serverHintMs));
+}
+
+export async function sleep(ms: number): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export async function withRetry<T>(
+  operation: string,
+  fn: () => Promise<T>,
+  policy: RetryPolicy,
+  onRetry: (event: RetryEvent) => void
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !isRetryableError(error)) {
+        throw error;
+      }
+      const apiError = error as InstagramApiError;
+      const delayMs = computeRetryDelay(policy, attempt, apiError.usage);
+      if (delayMs > policy.maxDelayMs) {
+        // Instagram asked us to wait longer than this policy allows
+        throw error;
+      }
+      onRetry({
+        kind: "retry",
+        operation,
+        attempt,
+        delayMs,
+        reason: `${apiError.type}: ${apiError.message}`,
+        at: new Date().toISOString(),
+      });
+      await sleep(delayMs);
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { randomBytes } from "crypto";
+import fetch from "node-fetch";
+import { SigV4Credentials, presignUrl, signRequest } from "../utils/awsSigV4.js";
+import {
+  InstagramApiError,
+  InstagramErrorType,
+} from "./instagramGraphApi.js";
+import type {
+  LocalMedia,
+  MediaHostingAdapter,
+  StagedMedia,
+} from "./mediaHosting.js";
+import { extensionForContentType } from "./mediaHosting.js";
+
+// Media host backed by an S3-compatible bucket (AWS S3, R2, MinIO, ...).
+// Objects are addressed path-style so custom endpoints work unchanged.
+const DEFAULT_URL_TTL_SECONDS = 60 * 60;
+const DEFAULT_KEY_PREFIX = "instagram-mcp/";
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new InstagramApiError(
+      `${name} must be set to stage media in an S3-compatible bucket.`,
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  return value;
+}
+
+export function createS3MediaHost(): MediaHostingAdapter {
+  const bucket = requireEnv("MEDIA_S3_BUCKET");
+  const region = process.env.MEDIA_S3_REGION || "us-east-1";
+  const credentials: SigV4Credentials = {
+    accessKeyId: requireEnv("MEDIA_S3_ACCESS_KEY_ID"),
+    secretAccessKey: requireEnv("MEDIA_S3_SECRET_ACCESS_KEY"),
+    region,
+  };
+  const endpoint = (
+    process.env.MEDIA_S3_ENDPOINT || `https://s3.${region}.amazonaws.com`
+  ).replace(/\/+$/, "");
+  // Set when the bucket (or a CDN in front of it) is publicly readable;
+  // otherwise Instagram gets a presigned GET URL
+  const publicBaseUrl = process.env.MEDIA_S3_PUBLIC_BASE_URL?.replace(/\/+$/, "");
+  const keyPrefix = process.env.MEDIA_S3_KEY_PREFIX ?? DEFAULT_KEY_PREFIX;
+  const ttlSeconds =
+    Number(process.env.MEDIA_URL_TTL_SECONDS) || DEFAULT_URL_TTL_SECONDS;
+
+  async function send(
+    method: "PUT" | "DELETE",
+    objectUrl: string,
+    body?: Buffer,
+    headers: Record<string, string> = {}
+  ): Promise<void> {
+    const signed = signRequest(method, objectUrl, credentials, body, headers);
+    const response = await fetch(objectUrl, {
+      method,
+      headers: signed.headers,
+      body,
+    });
+    if (!response.ok) {
+      throw new InstagramApiError(
+        `S3 ${method} failed: ${response.status} ${await response.text()}`,
+        InstagramErrorType.NETWORK_ERROR,
+        response.status
+      );
+    }
+  }
+
+  return {
+    name: "s3",
+    async stage(media: LocalMedia): Promise<StagedMedia> {
+      const key = `${keyPrefix}${randomBytes(16).toString("hex")}${extensionForContentType(media.contentType)}`;
+      const objectUrl = `${endpoint}/${bucket}/${key}`;
+      await send("PUT", objectUrl, media.data, {
+        "content-type": media.contentType,
+      });
+
+      return {
+        url: publicBaseUrl
+          ? `${publicBaseUrl}/${key}`
+          : presignUrl("GET", objectUrl, credentials, ttlSeconds),
+        cleanup: () => send("DELETE", objectUrl),
+      };
+    },
+  };
+}
@@ -0,0 +1,192 @@
+import { jest } from "@jest/globals";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { InstagramPostImageInput } from "./postInputs.js";
+
+// The post tools are replaced so a test decides what each run does
+const postImageToInstagram =
+  jest.fn<(input: InstagramPostImageInput) => Promise<{ postId: string }>>();
+jest.unstable_mockModule("../tools/instagramPostImage.js", () => ({
+  postImageToInstagram,
+}));
+jest.unstable_mockModule("../tools/instagramPostCarousel.js", () => ({
+  postCarouselToInstagram: jest.fn(),
+}));
+jest.unstable_mockModule("../tools/instagramPostReel.js", () => ({
+  postReelToInstagram: jest.fn(),
+}));
+
+const { recoverMissedJobs, runDueJobs } = await import("./scheduler.js");
+const { addJob, getJob, updateJob } = await import("./jobStore.js");
+const { addOperation, updateOperation } = await import("./operationStore.js");
+
+const NOW = new Date("2025-06-06T09:00:00Z");
+const minutes = (count: number) => new Date(NOW.getTime() + count * 60000);
+
+function addImageJob(runAt: Date, imageUrl = "https://example.com/a.jpg") {
+  return addJob(
+    { postType: "image", input: { imageUrl, account: "17841405822304914" } },
+    runAt
+  );
+}
+
+describe("scheduler", () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "scheduler-test-"));
+    process.env.INSTAGRAM_MCP_DATA_DIR = dataDir;
+    postImageToInstagram.mockReset();
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+    delete process.env.INSTAGRAM_MCP_DATA_DIR;
+  });
+
+  describe("runDueJobs", () => {
+    it("posts due jobs with a fixed idempotency key and leaves later ones", async () => {
+      const due = addImageJob(minutes(-1));
+      const later = addImageJob(minutes(5));
+      postImageToInstagram.mockResolvedValue({ postId: "18023345989012587" });
+
+      await runDueJobs(NOW);
+
+      expect(postImageToInstagram).toHaveBeenCalledTimes(1);
+      expect(postImageToInstagram.mock.calls[0][0]).toMatchObject({
+        imageUrl: "https://example.com/a.jpg",
+        idempotencyKey: `scheduled-${due.id}`,
+      });
+      expect(getJob(due.id)).toMatchObject({
+        status: "succeeded",
+        postId: "18023345989012587",
+        attempts: 1,
+      });
+      expect(getJob(later.id)!.status).toBe("pending");
+    });
+
+    it("records why a job failed", async () => {
+      const job = addImageJob(minutes(-1));
+      postImageToInstagram.mockRejectedValue(
+        Object.assign(new Error("Media download failed"), {
+          type: "INVALID_REQUEST",
+        })
+      );
+
+      await runDueJobs(NOW);
+
+      expect(getJob(job.id)).toMatchObject({
+        status: "failed",
+        error: "Media download failed (Type: INVALID_REQUEST)",
+      });
+    });
+
+    it("skips a job cancelled while an earlier job was posting", async () => {
+      const first = addImageJob(minutes(-2), "https://example.com/first.jpg");
+      const second = addImageJob(minutes(-1), "https://example.com/second.jpg");
+      postImageToInstagram.mockImplementation(async () => {
+        updateJob(second.id, { status: "cancelled" });
+        return { postId: "1" };
+      });
+
+      await runDueJobs(NOW);
+
+      expect(postImageToInstagram).toHaveBeenCalledTimes(1);
+      expect(getJob(first.id)!.status).toBe("succeeded");
+      expect(getJob(second.id)).toMatchObject({
+        status: "cancelled",
+        attempts: 0,
+      });
+    });
+
+    it("skips a job rescheduled to later while an earlier job was posting", async () => {
+      addImageJob(minutes(-2));
+      const second = addImageJob(minutes(-1));
+      postImageToInstagram.mockImplementation(async () => {
+        updateJob(second.id, { runAt: minutes(30).toISOString() });
+        return { postId: "1" };
+      });
+
+      await runDueJobs(NOW);
+
+      expect(postImageToInstagram).toHaveBeenCalledTimes(1);
+      expect(getJob(second.id)!.status).toBe("pending");
+    });
+  });
+
+  describe("recoverMissedJobs", () => {
+    const HOUR = 60 * 60 * 1000;
+
+    it("flags jobs overdue past the grace period", () => {
+      const recent = addImageJob(minutes(-30));
+      const stale = addImageJob(minutes(-90));
+
+      recoverMissedJobs("flag", HOUR, NOW);
+
+      expect(getJob(recent.id)!.status).toBe("pending");
+      expect(getJob(stale.id)).toMatchObject({
+        status: "missed",
+        error: expect.stringContaining("overdue by 90 minutes"),
+      });
+    });
+
+    it("leaves overdue jobs to run with the run policy", () => {
+      const stale = addImageJob(minutes(-90));
+      recoverMissedJobs("run", HOUR, NOW);
+      expect(getJob(stale.id)!.status).toBe("pending");
+    });
+
+    // A job the server stopped in the middle of, with its post operation
+    // left at the given status
+    function interruptedJob(operationStatus?: "running" | "succeeded") {
+      const job = addImageJob(minutes(-90));
+      updateJob(job.id, { status: "running", attempts: 1 });
+      if (operationStatus) {
+        const operation = addOperation({
+          idempotencyKey: `scheduled-${job.id}`,
+          postType: "image",
+          accountId: "17841405822304914",
+          inputHash: "hash",
+        });
+        updateOperation(operation.id, {
+          stage: operationStatus === "succeeded" ? "published" : "ready",
+          status: operationStatus,
+          postId: operationStatus === "succeeded" ? "18023345989012587" : undefined,
+        });
+      }
+      return job;
+    }
+
+    it("marks an interrupted job succeeded when its post went out", async () => {
+      const job = interruptedJob("succeeded");
+
+      recoverMissedJobs("flag", HOUR, NOW);
+      await runDueJobs(NOW);
+
+      expect(postImageToInstagram).not.toHaveBeenCalled();
+      expect(getJob(job.id)).toMatchObject({
+        status: "succeeded",
+        postId: "18023345989012587",
+      });
+    });
+
+    it.each([
+      ["a post operation", "running" as const],
+      ["no post operation", undefined],
+    ])("resumes an interrupted job with %s under the same key", async (_, status) => {
+      const job = interruptedJob(status);
+      postImageToInstagram.mockResolvedValue({ postId: "18023345989012587" });
+
+      recoverMissedJobs("flag", HOUR, NOW);
+      expect(getJob(job.id)!.status).toBe("pending");
+      await runDueJobs(NOW);
+
+      expect(postImageToInstagram).toHaveBeenCalledTimes(1);
+      expect(postImageToInstagram.mock.calls[0][0].idempotencyKey).toBe(
+        `scheduled-${job.id}`
+      );
+      expect(getJob(job.id)).toMatchObject({ status: "succeeded", attempts: 2 });
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { postImageToInstagram } from "../tools/instagramPostImage.js";
+import { postCarouselToInstagram } from "../tools/instagramPostCarousel.js";
+import { postReelToInstagram } from "../tools/instagramPostReel.js";
+import { ScheduledJob, getJob, listJobs, updateJob } from "./jobStore.js";
+import { findOperationByKey } from "./operationStore.js";
+
+function logInfo(context: string, data: any) {
+  console.error(`[INFO] Scheduler - ${context}:`, data);
+}
+
+function logError(context: string, error: any) {
+  console.error(`[ERROR] Scheduler - ${context}:`, {
+    message: error.message,
+    type: error.type || "Unknown",
+  });
+}
+
+// "run" posts every overdue job at startup; "flag" only runs jobs that are
+// overdue by less than the grace period and marks the rest as missed.
+export type MissedJobPolicy = "run" | "flag";
+
+export interface SchedulerOptions {
+  intervalMs?: number;
+  missedJobPolicy?: MissedJobPolicy;
+  missedJobGraceMs?: number;
+}
+
+let timer: NodeJS.Timeout | undefined;
+let tickInProgress = false;
+
+// A fixed key per job, so a retried run resumes instead of posting twice
+function jobIdempotencyKey(job: ScheduledJob): string {
+  return job.input.idempotencyKey || `scheduled-${job.id}`;
+}
+
+async function runJob(job: ScheduledJob): Promise<void> {
+  logInfo("Run Job", { id: job.id, postType: job.postType, runAt: job.runAt });
+  updateJob(job.id, { status: "running", attempts: job.attempts + 1 });
+
+  const idempotencyKey = jobIdempotencyKey(job);
+
+  try {
+    let postId: string;
+    switch (job.postType) {
+      case "image":
+        postId = (await postImageToInstagram({ ...job.input, idempotencyKey })).postId;
+        break;
+      case "carousel":
+        postId = (await postCarouselToInstagram({ ...job.input, idempotencyKey })).postId;
+        break;
+      case "reel":
+        postId = (await postReelToInstagram({ ...job.input, idempotencyKey })).postId;
+        break;
+    }
+    updateJob(job.id, { status: "succeeded", postId, error: undefined });
+    logInfo("Job Succeeded", { id: job.id, postId });
+  } catch (error: any) {
+    logError(`Job Failed (${job.id})`, error);
+    updateJob(job.id, {
+      status: "failed",
+      error: error.type
+        ? `${error.message} (Type: ${error.type})`
+        : error.message || "Unknown error",
+    });
+  }
+}
+
+export async function runDueJobs(now: Date = new Date()): Promise<void> {
+  if (tickInProgress) return;
+  tickInProgress = true;
+  try {
+    const dueJobs = listJobs("pending").filter(
+      (job) => Date.parse(job.runAt) <= now.getTime()
+    );
+    // Jobs run one after another so they don't compete for the rate limit.
+    // Each job is read again first: it may have been cancelled or
+    // rescheduled while an earlier one was posting.
+    for (const { id } of dueJobs) {
+      const job = getJob(id);
+      if (
+        !job ||
+        job.status !== "pending" ||
+        Date.parse(job.runAt) > now.getTime()
+      ) {
+        logInfo("Skipped Job", { id, status: job?.status, runAt: job?.runAt });
+        continue;
+      }
+      await runJob(job);
+    }
+  } finally {
+    tickInProgress = false;
+  }
+}
+
+// Handles jobs that came due, or were mid-run, while the server was down
+export function recoverMissedJobs(
+  policy: MissedJobPolicy,
+  graceMs: number,
+  now: Date = new Date()
+): void {
+  if (policy === "flag") {
+    for (const job of listJobs("pending")) {
+      const overdueMs = now.getTime() - Date.parse(job.runAt);
+      if (overdueMs > graceMs) {
+        updateJob(job.id, {
+          status: "missed",
+          error: `Server was not running at the scheduled time (overdue by ${Math.round(overdueMs / 60000)} minutes).`,
+        });
+        logInfo("Missed Job", { id: job.id, runAt: job.runAt });
+      }
+    }
+  }
+
+  // Interrupted jobs already started on time, so the policy doesn't apply.
+  // Their post operation shows how far they got; running them again with
+  // the same idempotency key resumes it instead of posting twice.
+  for (const job of listJobs("running")) {
+    const operation = findOperationByKey(jobIdempotencyKey(job));
+    if (operation?.status === "succeeded" && operation.postId) {
+      updateJob(job.id, {
+        status: "succeeded",
+        postId: operation.postId,
+        error: undefined,
+      });
+      logInfo("Interrupted Job Succeeded", {
+        id: job.id,
+        postId: operation.postId,
+      });
+      continue;
+    }
+    updateJob(job.id, { status: "pending" });
+    logInfo("Interrupted Job Resumed", {
+      id: job.id,
+      operationId: operation?.id,
+      stage: operation?.stage,
+    });
+  }
+}
+
+export function startScheduler(options: SchedulerOptions = {}): void {
+  if (timer) return;
+  const {
+    intervalMs = 30000,
+    missedJobPolicy = "run",
+    missedJobGraceMs = 60 * 60 * 1000,
+  } = options;
+
+  recoverMissedJobs(missedJobPolicy, missedJobGraceMs);
+  const tick = () =>
+    runDueJobs().catch((error) => logError("Tick", error));
+  tick();
+  timer = setInterval(tick, intervalMs);
+  // Don't keep the process alive just for the scheduler
+  timer.unref();
+  logInfo("Started", { intervalMs, missedJobPolicy, missedJobGraceMs });
+}
+
+export function stopScheduler(): void {
+  if (timer) clearInterval(timer);
+  timer = undefined;
+}
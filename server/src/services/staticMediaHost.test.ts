@@ -0,0 +1,79 @@
+import express from "express";
+import * as fs from "fs";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import {
+  createStaticMediaHost,
+  mountStagedMediaRoute,
+} from "./staticMediaHost.js";
+
+const PUBLIC_BASE_URL = "https://media.example.com";
+
+describe("static media host", () => {
+  let server: Server;
+  let localBaseUrl: string;
+  let dataDir: string;
+
+  beforeAll(async () => {
+    const app = express();
+    mountStagedMediaRoute(app);
+    server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    localBaseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "static-host-test-"));
+    process.env.INSTAGRAM_MCP_DATA_DIR = dataDir;
+    process.env.MEDIA_PUBLIC_BASE_URL = PUBLIC_BASE_URL;
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+    delete process.env.INSTAGRAM_MCP_DATA_DIR;
+    delete process.env.MEDIA_PUBLIC_BASE_URL;
+  });
+
+  // Fetches the staged URL from the local server instead of the public host
+  function fetchStaged(url: string) {
+    return fetch(url.replace(PUBLIC_BASE_URL, localBaseUrl));
+  }
+
+  it.each([
+    ["a known content type", "image/jpeg", "photo", /\.jpg\?/],
+    ["an unknown content type", "application/octet-stream", "upload", /\/[a-f0-9]{32}\?/],
+    ["an unusable file extension", "application/octet-stream", "clip.M-P4", /\/[a-f0-9]{32}\?/],
+    ["an upper case file extension", "application/octet-stream", "clip.MP4", /\.mp4\?/],
+  ])("serves a file staged with %s", async (_, contentType, fileName, urlPattern) => {
+    const staged = await createStaticMediaHost().stage({
+      data: Buffer.from("media bytes"),
+      contentType,
+      fileName,
+    });
+    expect(staged.url).toMatch(urlPattern);
+
+    const response = await fetchStaged(staged.url);
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe("media bytes");
+
+    await staged.cleanup();
+    expect((await fetchStaged(staged.url)).status).toBe(404);
+  });
+
+  it("refuses a tampered signature", async () => {
+    const staged = await createStaticMediaHost().stage({
+      data: Buffer.from("media bytes"),
+      contentType: "image/jpeg",
+      fileName: "photo.jpg",
+    });
+    const response = await fetchStaged(`${staged.url}x`);
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,130 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { Express } from "express";
+import { resolveDataPath } from "../utils/dataDir.js";
+import {
+  InstagramApiError,
+  InstagramErrorType,
+} from "./instagramGraphApi.js";
+import type {
+  LocalMedia,
+  MediaHostingAdapter,
+  StagedMedia,
+} from "./mediaHosting.js";
+import { extensionForContentType } from "./mediaHosting.js";
+
+// Built-in media host: files are written to the data dir and served by the
+// server's own Express app under /media with signed, expiring URLs.
+// MEDIA_PUBLIC_BASE_URL must be an HTTPS address (e.g. a tunnel or reverse
+// proxy) that reaches this server's PORT from the internet.
+const STAGED_MEDIA_DIR = "staged-media";
+const DEFAULT_URL_TTL_SECONDS = 60 * 60;
+// Leftovers from crashed runs are removed once they are this old
+const MAX_FILE_AGE_MS = 24 * 60 * 60 * 1000;
+const STAGED_EXTENSION = /^\.[a-z0-9]+$/;
+const STAGED_FILE_NAME = /^[a-f0-9]{32}(\.[a-z0-9]+)?$/;
+
+// A per-process secret is fine: the same process signs and serves the URLs
+const fallbackSecret = randomBytes(32).toString("hex");
+
+function getSigningSecret(): string {
+  return process.env.MEDIA_SIGNING_SECRET || fallbackSecret;
+}
+
+function getUrlTtlSeconds(): number {
+  return Number(process.env.MEDIA_URL_TTL_SECONDS) || DEFAULT_URL_TTL_SECONDS;
+}
+
+function getStagedMediaDir(): string {
+  const dir = resolveDataPath(STAGED_MEDIA_DIR);
+  fs.mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+function sign(fileName: string, expires: number): string {
+  return createHmac("sha256", getSigningSecret())
+    .update(`${fileName}:${expires}`)
+    .digest("base64url");
+}
+
+function signatureMatches(expected: string, actual: string): boolean {
+  const expectedBuffer = Buffer.from(expected);
+  const actualBuffer = Buffer.from(actual);
+  return (
+    expectedBuffer.length === actualBuffer.length &&
+    timingSafeEqual(expectedBuffer, actualBuffer)
+  );
+}
+
+function pruneOldFiles(dir: string): void {
+  const cutoff = Date.now() - MAX_FILE_AGE_MS;
+  for (const fileName of fs.readdirSync(dir)) {
+    const filePath = path.join(dir, fileName);
+    try {
+      if (fs.statSync(filePath).mtimeMs < cutoff) fs.unlinkSync(filePath);
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+// Instagram doesn't need an extension, so a name that doesn't give a usable
+// one is staged without
+function stagedExtension(media: LocalMedia): string {
+  const extension =
+    extensionForContentType(media.contentType) ||
+    path.extname(media.fileName).toLowerCase();
+  return STAGED_EXTENSION.test(extension) ? extension : "";
+}
+
+export function createStaticMediaHost(): MediaHostingAdapter {
+  const baseUrl = process.env.MEDIA_PUBLIC_BASE_URL?.replace(/\/+$/, "");
+  if (!baseUrl || !baseUrl.startsWith("https://")) {
+    throw new InstagramApiError(
+      "MEDIA_PUBLIC_BASE_URL must be set to a public HTTPS URL that reaches this server.",
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+
+  return {
+    name: "static",
+    async stage(media: LocalMedia): Promise<StagedMedia> {
+      const dir = getStagedMediaDir();
+      pruneOldFiles(dir);
+      const fileName =
+        randomBytes(16).toString("hex") + stagedExtension(media);
+      const filePath = path.join(dir, fileName);
+      fs.writeFileSync(filePath, media.data);
+
+      const expires = Math.floor(Date.now() / 1000) + getUrlTtlSeconds();
+      return {
+        url: `${baseUrl}/media/${fileName}?expires=${expires}&sig=${sign(fileName, expires)}`,
+        cleanup: async () => {
+          fs.rmSync(filePath, { force: true });
+        },
+      };
+    },
+  };
+}
+
+// Serves staged files; requests with a bad or expired signature get a 404
+export function mountStagedMediaRoute(app: Express): void {
+  app.get("/media/:fileName", (req, res) => {
+    const { fileName } = req.params;
+    const expires = Number(req.query.expires);
+    const signature = String(req.query.sig || "");
+    if (
+      !STAGED_FILE_NAME.test(fileName) ||
+      !Number.isFinite(expires) ||
+      expires < Date.now() / 1000 ||
+      !signatureMatches(sign(fileName, expires), signature)
+    ) {
+      res.status(404).end();
+      return;
+    }
+    res.sendFile(path.join(getStagedMediaDir(), fileName), (error) => {
+      if (error && !res.headersSent) res.status(404).end();
+    });
+  });
+}
@@ -0,0 +1,112 @@
+import * as fs from "fs";
+import { Server, createServer } from "http";
+import { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import { getStoredAccounts, upsertAccount } from "./accountStore.js";
+import { getTokenStatus, refreshExpiringTokens } from "./tokenManager.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+const ACCOUNT_ID = "17841405822304914";
+
+describe("token refresher", () => {
+  let stub: Server;
+  let refreshRequests: number;
+  let refreshSucceeds: boolean;
+  let dataDir: string;
+
+  beforeAll(async () => {
+    // Stands in for graph.instagram.com/refresh_access_token
+    stub = createServer((req, res) => {
+      refreshRequests++;
+      res.writeHead(refreshSucceeds ? 200 : 400, {
+        "Content-Type": "application/json",
+      });
+      res.end(
+        JSON.stringify(
+          refreshSucceeds
+            ? { access_token: "refreshed-token", token_type: "bearer", expires_in: 5184000 }
+            : {
+                error: {
+                  message: "Session has been invalidated",
+                  type: "OAuthException",
+                  code: 190,
+                },
+              }
+        )
+      );
+    });
+    await new Promise<void>((resolve) => stub.listen(0, "127.0.0.1", resolve));
+    process.env.INSTAGRAM_GRAPH_API_HOST = `http://127.0.0.1:${(stub.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => stub.close(resolve));
+    delete process.env.INSTAGRAM_GRAPH_API_HOST;
+  });
+
+  beforeEach(() => {
+    refreshRequests = 0;
+    refreshSucceeds = false;
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "token-test-"));
+    process.env.INSTAGRAM_MCP_DATA_DIR = dataDir;
+    process.env.INSTAGRAM_LEGACY_USER_FILE = path.join(dataDir, "user.json");
+    // Expiry unknown, so the refresher tries to learn it
+    upsertAccount({
+      id: ACCOUNT_ID,
+      username: "stub.account",
+      accessToken: "old-token",
+      tokenIssuedAt: new Date(Date.now() - 30 * 24 * HOUR_MS).toISOString(),
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+    delete process.env.INSTAGRAM_MCP_DATA_DIR;
+    delete process.env.INSTAGRAM_LEGACY_USER_FILE;
+  });
+
+  const storedAccount = () => getStoredAccounts()[0];
+
+  it("backs off after a failed refresh instead of retrying every tick", async () => {
+    const start = Date.now();
+    await refreshExpiringTokens(7, new Date(start));
+    await refreshExpiringTokens(7, new Date(start + HOUR_MS));
+    expect(refreshRequests).toBe(1);
+
+    // Attempts are timed by the clock, not by the tick's date, so the second
+    // failure counts from the start and doubles the wait to 12 hours
+    await refreshExpiringTokens(7, new Date(start + 7 * HOUR_MS));
+    await refreshExpiringTokens(7, new Date(start + 11 * HOUR_MS));
+    expect(refreshRequests).toBe(2);
+    await refreshExpiringTokens(7, new Date(start + 13 * HOUR_MS));
+    expect(refreshRequests).toBe(3);
+  });
+
+  it("reports repeated failures in the token status", async () => {
+    await refreshExpiringTokens(7);
+    await refreshExpiringTokens(7, new Date(Date.now() + 7 * HOUR_MS));
+
+    const status = getTokenStatus(storedAccount());
+    expect(status).toMatchObject({
+      refreshFailures: 2,
+      lastRefreshError: "Session has been invalidated (Type: EXPIRED_TOKEN)",
+    });
+    expect(
+      Date.parse(status.nextRefreshAttemptAt!) -
+        Date.parse(status.lastRefreshAttemptAt!)
+    ).toBe(12 * HOUR_MS);
+  });
+
+  it("clears the failures once a refresh succeeds", async () => {
+    await refreshExpiringTokens(7);
+    refreshSucceeds = true;
+    await refreshExpiringTokens(7, new Date(Date.now() + 7 * HOUR_MS));
+
+    const account = storedAccount();
+    expect(account.accessToken).toBe("refreshed-token");
+    expect(account.tokenExpiresAt).toBeDefined();
+    expect(account.tokenRefreshFailure).toBeUndefined();
+    expect(getTokenStatus(account).refreshFailures).toBeUndefined();
+  });
+});
@@ -0,0 +1,220 @@
+import fetch from "node-fetch";
+import {
+  StoredAccount,
+  TokenRefreshFailure,
+  getStoredAccounts,
+  upsertAccount,
+} from "./accountStore.js";
+import {
+  InstagramApiError,
+  InstagramErrorType,
+  getGraphApiHost,
+  handleInstagramError,
+} from "./instagramGraphApi.js";
+
+function logInfo(context: string, data: any) {
+  console.error(`[INFO] TokenManager - ${context}:`, data);
+}
+
+function logError(context: string, error: any) {
+  console.error(`[ERROR] TokenManager - ${context}:`, {
+    message: error.message,
+    type: error.type || "Unknown",
+  });
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Instagram only refreshes long-lived tokens that are at least 24 hours old
+const MIN_TOKEN_AGE_MS = DAY_MS;
+// After a failed refresh the next attempt waits 6 hours, doubling with each
+// further failure up to 2 days
+const REFRESH_BACKOFF_BASE_MS = 6 * HOUR_MS;
+const REFRESH_BACKOFF_MAX_MS = 2 * DAY_MS;
+
+export interface TokenStatus {
+  accountId: string;
+  username: string;
+  issuedAt?: string;
+  expiresAt?: string;
+  // Undefined when the expiry has never been recorded
+  daysLeft?: number;
+  expired: boolean;
+  scopes?: string[];
+  // Set while refreshes keep failing
+  refreshFailures?: number;
+  lastRefreshError?: string;
+  lastRefreshAttemptAt?: string;
+  // When the background refresher tries again
+  nextRefreshAttemptAt?: string;
+}
+
+export interface TokenRefresherOptions {
+  intervalMs?: number;
+  refreshWithinDays?: number;
+}
+
+interface RefreshTokenResponse {
+  access_token: string;
+  token_type?: string;
+  expires_in: number;
+}
+
+let timer: NodeJS.Timeout | undefined;
+
+export function getTokenStatus(
+  account: StoredAccount,
+  now: Date = new Date()
+): TokenStatus {
+  const expiresAtMs = account.tokenExpiresAt
+    ? Date.parse(account.tokenExpiresAt)
+    : undefined;
+  const failure = account.tokenRefreshFailure;
+  return {
+    accountId: account.id,
+    username: account.username,
+    issuedAt: account.tokenIssuedAt,
+    expiresAt: account.tokenExpiresAt,
+    daysLeft:
+      expiresAtMs !== undefined
+        ? Math.max(0, Math.floor((expiresAtMs - now.getTime()) / DAY_MS))
+        : undefined,
+    expired: expiresAtMs !== undefined && expiresAtMs <= now.getTime(),
+    scopes: account.scopes,
+    refreshFailures: failure?.failures,
+    lastRefreshError: failure?.lastError,
+    lastRefreshAttemptAt: failure?.lastAttemptAt,
+    nextRefreshAttemptAt: failure
+      ? new Date(nextRefreshAttemptMs(failure)).toISOString()
+      : undefined,
+  };
+}
+
+function nextRefreshAttemptMs(failure: TokenRefreshFailure): number {
+  const backoffMs = Math.min(
+    REFRESH_BACKOFF_BASE_MS * 2 ** (failure.failures - 1),
+    REFRESH_BACKOFF_MAX_MS
+  );
+  return Date.parse(failure.lastAttemptAt) + backoffMs;
+}
+
+// Kept on the account so the status shows it and the backoff survives a
+// restart
+function recordRefreshFailure(account: StoredAccount, error: any): void {
+  const { updatedAt, ...rest } = account;
+  const failures = (account.tokenRefreshFailure?.failures || 0) + 1;
+  upsertAccount({
+    ...rest,
+    tokenRefreshFailure: {
+      failures,
+      lastAttemptAt: new Date().toISOString(),
+      lastError: error.type
+        ? `${error.message} (Type: ${error.type})`
+        : error.message || "Unknown error",
+    },
+  });
+  // Only the first failure is logged; later ones show in the token status
+  if (failures === 1) {
+    logError(`Refresh Failed (${account.username})`, error);
+  }
+}
+
+export async function refreshAccessToken(
+  account: StoredAccount
+): Promise<StoredAccount> {
+  const url = new URL(`${getGraphApiHost()}/refresh_access_token`);
+  url.searchParams.append("grant_type", "ig_refresh_token");
+  url.searchParams.append("access_token", account.accessToken);
+
+  let responseData: any;
+  try {
+    const response = await fetch(url.toString());
+    responseData = await response.json().catch(() => ({}));
+    if (!response.ok || responseData?.error) {
+      throw handleInstagramError(responseData, response);
+    }
+    if (!responseData.access_token) {
+      throw new InstagramApiError(
+        "Access token not found in refresh response.",
+        InstagramErrorType.UNKNOWN_ERROR
+      );
+    }
+  } catch (error) {
+    const failure = handleInstagramError(error);
+    recordRefreshFailure(account, failure);
+    throw failure;
+  }
+
+  const { access_token, expires_in } = responseData as RefreshTokenResponse;
+
+  const issuedAt = new Date();
+  const { updatedAt, ...rest } = account;
+  const refreshed = upsertAccount({
+    ...rest,
+    accessToken: access_token,
+    tokenIssuedAt: issuedAt.toISOString(),
+    tokenExpiresAt: expires_in
+      ? new Date(issuedAt.getTime() + expires_in * 1000).toISOString()
+      : undefined,
+    tokenRefreshFailure: undefined,
+  });
+  logInfo("Token Refreshed", {
+    accountId: account.id,
+    expiresAt: refreshed.tokenExpiresAt,
+  });
+  return refreshed;
+}
+
+function shouldRefresh(
+  account: StoredAccount,
+  refreshWithinDays: number,
+  now: Date
+): boolean {
+  const issuedAtMs = account.tokenIssuedAt
+    ? Date.parse(account.tokenIssuedAt)
+    : undefined;
+  if (issuedAtMs !== undefined && now.getTime() - issuedAtMs < MIN_TOKEN_AGE_MS) {
+    return false;
+  }
+  const failure = account.tokenRefreshFailure;
+  if (failure && now.getTime() < nextRefreshAttemptMs(failure)) return false;
+  // Unknown expiry: refreshing is the only way to learn it
+  if (!account.tokenExpiresAt) return true;
+  const expiresAtMs = Date.parse(account.tokenExpiresAt);
+  // Expired tokens can't be refreshed; the user has to authenticate again
+  if (expiresAtMs <= now.getTime()) return false;
+  return expiresAtMs - now.getTime() <= refreshWithinDays * DAY_MS;
+}
+
+export async function refreshExpiringTokens(
+  refreshWithinDays: number,
+  now: Date = new Date()
+): Promise<void> {
+  for (const account of getStoredAccounts()) {
+    if (!shouldRefresh(account, refreshWithinDays, now)) continue;
+    try {
+      await refreshAccessToken(account);
+    } catch {
+      // Recorded on the account by refreshAccessToken
+    }
+  }
+}
+
+export function startTokenRefresher(options: TokenRefresherOptions = {}): void {
+  if (timer) return;
+  const { intervalMs = 6 * 60 * 60 * 1000, refreshWithinDays = 7 } = options;
+  const tick = () =>
+    refreshExpiringTokens(refreshWithinDays).catch((error) =>
+      logError("Tick", error)
+    );
+  tick();
+  timer = setInterval(tick, intervalMs);
+  // Don't keep the process alive just for token refreshes
+  timer.unref();
+  logInfo("Started", { intervalMs, refreshWithinDays });
+}
+
+export function stopTokenRefresher(): void {
+  if (timer) clearInterval(timer);
+  timer = undefined;
+}
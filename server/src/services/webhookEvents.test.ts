@@ -0,0 +1,80 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  NewWebhookEvent,
+  WebhookEvent,
+  acknowledgeWebhookEvents,
+  addWebhookEvents,
+  listWebhookEvents,
+  onWebhookQueueChange,
+} from "./webhookEvents.js";
+
+function commentEvent(commentId: string): NewWebhookEvent {
+  return {
+    accountId: "17841405822304914",
+    field: "comments",
+    value: { id: commentId, text: "Nice" },
+    eventTime: "2024-06-12T15:48:06.000Z",
+    dedupeKey: `17841405822304914:comments:${commentId}`,
+  };
+}
+
+describe("webhook event queue", () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "webhook-queue-test-"));
+    process.env.INSTAGRAM_MCP_DATA_DIR = dataDir;
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+    delete process.env.INSTAGRAM_MCP_DATA_DIR;
+  });
+
+  it("keeps events pending until they are acknowledged", () => {
+    const [first, second] = addWebhookEvents([
+      commentEvent("1"),
+      commentEvent("2"),
+    ]);
+    expect(listWebhookEvents({ status: "pending" })).toHaveLength(2);
+
+    const acknowledged = acknowledgeWebhookEvents([first.id, "unknown"]);
+    expect(acknowledged.map((event) => event.id)).toEqual([first.id]);
+    expect(acknowledged[0].acknowledgedAt).toBeDefined();
+    expect(
+      listWebhookEvents({ status: "pending" }).map((event) => event.id)
+    ).toEqual([second.id]);
+    expect(listWebhookEvents({ status: "acknowledged" })).toHaveLength(1);
+
+    // Acknowledging twice is a no-op
+    expect(acknowledgeWebhookEvents([first.id])).toEqual([]);
+  });
+
+  it("drops events already in the queue", () => {
+    const [first] = addWebhookEvents([commentEvent("1"), commentEvent("1")]);
+    expect(listWebhookEvents()).toHaveLength(1);
+
+    acknowledgeWebhookEvents([first.id]);
+    expect(addWebhookEvents([commentEvent("1")])).toEqual([]);
+    expect(addWebhookEvents([commentEvent("2")])).toHaveLength(1);
+    expect(listWebhookEvents({ status: "pending" })).toHaveLength(1);
+  });
+
+  it("tells listeners what arrived and what was acknowledged", () => {
+    const changes: WebhookEvent[][] = [];
+    const stop = onWebhookQueueChange((events) => changes.push(events));
+    try {
+      const [event] = addWebhookEvents([commentEvent("1")]);
+      addWebhookEvents([commentEvent("1")]);
+      acknowledgeWebhookEvents([event.id]);
+    } finally {
+      stop();
+    }
+    expect(changes.map((events) => events.map((e) => e.status))).toEqual([
+      ["pending"],
+      ["acknowledged"],
+    ]);
+  });
+});
@@ -0,0 +1,132 @@
+import { randomUUID } from "crypto";
+import { resolveDataPath } from "../utils/dataDir.js";
+import { readJsonFile, writeJsonFile } from "../utils/jsonFile.js";
+import { ChangeListeners } from "../utils/changeListeners.js";
+
+// Queue of the events Meta delivers to the webhook endpoint. Events stay
+// pending until a client acknowledges them; acknowledged events are kept for
+// a week and then dropped. Meta re-sends deliveries it thinks failed, so
+// events are deduplicated by a key taken from the payload.
+const WEBHOOK_EVENTS_FILE = "webhook-events.json";
+const ACKNOWLEDGED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type WebhookEventStatus = "pending" | "acknowledged";
+
+export interface WebhookEvent {
+  id: string;
+  // Instagram account the event is about
+  accountId: string;
+  // The subscribed field, e.g. comments, mentions, story_insights, messages
+  field: string;
+  // The change as Meta sent it
+  value: unknown;
+  // When Meta says the event happened
+  eventTime?: string;
+  // Same for every delivery of the same event
+  dedupeKey: string;
+  receivedAt: string;
+  status: WebhookEventStatus;
+  acknowledgedAt?: string;
+}
+
+export type NewWebhookEvent = Pick<
+  WebhookEvent,
+  "accountId" | "field" | "value" | "eventTime" | "dedupeKey"
+>;
+
+export interface WebhookEventFilter {
+  status?: WebhookEventStatus;
+  field?: string;
+  accountId?: string;
+}
+
+interface WebhookEventsDocument {
+  events: WebhookEvent[];
+}
+
+const queueListeners = new ChangeListeners<WebhookEvent[]>();
+
+function getWebhookEventsPath(): string {
+  return resolveDataPath(WEBHOOK_EVENTS_FILE);
+}
+
+function loadEvents(): WebhookEvent[] {
+  return readJsonFile<WebhookEventsDocument>(getWebhookEventsPath(), {
+    events: [],
+  }).events;
+}
+
+function saveEvents(events: WebhookEvent[]): void {
+  const cutoff = Date.now() - ACKNOWLEDGED_RETENTION_MS;
+  writeJsonFile(getWebhookEventsPath(), {
+    events: events.filter(
+      (event) =>
+        event.status === "pending" || Date.parse(event.acknowledgedAt!) > cutoff
+    ),
+  });
+}
+
+// Called with the events that arrived or were acknowledged. Returns a
+// function that removes the listener.
+export function onWebhookQueueChange(
+  listener: (events: WebhookEvent[]) => void
+): () => void {
+  return queueListeners.add(listener);
+}
+
+// Returns the events that were queued; events already in the queue,
+// pending or acknowledged, are left out
+export function addWebhookEvents(events: NewWebhookEvent[]): WebhookEvent[] {
+  if (events.length === 0) return [];
+  const stored = loadEvents();
+  const seen = new Set(stored.map((event) => event.dedupeKey));
+  const receivedAt = new Date().toISOString();
+  const added: WebhookEvent[] = [];
+  for (const event of events) {
+    if (seen.has(event.dedupeKey)) continue;
+    seen.add(event.dedupeKey);
+    added.push({
+      id: randomUUID(),
+      ...event,
+      receivedAt,
+      status: "pending",
+    });
+  }
+  if (added.length === 0) return [];
+  saveEvents([...stored, ...added]);
+  queueListeners.notify(added);
+  return added;
+}
+
+// Oldest first, so a client can work through the queue in order
+export function listWebhookEvents(
+  filter: WebhookEventFilter = {}
+): WebhookEvent[] {
+  return loadEvents().filter(
+    (event) =>
+      (!filter.status || event.status === filter.status) &&
+      (!filter.field || event.field === filter.field) &&
+      (!filter.accountId || event.accountId === filter.accountId)
+  );
+}
+
+// Marks pending events as handled. Returns the events acknowledged now;
+// unknown and already acknowledged IDs are left out.
+export function acknowledgeWebhookEvents(ids: string[]): WebhookEvent[] {
+  const wanted = new Set(ids);
+  const events = loadEvents();
+  const acknowledgedAt = new Date().toISOString();
+  const acknowledged: WebhookEvent[] = [];
+  for (const event of events) {
+    if (event.status === "pending" && wanted.has(event.id)) {
+      event.status = "acknowledged";
+      event.acknowledgedAt = acknowledgedAt;
+      acknowledged.push(event);
+    }
+  }
+  if (acknowledged.length > 0) {
+    saveEvents(events);
+    queueListeners.notify(acknowledged);
+  }
+  return acknowledged;
+}
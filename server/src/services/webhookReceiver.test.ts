@@ -0,0 +1,158 @@
+import { createHmac } from "crypto";
+import express from "express";
+import * as fs from "fs";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { mountWebhookRoute } from "./webhookReceiver.js";
+import { listWebhookEvents } from "./webhookEvents.js";
+
+// Recorded Meta deliveries, replayed byte for byte
+const FIXTURES_DIR = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "__fixtures__",
+  "webhooks"
+);
+const APP_SECRET = "test-app-secret";
+const VERIFY_TOKEN = "test-verify-token";
+
+function readFixture(name: string): Buffer {
+  return fs.readFileSync(path.join(FIXTURES_DIR, `${name}.json`));
+}
+
+function sign(body: Buffer, secret = APP_SECRET): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+describe("webhook route", () => {
+  let server: Server;
+  let baseUrl: string;
+  let dataDir: string;
+
+  beforeAll(async () => {
+    process.env.INSTAGRAM_WEBHOOK_VERIFY_TOKEN = VERIFY_TOKEN;
+    process.env.INSTAGRAM_WEBHOOK_APP_SECRET = APP_SECRET;
+    const app = express();
+    mountWebhookRoute(app);
+    server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhooks/instagram`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    delete process.env.INSTAGRAM_WEBHOOK_VERIFY_TOKEN;
+    delete process.env.INSTAGRAM_WEBHOOK_APP_SECRET;
+  });
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "webhook-test-"));
+    process.env.INSTAGRAM_MCP_DATA_DIR = dataDir;
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+    delete process.env.INSTAGRAM_MCP_DATA_DIR;
+  });
+
+  function deliver(body: Buffer, signature: string | undefined) {
+    return fetch(baseUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(signature ? { "X-Hub-Signature-256": signature } : {}),
+      },
+      body,
+    });
+  }
+
+  it("answers the verification challenge with the right verify token", async () => {
+    const response = await fetch(
+      `${baseUrl}?hub.mode=subscribe&hub.verify_token=${VERIFY_TOKEN}&hub.challenge=1158201444`
+    );
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe("1158201444");
+  });
+
+  it("refuses verification with a wrong verify token", async () => {
+    const response = await fetch(
+      `${baseUrl}?hub.mode=subscribe&hub.verify_token=wrong&hub.challenge=1158201444`
+    );
+    expect(response.status).toBe(403);
+    expect(await response.text()).toBe("");
+  });
+
+  it.each(["comments", "mentions", "story_insights", "messages"])(
+    "queues a signed %s delivery",
+    async (name) => {
+      const body = readFixture(name);
+      const response = await deliver(body, sign(body));
+      expect(response.status).toBe(200);
+
+      const events = listWebhookEvents();
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        accountId: "17841405822304914",
+        field: name,
+        status: "pending",
+      });
+      const payload = JSON.parse(body.toString("utf-8"));
+      const entry = payload.entry[0];
+      expect(events[0].value).toEqual(
+        entry.changes ? entry.changes[0].value : entry.messaging[0]
+      );
+    }
+  );
+
+  it("converts second and millisecond entry times", async () => {
+    for (const name of ["comments", "messages"]) {
+      const body = readFixture(name);
+      await deliver(body, sign(body));
+    }
+    expect(listWebhookEvents().map((event) => event.eventTime)).toEqual([
+      "2024-06-12T15:48:06.000Z",
+      "2024-06-12T15:49:58.221Z",
+    ]);
+  });
+
+  it("queues a re-sent delivery once", async () => {
+    const body = readFixture("comments");
+    await deliver(body, sign(body));
+    const response = await deliver(body, sign(body));
+    expect(response.status).toBe(200);
+    expect(listWebhookEvents()).toHaveLength(1);
+  });
+
+  it("rejects a tampered body", async () => {
+    const body = readFixture("comments");
+    const tampered = Buffer.from(
+      body.toString("utf-8").replace("This is an example.", "Tampered")
+    );
+    const response = await deliver(tampered, sign(body));
+    expect(response.status).toBe(401);
+    expect(listWebhookEvents()).toHaveLength(0);
+  });
+
+  it("rejects a signature made with another secret", async () => {
+    const body = readFixture("comments");
+    const response = await deliver(body, sign(body, "another-secret"));
+    expect(response.status).toBe(401);
+    expect(listWebhookEvents()).toHaveLength(0);
+  });
+
+  it("rejects a delivery without a signature", async () => {
+    const body = readFixture("comments");
+    const response = await deliver(body, undefined);
+    expect(response.status).toBe(401);
+  });
+
+  it("acknowledges but ignores deliveries for other objects", async () => {
+    const body = readFixture("page");
+    const response = await deliver(body, sign(body));
+    expect(response.status).toBe(200);
+    expect(listWebhookEvents()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,186 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import express, { Express } from "express";
+import { NewWebhookEvent, addWebhookEvents } from "./webhookEvents.js";
+
+// Meta webhook endpoint for comments, mentions, story insights and messages.
+// Meta checks the endpoint once with a GET carrying hub.challenge, then POSTs
+// batches of events signed with the app secret.
+// https://developers.facebook.com/docs/instagram-platform/webhooks
+const WEBHOOK_PATH = "/webhooks/instagram";
+const MAX_BODY_SIZE = "1mb";
+
+function logInfo(context: string, data: any) {
+  console.error(`[INFO] WebhookReceiver - ${context}:`, data);
+}
+
+function logError(context: string, error: any) {
+  console.error(`[ERROR] WebhookReceiver - ${context}:`, error);
+}
+
+interface WebhookPayload {
+  object?: string;
+  entry?: {
+    id: string;
+    time?: number;
+    changes?: { field: string; value: unknown }[];
+    // Direct messages come here instead of under changes
+    messaging?: unknown[];
+  }[];
+}
+
+// The endpoint is only worth serving once Meta can verify it
+export function isWebhookReceiverEnabled(): boolean {
+  return !!process.env.INSTAGRAM_WEBHOOK_VERIFY_TOKEN;
+}
+
+// Meta signs with the secret of the app the webhook is configured on, which
+// is the Instagram app secret unless set separately
+function getWebhookSecret(): string | undefined {
+  return (
+    process.env.INSTAGRAM_WEBHOOK_APP_SECRET || process.env.INSTAGRAM_APP_SECRET
+  );
+}
+
+function secretsMatch(expected: string, actual: string): boolean {
+  const expectedBuffer = Buffer.from(expected);
+  const actualBuffer = Buffer.from(actual);
+  return (
+    expectedBuffer.length === actualBuffer.length &&
+    timingSafeEqual(expectedBuffer, actualBuffer)
+  );
+}
+
+// X-Hub-Signature-256 is "sha256=" and the hex HMAC-SHA256 of the raw body
+function signatureValid(
+  body: Buffer,
+  header: string | undefined,
+  secret: string
+): boolean {
+  const match = /^sha256=([a-f0-9]{64})$/i.exec(header || "");
+  if (!match) return false;
+  const expected = createHmac("sha256", secret).update(body).digest("hex");
+  return secretsMatch(expected, match[1].toLowerCase());
+}
+
+// Entry times are Unix seconds for changes but milliseconds for messaging
+function toEventTime(time: number | undefined): string | undefined {
+  if (!time) return undefined;
+  return new Date(time > 1e12 ? time : time * 1000).toISOString();
+}
+
+// Comments carry their own ID, mentions the comment or post the account was
+// mentioned in, story insights the story and messages a message ID. Anything
+// else is keyed by its content, which is the same in every delivery.
+function dedupeKey(
+  accountId: string,
+  field: string,
+  value: unknown,
+  time: number | undefined
+): string {
+  const ids = value as
+    | {
+        id?: string;
+        comment_id?: string;
+        media_id?: string;
+        message?: { mid?: string };
+      }
+    | undefined;
+  const valueId =
+    ids?.id || ids?.comment_id || ids?.media_id || ids?.message?.mid;
+  if (valueId) return `${accountId}:${field}:${valueId}`;
+  const digest = createHash("sha256")
+    .update(JSON.stringify([time, value]))
+    .digest("hex");
+  return `${accountId}:${field}:sha256:${digest}`;
+}
+
+// One event per change or message
+function parsePayload(payload: WebhookPayload): NewWebhookEvent[] {
+  const events: NewWebhookEvent[] = [];
+  for (const entry of payload.entry || []) {
+    const accountId = String(entry.id);
+    const eventTime = toEventTime(entry.time);
+    for (const change of entry.changes || []) {
+      events.push({
+        accountId,
+        field: change.field,
+        value: change.value,
+        eventTime,
+        dedupeKey: dedupeKey(accountId, change.field, change.value, entry.time),
+      });
+    }
+    for (const message of entry.messaging || []) {
+      events.push({
+        accountId,
+        field: "messages",
+        value: message,
+        eventTime,
+        dedupeKey: dedupeKey(accountId, "messages", message, entry.time),
+      });
+    }
+  }
+  return events;
+}
+
+export function mountWebhookRoute(app: Express): void {
+  // Verification request sent when the callback URL is saved in the app
+  // dashboard
+  app.get(WEBHOOK_PATH, (req, res) => {
+    const verifyToken = process.env.INSTAGRAM_WEBHOOK_VERIFY_TOKEN;
+    if (
+      !verifyToken ||
+      req.query["hub.mode"] !== "subscribe" ||
+      !secretsMatch(verifyToken, String(req.query["hub.verify_token"] || ""))
+    ) {
+      res.status(403).end();
+      return;
+    }
+    logInfo("Verified", "Meta verified the webhook endpoint");
+    res.type("text/plain").send(String(req.query["hub.challenge"] || ""));
+  });
+
+  // The signature covers the exact bytes sent, so the body is read raw
+  app.post(
+    WEBHOOK_PATH,
+    express.raw({ type: "*/*", limit: MAX_BODY_SIZE }),
+    (req, res) => {
+      const secret = getWebhookSecret();
+      if (!secret) {
+        logError(
+          "Rejected",
+          "INSTAGRAM_APP_SECRET is not set, so payloads can't be verified"
+        );
+        res.status(500).end();
+        return;
+      }
+      const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      if (!signatureValid(body, req.get("x-hub-signature-256"), secret)) {
+        logError("Rejected", "Missing or invalid X-Hub-Signature-256");
+        res.status(401).end();
+        return;
+      }
+
+      let payload: WebhookPayload;
+      try {
+        payload = JSON.parse(body.toString("utf-8"));
+      } catch {
+        res.status(400).end();
+        return;
+      }
+      if (payload.object !== "instagram") {
+        logInfo("Ignored", `Payload for object ${payload.object}`);
+        res.status(200).end();
+        return;
+      }
+
+      const parsed = parsePayload(payload);
+      const events = addWebhookEvents(parsed);
+      logInfo("Received", {
+        events: events.length,
+        duplicates: parsed.length - events.length,
+        fields: [...new Set(events.map((event) => event.field))],
+      });
+      res.status(200).end();
+    }
+  );
+}
@@ -0,0 +1,113 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  jest,
+} from "@jest/globals";
+import * as fs from "fs";
+import { Server, createServer } from "http";
+import { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+
+// Setup shared by the tool tests: a local Graph API stub, a data directory
+// with a stored account, and mocks for the checks that would read the media
+
+export const ACCOUNT_ID = "17841405822304914";
+
+export interface StubRequest {
+  method: string;
+  url: URL;
+  // The form body of a POST, or the query string of anything else
+  params: URLSearchParams;
+}
+
+export interface StubResponse {
+  status?: number;
+  body: unknown;
+}
+
+export type StubHandler = (request: StubRequest) => StubResponse;
+
+// Serves the Graph API from a local server for every test in the file
+export function useGraphApiStub(handle: StubHandler): void {
+  let stub: Server;
+
+  beforeAll(async () => {
+    stub = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        const url = new URL(req.url!, "http://localhost");
+        const response = handle({
+          method: req.method!,
+          url,
+          params: req.method === "POST" ? new URLSearchParams(body) : url.searchParams,
+        });
+        res.writeHead(response.status || 200, {
+          "Content-Type": "application/json",
+        });
+        res.end(JSON.stringify(response.body));
+      });
+    });
+    await new Promise<void>((resolve) => stub.listen(0, "127.0.0.1", resolve));
+    process.env.INSTAGRAM_GRAPH_API_HOST = `http://127.0.0.1:${(stub.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => stub.close(resolve));
+    delete process.env.INSTAGRAM_GRAPH_API_HOST;
+  });
+}
+
+// Gives each test an empty data directory holding one stored account, with
+// any extra environment variables set for the test. Returns the directory.
+export function useAccountDataDir(
+  prefix: string,
+  env: Record<string, string> = {}
+): () => string {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+    Object.assign(process.env, env, {
+      INSTAGRAM_MCP_DATA_DIR: dataDir,
+      INSTAGRAM_LEGACY_USER_FILE: path.join(dataDir, "user.json"),
+    });
+    // Imported here so a test's module mocks are registered first
+    const { upsertAccount } = await import("../../services/accountStore.js");
+    upsertAccount({ id: ACCOUNT_ID, username: "stub.account", accessToken: "token" });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+    for (const name of [
+      ...Object.keys(env),
+      "INSTAGRAM_MCP_DATA_DIR",
+      "INSTAGRAM_LEGACY_USER_FILE",
+    ]) {
+      delete process.env[name];
+    }
+  });
+
+  return () => dataDir;
+}
+
+// Replaces media inspection and the quota check, so only the container
+// requests reach the stub. Call before importing the tool module.
+export function mockMediaChecks(inspections: object[] = []): void {
+  jest.unstable_mockModule("../../services/mediaInspection.js", () => ({
+    getImageSpec: jest.fn(),
+    MediaValidationError: class extends Error {},
+    formatBytes: jest.fn(),
+    inspectMedia: jest.fn(),
+    validatePostMedia: jest.fn(async () => inspections),
+    collectMediaWarnings: jest.fn(() => []),
+  }));
+  jest.unstable_mockModule("../instagramPublishingLimit.js", () => ({
+    fetchPublishingLimit: jest.fn(),
+    assertPublishingQuota: jest.fn(async () => ({})),
+    getInstagramPublishingLimit: jest.fn(),
+  }));
+}
@@ -1,21 +1,43 @@
-import { makeId } from "../utils/makeId.js"; // Assuming makeId is moved to a utils directory
+import { makeToken } from "../utils/makeToken.js";
+import { createPkcePair } from "../utils/pkce.js";
+import { savePendingAuth } from "../services/oauthStateStore.js";
+import { InstagramTool, textResult } from "./toolSupport.js";
+
+function logInfo(context: string, data: any) {
+  console.error(`[INFO] InstagramAuth - ${context}:`, data);
+}
+
+export const DEFAULT_INSTAGRAM_SCOPES = [
+  "instagram_business_basic",
+  "instagram_business_content_publish",
+  "instagram_business_manage_comments",
+  "instagram_business_manage_insights",
+];
 
 // Define the interface for the tool input
 export interface InstagramAuthInput {
   redirectUri: string;
+  // Scopes to request; defaults to DEFAULT_INSTAGRAM_SCOPES
+  scopes?: string[];
+  // Offer "Log in with Facebook" on the Instagram login page
+  enableFbLogin?: boolean;
+  // Send a PKCE challenge; the verifier is handed to the token exchange
+  usePkce?: boolean;
 }
 
 // Define the interface for the tool output
 export interface InstagramAuthOutput {
   oauthUrl: string;
   state: string;
+  // When the state stops being accepted by instagram-auth-complete
+  expiresAt: string;
 }
 
 // Function to generate Instagram OAuth URL based on instagram-standalone.provider.ts
 export function getInstagramAuthUrl(
   input: InstagramAuthInput
 ): InstagramAuthOutput {
-  const { redirectUri } = input;
+  const { redirectUri, enableFbLogin = false, usePkce = false } = input;
   const appId = process.env.INSTAGRAM_APP_ID;
 
   if (!appId) {
@@ -25,20 +47,90 @@ export function getInstagramAuthUrl(
     );
   }
 
-  const state = makeId(6); // As per instagram-standalone.provider.ts
-  const scopesArray = [
-    "instagram_business_basic",
-    "instagram_business_content_publish",
-    "instagram_business_manage_comments",
-    "instagram_business_manage_insights",
-  ];
+  const state = makeToken(32);
+  const nonce = makeToken(16);
+  const scopesArray =
+    input.scopes && input.scopes.length > 0
+      ? input.scopes
+      : DEFAULT_INSTAGRAM_SCOPES;
   const scopes = scopesArray.join(",");
+  const pkce = usePkce ? createPkcePair() : undefined;
 
-  const oauthUrl =
-    `https://www.instagram.com/oauth/authorize?enable_fb_login=0&client_id=${appId}` +
-    `&redirect_uri=${encodeURIComponent(redirectUri)}` +
-    `&response_type=code&scope=${encodeURIComponent(scopes)}` +
-    `&state=${state}`;
+  const oauthUrl = new URL("https://www.instagram.com/oauth/authorize");
+  oauthUrl.searchParams.append("enable_fb_login", enableFbLogin ? "1" : "0");
+  oauthUrl.searchParams.append("client_id", appId);
+  oauthUrl.searchParams.append("redirect_uri", redirectUri);
+  oauthUrl.searchParams.append("response_type", "code");
+  oauthUrl.searchParams.append("scope", scopes);
+  oauthUrl.searchParams.append("state", state);
+  oauthUrl.searchParams.append("nonce", nonce);
+  if (pkce) {
+    oauthUrl.searchParams.append("code_challenge", pkce.codeChallenge);
+    oauthUrl.searchParams.append(
+      "code_challenge_method",
+      pkce.codeChallengeMethod
+    );
+  }
 
-  return { oauthUrl, state };
+  const pending = savePendingAuth({
+    state,
+    nonce,
+    redirectUri,
+    scopes: scopesArray,
+    codeVerifier: pkce?.codeVerifier,
+  });
+
+  return {
+    oauthUrl: oauthUrl.toString(),
+    state,
+    expiresAt: new Date(pending.expiresAt).toISOString(),
+  };
 }
+
+export const authTool: InstagramTool = {
+  name: "instagram-auth",
+  description: "Generates an Instagram OAuth URL for authentication.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      redirectUri: {
+        type: "string",
+        format: "uri",
+        description:
+          "The redirect URI for OAuth callback (optional, defaults to localhost:6001)",
+      },
+      scopes: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          "Scopes to request (optional, defaults to basic, content_publish, manage_comments and manage_insights).",
+      },
+      enableFbLogin: {
+        type: "boolean",
+        description:
+          "Offer 'Log in with Facebook' on the Instagram login page (default false).",
+      },
+      usePkce: {
+        type: "boolean",
+        description:
+          "Add a PKCE code challenge to the request (default false).",
+      },
+    },
+  },
+  handle(args) {
+    const { redirectUri, scopes, enableFbLogin, usePkce } = args;
+    const result = getInstagramAuthUrl({
+      redirectUri:
+        redirectUri || "https://localhost:6001/auth/callback/instagram-standalone",
+      scopes,
+      enableFbLogin,
+      usePkce,
+    });
+
+    logInfo("Auth URL Created", { state: result.state });
+    return textResult(
+      `Instagram OAuth URL: ${result.oauthUrl}. State: ${result.state}. ` +
+        `After approving, pass the redirected URL to instagram-auth-complete before ${result.expiresAt}.`
+    );
+  },
+};
@@ -0,0 +1,149 @@
+import {
+  InstagramApiError,
+  InstagramErrorType,
+} from "../services/instagramGraphApi.js";
+import { upsertAccount } from "../services/accountStore.js";
+import { consumePendingAuth } from "../services/oauthStateStore.js";
+import {
+  exchangeCodeForToken,
+  exchangeForLongLivedToken,
+  fetchProfile,
+} from "../services/instagramOAuth.js";
+import { InstagramTool, textResult } from "./toolSupport.js";
+
+function logInfo(context: string, data: any) {
+  console.error(`[INFO] InstagramAuthComplete - ${context}:`, data);
+}
+
+// Define the interface for the tool input
+export interface InstagramAuthCompleteInput {
+  // The full URL Instagram redirected to, e.g. https://localhost:6001/auth/callback/instagram-standalone?code=...&state=...
+  callbackUrl?: string;
+  // Alternatively, the code and state query parameters on their own
+  code?: string;
+  state?: string;
+}
+
+// Define the interface for the tool output
+export interface InstagramAuthCompleteOutput {
+  accountId: string;
+  username: string;
+  name?: string;
+  tokenExpiresAt?: string;
+  scopes?: string[];
+}
+
+function parseCallback(input: InstagramAuthCompleteInput): {
+  code?: string;
+  state?: string;
+} {
+  if (!input.callbackUrl) return { code: input.code, state: input.state };
+
+  let url: URL;
+  try {
+    url = new URL(input.callbackUrl);
+  } catch {
+    throw new InstagramApiError(
+      "callbackUrl is not a valid URL.",
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  const error = url.searchParams.get("error");
+  if (error) {
+    throw new InstagramApiError(
+      `Instagram authorization failed: ${url.searchParams.get("error_description") || url.searchParams.get("error_reason") || error}`,
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  return {
+    code: url.searchParams.get("code") || input.code,
+    state: url.searchParams.get("state") || input.state,
+  };
+}
+
+export async function completeInstagramAuth(
+  input: InstagramAuthCompleteInput
+): Promise<InstagramAuthCompleteOutput> {
+  const { code: rawCode, state } = parseCallback(input);
+  if (!rawCode) {
+    throw new InstagramApiError(
+      "Authorization code not provided.",
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  // Instagram appends "#_" to the code in the redirect
+  const code = rawCode.replace(/#_$/, "");
+  const pending = consumePendingAuth(state);
+
+  const shortLived = await exchangeCodeForToken({
+    code,
+    redirectUri: pending.redirectUri,
+    codeVerifier: pending.codeVerifier,
+  });
+  const longLived = await exchangeForLongLivedToken(shortLived.accessToken);
+  const profile = await fetchProfile(longLived.accessToken);
+
+  const issuedAt = new Date();
+  const account = upsertAccount({
+    id: profile.userId,
+    username: profile.username,
+    name: profile.name,
+    picture: profile.picture,
+    accessToken: longLived.accessToken,
+    tokenIssuedAt: issuedAt.toISOString(),
+    tokenExpiresAt: longLived.expiresIn
+      ? new Date(issuedAt.getTime() + longLived.expiresIn * 1000).toISOString()
+      : undefined,
+    // Older token responses don't list permissions; fall back to what was requested
+    scopes: shortLived.scopes || pending.scopes,
+  });
+
+  return {
+    accountId: account.id,
+    username: account.username,
+    name: account.name,
+    tokenExpiresAt: account.tokenExpiresAt,
+    scopes: account.scopes,
+  };
+}
+
+export const authCompleteTool: InstagramTool = {
+  name: "instagram-auth-complete",
+  description:
+    "Completes Instagram OAuth: validates the state from instagram-auth, exchanges the code for a long-lived token, fetches the profile and stores the account.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      callbackUrl: {
+        type: "string",
+        format: "uri",
+        description:
+          "The full URL Instagram redirected the browser to (contains code and state).",
+      },
+      code: {
+        type: "string",
+        description:
+          "The authorization code, if callbackUrl is not provided.",
+      },
+      state: {
+        type: "string",
+        description:
+          "The state returned with the code, if callbackUrl is not provided.",
+      },
+    },
+  },
+  async handle(args) {
+    const { callbackUrl, code, state } = args;
+    const result = await completeInstagramAuth({ callbackUrl, code, state });
+
+    logInfo("Authenticated", {
+      accountId: result.accountId,
+      username: result.username,
+    });
+    return textResult(
+      `Authenticated @${result.username} (${result.accountId}). ` +
+        `Token expires ${result.tokenExpiresAt || "at an unknown time"}. ` +
+        `Scopes: ${result.scopes ? result.scopes.join(", ") : "unknown"}`
+    );
+  },
+};
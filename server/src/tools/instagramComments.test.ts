@@ -0,0 +1,216 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  deleteInstagramComment,
+  hideInstagramComment,
+  listInstagramComments,
+  moderateInstagramComments,
+  replyToInstagramComment,
+  setInstagramCommentsEnabled,
+} from "./instagramComments.js";
+import { useAccountDataDir, useGraphApiStub } from "./__fixtures__/toolTestSetup.js";
+
+const comment = (
+  id: string,
+  text: string,
+  username: string,
+  extra: Record<string, unknown> = {}
+) => ({ id, text, username, timestamp: "2025-06-01T10:00:00+0000", ...extra });
+
+// Comment threads by media ID, as the comments edge returns them
+const THREADS: Record<string, object> = {
+  "post-1": {
+    data: [
+      comment("c1", "Get free followers now", "spammer", {
+        replies: { data: [comment("r1", "free followers for me too", "fan")] },
+      }),
+      comment("c2", "Is there a promo code?", "fan", {
+        replies: { data: [comment("r2", "Thanks!", "stub.account")] },
+      }),
+      comment("c3", "Love it", "fan", {
+        replies: { data: [comment("r3", "promo please", "fan")] },
+      }),
+      comment("c4", "Free followers for everyone", "stub.account"),
+      comment("c5", "Buy now at my shop", "seller", { hidden: true }),
+      comment("c6", "Buy now, cheap", "seller", { hidden: false }),
+      comment("c7", "Any promo today?", "fan"),
+    ],
+  },
+  "post-2": {
+    data: [
+      comment("c20", "First", "fan", {
+        like_count: 3,
+        replies: {
+          data: [comment("r20", "Second", "fan")],
+          paging: { cursors: { after: "replies-after" }, next: "next-replies" },
+        },
+      }),
+    ],
+    paging: { cursors: { after: "comments-after" }, next: "next-comments" },
+  },
+};
+
+describe("comment tools", () => {
+  // Requests that change something, as "METHOD /id/edge params"
+  let changes: string[];
+  let reads: URLSearchParams[];
+
+  useGraphApiStub(({ method, url, params }) => {
+    const [, , id, edge] = url.pathname.split("/");
+    if (method !== "GET") {
+      const fields = [...params].filter(([key]) => key !== "access_token");
+      changes.push(
+        `${method} /${id}${edge ? `/${edge}` : ""} ${new URLSearchParams(fields)}`
+      );
+      if (id === "c6") {
+        return {
+          status: 400,
+          body: { error: { message: "Comment can't be hidden", code: 100 } },
+        };
+      }
+      return { body: edge === "replies" ? { id: `reply-to-${id}` } : { success: true } };
+    }
+    reads.push(params);
+    if (edge === "comments") return { body: THREADS[id] };
+    if (edge === "replies") return { body: { data: [comment("r21", "Third", "fan")] } };
+    return { body: { data: [{ id: "post-1" }] } };
+  });
+  const dataDir = useAccountDataDir("comments-test-");
+
+  beforeEach(() => {
+    changes = [];
+    reads = [];
+    fs.writeFileSync(
+      path.join(dataDir(), "comment-rules.json"),
+      JSON.stringify({
+        rules: [
+          { name: "spam", keywords: ["free followers"], action: "delete" },
+          { name: "promo", keywords: ["promo"], action: "reply", reply: "DM us for the code" },
+          { name: "shops", keywords: ["buy now"], action: "hide" },
+        ],
+      })
+    );
+  });
+
+  describe("listInstagramComments", () => {
+    it("reads the replies past the first nested page", async () => {
+      const output = await listInstagramComments({ mediaId: "post-2", limit: 500 });
+
+      expect(output.nextCursor).toBe("comments-after");
+      expect(output.comments).toEqual([
+        expect.objectContaining({
+          id: "c20",
+          likeCount: 3,
+          replies: [
+            expect.objectContaining({ id: "r20", text: "Second" }),
+            expect.objectContaining({ id: "r21", text: "Third" }),
+          ],
+        }),
+      ]);
+      expect(reads[0].get("limit")).toBe("50");
+      expect(reads[1].get("after")).toBe("replies-after");
+    });
+
+    it("leaves out the replies when asked to", async () => {
+      const output = await listInstagramComments({
+        mediaId: "post-2",
+        includeReplies: false,
+      });
+      expect(output.comments[0].replies).toBeUndefined();
+      expect(reads).toHaveLength(1);
+      expect(reads[0].get("fields")).not.toContain("replies");
+    });
+  });
+
+  describe("comment actions", () => {
+    it("sends each action's request", async () => {
+      await expect(
+        replyToInstagramComment({ commentId: "c7", message: " DM us " })
+      ).resolves.toMatchObject({ action: "reply", replyId: "reply-to-c7", dryRun: false });
+      await hideInstagramComment({ commentId: "c5", hidden: false });
+      await deleteInstagramComment({ commentId: "c1" });
+      await setInstagramCommentsEnabled({ mediaId: "post-1", enabled: false });
+
+      expect(changes).toEqual([
+        "POST /c7/replies message=DM+us",
+        "POST /c5 hide=false",
+        "DELETE /c1 ",
+        "POST /post-1 comment_enabled=false",
+      ]);
+    });
+
+    it("only describes the request on a dry run", async () => {
+      const output = await hideInstagramComment({ commentId: "c5", dryRun: true });
+      expect(output).toMatchObject({
+        action: "hide",
+        dryRun: true,
+        request: {
+          method: "POST",
+          url: expect.stringMatching(/\/c5$/),
+          body: { hide: "true", access_token: "REDACTED" },
+        },
+      });
+      expect(changes).toHaveLength(0);
+    });
+
+    it("refuses missing arguments before calling the API", async () => {
+      await expect(
+        replyToInstagramComment({ commentId: "c7", message: "  " })
+      ).rejects.toMatchObject({ message: "A reply message is required." });
+      await expect(deleteInstagramComment({ commentId: "" })).rejects.toMatchObject({
+        message: "A comment ID is required.",
+      });
+      await expect(
+        setInstagramCommentsEnabled({ mediaId: "post-1", enabled: "no" as never })
+      ).rejects.toMatchObject({ message: "enabled must be true or false." });
+      expect(changes).toHaveLength(0);
+    });
+  });
+
+  describe("moderateInstagramComments", () => {
+    it("applies the rules, skipping what is already handled and reporting failures", async () => {
+      const output = await moderateInstagramComments({ mediaIds: ["post-1"] });
+
+      expect(
+        output.actions.map(
+          ({ commentId, rule, outcome, reason }) =>
+            `${commentId} ${rule} ${outcome}${reason ? `: ${reason}` : ""}`
+        )
+      ).toEqual([
+        "c1 spam done",
+        "c2 promo skipped: Already replied to",
+        "r3 promo skipped: Instagram only takes replies to top-level comments",
+        "c5 shops skipped: Already hidden",
+        "c6 shops failed: Comment can't be hidden",
+        "c7 promo done",
+      ]);
+      expect(output.summary).toEqual({ done: 2, planned: 0, skipped: 3, failed: 1 });
+      // The deleted comment's reply isn't checked; the account's own are
+      // skipped but counted
+      expect(output.media).toEqual([
+        { mediaId: "post-1", commentsScanned: 9, moreComments: false },
+      ]);
+      expect(changes).toEqual([
+        "DELETE /c1 ",
+        "POST /c6 hide=true",
+        "POST /c7/replies message=DM+us+for+the+code",
+      ]);
+      expect(output.actions[5].replyId).toBe("reply-to-c7");
+    });
+
+    it("plans the actions on the most recent posts on a dry run", async () => {
+      const output = await moderateInstagramComments({ dryRun: true });
+
+      expect(reads[0].get("limit")).toBe("5");
+      expect(output.summary).toEqual({ done: 0, planned: 3, skipped: 3, failed: 0 });
+      expect(output.actions.find((entry) => entry.commentId === "c7")).toMatchObject({
+        outcome: "planned",
+        request: {
+          method: "POST",
+          body: { message: "DM us for the code", access_token: "REDACTED" },
+        },
+      });
+      expect(changes).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,923 @@
+import {
+  GraphApiParams,
+  GraphHttpMethod,
+  GraphRequestPreview,
+  InstagramApiError,
+  InstagramErrorType,
+  InstagramGraphClient,
+  handleInstagramError,
+} from "../services/instagramGraphApi.js";
+import { createClientForAccount } from "../services/accountStore.js";
+import {
+  CommentRuleAction,
+  compileCommentRules,
+  getCommentRulesPath,
+} from "../services/commentRules.js";
+import { RetryEvent, RetryPolicy } from "../services/retryPolicy.js";
+import { formatGraphRequest, formatRetries } from "./toolFormatting.js";
+import {
+  InstagramTool,
+  accountSchema,
+  retryPolicySchema,
+  textResult,
+} from "./toolSupport.js";
+
+function logInfo(context: string, data: any) {
+  console.error(`[INFO] InstagramComments - ${context}:`, data);
+}
+
+// Comment moderation on the account's own posts, using the
+// instagram_business_manage_comments scope. Every action that changes a
+// comment or post can be dry run, which returns the Graph API request it
+// would send instead of sending it.
+// https://developers.facebook.com/docs/instagram-platform/reference/instagram-comment
+
+export type CommentAction =
+  | "reply"
+  | "hide"
+  | "unhide"
+  | "delete"
+  | "enable_comments"
+  | "disable_comments";
+
+export type CommentModerationOutcome =
+  | "done"
+  | "planned"
+  | "skipped"
+  | "failed";
+
+// Define the interface for the tool inputs
+export interface InstagramListCommentsInput {
+  mediaId: string;
+  // nextCursor from the previous page
+  after?: string;
+  limit?: number;
+  // Include each comment's replies (default true)
+  includeReplies?: boolean;
+  account?: string;
+  retryPolicy?: Partial<RetryPolicy>;
+}
+
+interface CommentActionInput {
+  // Return the request instead of sending it
+  dryRun?: boolean;
+  account?: string;
+  retryPolicy?: Partial<RetryPolicy>;
+}
+
+export interface InstagramReplyCommentInput extends CommentActionInput {
+  // A top-level comment; Instagram doesn't take replies to replies
+  commentId: string;
+  message: string;
+}
+
+export interface InstagramHideCommentInput extends CommentActionInput {
+  commentId: string;
+  // False unhides the comment (default true)
+  hidden?: boolean;
+}
+
+export interface InstagramDeleteCommentInput extends CommentActionInput {
+  commentId: string;
+}
+
+export interface InstagramSetCommentsEnabledInput extends CommentActionInput {
+  mediaId: string;
+  enabled: boolean;
+}
+
+export interface InstagramModerateCommentsInput {
+  // Posts to moderate; the most recent posts when omitted
+  mediaIds?: string[];
+  recentPosts?: number;
+  // Top-level comments read per post, replies not counted
+  maxCommentsPerPost?: number;
+  dryRun?: boolean;
+  account?: string;
+  retryPolicy?: Partial<RetryPolicy>;
+}
+
+export interface InstagramComment {
+  id: string;
+  text: string;
+  username?: string;
+  timestamp: string;
+  likeCount?: number;
+  hidden?: boolean;
+  // Only on top-level comments, when replies were requested
+  replies?: InstagramComment[];
+}
+
+// Define the interface for the tool outputs
+export interface InstagramListCommentsOutput {
+  mediaId: string;
+  comments: InstagramComment[];
+  // Pass as after for the next page
+  nextCursor?: string;
+  retries: RetryEvent[];
+}
+
+export interface InstagramCommentActionOutput {
+  action: CommentAction;
+  // The comment, or the post for enable/disable_comments
+  targetId: string;
+  dryRun: boolean;
+  // Only on a dry run
+  request?: GraphRequestPreview;
+  // ID of the reply that was posted
+  replyId?: string;
+  retries: RetryEvent[];
+}
+
+export interface CommentModerationEntry {
+  mediaId: string;
+  commentId: string;
+  // Set when the comment is a reply
+  parentId?: string;
+  username?: string;
+  text: string;
+  rule: string;
+  // The part of the comment the rule matched
+  matched: string;
+  action: CommentRuleAction;
+  outcome: CommentModerationOutcome;
+  // Why the action was skipped or failed
+  reason?: string;
+  replyId?: string;
+  // Only on a dry run
+  request?: GraphRequestPreview;
+}
+
+export interface ModeratedMedia {
+  mediaId: string;
+  // Comments and replies checked against the rules
+  commentsScanned: number;
+  // True when the post has more comments than maxCommentsPerPost
+  moreComments: boolean;
+}
+
+export interface InstagramModerateCommentsOutput {
+  dryRun: boolean;
+  rulesFile: string;
+  media: ModeratedMedia[];
+  commentsScanned: number;
+  // Number of actions per outcome
+  summary: Record<CommentModerationOutcome, number>;
+  // One entry per comment a rule matched
+  actions: CommentModerationEntry[];
+  retries: RetryEvent[];
+}
+
+interface GraphComment {
+  id: string;
+  text?: string;
+  username?: string;
+  timestamp: string;
+  like_count?: number;
+  hidden?: boolean;
+  replies?: CommentPageResponse;
+}
+
+interface CommentPageResponse {
+  data?: GraphComment[];
+  paging?: {
+    cursors?: { before?: string; after?: string };
+    next?: string;
+  };
+}
+
+interface CommentRequest {
+  method: GraphHttpMethod;
+  path: string;
+  params: GraphApiParams;
+}
+
+const COMMENT_FIELDS = "id,text,username,timestamp,like_count,hidden";
+const THREAD_FIELDS = `${COMMENT_FIELDS},replies{${COMMENT_FIELDS}}`;
+
+const DEFAULT_LIST_LIMIT = 25;
+const MAX_LIST_LIMIT = 50;
+// Replies read per comment; the nested edge only returns the first page
+const MAX_REPLIES = 100;
+
+const DEFAULT_RECENT_POSTS = 5;
+const MAX_RECENT_POSTS = 25;
+const DEFAULT_MAX_COMMENTS = 100;
+const MAX_COMMENTS_PER_POST = 500;
+
+function requireId(value: string | undefined, what: string): string {
+  const id = value?.trim();
+  if (!id) {
+    throw new InstagramApiError(
+      `A ${what} ID is required.`,
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  return id;
+}
+
+function clamp(
+  value: number | undefined,
+  fallback: number,
+  max: number
+): number {
+  return Math.min(Math.max(value || fallback, 1), max);
+}
+
+function nextCursor(
+  page: CommentPageResponse | undefined
+): string | undefined {
+  return page?.paging?.next ? page.paging.cursors?.after : undefined;
+}
+
+function toComment(comment: GraphComment): InstagramComment {
+  return {
+    id: comment.id,
+    text: comment.text || "",
+    username: comment.username,
+    timestamp: comment.timestamp,
+    likeCount: comment.like_count,
+    hidden: comment.hidden,
+  };
+}
+
+// Takes the replies that came nested in the comment and reads the rest
+// from the comment's replies edge
+async function readReplies(
+  client: InstagramGraphClient,
+  comment: GraphComment
+): Promise<InstagramComment[]> {
+  const replies = (comment.replies?.data || []).map(toComment);
+  let after = nextCursor(comment.replies);
+  while (after && replies.length < MAX_REPLIES) {
+    const page = await client.get<CommentPageResponse>(
+      `/${comment.id}/replies`,
+      { fields: COMMENT_FIELDS, limit: MAX_LIST_LIMIT, after }
+    );
+    replies.push(...(page.data || []).map(toComment));
+    after = nextCursor(page);
+  }
+  return replies.slice(0, MAX_REPLIES);
+}
+
+async function readCommentPage(
+  client: InstagramGraphClient,
+  mediaId: string,
+  params: { limit: number; after?: string; includeReplies: boolean }
+): Promise<{ comments: InstagramComment[]; nextCursor?: string }> {
+  const page = await client.get<CommentPageResponse>(`/${mediaId}/comments`, {
+    fields: params.includeReplies ? THREAD_FIELDS : COMMENT_FIELDS,
+    limit: params.limit,
+    after: params.after,
+  });
+  const comments: InstagramComment[] = [];
+  for (const comment of page.data || []) {
+    comments.push(
+      params.includeReplies
+        ? { ...toComment(comment), replies: await readReplies(client, comment) }
+        : toComment(comment)
+    );
+  }
+  return { comments, nextCursor: nextCursor(page) };
+}
+
+function commentRequest(
+  action: CommentAction,
+  targetId: string,
+  message?: string
+): CommentRequest {
+  switch (action) {
+    case "reply":
+      return {
+        method: "POST",
+        path: `/${targetId}/replies`,
+        params: { message },
+      };
+    case "hide":
+    case "unhide":
+      return {
+        method: "POST",
+        path: `/${targetId}`,
+        params: { hide: action === "hide" },
+      };
+    case "delete":
+      return { method: "DELETE", path: `/${targetId}`, params: {} };
+    case "enable_comments":
+    case "disable_comments":
+      return {
+        method: "POST",
+        path: `/${targetId}`,
+        params: { comment_enabled: action === "enable_comments" },
+      };
+  }
+}
+
+// Sends the request for an action, or on a dry run only describes it
+async function runCommentAction(
+  client: InstagramGraphClient,
+  action: CommentAction,
+  targetId: string,
+  dryRun: boolean,
+  message?: string
+): Promise<{ request?: GraphRequestPreview; replyId?: string }> {
+  const { method, path, params } = commentRequest(action, targetId, message);
+  if (dryRun) {
+    return { request: client.describeRequest(method, path, params) };
+  }
+  // Replies answer with the new comment's ID, everything else with success
+  const response =
+    method === "DELETE"
+      ? await client.delete<{ id?: string; success?: boolean }>(path, params)
+      : await client.post<{ id?: string; success?: boolean }>(path, params);
+  return { replyId: response.id };
+}
+
+async function performCommentAction(
+  input: CommentActionInput,
+  action: CommentAction,
+  targetId: string,
+  message?: string
+): Promise<InstagramCommentActionOutput> {
+  const dryRun = !!input.dryRun;
+  const { client } = createClientForAccount(input.account, input.retryPolicy);
+
+  try {
+    const result = await runCommentAction(
+      client,
+      action,
+      targetId,
+      dryRun,
+      message
+    );
+    return {
+      action,
+      targetId,
+      dryRun,
+      ...result,
+      retries: client.retryEvents,
+    };
+  } catch (error) {
+    const apiError = handleInstagramError(error);
+    apiError.retries = client.retryEvents;
+    throw apiError;
+  }
+}
+
+export async function listInstagramComments(
+  input: InstagramListCommentsInput
+): Promise<InstagramListCommentsOutput> {
+  const mediaId = requireId(input.mediaId, "media");
+  const { client } = createClientForAccount(input.account, input.retryPolicy);
+
+  try {
+    const page = await readCommentPage(client, mediaId, {
+      limit: clamp(input.limit, DEFAULT_LIST_LIMIT, MAX_LIST_LIMIT),
+      after: input.after,
+      includeReplies: input.includeReplies !== false,
+    });
+    return { mediaId, ...page, retries: client.retryEvents };
+  } catch (error) {
+    const apiError = handleInstagramError(error);
+    apiError.retries = client.retryEvents;
+    throw apiError;
+  }
+}
+
+export async function replyToInstagramComment(
+  input: InstagramReplyCommentInput
+): Promise<InstagramCommentActionOutput> {
+  const commentId = requireId(input.commentId, "comment");
+  const message = input.message?.trim();
+  if (!message) {
+    throw new InstagramApiError(
+      "A reply message is required.",
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  return performCommentAction(input, "reply", commentId, message);
+}
+
+export async function hideInstagramComment(
+  input: InstagramHideCommentInput
+): Promise<InstagramCommentActionOutput> {
+  const commentId = requireId(input.commentId, "comment");
+  return performCommentAction(
+    input,
+    input.hidden === false ? "unhide" : "hide",
+    commentId
+  );
+}
+
+export async function deleteInstagramComment(
+  input: InstagramDeleteCommentInput
+): Promise<InstagramCommentActionOutput> {
+  const commentId = requireId(input.commentId, "comment");
+  return performCommentAction(input, "delete", commentId);
+}
+
+export async function setInstagramCommentsEnabled(
+  input: InstagramSetCommentsEnabledInput
+): Promise<InstagramCommentActionOutput> {
+  const mediaId = requireId(input.mediaId, "media");
+  if (typeof input.enabled !== "boolean") {
+    throw new InstagramApiError(
+      "enabled must be true or false.",
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  return performCommentAction(
+    input,
+    input.enabled ? "enable_comments" : "disable_comments",
+    mediaId
+  );
+}
+
+// Applies the rules file to the comments and replies on each post. A failed
+// action is reported and the run goes on; only reading comments fails the
+// whole run.
+export async function moderateInstagramComments(
+  input: InstagramModerateCommentsInput
+): Promise<InstagramModerateCommentsOutput> {
+  const matchRule = compileCommentRules();
+  const dryRun = !!input.dryRun;
+  const maxComments = clamp(
+    input.maxCommentsPerPost,
+    DEFAULT_MAX_COMMENTS,
+    MAX_COMMENTS_PER_POST
+  );
+  const { account, client } = createClientForAccount(
+    input.account,
+    input.retryPolicy
+  );
+  const ownUsername = account.username.toLowerCase();
+  const actions: CommentModerationEntry[] = [];
+
+  const moderate = async (
+    mediaId: string,
+    comment: InstagramComment,
+    parent?: InstagramComment
+  ): Promise<CommentModerationEntry | undefined> => {
+    // The account's own comments and replies are left alone, and so are
+    // comments without text, which a broad pattern would otherwise match
+    if (comment.username?.toLowerCase() === ownUsername) return undefined;
+    if (!comment.text.trim()) return undefined;
+    const match = matchRule(comment.text);
+    if (!match) return undefined;
+
+    const { rule } = match;
+    const entry: CommentModerationEntry = {
+      mediaId,
+      commentId: comment.id,
+      parentId: parent?.id,
+      username: comment.username,
+      text: comment.text,
+      rule: rule.name,
+      matched: match.matched,
+      action: rule.action,
+      outcome: dryRun ? "planned" : "done",
+    };
+    actions.push(entry);
+
+    const alreadyReplied = comment.replies?.some(
+      (reply) => reply.username?.toLowerCase() === ownUsername
+    );
+    if (rule.action === "hide" && comment.hidden) {
+      entry.outcome = "skipped";
+      entry.reason = "Already hidden";
+    } else if (rule.action === "reply" && parent) {
+      entry.outcome = "skipped";
+      entry.reason = "Instagram only takes replies to top-level comments";
+    } else if (rule.action === "reply" && alreadyReplied) {
+      entry.outcome = "skipped";
+      entry.reason = "Already replied to";
+    } else {
+      try {
+        const result = await runCommentAction(
+          client,
+          rule.action,
+          comment.id,
+          dryRun,
+          rule.reply
+        );
+        entry.request = result.request;
+        entry.replyId = result.replyId;
+      } catch (error) {
+        entry.outcome = "failed";
+        entry.reason = handleInstagramError(error).message;
+      }
+    }
+    return entry;
+  };
+
+  try {
+    let mediaIds = (input.mediaIds || [])
+      .map((id) => id.trim())
+      .filter(Boolean);
+    if (mediaIds.length === 0) {
+      const recent = await client.get<{ data?: { id: string }[] }>(
+        `/${client.igUserId}/media`,
+        {
+          fields: "id",
+          limit: clamp(input.recentPosts, DEFAULT_RECENT_POSTS, MAX_RECENT_POSTS),
+        }
+      );
+      mediaIds = (recent.data || []).map((media) => media.id);
+    }
+
+    const media: ModeratedMedia[] = [];
+    for (const mediaId of mediaIds) {
+      let commentsScanned = 0;
+      let read = 0;
+      let after: string | undefined;
+      do {
+        const page = await readCommentPage(client, mediaId, {
+          limit: Math.min(MAX_LIST_LIMIT, maxComments - read),
+          after,
+          includeReplies: true,
+        });
+        read += page.comments.length;
+        after = page.nextCursor;
+        for (const comment of page.comments) {
+          commentsScanned++;
+          const entry = await moderate(mediaId, comment);
+          // Replies go with a deleted comment
+          if (entry?.action === "delete" && entry.outcome !== "failed") continue;
+          for (const reply of comment.replies || []) {
+            commentsScanned++;
+            await moderate(mediaId, reply, comment);
+          }
+        }
+      } while (after && read < maxComments);
+      media.push({ mediaId, commentsScanned, moreComments: !!after });
+    }
+
+    const summary = { done: 0, planned: 0, skipped: 0, failed: 0 };
+    for (const entry of actions) summary[entry.outcome]++;
+    return {
+      dryRun,
+      rulesFile: getCommentRulesPath(),
+      media,
+      commentsScanned: media.reduce(
+        (total, entry) => total + entry.commentsScanned,
+        0
+      ),
+      summary,
+      actions,
+      retries: client.retryEvents,
+    };
+  } catch (error) {
+    const apiError = handleInstagramError(error);
+    apiError.retries = client.retryEvents;
+    throw apiError;
+  }
+}
+
+// A comment and its replies, one line each
+function formatComment(comment: InstagramComment, indent = ""): string {
+  const flags = [
+    comment.hidden && "hidden",
+    comment.likeCount && `${comment.likeCount} likes`,
+  ].filter(Boolean);
+  const lines = [
+    `${indent}- ${comment.id} @${comment.username || "unknown"} ${comment.timestamp}` +
+      (flags.length > 0 ? ` (${flags.join(", ")})` : "") +
+      `: ${comment.text.replace(/\s+/g, " ").trim()}`,
+    ...(comment.replies || []).map((reply) =>
+      formatComment(reply, `${indent}  `)
+    ),
+  ];
+  return lines.join("\n");
+}
+
+// What each action does, before and after it is done
+const COMMENT_ACTION_LABELS: Record<
+  CommentAction,
+  { pending: string; done: string }
+> = {
+  reply: { pending: "reply to comment", done: "Replied to comment" },
+  hide: { pending: "hide comment", done: "Hid comment" },
+  unhide: { pending: "unhide comment", done: "Unhid comment" },
+  delete: { pending: "delete comment", done: "Deleted comment" },
+  enable_comments: {
+    pending: "turn on comments for post",
+    done: "Turned on comments for post",
+  },
+  disable_comments: {
+    pending: "turn off comments for post",
+    done: "Turned off comments for post",
+  },
+};
+
+function formatCommentAction(result: InstagramCommentActionOutput): string {
+  const label = COMMENT_ACTION_LABELS[result.action];
+  const text = result.dryRun
+    ? `Dry run: nothing was changed. The request to ${label.pending} ${result.targetId} would be:\n` +
+      formatGraphRequest(result.request!)
+    : `${label.done} ${result.targetId}.` +
+      (result.replyId ? ` Reply ID: ${result.replyId}` : "");
+  return text + formatRetries(result.retries);
+}
+
+function formatModerationEntry(entry: CommentModerationEntry): string {
+  const comment = entry.text.replace(/\s+/g, " ").trim();
+  let text =
+    `- [${entry.outcome}] ${entry.action} ${entry.commentId}` +
+    (entry.parentId ? ` (reply to ${entry.parentId})` : "") +
+    ` @${entry.username || "unknown"} on ${entry.mediaId}, rule "${entry.rule}" matched "${entry.matched}"` +
+    `\n  ${comment.length > 100 ? `${comment.slice(0, 100)}...` : comment}`;
+  if (entry.reason) text += `\n  ${entry.reason}`;
+  if (entry.replyId) text += `\n  Reply ID: ${entry.replyId}`;
+  if (entry.request) text += `\n  ${formatGraphRequest(entry.request)}`;
+  return text;
+}
+
+function formatModerationReport(
+  report: InstagramModerateCommentsOutput
+): string {
+  const { summary } = report;
+  const counts = report.dryRun
+    ? `${summary.planned} planned, ${summary.skipped} skipped`
+    : `${summary.done} done, ${summary.skipped} skipped, ${summary.failed} failed`;
+  const lines = [
+    report.dryRun
+      ? "Dry run: nothing was changed."
+      : "Comment moderation finished.",
+    `Rules: ${report.rulesFile}`,
+    `Scanned ${report.commentsScanned} comments and replies on ${report.media.length === 1 ? "1 post" : `${report.media.length} posts`}; actions: ${counts}.`,
+  ];
+  const truncated = report.media.filter((media) => media.moreComments);
+  if (truncated.length > 0) {
+    lines.push(
+      `Posts with more comments than were read: ${truncated.map((media) => media.mediaId).join(", ")}`
+    );
+  }
+  if (report.actions.length > 0) {
+    lines.push(
+      `Actions (${report.actions.length}):`,
+      ...report.actions.map(formatModerationEntry)
+    );
+  }
+  return lines.join("\n") + formatRetries(report.retries);
+}
+
+// Input schema shared by the tools that change a comment or post
+const commentDryRunSchema = {
+  type: "boolean",
+  description:
+    "Return the Graph API request the action would send (access token redacted) instead of sending it. Nothing is changed. Default false.",
+};
+
+export const listCommentsTool: InstagramTool = {
+  name: "instagram-list-comments",
+  description:
+    "Lists the comments on a post with their replies, author, time, likes and whether they are hidden. Pages with the cursor from the previous result.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      mediaId: {
+        type: "string",
+        description: "Media ID of the post (see instagram-list-media).",
+      },
+      limit: {
+        type: "number",
+        description: "Comments per page, replies not counted (default 25, max 50).",
+      },
+      after: {
+        type: "string",
+        description: "nextCursor from the previous page.",
+      },
+      includeReplies: {
+        type: "boolean",
+        description: "Include the replies to each comment (default true).",
+      },
+      account: accountSchema,
+      retryPolicy: retryPolicySchema,
+    },
+    required: ["mediaId"],
+  },
+  async handle(args) {
+    const { mediaId, limit, after, includeReplies, account, retryPolicy } =
+      args;
+    const result = await listInstagramComments({
+      mediaId,
+      limit,
+      after,
+      includeReplies,
+      account,
+      retryPolicy,
+    });
+    return textResult(
+      (result.comments.length === 0
+        ? `No comments on ${result.mediaId}.`
+        : `Comments on ${result.mediaId} (${result.comments.length}):\n` +
+          result.comments.map((comment) => formatComment(comment)).join("\n")) +
+        (result.nextCursor ? `\nMore comments: after=${result.nextCursor}` : "") +
+        formatRetries(result.retries)
+    );
+  },
+};
+
+export const replyCommentTool: InstagramTool = {
+  name: "instagram-reply-comment",
+  description:
+    "Replies to a comment on one of the account's posts. Replies can only be made to top-level comments.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      commentId: {
+        type: "string",
+        description: "ID of the comment to reply to.",
+      },
+      message: {
+        type: "string",
+        description: "Text of the reply.",
+      },
+      dryRun: commentDryRunSchema,
+      account: accountSchema,
+      retryPolicy: retryPolicySchema,
+    },
+    required: ["commentId", "message"],
+  },
+  async handle(args) {
+    const { commentId, message, dryRun, account, retryPolicy } = args;
+    const result = await replyToInstagramComment({
+      commentId,
+      message,
+      dryRun,
+      account,
+      retryPolicy,
+    });
+
+    logInfo("Comment Reply", { commentId, dryRun: result.dryRun });
+    return textResult(formatCommentAction(result));
+  },
+};
+
+export const hideCommentTool: InstagramTool = {
+  name: "instagram-hide-comment",
+  description:
+    "Hides a comment on one of the account's posts, or unhides it. Hidden comments stay visible to their author only.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      commentId: {
+        type: "string",
+        description: "ID of the comment or reply.",
+      },
+      hidden: {
+        type: "boolean",
+        description: "False to unhide the comment (default true).",
+      },
+      dryRun: commentDryRunSchema,
+      account: accountSchema,
+      retryPolicy: retryPolicySchema,
+    },
+    required: ["commentId"],
+  },
+  async handle(args) {
+    const { commentId, hidden, dryRun, account, retryPolicy } = args;
+    const result = await hideInstagramComment({
+      commentId,
+      hidden,
+      dryRun,
+      account,
+      retryPolicy,
+    });
+
+    logInfo("Comment Hidden", {
+      commentId,
+      action: result.action,
+      dryRun: result.dryRun,
+    });
+    return textResult(formatCommentAction(result));
+  },
+};
+
+export const deleteCommentTool: InstagramTool = {
+  name: "instagram-delete-comment",
+  description:
+    "Deletes a comment or reply on one of the account's posts. Deleting a comment also removes its replies. This can't be undone; try dryRun first.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      commentId: {
+        type: "string",
+        description: "ID of the comment or reply.",
+      },
+      dryRun: commentDryRunSchema,
+      account: accountSchema,
+      retryPolicy: retryPolicySchema,
+    },
+    required: ["commentId"],
+  },
+  async handle(args) {
+    const { commentId, dryRun, account, retryPolicy } = args;
+    const result = await deleteInstagramComment({
+      commentId,
+      dryRun,
+      account,
+      retryPolicy,
+    });
+
+    logInfo("Comment Deleted", { commentId, dryRun: result.dryRun });
+    return textResult(formatCommentAction(result));
+  },
+};
+
+export const setCommentsEnabledTool: InstagramTool = {
+  name: "instagram-set-comments-enabled",
+  description:
+    "Turns comments on or off for one of the account's posts. Existing comments are kept either way.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      mediaId: {
+        type: "string",
+        description: "Media ID of the post.",
+      },
+      enabled: {
+        type: "boolean",
+        description: "True to allow comments, false to turn them off.",
+      },
+      dryRun: commentDryRunSchema,
+      account: accountSchema,
+      retryPolicy: retryPolicySchema,
+    },
+    required: ["mediaId", "enabled"],
+  },
+  async handle(args) {
+    const { mediaId, enabled, dryRun, account, retryPolicy } = args;
+    const result = await setInstagramCommentsEnabled({
+      mediaId,
+      enabled,
+      dryRun,
+      account,
+      retryPolicy,
+    });
+
+    logInfo("Comments Toggled", {
+      mediaId,
+      action: result.action,
+      dryRun: result.dryRun,
+    });
+    return textResult(formatCommentAction(result));
+  },
+};
+
+export const moderateCommentsTool: InstagramTool = {
+  name: "instagram-moderate-comments",
+  description:
+    "Applies the keyword and regex rules in the server's comment rules file to the comments and replies on the account's posts, hiding, deleting or replying to the ones that match, and reports what it did. The account's own comments are never touched. Run with dryRun first to see what would happen.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      mediaIds: {
+        type: "array",
+        items: { type: "string" },
+        description: "Posts to moderate (default: the most recent posts).",
+      },
+      recentPosts: {
+        type: "number",
+        description:
+          "Without mediaIds, how many of the most recent posts to moderate (default 5, max 25).",
+      },
+      maxCommentsPerPost: {
+        type: "number",
+        description:
+          "Top-level comments to read per post, replies not counted (default 100, max 500).",
+      },
+      dryRun: {
+        type: "boolean",
+        description:
+          "Report what each rule would do, with the requests it would send, without changing anything. Default false.",
+      },
+      account: accountSchema,
+      retryPolicy: retryPolicySchema,
+    },
+  },
+  async handle(args) {
+    const {
+      mediaIds,
+      recentPosts,
+      maxCommentsPerPost,
+      dryRun,
+      account,
+      retryPolicy,
+    } = args;
+    const report = await moderateInstagramComments({
+      mediaIds,
+      recentPosts,
+      maxCommentsPerPost,
+      dryRun,
+      account,
+      retryPolicy,
+    });
+
+    logInfo("Comments Moderated", {
+      dryRun: report.dryRun,
+      commentsScanned: report.commentsScanned,
+      ...report.summary,
+    });
+    return textResult(formatModerationReport(report));
+  },
+};
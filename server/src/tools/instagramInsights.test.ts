@@ -0,0 +1,150 @@
+import {
+  getInstagramAccountInsights,
+  getInstagramMediaInsights,
+} from "./instagramInsights.js";
+import {
+  ACCOUNT_ID,
+  useAccountDataDir,
+  useGraphApiStub,
+} from "./__fixtures__/toolTestSetup.js";
+
+const graphError = (code: number, message: string) => ({
+  status: 400,
+  body: { error: { message, type: "OAuthException", code } },
+});
+
+describe("instagram insights", () => {
+  let insightRequests: URLSearchParams[];
+  let unsupported: Set<string>;
+  let failWith: { code: number; message: string } | undefined;
+
+  // A Reel, and insights requests that fail with code 100 if they ask for a
+  // metric in unsupported; each metric otherwise reports its own length
+  useGraphApiStub(({ url, params }) => {
+    if (!url.pathname.endsWith("/insights")) {
+      return url.pathname.endsWith(`/${ACCOUNT_ID}`)
+        ? { body: { username: "stub.account", followers_count: 120 } }
+        : { body: { media_type: "VIDEO", media_product_type: "REELS" } };
+    }
+    insightRequests.push(params);
+    if (failWith) return graphError(failWith.code, failWith.message);
+    const metrics = params.get("metric")!.split(",");
+    const refused = metrics.find((metric) => unsupported.has(metric));
+    if (refused) {
+      return graphError(100, `(#100) The metric ${refused} is not supported`);
+    }
+    return {
+      body: {
+        data: metrics.map((name) => ({ name, values: [{ value: name.length }] })),
+      },
+    };
+  });
+  useAccountDataDir("insights-test-");
+
+  beforeEach(() => {
+    insightRequests = [];
+    unsupported = new Set();
+    failWith = undefined;
+  });
+
+  describe("getInstagramMediaInsights", () => {
+    it("asks for every metric in one request when Instagram supports them all", async () => {
+      const output = await getInstagramMediaInsights({ mediaId: "reel-1" });
+      expect(insightRequests).toHaveLength(1);
+      expect(output).toMatchObject({
+        productType: "REELS",
+        unavailable: [],
+      });
+      expect(output.metrics).toMatchObject({
+        reach: 5,
+        saves: 5,
+        avgWatchTimeMs: "ig_reels_avg_watch_time".length,
+      });
+    });
+
+    it("falls back to one request per metric and reports the ones refused", async () => {
+      unsupported.add("ig_reels_video_view_total_time");
+      unsupported.add("shares");
+      const output = await getInstagramMediaInsights({ mediaId: "reel-1" });
+
+      // The combined request, then each of the 9 Reel metrics alone
+      expect(insightRequests).toHaveLength(10);
+      expect(output.metrics).toEqual({
+        reach: 5,
+        likes: 5,
+        comments: 8,
+        saves: 5,
+        totalInteractions: 18,
+        views: 5,
+        avgWatchTimeMs: 23,
+      });
+      expect(output.unavailable).toEqual([
+        { metric: "shares", reason: "(#100) The metric shares is not supported" },
+        {
+          metric: "totalWatchTimeMs",
+          reason:
+            "(#100) The metric ig_reels_video_view_total_time is not supported",
+        },
+      ]);
+    });
+
+    it("fails on errors that aren't about a metric", async () => {
+      failWith = { code: 190, message: "Error validating access token" };
+      await expect(
+        getInstagramMediaInsights({
+          mediaId: "reel-1",
+          retryPolicy: { maxAttempts: 1 },
+        })
+      ).rejects.toMatchObject({
+        type: "EXPIRED_TOKEN",
+        message: "Error validating access token",
+      });
+      expect(insightRequests).toHaveLength(1);
+    });
+  });
+
+  describe("getInstagramAccountInsights period", () => {
+    const periodOf = async (since?: string, until?: string) => {
+      const output = await getInstagramAccountInsights({
+        since,
+        until,
+        demographics: false,
+      });
+      return { since: output.since, until: output.until };
+    };
+
+    it("defaults to the 7 days before until", async () => {
+      await expect(periodOf(undefined, "2025-06-30T00:00:00Z")).resolves.toEqual({
+        since: "2025-06-23T00:00:00.000Z",
+        until: "2025-06-30T00:00:00.000Z",
+      });
+      expect(insightRequests[0].get("since")).toBe(
+        String(Date.parse("2025-06-23T00:00:00Z") / 1000)
+      );
+    });
+
+    it("refuses a period that is empty, reversed or longer than 30 days", async () => {
+      await expect(periodOf("2025-06-30", "2025-06-30")).rejects.toMatchObject({
+        type: "INVALID_REQUEST",
+        message: "since must be before until.",
+      });
+      await expect(periodOf("2025-07-01", "2025-06-30")).rejects.toMatchObject({
+        message: "since must be before until.",
+      });
+      await expect(periodOf("2025-05-01", "2025-06-30")).rejects.toMatchObject({
+        type: "INVALID_REQUEST",
+        message: "The period can be at most 30 days.",
+      });
+      await expect(periodOf("2025-05-31", "2025-06-30")).resolves.toBeDefined();
+    });
+
+    it("refuses a date it can't parse", async () => {
+      await expect(periodOf("last week")).rejects.toMatchObject({
+        type: "INVALID_REQUEST",
+        message:
+          'Invalid since "last week". Use an ISO 8601 date or date-time, e.g. 2025-06-01.',
+      });
+      expect(insightRequests).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,501 @@
+import {
+  GraphApiParams,
+  InstagramApiError,
+  InstagramErrorType,
+  InstagramGraphClient,
+  handleInstagramError,
+} from "../services/instagramGraphApi.js";
+import { createClientForAccount } from "../services/accountStore.js";
+import { RetryEvent, RetryPolicy } from "../services/retryPolicy.js";
+import {
+  InstagramTool,
+  accountSchema,
+  retryPolicySchema,
+  textResult,
+} from "./toolSupport.js";
+
+// Post and account analytics from the insights edges. Results are flattened
+// into plain numbers with camelCase names, and metrics Instagram won't report
+// for a media item or account are listed instead of failing the call.
+// https://developers.facebook.com/docs/instagram-platform/reference/instagram-media/insights
+
+export type DemographicsTimeframe = "this_week" | "this_month";
+export type DemographicsBreakdown = "age" | "gender" | "country" | "city";
+
+// Define the interface for the tool inputs
+export interface InstagramMediaInsightsInput {
+  mediaId: string;
+  account?: string;
+  retryPolicy?: Partial<RetryPolicy>;
+}
+
+export interface InstagramAccountInsightsInput {
+  // ISO 8601 dates; the last 7 days when omitted, at most 30 days apart
+  since?: string;
+  until?: string;
+  // Follower age, gender, country and city (default true)
+  demographics?: boolean;
+  demographicsTimeframe?: DemographicsTimeframe;
+  account?: string;
+  retryPolicy?: Partial<RetryPolicy>;
+}
+
+export interface UnavailableMetric {
+  metric: string;
+  reason: string;
+}
+
+export interface DailyValue {
+  // End of the day the value covers, as Instagram reports it (days end at
+  // midnight Pacific time)
+  endTime?: string;
+  value: number;
+}
+
+export interface DailySeries {
+  total: number;
+  daily: DailyValue[];
+}
+
+// Define the interface for the tool outputs
+export interface InstagramMediaInsightsOutput {
+  mediaId: string;
+  mediaType: string;
+  productType: string;
+  timestamp?: string;
+  permalink?: string;
+  // e.g. reach, likes, saves, views, avgWatchTimeMs
+  metrics: Record<string, number>;
+  unavailable: UnavailableMetric[];
+  retries: RetryEvent[];
+}
+
+export interface InstagramAccountInsightsOutput {
+  accountId: string;
+  username?: string;
+  followersCount?: number;
+  since: string;
+  until: string;
+  // New followers per day
+  followerGrowth?: DailySeries;
+  reach?: DailySeries;
+  // Period totals, e.g. profileViews, accountsEngaged, totalInteractions
+  totals: Record<string, number>;
+  demographics?: {
+    timeframe: DemographicsTimeframe;
+  } & Partial<Record<DemographicsBreakdown, Record<string, number>>>;
+  unavailable: UnavailableMetric[];
+  retries: RetryEvent[];
+}
+
+interface GraphInsight {
+  name: string;
+  values?: { value: number; end_time?: string }[];
+  total_value?: {
+    value?: number;
+    breakdowns?: {
+      results?: { dimension_values: string[]; value: number }[];
+    }[];
+  };
+}
+
+interface InsightsResponse {
+  data?: GraphInsight[];
+}
+
+type MediaInsightsKind = "FEED" | "REELS" | "STORY";
+
+// Metrics each kind of media supports. Asking for one the media doesn't
+// support fails the whole request, so the list follows media_product_type.
+const MEDIA_METRICS: Record<MediaInsightsKind, string[]> = {
+  FEED: [
+    "reach",
+    "likes",
+    "comments",
+    "saved",
+    "shares",
+    "total_interactions",
+    "views",
+    "profile_visits",
+    "follows",
+  ],
+  REELS: [
+    "reach",
+    "likes",
+    "comments",
+    "saved",
+    "shares",
+    "total_interactions",
+    "views",
+    "ig_reels_avg_watch_time",
+    "ig_reels_video_view_total_time",
+  ],
+  STORY: [
+    "reach",
+    "replies",
+    "shares",
+    "total_interactions",
+    "views",
+    "profile_visits",
+    "follows",
+  ],
+};
+
+const ACCOUNT_SERIES_METRICS = ["follower_count", "reach"];
+const ACCOUNT_TOTAL_METRICS = [
+  "profile_views",
+  "accounts_engaged",
+  "total_interactions",
+  "views",
+  "website_clicks",
+];
+const DEMOGRAPHICS_BREAKDOWNS: DemographicsBreakdown[] = [
+  "age",
+  "gender",
+  "country",
+  "city",
+];
+
+// Graph names that don't read well as camelCase
+const METRIC_NAMES: Record<string, string> = {
+  saved: "saves",
+  follower_count: "followerGrowth",
+  ig_reels_avg_watch_time: "avgWatchTimeMs",
+  ig_reels_video_view_total_time: "totalWatchTimeMs",
+};
+
+const DEFAULT_ACCOUNT_PERIOD_DAYS = 7;
+const MAX_ACCOUNT_PERIOD_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Invalid parameter (100) and permission (10) errors are what Instagram
+// returns for an unsupported metric, or an account below the 100 followers
+// that demographics need
+const UNAVAILABLE_METRIC_CODES = [10, 100];
+
+function metricName(metric: string): string {
+  return (
+    METRIC_NAMES[metric] ||
+    metric.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase())
+  );
+}
+
+function isMetricUnavailable(error: unknown): error is InstagramApiError {
+  return (
+    error instanceof InstagramApiError &&
+    error.statusCode !== undefined &&
+    UNAVAILABLE_METRIC_CODES.includes(error.statusCode)
+  );
+}
+
+// Requests all metrics at once. If Instagram refuses, each metric is tried
+// on its own so only the unsupported ones are lost.
+async function fetchInsights(
+  client: InstagramGraphClient,
+  path: string,
+  metrics: string[],
+  params: GraphApiParams = {}
+): Promise<{ insights: GraphInsight[]; unavailable: UnavailableMetric[] }> {
+  try {
+    const response = await client.get<InsightsResponse>(path, {
+      metric: metrics,
+      ...params,
+    });
+    return { insights: response.data || [], unavailable: [] };
+  } catch (error) {
+    if (!isMetricUnavailable(error)) throw error;
+    if (metrics.length === 1) {
+      return {
+        insights: [],
+        unavailable: [{ metric: metricName(metrics[0]), reason: error.message }],
+      };
+    }
+    const results = [];
+    for (const metric of metrics) {
+      results.push(await fetchInsights(client, path, [metric], params));
+    }
+    return {
+      insights: results.flatMap((result) => result.insights),
+      unavailable: results.flatMap((result) => result.unavailable),
+    };
+  }
+}
+
+// Lifetime media metrics come as values[0]; total_value metrics as a total
+function insightTotal(insight: GraphInsight): number | undefined {
+  return insight.total_value?.value ?? insight.values?.[0]?.value;
+}
+
+function toDailySeries(insight: GraphInsight): DailySeries {
+  const daily = (insight.values || []).map((entry) => ({
+    endTime: entry.end_time,
+    value: entry.value,
+  }));
+  return {
+    total: daily.reduce((sum, entry) => sum + (entry.value || 0), 0),
+    daily,
+  };
+}
+
+function mediaInsightsKind(productType: string | undefined): MediaInsightsKind {
+  if (productType === "REELS" || productType === "STORY") return productType;
+  return "FEED";
+}
+
+function parseDate(value: string, field: string): number {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new InstagramApiError(
+      `Invalid ${field} "${value}". Use an ISO 8601 date or date-time, e.g. 2025-06-01.`,
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  return time;
+}
+
+// Instagram reports day-period account metrics for at most 30 days at a time
+function resolvePeriod(input: InstagramAccountInsightsInput): {
+  since: number;
+  until: number;
+} {
+  const until = input.until ? parseDate(input.until, "until") : Date.now();
+  const since = input.since
+    ? parseDate(input.since, "since")
+    : until - DEFAULT_ACCOUNT_PERIOD_DAYS * DAY_MS;
+  if (since >= until) {
+    throw new InstagramApiError(
+      "since must be before until.",
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  if (until - since > MAX_ACCOUNT_PERIOD_DAYS * DAY_MS) {
+    throw new InstagramApiError(
+      `The period can be at most ${MAX_ACCOUNT_PERIOD_DAYS} days.`,
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  return { since, until };
+}
+
+export async function getInstagramMediaInsights(
+  input: InstagramMediaInsightsInput
+): Promise<InstagramMediaInsightsOutput> {
+  const mediaId = input.mediaId?.trim();
+  if (!mediaId) {
+    throw new InstagramApiError(
+      "A media ID is required.",
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  const { client } = createClientForAccount(input.account, input.retryPolicy);
+
+  try {
+    const media = await client.get<{
+      media_type: string;
+      media_product_type?: string;
+      timestamp?: string;
+      permalink?: string;
+    }>(`/${mediaId}`, {
+      fields: "media_type,media_product_type,timestamp,permalink",
+    });
+    const kind = mediaInsightsKind(media.media_product_type);
+    const { insights, unavailable } = await fetchInsights(
+      client,
+      `/${mediaId}/insights`,
+      MEDIA_METRICS[kind]
+    );
+
+    const metrics: Record<string, number> = {};
+    for (const insight of insights) {
+      const value = insightTotal(insight);
+      if (value !== undefined) metrics[metricName(insight.name)] = value;
+    }
+    return {
+      mediaId,
+      mediaType: media.media_type,
+      productType: media.media_product_type || kind,
+      timestamp: media.timestamp,
+      permalink: media.permalink,
+      metrics,
+      unavailable,
+      retries: client.retryEvents,
+    };
+  } catch (error) {
+    const apiError = handleInstagramError(error);
+    apiError.retries = client.retryEvents;
+    throw apiError;
+  }
+}
+
+export async function getInstagramAccountInsights(
+  input: InstagramAccountInsightsInput
+): Promise<InstagramAccountInsightsOutput> {
+  const period = resolvePeriod(input);
+  const timeframe = input.demographicsTimeframe || "this_month";
+  const { account, client } = createClientForAccount(
+    input.account,
+    input.retryPolicy
+  );
+  const path = `/${client.igUserId}/insights`;
+  const range = {
+    period: "day",
+    since: Math.floor(period.since / 1000),
+    until: Math.floor(period.until / 1000),
+  };
+
+  try {
+    const profile = await client.get<{
+      username?: string;
+      followers_count?: number;
+    }>(`/${client.igUserId}`, { fields: "username,followers_count" });
+
+    const series = await fetchInsights(
+      client,
+      path,
+      ACCOUNT_SERIES_METRICS,
+      range
+    );
+    const totals = await fetchInsights(client, path, ACCOUNT_TOTAL_METRICS, {
+      ...range,
+      metric_type: "total_value",
+    });
+    const unavailable = [...series.unavailable, ...totals.unavailable];
+
+    const seriesByName = new Map(
+      series.insights.map((insight) => [insight.name, toDailySeries(insight)])
+    );
+    const totalValues: Record<string, number> = {};
+    for (const insight of totals.insights) {
+      const value = insightTotal(insight);
+      if (value !== undefined) totalValues[metricName(insight.name)] = value;
+    }
+
+    let demographics: InstagramAccountInsightsOutput["demographics"];
+    if (input.demographics !== false) {
+      demographics = { timeframe };
+      // Demographics take one breakdown per request
+      for (const breakdown of DEMOGRAPHICS_BREAKDOWNS) {
+        const result = await fetchInsights(
+          client,
+          path,
+          ["follower_demographics"],
+          { period: "lifetime", timeframe, metric_type: "total_value", breakdown }
+        );
+        if (result.unavailable.length > 0) {
+          unavailable.push(
+            ...result.unavailable.map((entry) => ({
+              metric: `${entry.metric}.${breakdown}`,
+              reason: entry.reason,
+            }))
+          );
+          continue;
+        }
+        const results =
+          result.insights[0]?.total_value?.breakdowns?.[0]?.results || [];
+        demographics[breakdown] = Object.fromEntries(
+          results
+            .sort((a, b) => b.value - a.value)
+            .map((entry) => [entry.dimension_values.join(", "), entry.value])
+        );
+      }
+    }
+
+    return {
+      accountId: account.id,
+      username: profile.username || account.username,
+      followersCount: profile.followers_count,
+      since: new Date(period.since).toISOString(),
+      until: new Date(period.until).toISOString(),
+      followerGrowth: seriesByName.get("follower_count"),
+      reach: seriesByName.get("reach"),
+      totals: totalValues,
+      demographics,
+      unavailable,
+      retries: client.retryEvents,
+    };
+  } catch (error) {
+    const apiError = handleInstagramError(error);
+    apiError.retries = client.retryEvents;
+    throw apiError;
+  }
+}
+
+export const mediaInsightsTool: InstagramTool = {
+  name: "instagram-media-insights",
+  description:
+    "Gets a post's insights as JSON: reach, likes, comments, saves, shares, views and total interactions, plus average and total watch time for Reels and replies for Stories. Metrics Instagram doesn't report for the post are listed under unavailable.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      mediaId: {
+        type: "string",
+        description:
+          "Media ID of the post, Reel or Story (see instagram-list-media).",
+      },
+      account: accountSchema,
+      retryPolicy: retryPolicySchema,
+    },
+    required: ["mediaId"],
+  },
+  async handle(args) {
+    const { mediaId, account, retryPolicy } = args;
+    const result = await getInstagramMediaInsights({
+      mediaId,
+      account,
+      retryPolicy,
+    });
+    return textResult(JSON.stringify(result, null, 2));
+  },
+};
+
+export const accountInsightsTool: InstagramTool = {
+  name: "instagram-account-insights",
+  description:
+    "Gets account insights for a period as JSON: followers, new followers per day, reach per day, profile views, accounts engaged and interactions, and follower demographics by age, gender, country and city.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      since: {
+        type: "string",
+        description:
+          "Start of the period, as an ISO 8601 date or date-time (default 7 days before until).",
+      },
+      until: {
+        type: "string",
+        description:
+          "End of the period, as an ISO 8601 date or date-time (default now). At most 30 days after since.",
+      },
+      demographics: {
+        type: "boolean",
+        description:
+          "Include follower demographics (default true). Instagram only reports them for accounts with at least 100 followers.",
+      },
+      demographicsTimeframe: {
+        type: "string",
+        enum: ["this_week", "this_month"],
+        description: "Window for the demographics (default this_month).",
+      },
+      account: accountSchema,
+      retryPolicy: retryPolicySchema,
+    },
+  },
+  async handle(args) {
+    const {
+      since,
+      until,
+      demographics,
+      demographicsTimeframe,
+      account,
+      retryPolicy,
+    } = args;
+    const result = await getInstagramAccountInsights({
+      since,
+      until,
+      demographics,
+      demographicsTimeframe,
+      account,
+      retryPolicy,
+    });
+    return textResult(JSON.stringify(result, null, 2));
+  },
+};
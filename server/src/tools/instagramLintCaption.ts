@@ -0,0 +1,57 @@
+import {
+  CaptionAnalysis,
+  CaptionRules,
+  MAX_CAPTION_LENGTH,
+  MAX_HASHTAGS,
+  MAX_MENTIONS,
+  analyzeCaption,
+  loadCaptionRules,
+} from "../services/captionLint.js";
+import { formatCaptionAnalysis } from "./toolFormatting.js";
+import { InstagramTool, textResult } from "./toolSupport.js";
+
+// Define the interface for the tool input
+export interface InstagramLintCaptionInput {
+  caption: string;
+  // Checked in addition to the rules file
+  bannedHashtags?: string[];
+}
+
+export function lintInstagramCaption(
+  input: InstagramLintCaptionInput
+): CaptionAnalysis {
+  const rules: CaptionRules = loadCaptionRules();
+  return analyzeCaption(input.caption, {
+    ...rules,
+    bannedHashtags: [
+      ...(rules.bannedHashtags || []),
+      ...(input.bannedHashtags || []),
+    ],
+  });
+}
+
+export const lintCaptionTool: InstagramTool = {
+  name: "instagram-lint-caption",
+  description: `Checks a caption before posting: length (max ${MAX_CAPTION_LENGTH}), hashtags (max ${MAX_HASHTAGS}) and mentions (max ${MAX_MENTIONS}), and flags banned or repeated hashtags. The post tools run the same checks and refuse captions with errors.`,
+  inputSchema: {
+    type: "object",
+    properties: {
+      caption: {
+        type: "string",
+        description: "The caption to check.",
+      },
+      bannedHashtags: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          "Extra hashtags to flag, in addition to the server's caption rules file.",
+      },
+    },
+    required: ["caption"],
+  },
+  handle(args) {
+    const { caption, bannedHashtags } = args;
+    const analysis = lintInstagramCaption({ caption, bannedHashtags });
+    return textResult(formatCaptionAnalysis(analysis));
+  },
+};
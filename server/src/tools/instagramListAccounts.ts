@@ -0,0 +1,20 @@
+import { listAccounts } from "../services/accountStore.js";
+import { InstagramTool, textResult } from "./toolSupport.js";
+
+export const listAccountsTool: InstagramTool = {
+  name: "instagram-list-accounts",
+  description:
+    "Lists the Instagram accounts the server has credentials for, and which one is used by default.",
+  inputSchema: {
+    type: "object",
+    properties: {},
+  },
+  handle() {
+    const accounts = listAccounts();
+    return textResult(
+      accounts.length === 0
+        ? "No Instagram accounts are configured. Use instagram-auth to add one."
+        : JSON.stringify(accounts, null, 2)
+    );
+  },
+};
@@ -0,0 +1,65 @@
+import { listInstagramMedia } from "./instagramMedia.js";
+import {
+  useAccountDataDir,
+  useGraphApiStub,
+} from "./__fixtures__/toolTestSetup.js";
+
+// Newest first; every third post is a video
+const POSTS = Array.from({ length: 30 }, (_, index) => ({
+  id: `post-${index}`,
+  media_type: index % 3 === 0 ? "VIDEO" : "IMAGE",
+  media_product_type: "FEED",
+  timestamp: new Date(Date.UTC(2025, 5, 30 - index)).toISOString(),
+}));
+
+describe("listInstagramMedia", () => {
+  let requests: number;
+
+  // Pages through POSTS with cursors that are just item offsets
+  useGraphApiStub(({ url }) => {
+    requests++;
+    const limit = Number(url.searchParams.get("limit"));
+    const start = Number(url.searchParams.get("after")?.slice(1) || 0);
+    const end = Math.min(start + limit, POSTS.length);
+    return {
+      body: {
+        data: POSTS.slice(start, end),
+        paging: {
+          cursors: { before: `c${start}`, after: `c${end}` },
+          ...(end < POSTS.length ? { next: "next-page" } : {}),
+          ...(start > 0 ? { previous: "previous-page" } : {}),
+        },
+      },
+    };
+  });
+  useAccountDataDir("media-list-test-");
+
+  beforeEach(() => {
+    requests = 0;
+  });
+
+  const ids = (media: { id: string }[]) => media.map((item) => item.id);
+
+  it("returns an unfiltered page as Instagram sends it", async () => {
+    const result = await listInstagramMedia({ limit: 5 });
+    expect(ids(result.media)).toEqual(["post-0", "post-1", "post-2", "post-3", "post-4"]);
+    expect(result.nextCursor).toBe("c5");
+    expect(requests).toBe(1);
+  });
+
+  it("tops up a filtered page without going over the limit or skipping posts", async () => {
+    const pages = [];
+    let after: string | undefined;
+    do {
+      const result = await listInstagramMedia({ mediaType: "IMAGE", limit: 4, after });
+      expect(result.media.length).toBeLessThanOrEqual(4);
+      pages.push(ids(result.media));
+      after = result.nextCursor;
+    } while (after);
+
+    expect(pages[0]).toEqual(["post-1", "post-2", "post-4", "post-5"]);
+    expect(pages.flat()).toEqual(
+      POSTS.filter((post) => post.media_type === "IMAGE").map((post) => post.id)
+    );
+  });
+});
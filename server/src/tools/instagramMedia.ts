@@ -0,0 +1,622 @@
+import {
+  InstagramApiError,
+  InstagramErrorType,
+  InstagramGraphClient,
+  handleInstagramError,
+} from "../services/instagramGraphApi.js";
+import { createClientForAccount } from "../services/accountStore.js";
+import {
+  AccountMediaCache,
+  CachedMedia,
+  getAccountMediaCache,
+  saveAccountMediaCache,
+} from "../services/mediaCache.js";
+import { RetryEvent, RetryPolicy } from "../services/retryPolicy.js";
+import { formatRetries } from "./toolFormatting.js";
+import {
+  InstagramTool,
+  accountSchema,
+  retryPolicySchema,
+  textResult,
+} from "./toolSupport.js";
+
+// Read access to the account's published posts, through the same account
+// registry and Graph API host as the post tools
+
+export type InstagramMediaType = "IMAGE" | "VIDEO" | "CAROUSEL_ALBUM";
+export type InstagramProductType = "FEED" | "REELS" | "STORY" | "AD";
+
+// Define the interface for the tool inputs
+export interface InstagramListMediaInput {
+  // Cursors from an earlier page's nextCursor / previousCursor
+  after?: string;
+  before?: string;
+  limit?: number;
+  mediaType?: InstagramMediaType;
+  productType?: InstagramProductType;
+  // ISO 8601 date-times bounding the post timestamps
+  since?: string;
+  until?: string;
+  account?: string;
+  retryPolicy?: Partial<RetryPolicy>;
+}
+
+export interface InstagramGetMediaInput {
+  mediaId: string;
+  account?: string;
+  retryPolicy?: Partial<RetryPolicy>;
+}
+
+export interface InstagramSearchMediaInput {
+  // Every word must appear in the caption, case-insensitively
+  query: string;
+  mediaType?: InstagramMediaType;
+  limit?: number;
+  // Re-read every post instead of only the ones newer than the cache
+  refresh?: boolean;
+  account?: string;
+  retryPolicy?: Partial<RetryPolicy>;
+}
+
+export interface InstagramMediaChild {
+  id: string;
+  mediaType: string;
+  mediaUrl?: string;
+  thumbnailUrl?: string;
+}
+
+export interface InstagramMedia {
+  id: string;
+  mediaType: string;
+  productType?: string;
+  caption?: string;
+  permalink?: string;
+  timestamp: string;
+  mediaUrl?: string;
+  // Cover image of a video
+  thumbnailUrl?: string;
+  likeCount?: number;
+  commentsCount?: number;
+  // Only from instagram-get-media
+  username?: string;
+  children?: InstagramMediaChild[];
+}
+
+// Define the interface for the tool outputs
+export interface InstagramListMediaOutput {
+  media: InstagramMedia[];
+  // Pass as after / before for the next or previous page
+  nextCursor?: string;
+  previousCursor?: string;
+  retries: RetryEvent[];
+}
+
+export interface InstagramGetMediaOutput {
+  media: InstagramMedia;
+  retries: RetryEvent[];
+}
+
+export interface InstagramSearchMediaOutput {
+  media: CachedMedia[];
+  totalMatches: number;
+  // How many cached posts were searched
+  searched: number;
+  // False when the cache stops short of the account's oldest post
+  complete: boolean;
+  syncedAt: string;
+  retries: RetryEvent[];
+}
+
+interface GraphMedia {
+  id: string;
+  media_type: string;
+  media_product_type?: string;
+  caption?: string;
+  permalink?: string;
+  timestamp: string;
+  media_url?: string;
+  thumbnail_url?: string;
+  like_count?: number;
+  comments_count?: number;
+  username?: string;
+  children?: {
+    data: {
+      id: string;
+      media_type: string;
+      media_url?: string;
+      thumbnail_url?: string;
+    }[];
+  };
+}
+
+interface MediaPageResponse {
+  data?: GraphMedia[];
+  paging?: {
+    cursors?: { before?: string; after?: string };
+    next?: string;
+    previous?: string;
+  };
+}
+
+const LIST_FIELDS =
+  "id,caption,media_type,media_product_type,permalink,timestamp,media_url,thumbnail_url,like_count,comments_count";
+const GET_FIELDS = `${LIST_FIELDS},username,children{id,media_type,media_url,thumbnail_url}`;
+// Just what CachedMedia keeps
+const CACHE_FIELDS = "id,caption,media_type,media_product_type,permalink,timestamp";
+
+const DEFAULT_LIST_LIMIT = 25;
+const MAX_LIST_LIMIT = 100;
+// With a type filter, further pages are read until the limit is reached
+const MAX_FILTERED_PAGES = 10;
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const SYNC_PAGE_SIZE = 100;
+// Posts read in one sync; older ones are left out of the cache
+const MAX_SYNCED_MEDIA = 2000;
+
+function toMedia(media: GraphMedia): InstagramMedia {
+  return {
+    id: media.id,
+    mediaType: media.media_type,
+    productType: media.media_product_type,
+    caption: media.caption,
+    permalink: media.permalink,
+    timestamp: media.timestamp,
+    mediaUrl: media.media_url,
+    thumbnailUrl: media.thumbnail_url,
+    likeCount: media.like_count,
+    commentsCount: media.comments_count,
+    username: media.username,
+    children: media.children?.data.map((child) => ({
+      id: child.id,
+      mediaType: child.media_type,
+      mediaUrl: child.media_url,
+      thumbnailUrl: child.thumbnail_url,
+    })),
+  };
+}
+
+function toCachedMedia(media: GraphMedia): CachedMedia {
+  return {
+    id: media.id,
+    mediaType: media.media_type,
+    productType: media.media_product_type,
+    caption: media.caption,
+    permalink: media.permalink,
+    timestamp: media.timestamp,
+  };
+}
+
+// The media edge takes Unix timestamps for since/until
+function parseTimeBound(
+  value: string | undefined,
+  field: string
+): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new InstagramApiError(
+      `Invalid ${field} "${value}". Use an ISO 8601 date or date-time, e.g. 2025-06-01 or 2025-06-01T00:00:00Z.`,
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  return Math.floor(time / 1000);
+}
+
+function clampLimit(limit: number | undefined, fallback: number): number {
+  return Math.min(Math.max(limit || fallback, 1), MAX_LIST_LIMIT);
+}
+
+// Cursors are only worth returning when Instagram says there is such a page
+function pageCursors(page: MediaPageResponse): {
+  nextCursor?: string;
+  previousCursor?: string;
+} {
+  return {
+    nextCursor: page.paging?.next ? page.paging.cursors?.after : undefined,
+    previousCursor: page.paging?.previous
+      ? page.paging.cursors?.before
+      : undefined,
+  };
+}
+
+function fetchMediaPage(
+  client: InstagramGraphClient,
+  params: Record<string, string | number | undefined>
+): Promise<MediaPageResponse> {
+  return client.get<MediaPageResponse>(`/${client.igUserId}/media`, {
+    fields: LIST_FIELDS,
+    ...params,
+  });
+}
+
+export async function listInstagramMedia(
+  input: InstagramListMediaInput
+): Promise<InstagramListMediaOutput> {
+  const { mediaType, productType } = input;
+  if (input.after && input.before) {
+    throw new InstagramApiError(
+      "Give either after or before, not both.",
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  const limit = clampLimit(input.limit, DEFAULT_LIST_LIMIT);
+  const since = parseTimeBound(input.since, "since");
+  const until = parseTimeBound(input.until, "until");
+  const { client } = createClientForAccount(input.account, input.retryPolicy);
+  const matches = (media: GraphMedia) =>
+    (!mediaType || media.media_type === mediaType) &&
+    (!productType || media.media_product_type === productType);
+
+  try {
+    const readPage = async (
+      cursors: { after?: string; before?: string },
+      pageLimit = limit
+    ) => {
+      const page = await fetchMediaPage(client, {
+        limit: pageLimit,
+        since,
+        until,
+        ...cursors,
+      });
+      const data = page.data || [];
+      return { data, matched: data.filter(matches), ...pageCursors(page) };
+    };
+    // The first page is no bigger than limit, so it never needs trimming
+    const first = await readPage({ after: input.after, before: input.before });
+    const media = first.matched.map(toMedia);
+    const { previousCursor } = first;
+    let nextCursor = first.nextCursor;
+    // Instagram can't filter by type, so a filtered page is topped up from
+    // the following ones. A page with more matches than are still wanted is
+    // read again only up to the last one kept, so nextCursor points right
+    // after it and the rest are returned by the next call.
+    for (
+      let pages = 1;
+      media.length < limit &&
+      nextCursor &&
+      !input.before &&
+      pages < MAX_FILTERED_PAGES;
+      pages++
+    ) {
+      const after: string = nextCursor;
+      const wanted = limit - media.length;
+      let page = await readPage({ after });
+      if (page.matched.length > wanted) {
+        const lastKept = page.data.indexOf(page.matched[wanted - 1]);
+        page = await readPage({ after }, lastKept + 1);
+      }
+      media.push(...page.matched.slice(0, wanted).map(toMedia));
+      nextCursor = page.nextCursor;
+    }
+    return { media, nextCursor, previousCursor, retries: client.retryEvents };
+  } catch (error) {
+    const apiError = handleInstagramError(error);
+    apiError.retries = client.retryEvents;
+    throw apiError;
+  }
+}
+
+export async function getInstagramMedia(
+  input: InstagramGetMediaInput
+): Promise<InstagramGetMediaOutput> {
+  const mediaId = input.mediaId?.trim();
+  if (!mediaId) {
+    throw new InstagramApiError(
+      "A media ID is required.",
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  const { client } = createClientForAccount(input.account, input.retryPolicy);
+
+  try {
+    const media = await client.get<GraphMedia>(`/${mediaId}`, {
+      fields: GET_FIELDS,
+    });
+    return { media: toMedia(media), retries: client.retryEvents };
+  } catch (error) {
+    const apiError = handleInstagramError(error);
+    apiError.retries = client.retryEvents;
+    throw apiError;
+  }
+}
+
+// Reads posts newest first until it reaches one already cached, so a sync
+// usually costs a single request. Edited captions and deleted posts are only
+// picked up by a refresh.
+async function syncMediaCache(
+  client: InstagramGraphClient,
+  accountId: string,
+  refresh: boolean
+): Promise<AccountMediaCache> {
+  const cached = refresh ? undefined : getAccountMediaCache(accountId);
+  const knownIds = new Set(cached?.media.map((media) => media.id));
+  const fetched: CachedMedia[] = [];
+  let caughtUp = false;
+  let reachedEnd = false;
+  let after: string | undefined;
+
+  while (!caughtUp && !reachedEnd && fetched.length < MAX_SYNCED_MEDIA) {
+    const page = await fetchMediaPage(client, {
+      fields: CACHE_FIELDS,
+      limit: SYNC_PAGE_SIZE,
+      after,
+    });
+    for (const media of page.data || []) {
+      if (knownIds.has(media.id)) {
+        caughtUp = true;
+        break;
+      }
+      fetched.push(toCachedMedia(media));
+    }
+    after = pageCursors(page).nextCursor;
+    reachedEnd = !after;
+  }
+
+  // Without catching up there is a gap between the new posts and the old
+  // cache, so the old cache is dropped
+  const cache: AccountMediaCache = caughtUp
+    ? {
+        media: [...fetched, ...cached!.media],
+        syncedAt: new Date().toISOString(),
+        complete: cached!.complete,
+      }
+    : {
+        media: fetched,
+        syncedAt: new Date().toISOString(),
+        complete: reachedEnd,
+      };
+  saveAccountMediaCache(accountId, cache);
+  return cache;
+}
+
+export async function searchInstagramMedia(
+  input: InstagramSearchMediaInput
+): Promise<InstagramSearchMediaOutput> {
+  const terms = (input.query || "").toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    throw new InstagramApiError(
+      "A search query is required.",
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  const { account, client } = createClientForAccount(
+    input.account,
+    input.retryPolicy
+  );
+
+  let cache: AccountMediaCache;
+  try {
+    cache = await syncMediaCache(client, account.id, !!input.refresh);
+  } catch (error) {
+    const apiError = handleInstagramError(error);
+    apiError.retries = client.retryEvents;
+    throw apiError;
+  }
+
+  const matches = cache.media.filter((media) => {
+    if (input.mediaType && media.mediaType !== input.mediaType) return false;
+    const caption = (media.caption || "").toLowerCase();
+    return terms.every((term) => caption.includes(term));
+  });
+  return {
+    media: matches.slice(0, clampLimit(input.limit, DEFAULT_SEARCH_LIMIT)),
+    totalMatches: matches.length,
+    searched: cache.media.length,
+    complete: cache.complete,
+    syncedAt: cache.syncedAt,
+    retries: client.retryEvents,
+  };
+}
+
+// One line per post, with the start of its caption
+function formatMediaSummary(
+  media: Pick<
+    InstagramMedia,
+    "id" | "mediaType" | "productType" | "caption" | "permalink" | "timestamp"
+  >
+): string {
+  const type = media.productType
+    ? `${media.mediaType}/${media.productType}`
+    : media.mediaType;
+  const caption = (media.caption || "").replace(/\s+/g, " ").trim();
+  return (
+    `- ${media.id} [${type}] ${media.timestamp}` +
+    (media.permalink ? ` ${media.permalink}` : "") +
+    (caption
+      ? `\n  ${caption.length > 100 ? `${caption.slice(0, 100)}...` : caption}`
+      : "")
+  );
+}
+
+function formatMediaDetails(media: InstagramMedia): string {
+  const lines = [
+    `Media ${media.id} [${media.mediaType}${media.productType ? `/${media.productType}` : ""}]` +
+      (media.username ? ` by @${media.username}` : ""),
+    `Posted: ${media.timestamp}`,
+  ];
+  if (media.permalink) lines.push(`Permalink: ${media.permalink}`);
+  if (media.mediaUrl) lines.push(`Media URL: ${media.mediaUrl}`);
+  if (media.thumbnailUrl) lines.push(`Thumbnail: ${media.thumbnailUrl}`);
+  if (media.likeCount !== undefined || media.commentsCount !== undefined) {
+    lines.push(
+      `Likes: ${media.likeCount ?? "hidden"}, comments: ${media.commentsCount ?? "unknown"}`
+    );
+  }
+  if (media.children?.length) {
+    lines.push(
+      `Children (${media.children.length}):`,
+      ...media.children.map(
+        (child) =>
+          `- ${child.id} [${child.mediaType}] ${child.mediaUrl || child.thumbnailUrl || ""}`.trimEnd()
+      )
+    );
+  }
+  lines.push(`Caption: ${media.caption || "(none)"}`);
+  return lines.join("\n");
+}
+
+export const listMediaTool: InstagramTool = {
+  name: "instagram-list-media",
+  description:
+    "Lists the account's published posts, newest first, with their permalink, caption and timestamp. Pages with the cursors from the previous result.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      limit: {
+        type: "number",
+        description: "Posts per page (default 25, max 100).",
+      },
+      after: {
+        type: "string",
+        description: "nextCursor from the previous page, for older posts.",
+      },
+      before: {
+        type: "string",
+        description: "previousCursor from the previous page, for newer posts.",
+      },
+      mediaType: {
+        type: "string",
+        enum: ["IMAGE", "VIDEO", "CAROUSEL_ALBUM"],
+        description: "Only list posts of this type.",
+      },
+      productType: {
+        type: "string",
+        enum: ["FEED", "REELS", "STORY", "AD"],
+        description: "Only list posts from this surface, e.g. REELS.",
+      },
+      since: {
+        type: "string",
+        description:
+          "Only posts published at or after this ISO 8601 date or date-time.",
+      },
+      until: {
+        type: "string",
+        description:
+          "Only posts published at or before this ISO 8601 date or date-time.",
+      },
+      account: accountSchema,
+      retryPolicy: retryPolicySchema,
+    },
+  },
+  async handle(args) {
+    const {
+      limit,
+      after,
+      before,
+      mediaType,
+      productType,
+      since,
+      until,
+      account,
+      retryPolicy,
+    } = args;
+    const result = await listInstagramMedia({
+      limit,
+      after,
+      before,
+      mediaType,
+      productType,
+      since,
+      until,
+      account,
+      retryPolicy,
+    });
+    const paging = [
+      result.nextCursor && `Older posts: after=${result.nextCursor}`,
+      result.previousCursor && `Newer posts: before=${result.previousCursor}`,
+    ].filter(Boolean);
+    return textResult(
+      (result.media.length === 0
+        ? "No posts found."
+        : `Posts (${result.media.length}):\n` +
+          result.media.map(formatMediaSummary).join("\n")) +
+        (paging.length > 0 ? `\n${paging.join("\n")}` : "") +
+        formatRetries(result.retries)
+    );
+  },
+};
+
+export const getMediaTool: InstagramTool = {
+  name: "instagram-get-media",
+  description:
+    "Gets one post by media ID (e.g. the postId a post tool returned): permalink, caption, timestamp, media and thumbnail URLs, counts and carousel children.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      mediaId: {
+        type: "string",
+        description: "The media ID of the post.",
+      },
+      account: accountSchema,
+      retryPolicy: retryPolicySchema,
+    },
+    required: ["mediaId"],
+  },
+  async handle(args) {
+    const { mediaId, account, retryPolicy } = args;
+    const result = await getInstagramMedia({ mediaId, account, retryPolicy });
+    return textResult(
+      formatMediaDetails(result.media) + formatRetries(result.retries)
+    );
+  },
+};
+
+export const searchMediaTool: InstagramTool = {
+  name: "instagram-search-media",
+  description:
+    "Searches the captions of the account's posts. Posts are cached locally; each search first fetches any posts newer than the cache.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description:
+          "Words or hashtags that must all appear in the caption (case-insensitive).",
+      },
+      mediaType: {
+        type: "string",
+        enum: ["IMAGE", "VIDEO", "CAROUSEL_ALBUM"],
+        description: "Only return posts of this type.",
+      },
+      limit: {
+        type: "number",
+        description: "Most matches to return (default 20, max 100).",
+      },
+      refresh: {
+        type: "boolean",
+        description:
+          "Re-read every post first, to pick up edited captions and deleted posts. Default false.",
+      },
+      account: accountSchema,
+      retryPolicy: retryPolicySchema,
+    },
+    required: ["query"],
+  },
+  async handle(args) {
+    const { query, mediaType, limit, refresh, account, retryPolicy } = args;
+    const result = await searchInstagramMedia({
+      query,
+      mediaType,
+      limit,
+      refresh,
+      account,
+      retryPolicy,
+    });
+    const shown =
+      result.media.length < result.totalMatches
+        ? `, showing ${result.media.length}`
+        : "";
+    return textResult(
+      (result.totalMatches === 0
+        ? `No captions match "${query}".`
+        : `${result.totalMatches === 1 ? "1 post matches" : `${result.totalMatches} posts match`} "${query}"${shown}:\n` +
+          result.media.map(formatMediaSummary).join("\n")) +
+        `\nSearched ${result.searched} cached posts (synced ${result.syncedAt})` +
+        (result.complete
+          ? "."
+          : "; the account's oldest posts are beyond the cache limit and were not searched.") +
+        formatRetries(result.retries)
+    );
+  },
+};
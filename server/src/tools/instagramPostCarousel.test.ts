@@ -0,0 +1,136 @@
+import type { CarouselMediaItem } from "../services/postInputs.js";
+import {
+  mockMediaChecks,
+  useAccountDataDir,
+  useGraphApiStub,
+} from "./__fixtures__/toolTestSetup.js";
+
+mockMediaChecks();
+
+const { postCarouselToInstagram } = await import("./instagramPostCarousel.js");
+const { listOperations } = await import("../services/operationStore.js");
+
+describe("postCarouselToInstagram", () => {
+  let containerRequests: URLSearchParams[];
+  let failingImages: Set<string>;
+  let childStatuses: Record<string, string>;
+
+  // Names each child after its image and the request that created it. The
+  // images in failingImages fail; a child is FINISHED unless childStatuses
+  // says otherwise.
+  useGraphApiStub(({ method, url, params }) => {
+    if (method === "GET") {
+      const childId = url.pathname.split("/").pop()!;
+      return {
+        body: { id: childId, status_code: childStatuses[childId] || "FINISHED" },
+      };
+    }
+    if (url.pathname.endsWith("/media_publish")) {
+      return { body: { id: "carousel-post" } };
+    }
+    containerRequests.push(params);
+    if (params.get("media_type") === "CAROUSEL") {
+      return { body: { id: "carousel-container" } };
+    }
+    const imageName = params.get("image_url")!.split("/").pop()!;
+    return failingImages.has(imageName)
+      ? {
+          status: 400,
+          body: {
+            error: {
+              message: "Media download has failed",
+              type: "OAuthException",
+              code: 9004,
+            },
+          },
+        }
+      : { body: { id: `${imageName}-${containerRequests.length}` } };
+  });
+  useAccountDataDir("carousel-test-");
+
+  beforeEach(() => {
+    containerRequests = [];
+    failingImages = new Set(["broken.jpg"]);
+    childStatuses = {};
+  });
+
+  const image = (name: string): CarouselMediaItem => ({
+    type: "IMAGE",
+    url: `https://example.com/${name}`,
+  });
+
+  it("refuses mediaItems that isn't a list", async () => {
+    const mediaItems = "https://example.com/a.jpg" as unknown as CarouselMediaItem[];
+    await expect(postCarouselToInstagram({ mediaItems })).rejects.toMatchObject({
+      type: "INVALID_REQUEST",
+      message: "mediaItems must be a list of media items.",
+    });
+    expect(containerRequests).toHaveLength(0);
+  });
+
+  it("refuses an item type other than IMAGE or VIDEO", async () => {
+    const mediaItems = [
+      image("a.jpg"),
+      { type: "GIF", url: "https://example.com/b.gif" } as unknown as CarouselMediaItem,
+    ];
+    await expect(postCarouselToInstagram({ mediaItems })).rejects.toMatchObject({
+      type: "INVALID_REQUEST",
+      message: 'mediaItems[1].type must be "IMAGE" or "VIDEO", got "GIF".',
+    });
+    expect(containerRequests).toHaveLength(0);
+    expect(listOperations()).toHaveLength(0);
+  });
+
+  const failFirstAttempt = async (mediaItems: CarouselMediaItem[]) => {
+    await expect(
+      postCarouselToInstagram({
+        mediaItems,
+        idempotencyKey: "carousel-key",
+        retryPolicy: { maxAttempts: 1 },
+      })
+    ).rejects.toMatchObject({ message: expect.stringContaining("mediaItems[1]") });
+    const [operation] = listOperations();
+    containerRequests = [];
+    return operation;
+  };
+
+  it("records the children created before another one failed", async () => {
+    const operation = await failFirstAttempt([
+      image("a.jpg"),
+      image("broken.jpg"),
+      image("c.jpg"),
+    ]);
+
+    expect(operation.status).toBe("failed");
+    expect(operation.containerId).toBeUndefined();
+    expect(operation.childContainerIds).toEqual([
+      expect.stringMatching(/^a\.jpg-/),
+      null,
+      expect.stringMatching(/^c\.jpg-/),
+    ]);
+  });
+
+  it("reuses the usable children when resuming and creates only the rest", async () => {
+    const mediaItems = [image("a.jpg"), image("b.jpg"), image("c.jpg")];
+    failingImages.add("b.jpg");
+    const [firstA, , firstC] = (await failFirstAttempt(mediaItems))
+      .childContainerIds!;
+
+    failingImages.clear();
+    childStatuses[firstA!] = "EXPIRED";
+    const output = await postCarouselToInstagram({
+      mediaItems,
+      idempotencyKey: "carousel-key",
+    });
+
+    expect(output.postId).toBe("carousel-post");
+    // Children are created in parallel; the parent comes last
+    const [parentRequest, ...childRequests] = [...containerRequests].reverse();
+    expect(
+      childRequests.map((params) => params.get("image_url")).sort()
+    ).toEqual(["https://example.com/a.jpg", "https://example.com/b.jpg"]);
+    expect(parentRequest.get("children")).toMatch(
+      new RegExp(`^a\\.jpg-\\d,b\\.jpg-\\d,${firstC}$`)
+    );
+  });
+});
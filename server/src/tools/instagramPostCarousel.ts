@@ -1,226 +1,598 @@
-import fetch, { Response } from "node-fetch";
-import * as fs from "fs";
-import * as path from "path";
-
-// Based on instagram.service.ts
-const GRAPH_API_VERSION = "v19.0";
-const GRAPH_API_BASE_URL = `https://graph.instagram.com/${GRAPH_API_VERSION}`;
-
-// Error types and handler (simplified for direct use in tool)
-enum InstagramErrorType {
-  EXPIRED_TOKEN = "EXPIRED_TOKEN",
-  INVALID_TOKEN = "INVALID_TOKEN",
-  INSUFFICIENT_SCOPE = "INSUFFICIENT_SCOPE",
-  RATE_LIMIT = "RATE_LIMIT",
-  INVALID_REQUEST = "INVALID_REQUEST",
-  NETWORK_ERROR = "NETWORK_ERROR",
-  UNKNOWN_ERROR = "UNKNOWN_ERROR",
+import {
+  InstagramApiError,
+  InstagramErrorType,
+  InstagramGraphClient,
+  MediaContainerParams,
+  handleInstagramError,
+} from "../services/instagramGraphApi.js";
+import { createClientForAccount } from "../services/accountStore.js";
+import {
+  MediaSource,
+  MediaStaging,
+  resolveMediaSource,
+} from "../services/mediaHosting.js";
+import {
+  MediaInspection,
+  MediaProblem,
+  collectMediaWarnings,
+  validatePostMedia,
+} from "../services/mediaInspection.js";
+import { MediaFix, autoFixImage } from "../services/imageConversion.js";
+import {
+  PostOptionProblems,
+  validateAltText,
+  validateLocationId,
+  validateUserTags,
+} from "../services/postOptions.js";
+import {
+  CaptionAnalysis,
+  CaptionProblem,
+  assertCaptionValid,
+} from "../services/captionLint.js";
+import { RetryEvent } from "../services/retryPolicy.js";
+import {
+  CarouselMediaItem,
+  InstagramPostCarouselInput,
+} from "../services/postInputs.js";
+import {
+  PostOperationOutput,
+  advancePostOperation,
+  beginPostOperation,
+  completePostOperation,
+  failPostOperation,
+  publishPostOperation,
+  releasePostOperation,
+  replayPostOperation,
+  reuseContainer,
+} from "../services/publishPipeline.js";
+import { PostOperation } from "../services/operationStore.js";
+import {
+  PostPreview,
+  PostPreviewRecorder,
+  describePreviewMedia,
+} from "../services/postPreview.js";
+import {
+  InstagramPublishingLimitOutput,
+  assertPublishingQuota,
+} from "./instagramPublishingLimit.js";
+import {
+  formatCaptionProblems,
+  formatMediaFixes,
+  formatMediaProblems,
+  formatPostOperation,
+  formatPostPreview,
+  formatPublishingLimit,
+  formatRetries,
+} from "./toolFormatting.js";
+import {
+  InstagramTool,
+  accountSchema,
+  altTextSchema,
+  autoFixSchemas,
+  dryRunSchemas,
+  idempotencyKeySchema,
+  locationIdSchema,
+  retryPolicySchema,
+  textResult,
+  userTagsSchema,
+} from "./toolSupport.js";
+
+function logInfo(context: string, data: any) {
+  console.error(`[INFO] InstagramPostCarousel - ${context}:`, data);
 }
 
-class InstagramApiError extends Error {
-  constructor(
-    message: string,
-    public type: InstagramErrorType,
-    public statusCode?: number,
-    public fbTraceId?: string,
-    public originalError?: unknown
-  ) {
-    super(message);
-    this.name = "InstagramApiError";
-  }
+// Define the interface for the tool output
+export interface InstagramPostCarouselOutput extends PostOperationOutput {
+  postId: string;
+  status: string;
+  retries: RetryEvent[];
+  // Quota as checked before posting, so this post is not yet counted
+  publishingLimit: InstagramPublishingLimitOutput;
+  // Non-blocking findings from media inspection
+  mediaWarnings: MediaProblem[];
+  // Non-blocking findings from the caption checks
+  captionWarnings: CaptionProblem[];
+  // What autoFix changed, if anything
+  mediaFixes: MediaFix[];
 }
 
-function handleInstagramError(
-  error: any,
-  response?: Response
-): InstagramApiError {
-  if (error instanceof InstagramApiError) return error;
-  if (error.error && typeof error.error === "object") {
-    const igError = error.error;
-    let errorType = InstagramErrorType.INVALID_REQUEST;
-    if (igError.code === 190) errorType = InstagramErrorType.EXPIRED_TOKEN;
-    else if (igError.code === 100 || igError.code === 200)
-      errorType = InstagramErrorType.INSUFFICIENT_SCOPE;
-    else if (igError.code === 4 || igError.code === 17)
-      errorType = InstagramErrorType.RATE_LIMIT;
-    return new InstagramApiError(
-      igError.message || "Instagram API error",
-      errorType,
-      igError.code,
-      igError.fbtrace_id,
-      error
-    );
-  }
-  if (response && !response.ok) {
-    return new InstagramApiError(
-      error.message || `HTTP error ${response.status}`,
-      InstagramErrorType.NETWORK_ERROR,
-      response.status,
-      undefined,
-      error
-    );
-  }
-  return new InstagramApiError(
-    error.message || "Unknown error",
-    InstagramErrorType.UNKNOWN_ERROR,
-    undefined,
-    undefined,
-    error
-  );
+// Checks each item's tags and alt text and returns them as child container
+// parameters, in item order
+function buildItemOptions(
+  mediaItems: CarouselMediaItem[],
+  problems: PostOptionProblems
+): Partial<MediaContainerParams>[] {
+  return mediaItems.map((item, index) => {
+    const field = `mediaItems[${index}]`;
+    const isImage = item.type !== "VIDEO";
+    if (!isImage && item.altText !== undefined) {
+      problems.add(`${field}.altText`, "alt text is only supported on images");
+    }
+    return {
+      user_tags: validateUserTags(
+        item.userTags,
+        `${field}.userTags`,
+        isImage,
+        problems
+      ),
+      alt_text: isImage
+        ? validateAltText(item.altText, `${field}.altText`, problems)
+        : undefined,
+    };
+  });
 }
 
-// Define the interface for individual media items in the carousel
-export interface CarouselMediaItem {
-  type: "IMAGE" | "VIDEO";
-  url: string;
+// Video children need media_type=VIDEO
+function carouselChildParams(
+  item: CarouselMediaItem,
+  url: string,
+  options: Partial<MediaContainerParams>
+): MediaContainerParams {
+  return {
+    ...(item.type === "VIDEO"
+      ? { media_type: "VIDEO", video_url: url }
+      : { image_url: url }),
+    is_carousel_item: true,
+    ...options,
+  };
 }
 
-// Define the interface for the tool input
-export interface InstagramPostCarouselInput {
-  mediaItems: CarouselMediaItem[];
-  caption?: string;
+// Video children are only usable once processed. onCreated gets the
+// container ID before that wait.
+async function createCarouselChild(
+  client: InstagramGraphClient,
+  item: CarouselMediaItem,
+  url: string,
+  options: Partial<MediaContainerParams>,
+  onCreated: (containerId: string) => void
+): Promise<string> {
+  const containerId = await client.createMediaContainer(
+    carouselChildParams(item, url, options)
+  );
+  onCreated(containerId);
+  if (item.type === "VIDEO") {
+    await client.waitForContainerReady(containerId);
+  }
+  return containerId;
 }
 
-// Define the interface for the tool output
-export interface InstagramPostCarouselOutput {
-  postId: string;
-  status: string;
+// Returns the children an earlier attempt of the operation created, in item
+// order. A child Instagram still has is reused; an expired, failed or
+// unknown one comes back as null and is created again.
+async function reusableChildIds(
+  client: InstagramGraphClient,
+  operation: PostOperation,
+  itemCount: number
+): Promise<(string | null)[]> {
+  const recorded = operation.childContainerIds;
+  if (!recorded || recorded.length !== itemCount) {
+    return new Array<string | null>(itemCount).fill(null);
+  }
+  return Promise.all(
+    recorded.map(async (childId) => {
+      if (!childId) return null;
+      try {
+        const { status_code } = await client.getContainerStatus(childId);
+        if (status_code !== "EXPIRED" && status_code !== "ERROR") {
+          return childId;
+        }
+        logInfo("Child Container Unusable", { childId, status: status_code });
+      } catch (error) {
+        logInfo("Child Container Unusable", {
+          childId,
+          error: handleInstagramError(error).message,
+        });
+      }
+      return null;
+    })
+  );
+}
+
+// Names every failing item so the caller knows which media to replace
+function carouselItemsError(
+  failures: { index: number; error: InstagramApiError }[]
+): InstagramApiError {
+  const [first] = failures;
+  return new InstagramApiError(
+    `Carousel items failed: ${failures
+      .map(({ index, error }) => `mediaItems[${index}]: ${error.message}`)
+      .join("; ")}`,
+    first.error.type,
+    first.error.statusCode,
+    first.error.fbTraceId,
+    failures.map(({ index, error }) => ({
+      index,
+      message: error.message,
+      type: error.type,
+    }))
+  );
 }
 
-interface MediaContainerResponse {
-  id: string;
+function carouselParams(
+  children: string[],
+  caption: string | undefined,
+  locationId: string | undefined
+): MediaContainerParams {
+  return {
+    media_type: "CAROUSEL",
+    children,
+    caption: caption || undefined,
+    location_id: locationId,
+  };
 }
-interface PublishResponse {
-  id: string;
+
+// Everything checked before any container is created, shared by posts and
+// dry runs
+interface PreparedCarousel {
+  captionAnalysis: CaptionAnalysis;
+  itemOptions: Partial<MediaContainerParams>[];
+  locationId?: string;
+  sources: MediaSource[];
+  inspections: MediaInspection[];
+  mediaFixes: MediaFix[];
+  publishingLimit: InstagramPublishingLimitOutput;
 }
 
-// Function to post a carousel to Instagram, adapted from instagram.service.ts
-export async function postCarouselToInstagram(
-  input: InstagramPostCarouselInput
-): Promise<InstagramPostCarouselOutput> {
-  const { mediaItems, caption } = input;
-  const userDataPath = path.resolve(process.cwd(), "../user.json");
-  const userDataRaw = fs.readFileSync(userDataPath, "utf-8");
-  const userData = JSON.parse(userDataRaw);
-  const { id: igUserId, accessToken: userAccessToken } = userData;
+const CAROUSEL_ITEM_TYPES = new Set(["IMAGE", "VIDEO"]);
 
-  if (!igUserId || !userAccessToken) {
+function assertCarouselItems(mediaItems: CarouselMediaItem[]): void {
+  if (!Array.isArray(mediaItems)) {
     throw new InstagramApiError(
-      "The user.json file must contain 'id' and 'accessToken' properties.",
+      "mediaItems must be a list of media items.",
       InstagramErrorType.INVALID_REQUEST
     );
   }
-
   if (mediaItems.length < 2 || mediaItems.length > 10) {
     throw new InstagramApiError(
       "Carousel must have between 2 and 10 media items.",
       InstagramErrorType.INVALID_REQUEST
     );
   }
+  // Anything else would be posted as an image
+  const index = mediaItems.findIndex(
+    (item) => !CAROUSEL_ITEM_TYPES.has(item.type)
+  );
+  if (index !== -1) {
+    throw new InstagramApiError(
+      `mediaItems[${index}].type must be "IMAGE" or "VIDEO", got ${JSON.stringify(
+        mediaItems[index].type
+      )}.`,
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+}
+
+async function prepareCarousel(
+  client: InstagramGraphClient,
+  input: InstagramPostCarouselInput
+): Promise<PreparedCarousel> {
+  const { mediaItems } = input;
+  const captionAnalysis = assertCaptionValid(input.caption);
+  const problems = new PostOptionProblems();
+  const itemOptions = buildItemOptions(mediaItems, problems);
+  const locationId = validateLocationId(
+    input.locationId,
+    "locationId",
+    problems
+  );
+  problems.throwIfAny();
+
+  // Every item is checked against Instagram's image/video specs up front,
+  // so one bad file does not leave half the child containers created
+  const sources = mediaItems.map((item) => resolveMediaSource(item.url));
+  let mediaFixes: MediaFix[] = [];
+  if (input.autoFix) {
+    const fixOptions = {
+      aspectPolicy: input.aspectPolicy,
+      padColor: input.padColor,
+    };
+    const fixes = await Promise.all(
+      mediaItems.map(async (item, index) => {
+        if (item.type !== "IMAGE") return undefined;
+        const fixed = await autoFixImage(
+          {
+            field: `mediaItems[${index}].url`,
+            source: sources[index],
+            target: "carouselImage",
+          },
+          fixOptions
+        );
+        sources[index] = fixed.source;
+        return fixed.fix;
+      })
+    );
+    mediaFixes = fixes.filter((fix): fix is MediaFix => !!fix);
+  }
+  const inspections = await validatePostMedia(
+    mediaItems.map((item, index) => ({
+      field: `mediaItems[${index}].url`,
+      source: sources[index],
+      target: item.type === "VIDEO" ? "carouselVideo" : "carouselImage",
+    }))
+  );
+
+  const publishingLimit = await assertPublishingQuota(client);
+  return {
+    captionAnalysis,
+    itemOptions,
+    locationId,
+    sources,
+    inspections,
+    mediaFixes,
+    publishingLimit,
+  };
+}
 
-  // Note: instagram.service.ts implies IMAGE and VIDEO types are handled for carousel items.
-  // It's crucial that videos also adhere to Instagram's specs (duration, aspect ratio, etc.)
-  // This tool, like the service, assumes valid media URLs are provided.
-  // Image validation (like in postImage) could be added here for each image item if necessary.
+// Function to post a carousel to Instagram, adapted from instagram.service.ts
+export async function postCarouselToInstagram(
+  input: InstagramPostCarouselInput
+): Promise<InstagramPostCarouselOutput> {
+  const { mediaItems, caption, account, retryPolicy } = input;
+  const resolved = createClientForAccount(account, retryPolicy);
+  const { client } = resolved;
+  assertCarouselItems(mediaItems);
+
+  let operation = beginPostOperation("carousel", resolved.account.id, input);
+  if (operation.status === "succeeded") {
+    return replayPostOperation<InstagramPostCarouselOutput>(operation);
+  }
 
+  const staging = new MediaStaging();
   try {
-    const itemContainerIds: string[] = [];
-
-    // Step 1: Create individual media containers for each item
-    for (const item of mediaItems) {
-      const itemContainerParams = new URLSearchParams({
-        [item.type === "IMAGE" ? "image_url" : "video_url"]: item.url,
-        is_carousel_item: "true", // Important for carousel children
-        access_token: userAccessToken,
-      });
-      // If item.type is VIDEO, the Instagram API might also require media_type=VIDEO
-      // The provided service.ts code snippet for carousel does not explicitly add it for children,
-      // but it's a common requirement. Assuming graph.instagram.com handles it based on *_url.
-      // If not, `itemContainerParams.append('media_type', 'VIDEO');` would be needed for videos.
-
-      const itemContainerUrl = `${GRAPH_API_BASE_URL}/${igUserId}/media`;
-      const itemResponse = await fetch(itemContainerUrl, {
-        method: "POST",
-        headers: { "Content-Type": "application/x-www-form-urlencoded" },
-        body: itemContainerParams.toString(),
+    const reused = await reuseContainer(client, operation);
+    operation = reused.operation;
+    let containerId = reused.containerId;
+
+    if (!containerId) {
+      const prepared = await prepareCarousel(client, input);
+      operation = advancePostOperation(operation, "validated", {
+        context: {
+          publishingLimit: prepared.publishingLimit,
+          mediaWarnings: collectMediaWarnings(prepared.inspections),
+          captionWarnings: prepared.captionAnalysis.problems,
+          mediaFixes: prepared.mediaFixes,
+        },
       });
-      const itemResponseData = await itemResponse.json();
 
-      if (!itemResponse.ok) {
-        throw handleInstagramError(itemResponseData, itemResponse);
+      // Step 1: Create the child containers in parallel; video children are
+      // polled until Instagram has finished processing them. Each ID is
+      // recorded against its item as soon as it exists, so a resumed
+      // attempt only creates the children that are missing or unusable.
+      const childIds = await reusableChildIds(
+        client,
+        operation,
+        mediaItems.length
+      );
+      const children = await Promise.allSettled(
+        mediaItems.map(async (item, index) => {
+          const reusedChildId = childIds[index];
+          if (reusedChildId) {
+            if (item.type === "VIDEO") {
+              await client.waitForContainerReady(reusedChildId);
+            }
+            return reusedChildId;
+          }
+          return createCarouselChild(
+            client,
+            item,
+            await staging.stage(prepared.sources[index]),
+            prepared.itemOptions[index],
+            (childId) => {
+              childIds[index] = childId;
+              operation = advancePostOperation(operation, "validated", {
+                childContainerIds: [...childIds],
+              });
+            }
+          );
+        })
+      );
+      const failures = children.flatMap((child, index) =>
+        child.status === "rejected"
+          ? [{ index, error: handleInstagramError(child.reason) }]
+          : []
+      );
+      if (failures.length > 0) {
+        throw carouselItemsError(failures);
       }
-      const { id: childContainerId } =
-        itemResponseData as MediaContainerResponse;
-      if (!childContainerId)
-        throw new InstagramApiError(
-          `Media container ID not found for item ${item.url}.`,
-          InstagramErrorType.UNKNOWN_ERROR
-        );
-      itemContainerIds.push(childContainerId);
+      const itemContainerIds = children.map(
+        (child) => (child as PromiseFulfilledResult<string>).value
+      );
 
-      // Polling for video children might be needed here if they are processed asynchronously
-      // The provided service code for carousel doesn't show polling for children,
-      // but it's a common pattern for videos. For simplicity here, we'll assume they are ready quickly
-      // or that the main carousel container creation waits for them.
+      // Step 2: Create parent carousel container
+      containerId = await client.createMediaContainer(
+        carouselParams(itemContainerIds, caption, prepared.locationId)
+      );
+      operation = advancePostOperation(operation, "containers_created", {
+        containerId,
+        childContainerIds: itemContainerIds,
+      });
     }
 
-    // Step 2: Create parent carousel container
-    const carouselContainerParams = new URLSearchParams({
-      media_type: "CAROUSEL",
-      children: itemContainerIds.join(","),
-      access_token: userAccessToken,
-    });
-    if (caption) {
-      carouselContainerParams.append("caption", caption);
-    }
+    await client.waitForContainerReady(containerId);
+    operation = advancePostOperation(operation, "ready");
+
+    // Step 3: Publish the carousel container
+    const mediaId = await publishPostOperation(client, operation, caption);
 
-    const carouselContainerUrl = `${GRAPH_API_BASE_URL}/${igUserId}/media`;
-    let response = await fetch(carouselContainerUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/x-www-form-urlencoded" },
-      body: carouselContainerParams.toString(),
+    const context = operation.context as Pick<
+      InstagramPostCarouselOutput,
+      "publishingLimit" | "mediaWarnings" | "captionWarnings" | "mediaFixes"
+    >;
+    return completePostOperation(operation, {
+      postId: mediaId,
+      status: "Carousel posted successfully",
+      retries: client.retryEvents,
+      publishingLimit: context.publishingLimit,
+      mediaWarnings: context.mediaWarnings,
+      captionWarnings: context.captionWarnings,
+      mediaFixes: context.mediaFixes,
     });
-    let responseData = await response.json();
+  } catch (error) {
+    const apiError = handleInstagramError(error);
+    apiError.retries = client.retryEvents;
+    failPostOperation(operation, apiError);
+    throw apiError;
+  } finally {
+    releasePostOperation(operation);
+    await staging.cleanup();
+  }
+}
 
-    if (!response.ok) {
-      throw handleInstagramError(responseData, response);
-    }
-    const { id: mainContainerId } = responseData as MediaContainerResponse;
-    if (!mainContainerId)
-      throw new InstagramApiError(
-        "Main carousel container ID not found.",
-        InstagramErrorType.UNKNOWN_ERROR
+// Runs every check a post would and lists the requests it would send,
+// without publishing anything. Children are previewed one after another;
+// the real post creates them in parallel.
+export async function previewCarouselPost(
+  input: InstagramPostCarouselInput
+): Promise<PostPreview> {
+  const { mediaItems } = input;
+  const resolved = createClientForAccount(input.account, input.retryPolicy);
+  const { client } = resolved;
+  assertCarouselItems(mediaItems);
+
+  const staging = new MediaStaging();
+  try {
+    const prepared = await prepareCarousel(client, input);
+    const recorder = new PostPreviewRecorder(
+      client,
+      staging,
+      !!input.createContainers
+    );
+    const children: string[] = [];
+    for (const [index, item] of mediaItems.entries()) {
+      const field = `mediaItems[${index}]`;
+      const url = await recorder.mediaUrl(
+        `${field}.url`,
+        prepared.sources[index]
+      );
+      children.push(
+        await recorder.createContainer(
+          field,
+          carouselChildParams(item, url, prepared.itemOptions[index]),
+          item.type === "VIDEO"
+        )
       );
+    }
+    const containerId = await recorder.createContainer(
+      "carousel",
+      carouselParams(children, input.caption, prepared.locationId),
+      true
+    );
+    recorder.publish(containerId);
 
-    // Step 3: Publish the carousel container
-    const publishParams = new URLSearchParams({
-      creation_id: mainContainerId,
-      access_token: userAccessToken,
+    return recorder.finish({
+      account: { id: resolved.account.id, username: resolved.account.username },
+      media: prepared.inspections.map((inspection, index) =>
+        describePreviewMedia(prepared.sources[index], inspection)
+      ),
+      caption: prepared.captionAnalysis,
+      publishingLimit: prepared.publishingLimit,
+      mediaWarnings: collectMediaWarnings(prepared.inspections),
+      mediaFixes: prepared.mediaFixes,
     });
+  } catch (error) {
+    const apiError = handleInstagramError(error);
+    apiError.retries = client.retryEvents;
+    throw apiError;
+  } finally {
+    await staging.cleanup();
+  }
+}
+
+export const postCarouselTool: InstagramTool = {
+  name: "instagram-post-carousel",
+  description: "Posts a carousel of images/videos to Instagram.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      mediaItems: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            type: {
+              type: "string",
+              enum: ["IMAGE", "VIDEO"],
+              description: "Type of media: IMAGE or VIDEO.",
+            },
+            url: {
+              type: "string",
+              description:
+                "The image or video: a public HTTPS URL, a local file path, or a base64 data: URI (images must be JPEG).",
+            },
+            userTags: userTagsSchema,
+            altText: altTextSchema,
+          },
+          required: ["type", "url"],
+        },
+        minItems: 2,
+        maxItems: 10,
+        description:
+          "Array of media items (2-10 items). IMPORTANT: For videos, ensure they meet Instagram's specifications.",
+      },
+      caption: {
+        type: "string",
+        description: "The caption for the carousel post.",
+      },
+      locationId: locationIdSchema,
+      ...autoFixSchemas,
+      ...dryRunSchemas,
+      idempotencyKey: idempotencyKeySchema,
+      account: accountSchema,
+      retryPolicy: retryPolicySchema,
+    },
+    required: ["mediaItems"],
+  },
+  async handle(args) {
+    const {
+      mediaItems,
+      caption,
+      locationId,
+      autoFix,
+      aspectPolicy,
+      padColor,
+      dryRun,
+      createContainers,
+      idempotencyKey,
+      account,
+      retryPolicy,
+    } = args;
 
-    const publishUrl = `${GRAPH_API_BASE_URL}/${igUserId}/media_publish`;
-    response = await fetch(publishUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/x-www-form-urlencoded" },
-      body: publishParams.toString(),
+    logInfo("Carousel Post Request", {
+      mediaCount: mediaItems?.length || 0,
+      captionLength: caption?.length || 0,
+      dryRun: !!dryRun,
     });
-    responseData = await response.json();
 
-    if (!response.ok) {
-      throw handleInstagramError(responseData, response);
+    const carouselInput = {
+      mediaItems,
+      caption,
+      locationId,
+      autoFix,
+      aspectPolicy,
+      padColor,
+      idempotencyKey,
+      account,
+      retryPolicy,
+    };
+    if (dryRun) {
+      const preview = await previewCarouselPost({
+        ...carouselInput,
+        createContainers,
+      });
+      return textResult(formatPostPreview(preview));
     }
-    const { id: mediaId } = responseData as PublishResponse;
-    if (!mediaId)
-      throw new InstagramApiError(
-        "Carousel post ID not found in publish response.",
-        InstagramErrorType.UNKNOWN_ERROR
-      );
 
-    return {
-      postId: mediaId,
-      status: "Carousel posted successfully",
-    };
-  } catch (error) {
-    throw handleInstagramError(error);
-  }
-}
+    const result = await postCarouselToInstagram(carouselInput);
+
+    logInfo("Carousel Post Success", { postId: result.postId });
+    return textResult(
+      `Carousel posted successfully! Post ID: ${result.postId}\n` +
+        formatPublishingLimit(result.publishingLimit) +
+        formatMediaFixes(result.mediaFixes) +
+        formatMediaProblems(result.mediaWarnings) +
+        formatCaptionProblems(result.captionWarnings) +
+        formatPostOperation(result) +
+        formatRetries(result.retries)
+    );
+  },
+};
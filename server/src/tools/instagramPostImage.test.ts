@@ -0,0 +1,78 @@
+import {
+  mockMediaChecks,
+  useAccountDataDir,
+  useGraphApiStub,
+} from "./__fixtures__/toolTestSetup.js";
+
+mockMediaChecks([{}]);
+
+const { postImageToInstagram } = await import("./instagramPostImage.js");
+
+describe("postImageToInstagram", () => {
+  let containerRequests: URLSearchParams[];
+
+  // An image container that is ready at once and publishes as image-post
+  useGraphApiStub(({ method, url, params }) => {
+    if (url.pathname.endsWith("/media_publish")) {
+      return { body: { id: "image-post" } };
+    }
+    if (method === "POST") {
+      containerRequests.push(params);
+      return { body: { id: "image-container" } };
+    }
+    return { body: { id: "image-container", status_code: "FINISHED" } };
+  });
+  useAccountDataDir("image-test-");
+
+  beforeEach(() => {
+    containerRequests = [];
+  });
+
+  const imageUrl = "https://example.com/photo.jpg";
+
+  it("sends the tags, location and alt text with the container", async () => {
+    const output = await postImageToInstagram({
+      imageUrl,
+      caption: "Sunset",
+      userTags: [{ username: " @friend.one ", x: 0.5, y: 0.25 }],
+      locationId: " 110843418940484 ",
+      altText: "The sun setting over the sea",
+    });
+
+    expect(output.postId).toBe("image-post");
+    expect(containerRequests).toHaveLength(1);
+    const params = Object.fromEntries(containerRequests[0]);
+    expect(params).toMatchObject({
+      image_url: imageUrl,
+      caption: "Sunset",
+      location_id: "110843418940484",
+      alt_text: "The sun setting over the sea",
+    });
+    expect(JSON.parse(params.user_tags)).toEqual([
+      { username: "friend.one", x: 0.5, y: 0.25 },
+    ]);
+  });
+
+  it("leaves out the options that were not given", async () => {
+    await postImageToInstagram({ imageUrl });
+    expect([...containerRequests[0].keys()].sort()).toEqual([
+      "access_token",
+      "image_url",
+    ]);
+  });
+
+  it("refuses invalid options before creating a container", async () => {
+    await expect(
+      postImageToInstagram({
+        imageUrl,
+        userTags: [{ username: "friend.one" }],
+        locationId: "Paris",
+      })
+    ).rejects.toMatchObject({
+      type: "INVALID_REQUEST",
+      message:
+        'Invalid post options: userTags[0].x: must be a number from 0 to 1; userTags[0].y: must be a number from 0 to 1; locationId: "Paris" is not a numeric location ID (see instagram-search-locations)',
+    });
+    expect(containerRequests).toHaveLength(0);
+  });
+});
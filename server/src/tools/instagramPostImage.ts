@@ -1,10 +1,76 @@
-import fetch, { Response } from "node-fetch"; // Assuming node-fetch for making HTTP requests in Node.js
-import * as fs from "fs";
-import * as path from "path";
-
-// Based on instagram.service.ts
-const GRAPH_API_VERSION = "v19.0";
-const GRAPH_API_BASE_URL = `https://graph.instagram.com/${GRAPH_API_VERSION}`;
+import {
+  InstagramGraphClient,
+  MediaContainerParams,
+  handleInstagramError,
+} from "../services/instagramGraphApi.js";
+import { createClientForAccount } from "../services/accountStore.js";
+import {
+  MediaSource,
+  MediaStaging,
+  resolveMediaSource,
+} from "../services/mediaHosting.js";
+import {
+  MediaInspection,
+  MediaProblem,
+  collectMediaWarnings,
+  validatePostMedia,
+} from "../services/mediaInspection.js";
+import { MediaFix, autoFixImage } from "../services/imageConversion.js";
+import {
+  PostOptionProblems,
+  validateAltText,
+  validateLocationId,
+  validateUserTags,
+} from "../services/postOptions.js";
+import {
+  CaptionAnalysis,
+  CaptionProblem,
+  assertCaptionValid,
+} from "../services/captionLint.js";
+import { RetryEvent } from "../services/retryPolicy.js";
+import { InstagramPostImageInput } from "../services/postInputs.js";
+import { PostOperation } from "../services/operationStore.js";
+import {
+  PostOperationOutput,
+  advancePostOperation,
+  beginPostOperation,
+  completePostOperation,
+  failPostOperation,
+  publishPostOperation,
+  releasePostOperation,
+  replayPostOperation,
+  reuseContainer,
+} from "../services/publishPipeline.js";
+import {
+  PostPreview,
+  PostPreviewRecorder,
+  describePreviewMedia,
+} from "../services/postPreview.js";
+import {
+  InstagramPublishingLimitOutput,
+  assertPublishingQuota,
+} from "./instagramPublishingLimit.js";
+import {
+  formatCaptionProblems,
+  formatMediaFixes,
+  formatMediaProblems,
+  formatPostOperation,
+  formatPostPreview,
+  formatPublishingLimit,
+  formatRetries,
+} from "./toolFormatting.js";
+import {
+  InstagramTool,
+  accountSchema,
+  altTextSchema,
+  autoFixSchemas,
+  dryRunSchemas,
+  idempotencyKeySchema,
+  locationIdSchema,
+  retryPolicySchema,
+  textResult,
+  userTagsSchema,
+} from "./toolSupport.js";
 
 // Enhanced logging utility
 function logError(context: string, error: any) {
@@ -26,149 +92,95 @@ function logDebug(context: string, data: any) {
   console.error(`[DEBUG] InstagramPostImage - ${context}:`, data);
 }
 
-// Error types and handler (simplified for direct use in tool, full version in service.ts)
-enum InstagramErrorType {
-  EXPIRED_TOKEN = "EXPIRED_TOKEN",
-  INVALID_TOKEN = "INVALID_TOKEN",
-  INSUFFICIENT_SCOPE = "INSUFFICIENT_SCOPE",
-  RATE_LIMIT = "RATE_LIMIT",
-  INVALID_REQUEST = "INVALID_REQUEST",
-  NETWORK_ERROR = "NETWORK_ERROR",
-  UNKNOWN_ERROR = "UNKNOWN_ERROR",
-}
-
-class InstagramApiError extends Error {
-  constructor(
-    message: string,
-    public type: InstagramErrorType,
-    public statusCode?: number,
-    public fbTraceId?: string,
-    public originalError?: unknown
-  ) {
-    super(message);
-    this.name = "InstagramApiError";
-  }
-}
-
-// Simplified error handler for use within this tool
-// In a real scenario, this might be imported from a shared service module
-function handleInstagramError(
-  error: any,
-  response?: Response
-): InstagramApiError {
-  if (error instanceof InstagramApiError) {
-    return error;
-  }
-  if (error.error && typeof error.error === "object") {
-    // Likely an Instagram API error structure
-    const igError = error.error;
-    let errorType = InstagramErrorType.INVALID_REQUEST;
-    if (igError.code === 190) errorType = InstagramErrorType.EXPIRED_TOKEN;
-    else if (igError.code === 100 || igError.code === 200)
-      errorType = InstagramErrorType.INSUFFICIENT_SCOPE;
-    else if (igError.code === 4 || igError.code === 17)
-      errorType = InstagramErrorType.RATE_LIMIT;
-    return new InstagramApiError(
-      igError.message || "Instagram API error",
-      errorType,
-      igError.code,
-      igError.fbtrace_id,
-      error
-    );
-  }
-  if (response && !response.ok) {
-    return new InstagramApiError(
-      error.message || `HTTP error ${response.status}`,
-      InstagramErrorType.NETWORK_ERROR,
-      response.status,
-      undefined,
-      error
-    );
-  }
-  return new InstagramApiError(
-    error.message || "Unknown error",
-    InstagramErrorType.UNKNOWN_ERROR,
-    undefined,
-    undefined,
-    error
-  );
-}
-
-// Define the interface for the tool input
-export interface InstagramPostImageInput {
-  imageUrl: string;
-  caption?: string;
-}
-
 // Define the interface for the tool output
-export interface InstagramPostImageOutput {
+export interface InstagramPostImageOutput extends PostOperationOutput {
   postId: string;
   status: string;
+  retries: RetryEvent[];
+  // Quota as checked before posting, so this post is not yet counted
+  publishingLimit: InstagramPublishingLimitOutput;
+  // Non-blocking findings from media inspection
+  mediaWarnings: MediaProblem[];
+  // Non-blocking findings from the caption checks
+  captionWarnings: CaptionProblem[];
+  // What autoFix changed, if anything
+  mediaFixes: MediaFix[];
 }
 
-// Re-implementing based on the provided instagram.service.ts structure
-
-async function validateImageUrlForTool(imageUrl: string): Promise<void> {
-  logDebug(
-    "Image Validation",
-    `Validating URL: ${imageUrl.substring(0, 100)}...`
-  );
+// Everything checked before the container is created, shared by posts and
+// dry runs
+interface PreparedImage {
+  captionAnalysis: CaptionAnalysis;
+  postOptions: Partial<MediaContainerParams>;
+  source: MediaSource;
+  inspections: MediaInspection[];
+  mediaFixes: MediaFix[];
+  publishingLimit: InstagramPublishingLimitOutput;
+}
 
-  if (!imageUrl.startsWith("https://")) {
-    logError("Image Validation", "Image URL must use HTTPS");
-    throw new InstagramApiError(
-      "Image URL must use HTTPS",
-      InstagramErrorType.INVALID_REQUEST
+async function prepareImage(
+  client: InstagramGraphClient,
+  input: InstagramPostImageInput
+): Promise<PreparedImage> {
+  const captionAnalysis = assertCaptionValid(input.caption);
+  const problems = new PostOptionProblems();
+  const postOptions = {
+    user_tags: validateUserTags(input.userTags, "userTags", true, problems),
+    location_id: validateLocationId(input.locationId, "locationId", problems),
+    alt_text: validateAltText(input.altText, "altText", problems),
+  };
+  problems.throwIfAny();
+
+  // Step 1: Inspect the image (format, size, dimensions, colour space)
+  // before any Graph API call; local files are then staged on the
+  // configured media host
+  logInfo("Step 1", "Starting image validation");
+  let source = resolveMediaSource(input.imageUrl);
+  const mediaFixes: MediaFix[] = [];
+  if (input.autoFix) {
+    const fixed = await autoFixImage(
+      { field: "imageUrl", source, target: "image" },
+      { aspectPolicy: input.aspectPolicy, padColor: input.padColor }
     );
+    source = fixed.source;
+    if (fixed.fix) mediaFixes.push(fixed.fix);
   }
-  try {
-    logDebug("Image Validation", "Checking image accessibility");
-    const response = await fetch(imageUrl, { method: "HEAD" });
-    logDebug("Image Validation", `Response status: ${response.status}`);
-
-    if (!response.ok) {
-      logError(
-        "Image Validation",
-        `Image URL not accessible: ${response.status}`
-      );
-      throw new InstagramApiError(
-        `Image URL not accessible: ${response.status}`,
-        InstagramErrorType.INVALID_REQUEST
-      );
-    }
-    const contentType = response.headers.get("content-type");
-    logDebug("Image Validation", `Content type: ${contentType}`);
-
-    if (
-      !contentType ||
-      (!contentType.includes("image/jpeg") &&
-        !contentType.includes("image/jpg"))
-    ) {
-      logError("Image Validation", `Invalid content type: ${contentType}`);
-      throw new InstagramApiError(
-        "Image must be in JPEG format",
-        InstagramErrorType.INVALID_REQUEST
-      );
-    }
-    logInfo("Image Validation", "Image validation successful");
-  } catch (error) {
-    if (error instanceof InstagramApiError) throw error;
-    logError("Image Validation", error);
-    throw handleInstagramError(error, undefined);
-  }
+  const inspections = await validatePostMedia([
+    { field: "imageUrl", source, target: "image" },
+  ]);
+  logInfo("Image Validation", "Image validation successful");
+
+  logInfo("Step 1", "Checking publishing quota");
+  const publishingLimit = await assertPublishingQuota(client);
+  return {
+    captionAnalysis,
+    postOptions,
+    source,
+    inspections,
+    mediaFixes,
+    publishingLimit,
+  };
 }
 
-interface MediaContainerResponse {
-  id: string;
-}
-interface PublishResponse {
-  id: string;
+function imageContainerParams(
+  imageUrl: string,
+  caption: string | undefined,
+  prepared: PreparedImage
+): MediaContainerParams {
+  return {
+    image_url: imageUrl,
+    caption: caption || undefined,
+    ...prepared.postOptions,
+  };
 }
 
 export async function postImageToInstagram(
   input: InstagramPostImageInput
 ): Promise<InstagramPostImageOutput> {
-  const { imageUrl, caption } = input;
+  const { imageUrl, caption, account, retryPolicy } = input;
+  let client: InstagramGraphClient | undefined;
+  let operation: PostOperation | undefined;
+  const staging = new MediaStaging();
 
   logInfo("Post Start", {
     imageUrl: imageUrl.substring(0, 100) + "...",
@@ -176,126 +188,208 @@ export async function postImageToInstagram(
   });
 
   try {
-    logDebug("User Data", "Loading user.json file");
-    const userDataPath = path.resolve(process.cwd(), "../user.json");
-    const userDataRaw = fs.readFileSync(userDataPath, "utf-8");
-    const userData = JSON.parse(userDataRaw);
-    const { id: igUserId, accessToken: userAccessToken } = userData;
-
-    logDebug("User Data", {
-      hasUserId: !!igUserId,
-      hasAccessToken: !!userAccessToken,
-      userIdLength: igUserId?.length || 0,
-      tokenLength: userAccessToken?.length || 0,
+    const resolved = createClientForAccount(account, retryPolicy);
+    client = resolved.client;
+    logDebug("Account", {
+      id: resolved.account.id,
+      username: resolved.account.username,
     });
 
-    if (!igUserId || !userAccessToken) {
-      logError("User Data", "Missing user ID or access token");
-      throw new InstagramApiError(
-        "The user.json file must contain 'id' and 'accessToken' properties.",
-        InstagramErrorType.INVALID_REQUEST
-      );
+    operation = beginPostOperation("image", resolved.account.id, input);
+    if (operation.status === "succeeded") {
+      logInfo("Post Replay", `Already posted with ID: ${operation.postId}`);
+      return replayPostOperation<InstagramPostImageOutput>(operation);
     }
+    const reused = await reuseContainer(client, operation);
+    operation = reused.operation;
+    let containerId = reused.containerId;
 
-    // Step 1: Validate image URL (from instagram.service.ts)
-    logInfo("Step 1", "Starting image validation");
-    await validateImageUrlForTool(imageUrl);
-
-    // Step 2: Create media container
-    logInfo("Step 2", "Creating media container");
-    const containerParams = new URLSearchParams({
-      image_url: imageUrl,
-      access_token: userAccessToken,
-    });
-    if (caption) {
-      containerParams.append("caption", caption);
-      logDebug("Step 2", `Added caption: ${caption.substring(0, 50)}...`);
-    }
-
-    const containerUrl = `${GRAPH_API_BASE_URL}/${igUserId}/media`;
-    logDebug("Step 2", `Container URL: ${containerUrl}`);
-    logDebug(
-      "Step 2",
-      `Container params: ${containerParams.toString().substring(0, 200)}...`
-    );
-
-    let response = await fetch(containerUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/x-www-form-urlencoded" },
-      body: containerParams.toString(),
-    });
-
-    logDebug(
-      "Step 2",
-      `Container response status: ${response.status} ${response.statusText}`
-    );
-    let responseData = await response.json();
-    logDebug(
-      "Step 2",
-      `Container response data: ${JSON.stringify(responseData)}`
-    );
-
-    if (!response.ok) {
-      logError("Step 2", "Failed to create media container");
-      throw handleInstagramError(responseData, response);
-    }
-    const { id: containerId } = responseData as MediaContainerResponse;
     if (!containerId) {
-      logError("Step 2", "Container ID not found in response");
-      throw new InstagramApiError(
-        "Media container ID not found in response.",
-        InstagramErrorType.UNKNOWN_ERROR
+      const prepared = await prepareImage(client, input);
+      operation = advancePostOperation(operation, "validated", {
+        context: {
+          publishingLimit: prepared.publishingLimit,
+          mediaWarnings: collectMediaWarnings(prepared.inspections),
+          captionWarnings: prepared.captionAnalysis.problems,
+          mediaFixes: prepared.mediaFixes,
+        },
+      });
+      const publicImageUrl = await staging.stage(prepared.source);
+
+      // Step 2: Create media container
+      logInfo("Step 2", "Creating media container");
+      if (caption) {
+        logDebug("Step 2", `Added caption: ${caption.substring(0, 50)}...`);
+      }
+      containerId = await client.createMediaContainer(
+        imageContainerParams(publicImageUrl, caption, prepared)
       );
+      operation = advancePostOperation(operation, "containers_created", {
+        containerId,
+      });
+      logInfo("Step 2", `Media container created successfully: ${containerId}`);
+    } else {
+      logInfo("Resume", `Reusing media container ${containerId}`);
     }
-    logInfo("Step 2", `Media container created successfully: ${containerId}`);
+
+    await client.waitForContainerReady(containerId);
+    operation = advancePostOperation(operation, "ready");
 
     // Step 3: Publish container
     logInfo("Step 3", "Publishing media container");
-    const publishParams = new URLSearchParams({
-      creation_id: containerId,
-      access_token: userAccessToken,
-    });
-
-    const publishUrl = `${GRAPH_API_BASE_URL}/${igUserId}/media_publish`;
-    logDebug("Step 3", `Publish URL: ${publishUrl}`);
-    logDebug("Step 3", `Publish params: ${publishParams.toString()}`);
-
-    response = await fetch(publishUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/x-www-form-urlencoded" },
-      body: publishParams.toString(),
-    });
-
-    logDebug(
-      "Step 3",
-      `Publish response status: ${response.status} ${response.statusText}`
-    );
-    responseData = await response.json();
-    logDebug(
-      "Step 3",
-      `Publish response data: ${JSON.stringify(responseData)}`
-    );
-
-    if (!response.ok) {
-      logError("Step 3", "Failed to publish media");
-      throw handleInstagramError(responseData, response);
-    }
-    const { id: mediaId } = responseData as PublishResponse;
-    if (!mediaId) {
-      logError("Step 3", "Media ID not found in response");
-      throw new InstagramApiError(
-        "Post ID not found in publish response.",
-        InstagramErrorType.UNKNOWN_ERROR
-      );
-    }
+    const mediaId = await publishPostOperation(client, operation, caption);
 
     logInfo("Post Success", `Image posted successfully with ID: ${mediaId}`);
-    return {
+    const context = operation.context as Pick<
+      InstagramPostImageOutput,
+      "publishingLimit" | "mediaWarnings" | "captionWarnings" | "mediaFixes"
+    >;
+    return completePostOperation(operation, {
       postId: mediaId,
       status: "Image posted successfully",
-    };
+      retries: client.retryEvents,
+      publishingLimit: context.publishingLimit,
+      mediaWarnings: context.mediaWarnings,
+      captionWarnings: context.captionWarnings,
+      mediaFixes: context.mediaFixes,
+    });
   } catch (error) {
     logError("Post Failed", error);
-    throw handleInstagramError(error, undefined);
+    const apiError = handleInstagramError(error, undefined);
+    apiError.retries = client?.retryEvents;
+    if (operation) failPostOperation(operation, apiError);
+    throw apiError;
+  } finally {
+    if (operation) releasePostOperation(operation);
+    await staging.cleanup();
+  }
+}
+
+// Runs every check a post would and lists the requests it would send,
+// without publishing anything
+export async function previewImagePost(
+  input: InstagramPostImageInput
+): Promise<PostPreview> {
+  const resolved = createClientForAccount(input.account, input.retryPolicy);
+  const { client } = resolved;
+  const staging = new MediaStaging();
+  logInfo("Preview Start", { createContainers: !!input.createContainers });
+
+  try {
+    const prepared = await prepareImage(client, input);
+    const recorder = new PostPreviewRecorder(
+      client,
+      staging,
+      !!input.createContainers
+    );
+    const imageUrl = await recorder.mediaUrl("imageUrl", prepared.source);
+    const containerId = await recorder.createContainer(
+      "image",
+      imageContainerParams(imageUrl, input.caption, prepared),
+      true
+    );
+    recorder.publish(containerId);
+
+    return recorder.finish({
+      account: { id: resolved.account.id, username: resolved.account.username },
+      media: [describePreviewMedia(prepared.source, prepared.inspections[0])],
+      caption: prepared.captionAnalysis,
+      publishingLimit: prepared.publishingLimit,
+      mediaWarnings: collectMediaWarnings(prepared.inspections),
+      mediaFixes: prepared.mediaFixes,
+    });
+  } catch (error) {
+    logError("Preview Failed", error);
+    const apiError = handleInstagramError(error, undefined);
+    apiError.retries = client.retryEvents;
+    throw apiError;
+  } finally {
+    await staging.cleanup();
   }
 }
+
+export const postImageTool: InstagramTool = {
+  name: "instagram-post-image",
+  description: "Posts an image to Instagram.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      imageUrl: {
+        type: "string",
+        description:
+          "The image to post (must be JPEG unless autoFix is set): a public HTTPS URL, a local file path, or a base64 data: URI. Local files need a media host (MEDIA_PUBLIC_BASE_URL or MEDIA_S3_BUCKET).",
+      },
+      caption: {
+        type: "string",
+        description: "The caption for the image post.",
+      },
+      userTags: userTagsSchema,
+      locationId: locationIdSchema,
+      altText: altTextSchema,
+      ...autoFixSchemas,
+      ...dryRunSchemas,
+      idempotencyKey: idempotencyKeySchema,
+      account: accountSchema,
+      retryPolicy: retryPolicySchema,
+    },
+    required: ["imageUrl"],
+  },
+  async handle(args) {
+    logDebug("Tool Call", "Starting image post process");
+    const {
+      imageUrl,
+      caption,
+      userTags,
+      locationId,
+      altText,
+      autoFix,
+      aspectPolicy,
+      padColor,
+      dryRun,
+      createContainers,
+      idempotencyKey,
+      account,
+      retryPolicy,
+    } = args;
+
+    logInfo("Image Post Request", {
+      imageUrl: imageUrl?.substring(0, 100) + "...",
+      captionLength: caption?.length || 0,
+      dryRun: !!dryRun,
+    });
+
+    const imageInput = {
+      imageUrl,
+      caption,
+      userTags,
+      locationId,
+      altText,
+      autoFix,
+      aspectPolicy,
+      padColor,
+      idempotencyKey,
+      account,
+      retryPolicy,
+    };
+    if (dryRun) {
+      const preview = await previewImagePost({
+        ...imageInput,
+        createContainers,
+      });
+      return textResult(formatPostPreview(preview));
+    }
+
+    const result = await postImageToInstagram(imageInput);
+
+    logInfo("Image Post Success", { postId: result.postId });
+    return textResult(
+      `Image posted successfully! Post ID: ${result.postId}\n` +
+        formatPublishingLimit(result.publishingLimit) +
+        formatMediaFixes(result.mediaFixes) +
+        formatMediaProblems(result.mediaWarnings) +
+        formatCaptionProblems(result.captionWarnings) +
+        formatPostOperation(result) +
+        formatRetries(result.retries)
+    );
+  },
+};
@@ -0,0 +1,76 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  mockMediaChecks,
+  useAccountDataDir,
+  useGraphApiStub,
+} from "./__fixtures__/toolTestSetup.js";
+
+mockMediaChecks([{}]);
+
+const { postReelToInstagram } = await import("./instagramPostReel.js");
+const { listOperations } = await import("../services/operationStore.js");
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("postReelToInstagram", () => {
+  let containerStatus: string;
+  let statusChecks: number;
+
+  // One Reel container, whose status the test moves along
+  useGraphApiStub(({ method }) => {
+    if (method === "GET") statusChecks++;
+    return {
+      body:
+        method === "POST"
+          ? { id: "reel-container" }
+          : { id: "reel-container", status_code: containerStatus },
+    };
+  });
+  const dataDir = useAccountDataDir("reel-test-", {
+    MEDIA_PUBLIC_BASE_URL: "https://media.example.com",
+  });
+
+  beforeEach(() => {
+    containerStatus = "IN_PROGRESS";
+    statusChecks = 0;
+  });
+
+  const stagedFiles = () =>
+    fs.existsSync(path.join(dataDir(), "staged-media"))
+      ? fs.readdirSync(path.join(dataDir(), "staged-media"))
+      : [];
+
+  const videoUrl = `data:video/mp4;base64,${Buffer.from("video").toString("base64")}`;
+
+  it("refuses wait options that aren't positive numbers", async () => {
+    await expect(
+      postReelToInstagram({ videoUrl, maxWaitTimeMs: -1, pollIntervalMs: 0 })
+    ).rejects.toMatchObject({
+      type: "INVALID_REQUEST",
+      message:
+        "Invalid post options: maxWaitTimeMs: must be a positive number of milliseconds; pollIntervalMs: must be a positive number of milliseconds",
+    });
+    expect(statusChecks).toBe(0);
+  });
+
+  it("keeps the staged video after a timed out wait until the container is processed", async () => {
+    // A 1ms poll interval is raised to the 1s minimum, so the 50ms wait
+    // checks the container once
+    await expect(
+      postReelToInstagram({ videoUrl, maxWaitTimeMs: 50, pollIntervalMs: 1 })
+    ).rejects.toMatchObject({ message: "Media container processing timed out." });
+    expect(statusChecks).toBeLessThanOrEqual(2);
+
+    expect(listOperations()[0]).toMatchObject({
+      status: "failed",
+      stage: "containers_created",
+      containerId: "reel-container",
+    });
+    expect(stagedFiles()).toHaveLength(1);
+
+    containerStatus = "FINISHED";
+    await sleep(1500);
+    expect(stagedFiles()).toHaveLength(0);
+  });
+});
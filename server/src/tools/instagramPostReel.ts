@@ -1,238 +1,649 @@
-import fetch, { Response } from "node-fetch";
-import * as fs from "fs";
-import * as path from "path";
-
-// Based on instagram.service.ts
-const GRAPH_API_VERSION = "v19.0";
-const GRAPH_API_BASE_URL = `https://graph.instagram.com/${GRAPH_API_VERSION}`;
-
-// Error types and handler (simplified for direct use in tool)
-enum InstagramErrorType {
-  EXPIRED_TOKEN = "EXPIRED_TOKEN",
-  INVALID_TOKEN = "INVALID_TOKEN",
-  INSUFFICIENT_SCOPE = "INSUFFICIENT_SCOPE",
-  RATE_LIMIT = "RATE_LIMIT",
-  INVALID_REQUEST = "INVALID_REQUEST",
-  NETWORK_ERROR = "NETWORK_ERROR",
-  UNKNOWN_ERROR = "UNKNOWN_ERROR",
+import {
+  InstagramApiError,
+  InstagramErrorType,
+  InstagramGraphClient,
+  MediaContainerParams,
+  TrialGraduationStrategy,
+  handleInstagramError,
+} from "../services/instagramGraphApi.js";
+import { createClientForAccount } from "../services/accountStore.js";
+import {
+  MediaSource,
+  MediaStaging,
+  resolveMediaSource,
+} from "../services/mediaHosting.js";
+import {
+  MediaInspection,
+  MediaProblem,
+  MediaToInspect,
+  collectMediaWarnings,
+  validatePostMedia,
+} from "../services/mediaInspection.js";
+import {
+  PostOptionProblems,
+  validateCollaborators,
+  validateLocationId,
+  validateUserTags,
+} from "../services/postOptions.js";
+import {
+  CaptionAnalysis,
+  CaptionProblem,
+  assertCaptionValid,
+} from "../services/captionLint.js";
+import { RetryEvent } from "../services/retryPolicy.js";
+import { InstagramPostReelInput } from "../services/postInputs.js";
+import {
+  PostOperationOutput,
+  MAX_WAIT_TIME_MS,
+  PostProgressReporter,
+  advancePostOperation,
+  beginPostOperation,
+  completePostOperation,
+  failPostOperation,
+  publishPostOperation,
+  releasePostOperation,
+  releaseStagedMedia,
+  replayPostOperation,
+  resolveWaitOptions,
+  reuseContainer,
+  validateWaitOptions,
+  waitForPostContainer,
+} from "../services/publishPipeline.js";
+import { PostOperation } from "../services/operationStore.js";
+import {
+  PostPreview,
+  PostPreviewRecorder,
+  describePreviewMedia,
+} from "../services/postPreview.js";
+import {
+  InstagramPublishingLimitOutput,
+  assertPublishingQuota,
+} from "./instagramPublishingLimit.js";
+import {
+  formatCaptionProblems,
+  formatMediaProblems,
+  formatPostOperation,
+  formatPostPreview,
+  formatPublishingLimit,
+  formatRetries,
+} from "./toolFormatting.js";
+import {
+  InstagramTool,
+  accountSchema,
+  createProgressReporter,
+  dryRunSchemas,
+  idempotencyKeySchema,
+  locationIdSchema,
+  retryPolicySchema,
+  textResult,
+} from "./toolSupport.js";
+
+function logInfo(context: string, data: any) {
+  console.error(`[INFO] InstagramPostReel - ${context}:`, data);
 }
 
-class InstagramApiError extends Error {
-  constructor(
-    message: string,
-    public type: InstagramErrorType,
-    public statusCode?: number,
-    public fbTraceId?: string,
-    public originalError?: unknown
-  ) {
-    super(message);
-    this.name = "InstagramApiError";
-  }
+function logError(context: string, error: any) {
+  console.error(`[ERROR] InstagramPostReel - ${context}:`, {
+    message: error.message,
+    type: error.type || "Unknown",
+    statusCode: error.statusCode,
+    fbTraceId: error.fbTraceId,
+  });
 }
 
-function handleInstagramError(
-  error: any,
-  response?: Response
-): InstagramApiError {
-  if (error instanceof InstagramApiError) return error;
-  if (error.error && typeof error.error === "object") {
-    const igError = error.error;
-    let errorType = InstagramErrorType.INVALID_REQUEST;
-    if (igError.code === 190) errorType = InstagramErrorType.EXPIRED_TOKEN;
-    else if (igError.code === 100 || igError.code === 200)
-      errorType = InstagramErrorType.INSUFFICIENT_SCOPE;
-    else if (igError.code === 4 || igError.code === 17)
-      errorType = InstagramErrorType.RATE_LIMIT;
-    return new InstagramApiError(
-      igError.message || "Instagram API error",
-      errorType,
-      igError.code,
-      igError.fbtrace_id,
-      error
-    );
+// Define the interface for the tool output
+export interface InstagramPostReelOutput extends PostOperationOutput {
+  postId: string;
+  status: string;
+  retries: RetryEvent[];
+  // Quota as checked before posting, so this post is not yet counted
+  publishingLimit: InstagramPublishingLimitOutput;
+  // Non-blocking findings from media inspection
+  mediaWarnings: MediaProblem[];
+  // Non-blocking findings from the caption checks
+  captionWarnings: CaptionProblem[];
+}
+
+// Returned by startReelPost before the Reel is published
+export interface InstagramReelStartOutput extends PostOperationOutput {
+  status: string;
+  containerId?: string;
+  // Only set when the key had already been published
+  postId?: string;
+}
+
+const DEFAULT_MAX_WAIT_MS = 60 * 1000;
+const DEFAULT_ASYNC_MAX_WAIT_MS = MAX_WAIT_TIME_MS;
+
+type ReelContext = Pick<
+  InstagramPostReelOutput,
+  "publishingLimit" | "mediaWarnings" | "captionWarnings"
+>;
+
+const TRIAL_GRADUATION_STRATEGIES: TrialGraduationStrategy[] = [
+  "MANUAL",
+  "SS_PERFORMANCE",
+];
+
+// Checks the optional Reel fields and returns them as container parameters.
+// The thumbnail offset is checked against the duration after inspection.
+function buildReelOptions(
+  input: InstagramPostReelInput
+): Partial<MediaContainerParams> {
+  const { thumbOffset, audioName, userTags, trialGraduation } = input;
+  const problems = new PostOptionProblems();
+
+  if (thumbOffset !== undefined) {
+    if (!Number.isInteger(thumbOffset) || thumbOffset < 0) {
+      problems.add(
+        "thumbOffset",
+        "must be a whole number of milliseconds, 0 or more"
+      );
+    }
+    if (input.coverUrl) {
+      problems.add("thumbOffset", "cannot be combined with coverUrl");
+    }
+  }
+  if (audioName !== undefined && !String(audioName).trim()) {
+    problems.add("audioName", "must not be empty");
+  }
+  if (userTags !== undefined && !Array.isArray(userTags)) {
+    problems.add("userTags", "must be a list of usernames");
   }
-  if (response && !response.ok) {
-    return new InstagramApiError(
-      error.message || `HTTP error ${response.status}`,
-      InstagramErrorType.NETWORK_ERROR,
-      response.status,
-      undefined,
-      error
+  if (trialGraduation && !TRIAL_GRADUATION_STRATEGIES.includes(trialGraduation)) {
+    problems.add(
+      "trialGraduation",
+      `must be one of ${TRIAL_GRADUATION_STRATEGIES.join(", ")}`
     );
   }
-  return new InstagramApiError(
-    error.message || "Unknown error",
-    InstagramErrorType.UNKNOWN_ERROR,
-    undefined,
-    undefined,
-    error
-  );
-}
+  validateWaitOptions(input, problems);
 
-// Define the interface for the tool input
-export interface InstagramPostReelInput {
-  videoUrl: string;
-  coverUrl?: string;
-  caption?: string;
-  shareToFeed?: boolean;
+  const options: Partial<MediaContainerParams> = {
+    thumb_offset: thumbOffset,
+    audio_name: audioName?.trim() || undefined,
+    collaborators: validateCollaborators(
+      input.collaborators,
+      "collaborators",
+      problems
+    ),
+    location_id: validateLocationId(input.locationId, "locationId", problems),
+    user_tags: Array.isArray(userTags)
+      ? validateUserTags(
+          userTags.map((username) => ({ username })),
+          "userTags",
+          false,
+          problems
+        )
+      : undefined,
+    trial_params: trialGraduation
+      ? { graduation_strategy: trialGraduation }
+      : undefined,
+  };
+  problems.throwIfAny();
+  return options;
 }
 
-// Define the interface for the tool output
-export interface InstagramPostReelOutput {
-  postId: string;
-  status: string;
+// Everything checked before the container is created, shared by posts and
+// dry runs
+interface PreparedReel {
+  captionAnalysis: CaptionAnalysis;
+  reelOptions: Partial<MediaContainerParams>;
+  videoSource: MediaSource;
+  coverSource?: MediaSource;
+  inspections: MediaInspection[];
+  publishingLimit: InstagramPublishingLimitOutput;
 }
 
-interface MediaContainerResponse {
-  id: string;
-}
-interface PublishResponse {
-  id: string;
+async function prepareReel(
+  client: InstagramGraphClient,
+  input: InstagramPostReelInput
+): Promise<PreparedReel> {
+  const captionAnalysis = assertCaptionValid(input.caption);
+  const reelOptions = buildReelOptions(input);
+  const videoSource = resolveMediaSource(input.videoUrl);
+  const coverSource = input.coverUrl
+    ? resolveMediaSource(input.coverUrl)
+    : undefined;
+  const media: MediaToInspect[] = [
+    { field: "videoUrl", source: videoSource, target: "reel" },
+  ];
+  if (coverSource) {
+    media.push({ field: "coverUrl", source: coverSource, target: "reelCover" });
+  }
+  const inspections = await validatePostMedia(media);
+  const durationSeconds = inspections[0].video?.durationSeconds;
+  if (
+    input.thumbOffset !== undefined &&
+    durationSeconds !== undefined &&
+    input.thumbOffset > durationSeconds * 1000
+  ) {
+    throw new InstagramApiError(
+      `Invalid post options: thumbOffset: ${input.thumbOffset}ms is past the end of the ${durationSeconds}s video`,
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+
+  const publishingLimit = await assertPublishingQuota(client);
+  return {
+    captionAnalysis,
+    reelOptions,
+    videoSource,
+    coverSource,
+    inspections,
+    publishingLimit,
+  };
 }
-interface MediaContainerStatusResponse {
-  status_code: string;
-  id: string;
+
+function reelContainerParams(
+  videoUrl: string,
+  coverUrl: string | undefined,
+  input: InstagramPostReelInput,
+  prepared: PreparedReel
+): MediaContainerParams {
+  const { caption, shareToFeed } = input;
+  return {
+    media_type: "REELS",
+    video_url: videoUrl,
+    caption: caption || undefined,
+    cover_url: coverUrl,
+    share_to_feed: typeof shareToFeed === "boolean" ? shareToFeed : undefined,
+    ...prepared.reelOptions,
+  };
 }
 
-async function checkContainerStatus(
-  accessToken: string,
-  containerId: string
-): Promise<MediaContainerStatusResponse> {
-  const url = `${GRAPH_API_BASE_URL}/${containerId}?fields=status_code&access_token=${accessToken}`;
-  const response = await fetch(url);
-  const responseData = await response.json();
-  if (!response.ok) {
-    throw handleInstagramError(responseData, response);
+// Validates and stages the media and creates the Reel container, unless an
+// earlier attempt with the same key left one Instagram still has
+async function createReelContainer(
+  client: InstagramGraphClient,
+  operation: PostOperation,
+  input: InstagramPostReelInput,
+  staging: MediaStaging
+): Promise<{ operation: PostOperation; containerId: string }> {
+  const reused = await reuseContainer(client, operation);
+  operation = reused.operation;
+  if (reused.containerId) {
+    return { operation, containerId: reused.containerId };
   }
-  return responseData as MediaContainerStatusResponse;
+
+  const prepared = await prepareReel(client, input);
+  operation = advancePostOperation(operation, "validated", {
+    context: {
+      publishingLimit: prepared.publishingLimit,
+      mediaWarnings: collectMediaWarnings(prepared.inspections),
+      captionWarnings: prepared.captionAnalysis.problems,
+    },
+  });
+  const publicVideoUrl = await staging.stage(prepared.videoSource);
+  const publicCoverUrl = prepared.coverSource
+    ? await staging.stage(prepared.coverSource)
+    : undefined;
+
+  // Step 1: Create media container for the Reel video
+  const containerId = await client.createMediaContainer(
+    reelContainerParams(publicVideoUrl, publicCoverUrl, input, prepared)
+  );
+  operation = advancePostOperation(operation, "containers_created", {
+    containerId,
+  });
+  return { operation, containerId };
 }
 
-async function waitForContainerReady(
-  accessToken: string,
+// Waits for Instagram to process the video, then publishes it
+async function finishReel(
+  client: InstagramGraphClient,
+  operation: PostOperation,
   containerId: string,
-  maxWaitTimeMs: number = 60000, // 60 seconds
-  pollIntervalMs: number = 3000 // 3 seconds
-): Promise<boolean> {
-  const startTime = Date.now();
-  while (Date.now() - startTime < maxWaitTimeMs) {
-    try {
-      const statusResult = await checkContainerStatus(accessToken, containerId);
-      if (statusResult.status_code === "FINISHED") return true;
-      if (
-        statusResult.status_code === "ERROR" ||
-        statusResult.status_code === "EXPIRED"
-      ) {
-        throw new InstagramApiError(
-          `Reel container processing failed or expired. Status: ${statusResult.status_code}`,
-          InstagramErrorType.INVALID_REQUEST
-        );
-      }
-      // status_code === "IN_PROGRESS" or others, continue polling
-    } catch (error) {
-      // If checkContainerStatus itself throws (e.g. network), or if it's a definitive container error.
-      if (
-        error instanceof InstagramApiError &&
-        error.type !== InstagramErrorType.NETWORK_ERROR
-      ) {
-        // Don't stop polling for transient network errors
-        throw error;
-      }
-      console.error("Polling error, will retry:", error); // Log transient errors
-    }
-    await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
-  }
-  throw new InstagramApiError(
-    "Reel container processing timed out.",
-    InstagramErrorType.UNKNOWN_ERROR
+  input: InstagramPostReelInput,
+  defaultMaxWaitTimeMs: number,
+  onProgress?: PostProgressReporter
+): Promise<InstagramPostReelOutput> {
+  // Step 2: Wait for video processing to complete
+  operation = await waitForPostContainer(
+    client,
+    operation,
+    containerId,
+    resolveWaitOptions(input, defaultMaxWaitTimeMs),
+    onProgress
   );
+
+  // Step 3: Publish the container
+  const mediaId = await publishPostOperation(client, operation, input.caption);
+  onProgress?.({
+    operationId: operation.id,
+    stage: "published",
+    message: `Reel published as media ${mediaId}`,
+  });
+
+  const context = operation.context as ReelContext;
+  return completePostOperation(operation, {
+    postId: mediaId,
+    status: "Reel posted successfully",
+    retries: client.retryEvents,
+    publishingLimit: context.publishingLimit,
+    mediaWarnings: context.mediaWarnings,
+    captionWarnings: context.captionWarnings,
+  });
+}
+
+function failReel(
+  client: InstagramGraphClient,
+  operation: PostOperation,
+  error: unknown
+): InstagramApiError {
+  const apiError = handleInstagramError(error);
+  apiError.retries = client.retryEvents;
+  failPostOperation(operation, apiError);
+  return apiError;
 }
 
 export async function postReelToInstagram(
-  input: InstagramPostReelInput
+  input: InstagramPostReelInput,
+  onProgress?: PostProgressReporter
 ): Promise<InstagramPostReelOutput> {
-  const { videoUrl, coverUrl, caption, shareToFeed } = input;
-  const userDataPath = path.resolve(process.cwd(), "../user.json");
-  const userDataRaw = fs.readFileSync(userDataPath, "utf-8");
-  const userData = JSON.parse(userDataRaw);
-  const { id: igUserId, accessToken: userAccessToken } = userData;
+  const resolved = createClientForAccount(input.account, input.retryPolicy);
+  const { client } = resolved;
+  const operation = beginPostOperation("reel", resolved.account.id, input);
+  if (operation.status === "succeeded") {
+    return replayPostOperation<InstagramPostReelOutput>(operation);
+  }
 
-  if (!igUserId || !userAccessToken) {
-    throw new InstagramApiError(
-      "The user.json file must contain 'id' and 'accessToken' properties.",
-      InstagramErrorType.INVALID_REQUEST
+  const staging = new MediaStaging();
+  let containerId: string | undefined;
+  try {
+    const created = await createReelContainer(client, operation, input, staging);
+    containerId = created.containerId;
+    return await finishReel(
+      client,
+      created.operation,
+      created.containerId,
+      input,
+      DEFAULT_MAX_WAIT_MS,
+      onProgress
+    );
+  } catch (error) {
+    throw failReel(client, operation, error);
+  } finally {
+    releasePostOperation(operation);
+    await releaseStagedMedia(
+      client,
+      operation,
+      containerId,
+      staging,
+      resolveWaitOptions(input, DEFAULT_MAX_WAIT_MS).pollIntervalMs
     );
   }
+}
 
-  try {
-    // Step 1: Create media container for the Reel video
-    const containerParams = new URLSearchParams({
-      media_type: "REELS",
-      video_url: videoUrl,
-      access_token: userAccessToken,
-    });
+// Creates the container and returns its operation right away; processing
+// and publishing carry on in the background, reported through onProgress
+// and instagram-post-status. Validation errors are still thrown here.
+export async function startReelPost(
+  input: InstagramPostReelInput,
+  onProgress?: PostProgressReporter
+): Promise<InstagramReelStartOutput> {
+  const resolved = createClientForAccount(input.account, input.retryPolicy);
+  const { client } = resolved;
+  const operation = beginPostOperation("reel", resolved.account.id, input);
+  if (operation.status === "succeeded") {
+    const result = replayPostOperation<InstagramPostReelOutput>(operation);
+    return {
+      operationId: result.operationId,
+      idempotencyKey: result.idempotencyKey,
+      replayed: true,
+      status: result.status,
+      containerId: operation.containerId,
+      postId: result.postId,
+    };
+  }
 
-    if (caption) containerParams.append("caption", caption);
-    if (coverUrl) containerParams.append("cover_url", coverUrl);
-    if (typeof shareToFeed === "boolean")
-      containerParams.append("share_to_feed", String(shareToFeed));
+  const staging = new MediaStaging();
+  let created: Awaited<ReturnType<typeof createReelContainer>>;
+  try {
+    created = await createReelContainer(client, operation, input, staging);
+  } catch (error) {
+    const apiError = failReel(client, operation, error);
+    releasePostOperation(operation);
+    await staging.cleanup();
+    throw apiError;
+  }
 
-    const containerUrl = `${GRAPH_API_BASE_URL}/${igUserId}/media`;
-    let response = await fetch(containerUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/x-www-form-urlencoded" },
-      body: containerParams.toString(),
+  // The staged video must stay up until Instagram has fetched it, so the
+  // background run owns the cleanup
+  finishReel(
+    client,
+    created.operation,
+    created.containerId,
+    input,
+    DEFAULT_ASYNC_MAX_WAIT_MS,
+    onProgress
+  )
+    .catch((error) => {
+      const apiError = failReel(client, operation, error);
+      logError("Background Publish Failed", apiError);
+      onProgress?.({
+        operationId: operation.id,
+        stage: created.operation.stage,
+        message: `Reel failed: ${apiError.message}`,
+        error: apiError.message,
+      });
+    })
+    .finally(async () => {
+      releasePostOperation(operation);
+      await staging.cleanup();
     });
-    let responseData = await response.json();
 
-    if (!response.ok) {
-      throw handleInstagramError(responseData, response);
-    }
-    const { id: containerId } = responseData as MediaContainerResponse;
-    if (!containerId)
-      throw new InstagramApiError(
-        "Reel media container ID not found.",
-        InstagramErrorType.UNKNOWN_ERROR
-      );
+  return {
+    operationId: operation.id,
+    idempotencyKey: operation.idempotencyKey,
+    status: "Reel container created; processing and publishing continue in the background",
+    containerId: created.containerId,
+  };
+}
 
-    // Step 2: Wait for video processing to complete
-    const isReady = await waitForContainerReady(userAccessToken, containerId);
-    if (!isReady) {
-      // Should be caught by timeout in waitForContainerReady, but as a safeguard
-      throw new InstagramApiError(
-        "Reel processing timed out after container creation.",
-        InstagramErrorType.UNKNOWN_ERROR
-      );
-    }
+// Runs every check a post would and lists the requests it would send,
+// without publishing anything. With createContainers the preview waits for
+// Instagram to process the video, up to maxWaitTimeMs.
+export async function previewReelPost(
+  input: InstagramPostReelInput
+): Promise<PostPreview> {
+  const resolved = createClientForAccount(input.account, input.retryPolicy);
+  const { client } = resolved;
+  const staging = new MediaStaging();
+  try {
+    const prepared = await prepareReel(client, input);
+    const recorder = new PostPreviewRecorder(
+      client,
+      staging,
+      !!input.createContainers,
+      resolveWaitOptions(input, DEFAULT_MAX_WAIT_MS)
+    );
+    const videoUrl = await recorder.mediaUrl("videoUrl", prepared.videoSource);
+    const coverUrl = prepared.coverSource
+      ? await recorder.mediaUrl("coverUrl", prepared.coverSource)
+      : undefined;
+    const containerId = await recorder.createContainer(
+      "reel",
+      reelContainerParams(videoUrl, coverUrl, input, prepared),
+      true
+    );
+    recorder.publish(containerId);
 
-    // Step 3: Publish the container
-    const publishParams = new URLSearchParams({
-      creation_id: containerId,
-      access_token: userAccessToken,
+    const sources = [prepared.videoSource, prepared.coverSource];
+    return recorder.finish({
+      account: { id: resolved.account.id, username: resolved.account.username },
+      media: prepared.inspections.map((inspection, index) =>
+        describePreviewMedia(sources[index]!, inspection)
+      ),
+      caption: prepared.captionAnalysis,
+      publishingLimit: prepared.publishingLimit,
+      mediaWarnings: collectMediaWarnings(prepared.inspections),
+      mediaFixes: [],
     });
+  } catch (error) {
+    const apiError = handleInstagramError(error);
+    apiError.retries = client.retryEvents;
+    throw apiError;
+  } finally {
+    await staging.cleanup();
+  }
+}
+
+export const postReelTool: InstagramTool = {
+  name: "instagram-post-reel",
+  description: "Posts a Reel to Instagram.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      videoUrl: {
+        type: "string",
+        description:
+          "The video to post as a Reel: a public HTTPS URL, a local file path, or a base64 data: URI.",
+      },
+      coverUrl: {
+        type: "string",
+        description:
+          "Cover image for the Reel, as a URL, local file path or data: URI. If not provided, Instagram will use the first frame.",
+      },
+      caption: {
+        type: "string",
+        description: "The caption for the Reel.",
+      },
+      shareToFeed: {
+        type: "boolean",
+        description:
+          "Whether to also share the Reel to the main feed (default: true if not specified by IG). Check API docs for current default behavior if not explicitly set.",
+      },
+      thumbOffset: {
+        type: "number",
+        description:
+          "Milliseconds into the video to use as the cover frame. Cannot be combined with coverUrl; must be within the video.",
+      },
+      audioName: {
+        type: "string",
+        description: "Name for the Reel's original audio.",
+      },
+      collaborators: {
+        type: "array",
+        items: { type: "string" },
+        maxItems: 3,
+        description:
+          "Usernames of up to 3 public accounts to invite as co-authors.",
+      },
+      locationId: locationIdSchema,
+      userTags: {
+        type: "array",
+        items: { type: "string" },
+        maxItems: 20,
+        description: "Usernames of up to 20 public accounts to tag.",
+      },
+      trialGraduation: {
+        type: "string",
+        enum: ["MANUAL", "SS_PERFORMANCE"],
+        description:
+          "Post as a trial reel, shown to non-followers first. MANUAL leaves sharing to followers to you; SS_PERFORMANCE shares it automatically if it performs well.",
+      },
+      async: {
+        type: "boolean",
+        description:
+          "Return as soon as the Reel container is created, with an operation ID, instead of waiting for Instagram to process the video. Processing and publishing continue in the background; progress is sent as log messages and the media ID or error is available from instagram-post-status. Default false.",
+      },
+      maxWaitTimeMs: {
+        type: "number",
+        description:
+          "How long to wait for Instagram to process the video before giving up (default 60000, or 900000 with async; at most 900000).",
+      },
+      pollIntervalMs: {
+        type: "number",
+        description:
+          "How often to check the processing status (default 3000, from 1000 to 30000).",
+      },
+      ...dryRunSchemas,
+      idempotencyKey: idempotencyKeySchema,
+      account: accountSchema,
+      retryPolicy: retryPolicySchema,
+    },
+    required: ["videoUrl"],
+  },
+  async handle(args, context) {
+    const {
+      videoUrl,
+      coverUrl,
+      caption,
+      shareToFeed,
+      thumbOffset,
+      audioName,
+      collaborators,
+      locationId,
+      userTags,
+      trialGraduation,
+      async,
+      maxWaitTimeMs,
+      pollIntervalMs,
+      dryRun,
+      createContainers,
+      idempotencyKey,
+      account,
+      retryPolicy,
+    } = args;
 
-    const publishUrl = `${GRAPH_API_BASE_URL}/${igUserId}/media_publish`;
-    response = await fetch(publishUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/x-www-form-urlencoded" },
-      body: publishParams.toString(),
+    logInfo("Reel Post Request", {
+      hasVideo: !!videoUrl,
+      hasCover: !!coverUrl,
+      captionLength: caption?.length || 0,
+      shareToFeed,
+      async: !!async,
+      dryRun: !!dryRun,
     });
-    responseData = await response.json();
 
-    if (!response.ok) {
-      throw handleInstagramError(responseData, response);
+    const reelInput = {
+      videoUrl,
+      caption,
+      coverUrl,
+      shareToFeed,
+      thumbOffset,
+      audioName,
+      collaborators,
+      locationId,
+      userTags,
+      trialGraduation,
+      maxWaitTimeMs,
+      pollIntervalMs,
+      idempotencyKey,
+      account,
+      retryPolicy,
+    };
+    if (dryRun) {
+      const preview = await previewReelPost({
+        ...reelInput,
+        createContainers,
+      });
+      return textResult(formatPostPreview(preview));
     }
-    const { id: mediaId } = responseData as PublishResponse;
-    if (!mediaId)
-      throw new InstagramApiError(
-        "Post ID not found in Reel publish response.",
-        InstagramErrorType.UNKNOWN_ERROR
+
+    const onProgress = createProgressReporter(context, !!async);
+
+    if (async) {
+      const started = await startReelPost(reelInput, onProgress);
+      logInfo("Reel Post Started", { operationId: started.operationId });
+      return textResult(
+        (started.postId
+          ? `Reel posted successfully! Post ID: ${started.postId}\n`
+          : `${started.status}. Container ID: ${started.containerId}\n` +
+            `Use instagram-post-status with operationId ${started.operationId} for the media ID or error.`) +
+          formatPostOperation(started)
       );
+    }
 
-    return {
-      postId: mediaId,
-      status: "Reel posted successfully",
-    };
-  } catch (error) {
-    throw handleInstagramError(error);
-  }
-}
+    const result = await postReelToInstagram(reelInput, onProgress);
+
+    logInfo("Reel Post Success", { postId: result.postId });
+    return textResult(
+      `Reel posted successfully! Post ID: ${result.postId}\n` +
+        formatPublishingLimit(result.publishingLimit) +
+        formatMediaProblems(result.mediaWarnings) +
+        formatCaptionProblems(result.captionWarnings) +
+        formatPostOperation(result) +
+        formatRetries(result.retries)
+    );
+  },
+};
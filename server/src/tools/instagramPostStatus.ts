@@ -0,0 +1,128 @@
+import {
+  InstagramApiError,
+  InstagramErrorType,
+} from "../services/instagramGraphApi.js";
+import { resolveAccount } from "../services/accountStore.js";
+import {
+  PostOperation,
+  PostOperationStatus,
+  findOperationByKey,
+  getOperation,
+  listOperations,
+} from "../services/operationStore.js";
+import { InstagramTool, textResult } from "./toolSupport.js";
+
+// Define the interface for the tool input
+export interface InstagramPostStatusInput {
+  operationId?: string;
+  idempotencyKey?: string;
+  // Filters used when neither an id nor a key is given
+  account?: string;
+  status?: PostOperationStatus;
+  limit?: number;
+}
+
+const DEFAULT_LIST_LIMIT = 20;
+
+// Looks up one operation by id or key, or lists recent ones
+export function getPostStatus(input: InstagramPostStatusInput): PostOperation[] {
+  const { operationId, idempotencyKey } = input;
+  if (operationId || idempotencyKey) {
+    const operation = operationId
+      ? getOperation(operationId)
+      : findOperationByKey(idempotencyKey!);
+    if (!operation) {
+      throw new InstagramApiError(
+        `Post operation not found: ${operationId || idempotencyKey}`,
+        InstagramErrorType.INVALID_REQUEST
+      );
+    }
+    return [operation];
+  }
+
+  const accountId = input.account ? resolveAccount(input.account).id : undefined;
+  return listOperations()
+    .filter(
+      (operation) =>
+        (!accountId || operation.accountId === accountId) &&
+        (!input.status || operation.status === input.status)
+    )
+    .slice(0, input.limit || DEFAULT_LIST_LIMIT);
+}
+
+function formatOperationStatus(operation: PostOperation): string {
+  const lines = [
+    `${operation.id} [${operation.status}] ${operation.postType} post, stage ${operation.stage}`,
+    `  Idempotency key: ${operation.idempotencyKey}`,
+    `  Account: ${operation.accountId}, attempts: ${operation.attempts}`,
+    `  History: ${operation.history.map((event) => `${event.stage} ${event.at}`).join(" -> ")}`,
+  ];
+  if (operation.childContainerIds?.length) {
+    lines.push(
+      `  Child containers: ${operation.childContainerIds
+        .map((childId) => childId || "(not created)")
+        .join(", ")}`
+    );
+  }
+  if (operation.containerId) {
+    lines.push(
+      `  Container: ${operation.containerId}` +
+        (operation.containerStatus ? ` (${operation.containerStatus})` : "")
+    );
+  }
+  if (operation.postId) {
+    lines.push(`  Post ID: ${operation.postId}`);
+  }
+  if (operation.error) {
+    lines.push(`  Error: ${operation.error}`);
+  }
+  return lines.join("\n");
+}
+
+export const postStatusTool: InstagramTool = {
+  name: "instagram-post-status",
+  description:
+    "Shows the stage reached by a post (validated, containers_created, ready, published), its container IDs and any error. Without an operationId or idempotencyKey, lists recent posts.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      operationId: {
+        type: "string",
+        description: "Operation ID returned by a post tool.",
+      },
+      idempotencyKey: {
+        type: "string",
+        description: "Idempotency key the post was made with.",
+      },
+      account: {
+        type: "string",
+        description:
+          "Only list posts for this Instagram user ID or username.",
+      },
+      status: {
+        type: "string",
+        enum: ["running", "succeeded", "failed"],
+        description: "Only list posts with this status.",
+      },
+      limit: {
+        type: "number",
+        description: "Most posts to list (default 20).",
+      },
+    },
+  },
+  handle(args) {
+    const { operationId, idempotencyKey, account, status, limit } = args;
+    const operations = getPostStatus({
+      operationId,
+      idempotencyKey,
+      account,
+      status,
+      limit,
+    });
+    return textResult(
+      operations.length === 0
+        ? "No post operations recorded."
+        : operations.map(formatOperationStatus).join("\n\n")
+    );
+  },
+};
@@ -0,0 +1,134 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  mockMediaChecks,
+  useAccountDataDir,
+  useGraphApiStub,
+} from "./__fixtures__/toolTestSetup.js";
+
+mockMediaChecks([{}]);
+
+const { postStoryToInstagram } = await import("./instagramPostStory.js");
+const { listOperations } = await import("../services/operationStore.js");
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("postStoryToInstagram", () => {
+  let containerStatus: string;
+  let statusChecks: number;
+  let containerRequests: URLSearchParams[];
+
+  // One story container, whose status the test moves along, published as
+  // story-post
+  useGraphApiStub(({ method, url, params }) => {
+    if (url.pathname.endsWith("/media_publish")) {
+      return { body: { id: "story-post" } };
+    }
+    if (url.pathname.endsWith("/story-post")) {
+      return { body: { id: "story-post", timestamp: "2026-03-01T10:00:00+0000" } };
+    }
+    if (method === "POST") {
+      containerRequests.push(params);
+      return { body: { id: "story-container" } };
+    }
+    statusChecks++;
+    return { body: { id: "story-container", status_code: containerStatus } };
+  });
+  const dataDir = useAccountDataDir("story-test-", {
+    MEDIA_PUBLIC_BASE_URL: "https://media.example.com",
+  });
+
+  beforeEach(() => {
+    containerStatus = "IN_PROGRESS";
+    statusChecks = 0;
+    containerRequests = [];
+  });
+
+  const stagedFiles = () =>
+    fs.existsSync(path.join(dataDir(), "staged-media"))
+      ? fs.readdirSync(path.join(dataDir(), "staged-media"))
+      : [];
+
+  const videoUrl = `data:video/mp4;base64,${Buffer.from("video").toString("base64")}`;
+
+  it("needs exactly one of imageUrl or videoUrl", async () => {
+    for (const input of [{}, { imageUrl: "https://example.com/a.jpg", videoUrl }]) {
+      await expect(postStoryToInstagram(input)).rejects.toMatchObject({
+        type: "INVALID_REQUEST",
+        message: "A story needs exactly one of imageUrl or videoUrl.",
+      });
+    }
+    expect(listOperations()).toHaveLength(0);
+  });
+
+  it("publishes an image story and reports when it expires", async () => {
+    containerStatus = "FINISHED";
+    const progress: string[] = [];
+    const input = {
+      imageUrl: "https://example.com/story.jpg",
+      idempotencyKey: "story-key",
+    };
+    const output = await postStoryToInstagram(input, (update) =>
+      progress.push(update.message)
+    );
+
+    expect(output).toMatchObject({
+      postId: "story-post",
+      status: "Story posted successfully",
+      expiresAt: "2026-03-02T10:00:00.000Z",
+      idempotencyKey: "story-key",
+    });
+    expect(containerRequests).toHaveLength(1);
+    expect(Object.fromEntries(containerRequests[0])).toMatchObject({
+      media_type: "STORIES",
+      image_url: "https://example.com/story.jpg",
+    });
+    expect(progress).toEqual([
+      expect.stringMatching(/^Container story-container is FINISHED after/),
+      "Story published as media story-post",
+    ]);
+
+    // The same key returns the earlier result without posting again
+    await expect(postStoryToInstagram(input)).resolves.toMatchObject({
+      postId: "story-post",
+      replayed: true,
+    });
+    expect(containerRequests).toHaveLength(1);
+  });
+
+  it("refuses wait options that aren't positive numbers", async () => {
+    await expect(
+      postStoryToInstagram({ videoUrl, maxWaitTimeMs: 0 })
+    ).rejects.toMatchObject({
+      type: "INVALID_REQUEST",
+      message:
+        "Invalid post options: maxWaitTimeMs: must be a positive number of milliseconds",
+    });
+    expect(statusChecks).toBe(0);
+  });
+
+  it("keeps the staged video after a timed out wait until the container is processed", async () => {
+    await expect(
+      postStoryToInstagram({ videoUrl, maxWaitTimeMs: 50, pollIntervalMs: 1 })
+    ).rejects.toMatchObject({ message: "Media container processing timed out." });
+
+    expect(listOperations()[0]).toMatchObject({
+      status: "failed",
+      stage: "containers_created",
+      containerId: "story-container",
+    });
+    expect(stagedFiles()).toHaveLength(1);
+
+    containerStatus = "FINISHED";
+    await sleep(1500);
+    expect(stagedFiles()).toHaveLength(0);
+  });
+
+  it("removes the staged video once the container fails", async () => {
+    containerStatus = "ERROR";
+    await expect(
+      postStoryToInstagram({ videoUrl, maxWaitTimeMs: 5000 })
+    ).rejects.toThrow();
+    expect(stagedFiles()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,286 @@
+import {
+  InstagramApiError,
+  InstagramErrorType,
+  InstagramGraphClient,
+  handleInstagramError,
+} from "../services/instagramGraphApi.js";
+import { createClientForAccount } from "../services/accountStore.js";
+import {
+  MediaStaging,
+  resolveMediaSource,
+} from "../services/mediaHosting.js";
+import {
+  MediaProblem,
+  collectMediaWarnings,
+  validatePostMedia,
+} from "../services/mediaInspection.js";
+import { RetryEvent, RetryPolicy } from "../services/retryPolicy.js";
+import {
+  PostOperationOutput,
+  PostProgressReporter,
+  advancePostOperation,
+  beginPostOperation,
+  completePostOperation,
+  failPostOperation,
+  publishPostOperation,
+  releasePostOperation,
+  releaseStagedMedia,
+  replayPostOperation,
+  resolveWaitOptions,
+  reuseContainer,
+  validateWaitOptions,
+  waitForPostContainer,
+} from "../services/publishPipeline.js";
+import { PostOptionProblems } from "../services/postOptions.js";
+import {
+  InstagramPublishingLimitOutput,
+  assertPublishingQuota,
+} from "./instagramPublishingLimit.js";
+import {
+  formatMediaProblems,
+  formatPostOperation,
+  formatPublishingLimit,
+  formatRetries,
+} from "./toolFormatting.js";
+import {
+  InstagramTool,
+  accountSchema,
+  createProgressReporter,
+  idempotencyKeySchema,
+  retryPolicySchema,
+  textResult,
+} from "./toolSupport.js";
+
+function logInfo(context: string, data: any) {
+  console.error(`[INFO] InstagramPostStory - ${context}:`, data);
+}
+
+function logError(context: string, error: any) {
+  console.error(`[ERROR] InstagramPostStory - ${context}:`, error);
+}
+
+// Define the interface for the tool input
+export interface InstagramPostStoryInput {
+  // Exactly one of these: HTTPS URL, local file path or base64 data: URI
+  imageUrl?: string;
+  videoUrl?: string;
+  // IG user id or username; defaults to the only/default stored account
+  account?: string;
+  retryPolicy?: Partial<RetryPolicy>;
+  // Repeating a call with the same key resumes or replays it instead of
+  // posting twice; a random key is used when omitted
+  idempotencyKey?: string;
+  // How long to wait for Instagram to process a video, and how often to check
+  maxWaitTimeMs?: number;
+  pollIntervalMs?: number;
+}
+
+// Define the interface for the tool output
+export interface InstagramPostStoryOutput extends PostOperationOutput {
+  postId: string;
+  status: string;
+  // When the story disappears, 24 hours after it was published
+  expiresAt: string;
+  retries: RetryEvent[];
+  // Quota as checked before posting, so this post is not yet counted
+  publishingLimit: InstagramPublishingLimitOutput;
+  // Non-blocking findings from media inspection
+  mediaWarnings: MediaProblem[];
+}
+
+const STORY_LIFETIME_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_WAIT_MS = 60 * 1000;
+
+// Publish time plus 24 hours; falls back to now if the story's timestamp
+// can't be read
+async function getStoryExpiry(
+  client: InstagramGraphClient,
+  mediaId: string
+): Promise<string> {
+  let publishedAt = Date.now();
+  try {
+    const media = await client.get<{ timestamp?: string }>(`/${mediaId}`, {
+      fields: "timestamp",
+    });
+    const parsed = media.timestamp ? Date.parse(media.timestamp) : NaN;
+    if (!Number.isNaN(parsed)) publishedAt = parsed;
+  } catch (error) {
+    logError("Story Timestamp", error);
+  }
+  return new Date(publishedAt + STORY_LIFETIME_MS).toISOString();
+}
+
+export async function postStoryToInstagram(
+  input: InstagramPostStoryInput,
+  onProgress?: PostProgressReporter
+): Promise<InstagramPostStoryOutput> {
+  const { imageUrl, videoUrl, account, retryPolicy } = input;
+  if (!imageUrl === !videoUrl) {
+    throw new InstagramApiError(
+      "A story needs exactly one of imageUrl or videoUrl.",
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  const problems = new PostOptionProblems();
+  validateWaitOptions(input, problems);
+  problems.throwIfAny();
+  const waitOptions = resolveWaitOptions(input, DEFAULT_MAX_WAIT_MS);
+
+  const resolved = createClientForAccount(account, retryPolicy);
+  const { client } = resolved;
+  let operation = beginPostOperation("story", resolved.account.id, input);
+  if (operation.status === "succeeded") {
+    return replayPostOperation<InstagramPostStoryOutput>(operation);
+  }
+
+  const staging = new MediaStaging();
+  let containerId: string | undefined;
+  try {
+    const reused = await reuseContainer(client, operation);
+    operation = reused.operation;
+    containerId = reused.containerId;
+
+    if (!containerId) {
+      const field = imageUrl ? "imageUrl" : "videoUrl";
+      const source = resolveMediaSource((imageUrl || videoUrl)!);
+      const inspections = await validatePostMedia([
+        { field, source, target: imageUrl ? "storyImage" : "storyVideo" },
+      ]);
+
+      const publishingLimit = await assertPublishingQuota(client);
+      operation = advancePostOperation(operation, "validated", {
+        context: {
+          publishingLimit,
+          mediaWarnings: collectMediaWarnings(inspections),
+        },
+      });
+      const publicUrl = await staging.stage(source);
+
+      // Step 1: Create the story container
+      containerId = await client.createMediaContainer({
+        media_type: "STORIES",
+        image_url: imageUrl ? publicUrl : undefined,
+        video_url: videoUrl ? publicUrl : undefined,
+      });
+      operation = advancePostOperation(operation, "containers_created", {
+        containerId,
+      });
+    }
+
+    // Step 2: Wait for processing; images are usually ready on the first check
+    operation = await waitForPostContainer(
+      client,
+      operation,
+      containerId,
+      waitOptions,
+      onProgress
+    );
+
+    // Step 3: Publish the container
+    const mediaId = await publishPostOperation(client, operation);
+    onProgress?.({
+      operationId: operation.id,
+      stage: "published",
+      message: `Story published as media ${mediaId}`,
+    });
+
+    const context = operation.context as Pick<
+      InstagramPostStoryOutput,
+      "publishingLimit" | "mediaWarnings"
+    >;
+    return completePostOperation(operation, {
+      postId: mediaId,
+      status: "Story posted successfully",
+      expiresAt: await getStoryExpiry(client, mediaId),
+      retries: client.retryEvents,
+      publishingLimit: context.publishingLimit,
+      mediaWarnings: context.mediaWarnings,
+    });
+  } catch (error) {
+    const apiError = handleInstagramError(error);
+    apiError.retries = client.retryEvents;
+    failPostOperation(operation, apiError);
+    throw apiError;
+  } finally {
+    releasePostOperation(operation);
+    await releaseStagedMedia(
+      client,
+      operation,
+      containerId,
+      staging,
+      waitOptions.pollIntervalMs
+    );
+  }
+}
+
+export const postStoryTool: InstagramTool = {
+  name: "instagram-post-story",
+  description:
+    "Posts an image or video Story to Instagram. Stories disappear after 24 hours.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      imageUrl: {
+        type: "string",
+        description:
+          "The image to post (JPEG), as a public HTTPS URL, a local file path, or a base64 data: URI. Give this or videoUrl.",
+      },
+      videoUrl: {
+        type: "string",
+        description:
+          "The video to post (MP4/MOV, 3-60 seconds), in any of the same forms. Give this or imageUrl.",
+      },
+      maxWaitTimeMs: {
+        type: "number",
+        description:
+          "How long to wait for Instagram to process a video before giving up (default 60000, at most 900000).",
+      },
+      pollIntervalMs: {
+        type: "number",
+        description:
+          "How often to check the processing status (default 3000, from 1000 to 30000).",
+      },
+      idempotencyKey: idempotencyKeySchema,
+      account: accountSchema,
+      retryPolicy: retryPolicySchema,
+    },
+  },
+  async handle(args, context) {
+    const {
+      imageUrl,
+      videoUrl,
+      maxWaitTimeMs,
+      pollIntervalMs,
+      idempotencyKey,
+      account,
+      retryPolicy,
+    } = args;
+
+    logInfo("Story Post Request", {
+      hasImage: !!imageUrl,
+      hasVideo: !!videoUrl,
+    });
+
+    const result = await postStoryToInstagram(
+      {
+        imageUrl,
+        videoUrl,
+        maxWaitTimeMs,
+        pollIntervalMs,
+        idempotencyKey,
+        account,
+        retryPolicy,
+      },
+      createProgressReporter(context, false)
+    );
+
+    logInfo("Story Post Success", { postId: result.postId });
+    return textResult(
+      `Story posted successfully! Post ID: ${result.postId}. Expires at ${result.expiresAt}\n` +
+        formatPublishingLimit(result.publishingLimit) +
+        formatMediaProblems(result.mediaWarnings) +
+        formatPostOperation(result) +
+        formatRetries(result.retries)
+    );
+  },
+};
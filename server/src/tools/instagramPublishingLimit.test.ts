@@ -0,0 +1,116 @@
+import {
+  ACCOUNT_ID,
+  StubRequest,
+  StubResponse,
+  useGraphApiStub,
+} from "./__fixtures__/toolTestSetup.js";
+import { InstagramGraphClient } from "../services/instagramGraphApi.js";
+import {
+  assertPublishingQuota,
+  fetchPublishingLimit,
+} from "./instagramPublishingLimit.js";
+
+describe("publishing quota", () => {
+  let limitResponse: StubResponse;
+  let mediaResponse: StubResponse;
+  let mediaRequests: StubRequest[];
+
+  useGraphApiStub((request) => {
+    if (request.url.pathname.endsWith("/content_publishing_limit")) {
+      return limitResponse;
+    }
+    mediaRequests.push(request);
+    return mediaResponse;
+  });
+
+  const usage = (quota_usage: number) => ({
+    body: {
+      data: [{ quota_usage, config: { quota_total: 50, quota_duration: 86400 } }],
+    },
+  });
+
+  const hoursAgo = (hours: number) =>
+    new Date(Date.now() - hours * 3600 * 1000).toISOString();
+
+  let client: InstagramGraphClient;
+
+  beforeEach(() => {
+    mediaRequests = [];
+    mediaResponse = { body: { data: [] } };
+    client = new InstagramGraphClient({
+      igUserId: ACCOUNT_ID,
+      accessToken: "token",
+      retryPolicy: { maxAttempts: 1 },
+    });
+  });
+
+  it("frees the next slot a day after the oldest post in the window", async () => {
+    limitResponse = usage(2);
+    const oldest = hoursAgo(20);
+    mediaResponse = {
+      body: {
+        data: [
+          { id: "2", timestamp: hoursAgo(3) },
+          { id: "1", timestamp: oldest },
+        ],
+      },
+    };
+
+    const limit = await assertPublishingQuota(client);
+    expect(limit).toEqual({
+      quotaUsage: 2,
+      quotaTotal: 50,
+      remaining: 48,
+      quotaDurationSeconds: 86400,
+      resetsAt: new Date(Date.parse(oldest) + 86400 * 1000).toISOString(),
+    });
+    // Only the posts inside the window are listed
+    const since = Number(mediaRequests[0].params.get("since"));
+    expect(Math.abs(since - (Date.now() / 1000 - 86400))).toBeLessThan(60);
+  });
+
+  it("skips the reset estimate when nothing was published, and uses the default quota", async () => {
+    limitResponse = { body: { data: [{ quota_usage: 0 }] } };
+    await expect(fetchPublishingLimit(client)).resolves.toEqual({
+      quotaUsage: 0,
+      quotaTotal: 100,
+      remaining: 100,
+      quotaDurationSeconds: 86400,
+      resetsAt: undefined,
+    });
+    expect(mediaRequests).toHaveLength(0);
+  });
+
+  it("still checks the quota when the reset time can't be estimated", async () => {
+    limitResponse = usage(5);
+    mediaResponse = {
+      status: 400,
+      body: { error: { message: "Unsupported get request", code: 100 } },
+    };
+    await expect(assertPublishingQuota(client)).resolves.toMatchObject({
+      remaining: 45,
+      resetsAt: undefined,
+    });
+  });
+
+  it("refuses to post once the quota is used up", async () => {
+    limitResponse = usage(50);
+    const oldest = hoursAgo(23);
+    mediaResponse = { body: { data: [{ id: "1", timestamp: oldest }] } };
+
+    await expect(assertPublishingQuota(client)).rejects.toMatchObject({
+      type: "RATE_LIMIT",
+      message: `Publishing quota exhausted: 50/50 posts used in the last 24 hours. Next slot frees up around ${new Date(
+        Date.parse(oldest) + 86400 * 1000
+      ).toISOString()}.`,
+    });
+  });
+
+  it("fails when Instagram returns no limit", async () => {
+    limitResponse = { body: { data: [] } };
+    await expect(fetchPublishingLimit(client)).rejects.toMatchObject({
+      type: "UNKNOWN_ERROR",
+      message: "Publishing limit not found in response.",
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  InstagramApiError,
+  InstagramErrorType,
+  InstagramGraphClient,
+  handleInstagramError,
+} from "../services/instagramGraphApi.js";
+import { createClientForAccount } from "../services/accountStore.js";
+import { RetryPolicy } from "../services/retryPolicy.js";
+import { formatPublishingLimit } from "./toolFormatting.js";
+import {
+  InstagramTool,
+  accountSchema,
+  retryPolicySchema,
+  textResult,
+} from "./toolSupport.js";
+
+function logInfo(context: string, data: any) {
+  console.error(`[INFO] InstagramPublishingLimit - ${context}:`, data);
+}
+
+function logError(context: string, error: any) {
+  console.error(`[ERROR] InstagramPublishingLimit - ${context}:`, error);
+}
+
+// Define the interface for the tool input
+export interface InstagramPublishingLimitInput {
+  account?: string;
+  retryPolicy?: Partial<RetryPolicy>;
+}
+
+// Define the interface for the tool output
+export interface InstagramPublishingLimitOutput {
+  quotaUsage: number;
+  quotaTotal: number;
+  remaining: number;
+  quotaDurationSeconds: number;
+  // When the oldest post in the rolling window drops out and frees a slot.
+  // Undefined when nothing was published inside the window.
+  resetsAt?: string;
+}
+
+interface ContentPublishingLimitResponse {
+  data: {
+    quota_usage: number;
+    config?: {
+      quota_total: number;
+      quota_duration: number;
+    };
+  }[];
+}
+
+interface MediaTimestampsResponse {
+  data: { id: string; timestamp: string }[];
+}
+
+// Instagram's documented defaults, used if the response omits `config`
+const DEFAULT_QUOTA_TOTAL = 100;
+const DEFAULT_QUOTA_DURATION_SECONDS = 86400;
+
+async function estimateResetTime(
+  client: InstagramGraphClient,
+  quotaDurationSeconds: number
+): Promise<string | undefined> {
+  const windowStart = Math.floor(Date.now() / 1000) - quotaDurationSeconds;
+  try {
+    const response = await client.get<MediaTimestampsResponse>(
+      `/${client.igUserId}/media`,
+      { fields: "timestamp", since: windowStart, limit: 100 }
+    );
+    const timestamps = (response.data || [])
+      .map((media) => Date.parse(media.timestamp))
+      .filter((time) => !Number.isNaN(time));
+    if (timestamps.length === 0) return undefined;
+    return new Date(
+      Math.min(...timestamps) + quotaDurationSeconds * 1000
+    ).toISOString();
+  } catch (error) {
+    // The reset time is informational; never fail the quota check over it
+    logError("Reset Time Estimate", error);
+    return undefined;
+  }
+}
+
+export async function fetchPublishingLimit(
+  client: InstagramGraphClient
+): Promise<InstagramPublishingLimitOutput> {
+  const response = await client.get<ContentPublishingLimitResponse>(
+    `/${client.igUserId}/content_publishing_limit`,
+    { fields: "quota_usage,config" }
+  );
+  const entry = response.data?.[0];
+  if (!entry) {
+    throw new InstagramApiError(
+      "Publishing limit not found in response.",
+      InstagramErrorType.UNKNOWN_ERROR
+    );
+  }
+
+  const quotaUsage = entry.quota_usage || 0;
+  const quotaTotal = entry.config?.quota_total || DEFAULT_QUOTA_TOTAL;
+  const quotaDurationSeconds =
+    entry.config?.quota_duration || DEFAULT_QUOTA_DURATION_SECONDS;
+
+  return {
+    quotaUsage,
+    quotaTotal,
+    remaining: Math.max(0, quotaTotal - quotaUsage),
+    quotaDurationSeconds,
+    resetsAt:
+      quotaUsage > 0
+        ? await estimateResetTime(client, quotaDurationSeconds)
+        : undefined,
+  };
+}
+
+// Pre-flight check run by the post tools before any container is created
+export async function assertPublishingQuota(
+  client: InstagramGraphClient
+): Promise<InstagramPublishingLimitOutput> {
+  const limit = await fetchPublishingLimit(client);
+  if (limit.remaining <= 0) {
+    throw new InstagramApiError(
+      `Publishing quota exhausted: ${limit.quotaUsage}/${limit.quotaTotal} posts used in the last ${limit.quotaDurationSeconds / 3600} hours.` +
+        (limit.resetsAt ? ` Next slot frees up around ${limit.resetsAt}.` : ""),
+      InstagramErrorType.RATE_LIMIT
+    );
+  }
+  return limit;
+}
+
+export async function getInstagramPublishingLimit(
+  input: InstagramPublishingLimitInput
+): Promise<InstagramPublishingLimitOutput> {
+  const { client } = createClientForAccount(input.account, input.retryPolicy);
+
+  try {
+    return await fetchPublishingLimit(client);
+  } catch (error) {
+    throw handleInstagramError(error);
+  }
+}
+
+export const publishingLimitTool: InstagramTool = {
+  name: "instagram-publishing-limit",
+  description:
+    "Shows how many posts the account can still publish in the current 24-hour window and when the quota frees up.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      account: accountSchema,
+      retryPolicy: retryPolicySchema,
+    },
+  },
+  async handle(args) {
+    const { account, retryPolicy } = args;
+    const result = await getInstagramPublishingLimit({ account, retryPolicy });
+
+    logInfo("Publishing Limit", result);
+    return textResult(formatPublishingLimit(result));
+  },
+};
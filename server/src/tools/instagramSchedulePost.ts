@@ -0,0 +1,316 @@
+import {
+  InstagramApiError,
+  InstagramErrorType,
+} from "../services/instagramGraphApi.js";
+import { resolveAccount } from "../services/accountStore.js";
+import {
+  ScheduledJob,
+  ScheduledJobStatus,
+  ScheduledPostInput,
+  ScheduledPostType,
+  addJob,
+  getJob,
+  listJobs,
+  updateJob,
+} from "../services/jobStore.js";
+import {
+  InstagramPostCarouselInput,
+  InstagramPostImageInput,
+  InstagramPostReelInput,
+} from "../services/postInputs.js";
+import { InstagramTool, accountSchema, textResult } from "./toolSupport.js";
+
+function logInfo(context: string, data: any) {
+  console.error(`[INFO] InstagramSchedulePost - ${context}:`, data);
+}
+
+// Define the interface for the tool inputs
+export type InstagramSchedulePostInput = {
+  scheduledTime: string;
+  account?: string;
+} & (
+  | { postType: "image"; post: InstagramPostImageInput }
+  | { postType: "carousel"; post: InstagramPostCarouselInput }
+  | { postType: "reel"; post: InstagramPostReelInput }
+);
+
+export interface InstagramListScheduledPostsInput {
+  status?: ScheduledJobStatus;
+  account?: string;
+}
+
+export interface InstagramCancelScheduledPostInput {
+  jobId: string;
+}
+
+export interface InstagramReschedulePostInput {
+  jobId: string;
+  scheduledTime: string;
+}
+
+// Statuses a job can be rescheduled from. Succeeded jobs are final.
+const RESCHEDULABLE_STATUSES: ScheduledJobStatus[] = [
+  "pending",
+  "failed",
+  "missed",
+  "cancelled",
+];
+
+function parseScheduledTime(scheduledTime: string): Date {
+  const runAt = new Date(scheduledTime);
+  if (!scheduledTime || Number.isNaN(runAt.getTime())) {
+    throw new InstagramApiError(
+      `Invalid scheduledTime "${scheduledTime}". Use an ISO 8601 date-time with a UTC offset, e.g. 2025-06-06T09:00:00+02:00.`,
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  if (runAt.getTime() <= Date.now()) {
+    throw new InstagramApiError(
+      `scheduledTime ${runAt.toISOString()} is in the past.`,
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  return runAt;
+}
+
+function requireJob(jobId: string): ScheduledJob {
+  const job = getJob(jobId);
+  if (!job) {
+    throw new InstagramApiError(
+      `Scheduled post not found: ${jobId}`,
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  return job;
+}
+
+// Checks the fields each post tool requires so bad jobs fail now, not at run time
+function validatePostInput(
+  postType: ScheduledPostType,
+  post: Record<string, any>
+): void {
+  const missing = (field: string) =>
+    new InstagramApiError(
+      `A scheduled ${postType} post requires "post.${field}".`,
+      InstagramErrorType.INVALID_REQUEST
+    );
+
+  if (!post || typeof post !== "object") throw missing("*");
+  if (post.dryRun) {
+    throw new InstagramApiError(
+      "Dry runs cannot be scheduled; call the post tool with dryRun instead.",
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  switch (postType) {
+    case "image":
+      if (typeof post.imageUrl !== "string") throw missing("imageUrl");
+      break;
+    case "carousel":
+      if (!Array.isArray(post.mediaItems)) throw missing("mediaItems");
+      if (post.mediaItems.length < 2 || post.mediaItems.length > 10) {
+        throw new InstagramApiError(
+          "Carousel must have between 2 and 10 media items.",
+          InstagramErrorType.INVALID_REQUEST
+        );
+      }
+      break;
+    case "reel":
+      if (typeof post.videoUrl !== "string") throw missing("videoUrl");
+      break;
+    default:
+      throw new InstagramApiError(
+        `Unsupported postType "${postType}". Use image, carousel or reel.`,
+        InstagramErrorType.INVALID_REQUEST
+      );
+  }
+}
+
+// The post as the job stores it, pinned to an account id
+function toScheduledPost(
+  input: InstagramSchedulePostInput,
+  accountId: string
+): ScheduledPostInput {
+  switch (input.postType) {
+    case "image":
+      return { postType: "image", input: { ...input.post, account: accountId } };
+    case "carousel":
+      return {
+        postType: "carousel",
+        input: { ...input.post, account: accountId },
+      };
+    case "reel":
+      return { postType: "reel", input: { ...input.post, account: accountId } };
+  }
+}
+
+export function schedulePost(input: InstagramSchedulePostInput): ScheduledJob {
+  // The arguments come from the client unchecked, whatever the type says
+  validatePostInput(input.postType, input.post);
+  const runAt = parseScheduledTime(input.scheduledTime);
+  // Pin the job to an account id now, so it still posts to the same account
+  // if the default changes or a username is renamed before it runs
+  const account = resolveAccount(input.account || input.post.account);
+  return addJob(toScheduledPost(input, account.id), runAt);
+}
+
+export function listScheduledPosts(
+  input: InstagramListScheduledPostsInput
+): ScheduledJob[] {
+  const jobs = listJobs(input.status);
+  if (!input.account) return jobs;
+  const accountId = resolveAccount(input.account).id;
+  return jobs.filter((job) => job.input.account === accountId);
+}
+
+export function cancelScheduledPost(
+  input: InstagramCancelScheduledPostInput
+): ScheduledJob {
+  const job = requireJob(input.jobId);
+  if (job.status !== "pending") {
+    throw new InstagramApiError(
+      `Only pending posts can be cancelled; this one is ${job.status}.`,
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  return updateJob(job.id, { status: "cancelled" })!;
+}
+
+export function reschedulePost(
+  input: InstagramReschedulePostInput
+): ScheduledJob {
+  const job = requireJob(input.jobId);
+  if (!RESCHEDULABLE_STATUSES.includes(job.status)) {
+    throw new InstagramApiError(
+      `A ${job.status} post cannot be rescheduled.`,
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  const runAt = parseScheduledTime(input.scheduledTime);
+  return updateJob(job.id, {
+    status: "pending",
+    runAt: runAt.toISOString(),
+    error: undefined,
+  })!;
+}
+
+export const schedulePostTool: InstagramTool = {
+  name: "instagram-schedule-post",
+  description:
+    "Schedules an image, carousel or Reel to be posted at a later time. Jobs are stored on disk and survive restarts.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      postType: {
+        type: "string",
+        enum: ["image", "carousel", "reel"],
+        description: "Which post tool to run when the job is due.",
+      },
+      scheduledTime: {
+        type: "string",
+        format: "date-time",
+        description:
+          "When to publish, as an ISO 8601 date-time with a UTC offset (e.g. 2025-06-06T09:00:00+02:00).",
+      },
+      post: {
+        type: "object",
+        description:
+          "The arguments for the matching post tool (instagram-post-image, instagram-post-carousel or instagram-post-reel).",
+      },
+      account: accountSchema,
+    },
+    required: ["postType", "scheduledTime", "post"],
+  },
+  handle(args) {
+    const { postType, scheduledTime, post, account } = args;
+    const job = schedulePost({ postType, scheduledTime, post, account });
+
+    logInfo("Post Scheduled", { jobId: job.id, runAt: job.runAt });
+    return textResult(`Post scheduled for ${job.runAt}. Job ID: ${job.id}`);
+  },
+};
+
+export const listScheduledPostsTool: InstagramTool = {
+  name: "instagram-list-scheduled-posts",
+  description: "Lists scheduled posts, soonest first.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      status: {
+        type: "string",
+        enum: [
+          "pending",
+          "running",
+          "succeeded",
+          "failed",
+          "cancelled",
+          "missed",
+        ],
+        description: "Only list jobs with this status.",
+      },
+      account: {
+        type: "string",
+        description:
+          "Only list jobs for this Instagram user ID or username.",
+      },
+    },
+  },
+  handle(args) {
+    const { status, account } = args;
+    const jobs = listScheduledPosts({ status, account });
+    return textResult(
+      jobs.length === 0 ? "No scheduled posts." : JSON.stringify(jobs, null, 2)
+    );
+  },
+};
+
+export const cancelScheduledPostTool: InstagramTool = {
+  name: "instagram-cancel-scheduled-post",
+  description: "Cancels a pending scheduled post.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      jobId: {
+        type: "string",
+        description: "ID of the scheduled post.",
+      },
+    },
+    required: ["jobId"],
+  },
+  handle(args) {
+    const { jobId } = args;
+    const job = cancelScheduledPost({ jobId });
+
+    logInfo("Scheduled Post Cancelled", { jobId: job.id });
+    return textResult(`Scheduled post ${job.id} cancelled.`);
+  },
+};
+
+export const reschedulePostTool: InstagramTool = {
+  name: "instagram-reschedule-post",
+  description:
+    "Moves a scheduled post to a new time. Also re-queues failed, missed or cancelled posts.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      jobId: {
+        type: "string",
+        description: "ID of the scheduled post.",
+      },
+      scheduledTime: {
+        type: "string",
+        format: "date-time",
+        description:
+          "The new time, as an ISO 8601 date-time with a UTC offset.",
+      },
+    },
+    required: ["jobId", "scheduledTime"],
+  },
+  handle(args) {
+    const { jobId, scheduledTime } = args;
+    const job = reschedulePost({ jobId, scheduledTime });
+
+    logInfo("Post Rescheduled", { jobId: job.id, runAt: job.runAt });
+    return textResult(`Post ${job.id} rescheduled for ${job.runAt}.`);
+  },
+};
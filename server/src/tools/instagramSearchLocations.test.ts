@@ -0,0 +1,97 @@
+import { searchInstagramLocations } from "./instagramSearchLocations.js";
+import { StubRequest, useGraphApiStub } from "./__fixtures__/toolTestSetup.js";
+
+describe("searchInstagramLocations", () => {
+  let requests: StubRequest[];
+
+  // Two Pages with a location around one without
+  useGraphApiStub((request) => {
+    requests.push(request);
+    return {
+      body: {
+        data: [
+          {
+            id: "110843418940484",
+            name: "Eiffel Tower",
+            link: "https://www.facebook.com/110843418940484",
+            location: {
+              city: "Paris",
+              country: "France",
+              latitude: 48.8584,
+              longitude: 2.2945,
+            },
+          },
+          { id: "200", name: "Eiffel Tower Fan Club" },
+          {
+            id: "300",
+            name: "Eiffel Tower Replica",
+            location: { street: "3655 Las Vegas Blvd S", city: "Las Vegas" },
+          },
+        ],
+      },
+    };
+  });
+
+  beforeEach(() => {
+    requests = [];
+    // The stub stands in for the Facebook Graph API too
+    process.env.FACEBOOK_GRAPH_API_HOST = process.env.INSTAGRAM_GRAPH_API_HOST;
+    process.env.INSTAGRAM_LOCATION_SEARCH_TOKEN = "facebook-token";
+  });
+
+  afterEach(() => {
+    delete process.env.FACEBOOK_GRAPH_API_HOST;
+    delete process.env.INSTAGRAM_LOCATION_SEARCH_TOKEN;
+  });
+
+  it("returns only the Pages that have a location", async () => {
+    const { locations } = await searchInstagramLocations({ query: " Eiffel Tower " });
+    expect(locations).toEqual([
+      {
+        id: "110843418940484",
+        name: "Eiffel Tower",
+        city: "Paris",
+        country: "France",
+        latitude: 48.8584,
+        longitude: 2.2945,
+        link: "https://www.facebook.com/110843418940484",
+      },
+      {
+        id: "300",
+        name: "Eiffel Tower Replica",
+        street: "3655 Las Vegas Blvd S",
+        city: "Las Vegas",
+      },
+    ]);
+
+    expect(requests).toHaveLength(1);
+    const [{ url, params }] = requests;
+    expect(url.pathname).toMatch(/\/pages\/search$/);
+    expect(Object.fromEntries(params)).toMatchObject({
+      q: "Eiffel Tower",
+      fields: "id,name,link,location",
+      limit: "10",
+      access_token: "facebook-token",
+    });
+  });
+
+  it("keeps the limit between 1 and 50", async () => {
+    await searchInstagramLocations({ query: "Paris", limit: 500 });
+    await searchInstagramLocations({ query: "Paris", limit: -3 });
+    expect(requests.map(({ params }) => params.get("limit"))).toEqual(["50", "1"]);
+  });
+
+  it("needs a query and a Facebook token before calling the API", async () => {
+    await expect(searchInstagramLocations({ query: "  " })).rejects.toMatchObject({
+      type: "INVALID_REQUEST",
+      message: "A place name to search for is required.",
+    });
+
+    delete process.env.INSTAGRAM_LOCATION_SEARCH_TOKEN;
+    await expect(searchInstagramLocations({ query: "Paris" })).rejects.toMatchObject({
+      type: "INVALID_REQUEST",
+      message: expect.stringContaining("INSTAGRAM_LOCATION_SEARCH_TOKEN"),
+    });
+    expect(requests).toHaveLength(0);
+  });
+});
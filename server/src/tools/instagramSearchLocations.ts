@@ -0,0 +1,160 @@
+import {
+  InstagramApiError,
+  InstagramErrorType,
+  InstagramGraphClient,
+  getGraphApiVersion,
+  handleInstagramError,
+} from "../services/instagramGraphApi.js";
+import { RetryEvent, RetryPolicy } from "../services/retryPolicy.js";
+import { formatRetries } from "./toolFormatting.js";
+import { InstagramTool, retryPolicySchema, textResult } from "./toolSupport.js";
+
+// Location IDs for tagging are Facebook Page IDs. Instagram Login tokens
+// can't search Pages, so this uses a Facebook token with Page Public
+// Metadata Access from the environment.
+// https://developers.facebook.com/docs/pages-api/search-pages
+
+const DEFAULT_FACEBOOK_GRAPH_API_HOST = "https://graph.facebook.com";
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+// Define the interface for the tool input
+export interface InstagramSearchLocationsInput {
+  query: string;
+  limit?: number;
+  retryPolicy?: Partial<RetryPolicy>;
+}
+
+export interface InstagramLocation {
+  // Pass as locationId to the post tools
+  id: string;
+  name: string;
+  street?: string;
+  city?: string;
+  country?: string;
+  latitude?: number;
+  longitude?: number;
+  link?: string;
+}
+
+// Define the interface for the tool output
+export interface InstagramSearchLocationsOutput {
+  locations: InstagramLocation[];
+  retries: RetryEvent[];
+}
+
+interface PageSearchResponse {
+  data?: {
+    id: string;
+    name: string;
+    link?: string;
+    location?: {
+      street?: string;
+      city?: string;
+      country?: string;
+      latitude?: number;
+      longitude?: number;
+    };
+  }[];
+}
+
+function createPlacesClient(
+  retryPolicy?: Partial<RetryPolicy>
+): InstagramGraphClient {
+  const accessToken = process.env.INSTAGRAM_LOCATION_SEARCH_TOKEN;
+  if (!accessToken) {
+    throw new InstagramApiError(
+      "Location search needs INSTAGRAM_LOCATION_SEARCH_TOKEN, a Facebook access token with Page Public Metadata Access.",
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  const host = (
+    process.env.FACEBOOK_GRAPH_API_HOST || DEFAULT_FACEBOOK_GRAPH_API_HOST
+  ).replace(/\/+$/, "");
+  return new InstagramGraphClient({
+    // Page search is not scoped to an Instagram user
+    igUserId: "me",
+    accessToken,
+    retryPolicy,
+    baseUrl: `${host}/${getGraphApiVersion()}`,
+  });
+}
+
+export async function searchInstagramLocations(
+  input: InstagramSearchLocationsInput
+): Promise<InstagramSearchLocationsOutput> {
+  const query = input.query?.trim();
+  if (!query) {
+    throw new InstagramApiError(
+      "A place name to search for is required.",
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+  const limit = Math.min(Math.max(input.limit || DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const client = createPlacesClient(input.retryPolicy);
+
+  try {
+    const response = await client.get<PageSearchResponse>("/pages/search", {
+      q: query,
+      fields: "id,name,link,location",
+      limit,
+    });
+    // Only Pages with a physical location can be tagged
+    const locations = (response.data || [])
+      .filter((page) => page.location)
+      .map((page) => ({
+        id: page.id,
+        name: page.name,
+        street: page.location!.street,
+        city: page.location!.city,
+        country: page.location!.country,
+        latitude: page.location!.latitude,
+        longitude: page.location!.longitude,
+        link: page.link,
+      }));
+    return { locations, retries: client.retryEvents };
+  } catch (error) {
+    const apiError = handleInstagramError(error);
+    apiError.retries = client.retryEvents;
+    throw apiError;
+  }
+}
+
+function formatLocation(location: InstagramLocation): string {
+  const place = [location.street, location.city, location.country]
+    .filter(Boolean)
+    .join(", ");
+  return `- ${location.id}: ${location.name}${place ? ` (${place})` : ""}`;
+}
+
+export const searchLocationsTool: InstagramTool = {
+  name: "instagram-search-locations",
+  description:
+    "Looks up location IDs by place name, for the locationId argument of the post tools. Needs INSTAGRAM_LOCATION_SEARCH_TOKEN.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "Place name to search for, e.g. \"Eiffel Tower\".",
+      },
+      limit: {
+        type: "number",
+        description: "Most results to return (default 10, max 50).",
+      },
+      retryPolicy: retryPolicySchema,
+    },
+    required: ["query"],
+  },
+  async handle(args) {
+    const { query, limit, retryPolicy } = args;
+    const result = await searchInstagramLocations({ query, limit, retryPolicy });
+    return textResult(
+      (result.locations.length === 0
+        ? `No locations found for "${query}".`
+        : `Locations for "${query}":\n` +
+          result.locations.map(formatLocation).join("\n")) +
+        formatRetries(result.retries)
+    );
+  },
+};
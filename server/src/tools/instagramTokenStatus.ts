@@ -0,0 +1,76 @@
+import {
+  getStoredAccounts,
+  resolveAccount,
+} from "../services/accountStore.js";
+import {
+  TokenStatus,
+  getTokenStatus,
+  refreshAccessToken,
+} from "../services/tokenManager.js";
+import { InstagramTool, textResult } from "./toolSupport.js";
+
+// Define the interface for the tool input
+export interface InstagramTokenStatusInput {
+  // Only report this account; all accounts when omitted
+  account?: string;
+  // Refresh the token now instead of waiting for the background refresher
+  refresh?: boolean;
+}
+
+export async function getInstagramTokenStatus(
+  input: InstagramTokenStatusInput
+): Promise<TokenStatus[]> {
+  const { account, refresh } = input;
+  if (refresh) {
+    const refreshed = await refreshAccessToken(resolveAccount(account));
+    return [getTokenStatus(refreshed)];
+  }
+  const accounts = account ? [resolveAccount(account)] : getStoredAccounts();
+  return accounts.map((stored) => getTokenStatus(stored));
+}
+
+function formatTokenStatus(status: TokenStatus): string {
+  let text = `@${status.username} (${status.accountId}): `;
+  if (status.expired) {
+    text += `token expired at ${status.expiresAt}; authenticate again`;
+  } else if (status.daysLeft !== undefined) {
+    text += `${status.daysLeft} days left (expires ${status.expiresAt})`;
+  } else {
+    text += "expiry unknown";
+  }
+  text += `. Scopes: ${status.scopes ? status.scopes.join(", ") : "unknown"}`;
+  if (status.refreshFailures) {
+    text += `. Refresh failed ${status.refreshFailures} time${status.refreshFailures === 1 ? "" : "s"} in a row, last at ${status.lastRefreshAttemptAt}: ${status.lastRefreshError}. Next attempt after ${status.nextRefreshAttemptAt}`;
+  }
+  return text;
+}
+
+export const tokenStatusTool: InstagramTool = {
+  name: "instagram-token-status",
+  description:
+    "Shows how many days each account's access token has left and its granted scopes. Can also refresh a token immediately.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      account: {
+        type: "string",
+        description:
+          "Instagram user ID or username. Reports every account when omitted.",
+      },
+      refresh: {
+        type: "boolean",
+        description:
+          "Refresh the token now (tokens must be at least 24 hours old).",
+      },
+    },
+  },
+  async handle(args) {
+    const { account, refresh } = args;
+    const statuses = await getInstagramTokenStatus({ account, refresh });
+    return textResult(
+      statuses.length === 0
+        ? "No Instagram accounts are configured."
+        : statuses.map(formatTokenStatus).join("\n")
+    );
+  },
+};
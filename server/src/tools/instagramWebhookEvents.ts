@@ -0,0 +1,160 @@
+import {
+  InstagramApiError,
+  InstagramErrorType,
+} from "../services/instagramGraphApi.js";
+import { resolveAccount } from "../services/accountStore.js";
+import {
+  WebhookEvent,
+  WebhookEventStatus,
+  acknowledgeWebhookEvents,
+  listWebhookEvents,
+} from "../services/webhookEvents.js";
+import { WEBHOOK_EVENTS_URI } from "../resources.js";
+import { InstagramTool, accountSchema, textResult } from "./toolSupport.js";
+
+function logInfo(context: string, data: any) {
+  console.error(`[INFO] InstagramWebhookEvents - ${context}:`, data);
+}
+
+// Define the interface for the tool inputs
+export interface InstagramListWebhookEventsInput {
+  // pending when omitted
+  status?: WebhookEventStatus | "all";
+  // e.g. comments, mentions, story_insights, messages
+  field?: string;
+  account?: string;
+  limit?: number;
+}
+
+export interface InstagramAckWebhookEventsInput {
+  eventIds?: string[];
+  // Acknowledge every pending event, or the account's when one is given
+  all?: boolean;
+  account?: string;
+}
+
+// Define the interface for the tool outputs
+export interface InstagramListWebhookEventsOutput {
+  // Oldest first
+  events: WebhookEvent[];
+  // Matching events, including those past the limit
+  total: number;
+}
+
+export interface InstagramAckWebhookEventsOutput {
+  acknowledged: string[];
+  // Unknown IDs and events that were already acknowledged
+  notPending: string[];
+}
+
+const DEFAULT_LIST_LIMIT = 50;
+
+export function listInstagramWebhookEvents(
+  input: InstagramListWebhookEventsInput
+): InstagramListWebhookEventsOutput {
+  const events = listWebhookEvents({
+    status: input.status === "all" ? undefined : input.status || "pending",
+    field: input.field,
+    accountId: input.account ? resolveAccount(input.account).id : undefined,
+  });
+  return {
+    events: events.slice(0, input.limit || DEFAULT_LIST_LIMIT),
+    total: events.length,
+  };
+}
+
+export function acknowledgeInstagramWebhookEvents(
+  input: InstagramAckWebhookEventsInput
+): InstagramAckWebhookEventsOutput {
+  let ids = input.eventIds || [];
+  if (input.all) {
+    ids = listWebhookEvents({
+      status: "pending",
+      accountId: input.account ? resolveAccount(input.account).id : undefined,
+    }).map((event) => event.id);
+  } else if (ids.length === 0) {
+    throw new InstagramApiError(
+      "Give the eventIds to acknowledge, or all: true.",
+      InstagramErrorType.INVALID_REQUEST
+    );
+  }
+
+  const acknowledged = acknowledgeWebhookEvents(ids).map((event) => event.id);
+  const done = new Set(acknowledged);
+  return {
+    acknowledged,
+    notPending: ids.filter((id) => !done.has(id)),
+  };
+}
+
+export const listWebhookEventsTool: InstagramTool = {
+  name: "instagram-list-webhook-events",
+  description: `Lists the events Meta delivered to the server's webhook endpoint (new comments, mentions, story insights, messages), oldest first, as JSON. Events stay pending until acknowledged with instagram-ack-webhook-events. Subscribe to the ${WEBHOOK_EVENTS_URI} resource to be told when events arrive.`,
+  inputSchema: {
+    type: "object",
+    properties: {
+      status: {
+        type: "string",
+        enum: ["pending", "acknowledged", "all"],
+        description: "Which events to list (default pending).",
+      },
+      field: {
+        type: "string",
+        description:
+          "Only events for this webhook field, e.g. comments, mentions, story_insights or messages.",
+      },
+      limit: {
+        type: "number",
+        description: "Most events to return (default 50).",
+      },
+      account: accountSchema,
+    },
+  },
+  handle(args) {
+    const { status, field, limit, account } = args;
+    const result = listInstagramWebhookEvents({ status, field, limit, account });
+    const shown =
+      result.events.length < result.total
+        ? ` (showing the oldest ${result.events.length} of ${result.total})`
+        : "";
+    return textResult(
+      result.total === 0
+        ? "No webhook events."
+        : `Webhook events${shown}:\n` + JSON.stringify(result.events, null, 2)
+    );
+  },
+};
+
+export const ackWebhookEventsTool: InstagramTool = {
+  name: "instagram-ack-webhook-events",
+  description:
+    "Marks webhook events as handled so they leave the pending list. Acknowledged events are kept for 7 days.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      eventIds: {
+        type: "array",
+        items: { type: "string" },
+        description: "IDs of the events to acknowledge.",
+      },
+      all: {
+        type: "boolean",
+        description:
+          "Acknowledge every pending event instead, or every pending event of account when given.",
+      },
+      account: accountSchema,
+    },
+  },
+  handle(args) {
+    const { eventIds, all, account } = args;
+    const result = acknowledgeInstagramWebhookEvents({ eventIds, all, account });
+
+    logInfo("Events Acknowledged", { count: result.acknowledged.length });
+    return textResult(
+      `Acknowledged ${result.acknowledged.length === 1 ? "1 event" : `${result.acknowledged.length} events`}.` +
+        (result.notPending.length > 0
+          ? `\nNot pending (unknown or already acknowledged): ${result.notPending.join(", ")}`
+          : "")
+    );
+  },
+};
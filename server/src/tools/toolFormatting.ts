@@ -0,0 +1,143 @@
+import { RetryEvent } from "../services/retryPolicy.js";
+import { MediaProblem, formatBytes } from "../services/mediaInspection.js";
+import { MediaFix } from "../services/imageConversion.js";
+import {
+  CaptionAnalysis,
+  CaptionProblem,
+  MAX_CAPTION_LENGTH,
+  MAX_HASHTAGS,
+  MAX_MENTIONS,
+} from "../services/captionLint.js";
+import { PostOperationOutput } from "../services/publishPipeline.js";
+import { PostPreview, PreviewMedia } from "../services/postPreview.js";
+import { GraphRequestPreview } from "../services/instagramGraphApi.js";
+import { InstagramPublishingLimitOutput } from "./instagramPublishingLimit.js";
+
+// Text formatting shared by several tools' results and by the error result
+
+// Renders the retries a tool made so they are visible in the tool result
+export function formatRetries(retries?: RetryEvent[]): string {
+  if (!retries || retries.length === 0) return "";
+  const lines = retries.map((event) =>
+    event.kind === "throttle"
+      ? `- ${event.operation}: paused ${event.delayMs}ms (${event.reason})`
+      : `- ${event.operation}: attempt ${event.attempt} failed (${event.reason}), retried after ${event.delayMs}ms`
+  );
+  return `\nRetries (${retries.length}):\n${lines.join("\n")}`;
+}
+
+// Lists media inspection findings, one per line with the offending argument
+export function formatMediaProblems(problems?: MediaProblem[]): string {
+  if (!problems || problems.length === 0) return "";
+  const lines = problems.map(
+    (problem) =>
+      `- [${problem.severity}] ${problem.field}: ${problem.message} (${problem.code})`
+  );
+  return `\nMedia checks (${problems.length}):\n${lines.join("\n")}`;
+}
+
+export function formatCaptionProblems(problems?: CaptionProblem[]): string {
+  if (!problems || problems.length === 0) return "";
+  const lines = problems.map(
+    (problem) => `- [${problem.severity}] ${problem.message} (${problem.code})`
+  );
+  return `\nCaption checks (${problems.length}):\n${lines.join("\n")}`;
+}
+
+export function formatCaptionAnalysis(analysis: CaptionAnalysis): string {
+  const list = (prefix: string, tags: string[]) =>
+    tags.length > 0 ? `: ${tags.map((tag) => prefix + tag).join(" ")}` : "";
+  const hasErrors = analysis.problems.some(
+    (problem) => problem.severity === "error"
+  );
+  return (
+    `${hasErrors ? "Caption would be refused." : "Caption is OK to post."}\n` +
+    `Length: ${analysis.length}/${MAX_CAPTION_LENGTH} characters\n` +
+    `Hashtags: ${analysis.hashtagCount}/${MAX_HASHTAGS}${list("#", analysis.hashtags)}\n` +
+    `Mentions: ${analysis.mentionCount}/${MAX_MENTIONS}${list("@", analysis.mentions)}` +
+    formatCaptionProblems(analysis.problems)
+  );
+}
+
+export function formatMediaFixes(fixes?: MediaFix[]): string {
+  if (!fixes || fixes.length === 0) return "";
+  const lines = fixes.map((fix) => `- ${fix.field}: ${fix.changes.join("; ")}`);
+  return `\nAuto-fixed media (${fixes.length}):\n${lines.join("\n")}`;
+}
+
+function formatPreviewMedia(media: PreviewMedia): string {
+  const details: string[] = [];
+  if (media.sizeBytes !== undefined) details.push(formatBytes(media.sizeBytes));
+  const info = media.image || media.video;
+  if (info?.width && info?.height) details.push(`${info.width}x${info.height}`);
+  if (media.image?.format) details.push(media.image.format);
+  if (media.image?.colorSpace) details.push(media.image.colorSpace);
+  if (media.video?.durationSeconds !== undefined) {
+    details.push(`${media.video.durationSeconds}s`);
+  }
+  if (media.video?.videoCodec) details.push(media.video.videoCodec);
+  const source = media.url
+    ? media.url
+    : `${media.fileName} (${media.contentType}, staged on the media host)`;
+  return `- ${media.field} [${media.target}]: ${source}${details.length > 0 ? `, ${details.join(", ")}` : ""}`;
+}
+
+export function formatGraphRequest(request: GraphRequestPreview): string {
+  return (
+    `${request.method} ${request.url}` +
+    (request.body ? `\n   ${JSON.stringify(request.body)}` : "")
+  );
+}
+
+export function formatPublishingLimit(
+  limit: InstagramPublishingLimitOutput
+): string {
+  let text = `Publishing quota: ${limit.quotaUsage}/${limit.quotaTotal} used, ${limit.remaining} remaining (rolling ${limit.quotaDurationSeconds / 3600}h window)`;
+  if (limit.resetsAt) {
+    text += `. Next slot frees up around ${limit.resetsAt}`;
+  }
+  return text;
+}
+
+// Everything a dry run found out, ending with the requests the post would send
+export function formatPostPreview(preview: PostPreview): string {
+  const sections = [
+    `${preview.status}.`,
+    `Account: @${preview.account.username} (${preview.account.id})`,
+    `Media:\n${preview.media.map(formatPreviewMedia).join("\n")}`,
+    formatCaptionAnalysis(preview.caption),
+    formatPublishingLimit(preview.publishingLimit),
+  ];
+  if (preview.containers.length > 0) {
+    sections.push(
+      `Containers created (unpublished):\n${preview.containers
+        .map(
+          (container) =>
+            `- ${container.field}: ${container.containerId} (${container.statusCode})`
+        )
+        .join("\n")}`
+    );
+  }
+  const requests = preview.requests.map(
+    (request, index) => `${index + 1}. ${formatGraphRequest(request)}`
+  );
+  sections.push(
+    `Graph API requests the post would send (${requests.length}):\n${requests.join("\n")}`
+  );
+  return (
+    sections.join("\n") +
+    formatMediaFixes(preview.mediaFixes) +
+    formatMediaProblems(preview.mediaWarnings) +
+    formatRetries(preview.retries)
+  );
+}
+
+// Identifies the operation behind a post result, for instagram-post-status
+// and for retrying with the same key
+export function formatPostOperation(output: PostOperationOutput): string {
+  let text = `\nOperation: ${output.operationId} (idempotency key: ${output.idempotencyKey})`;
+  if (output.replayed) {
+    text += "\nAlready published by an earlier call with this key; nothing was posted again.";
+  }
+  return text;
+}
@@ -0,0 +1,188 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { PostProgressReporter } from "../services/publishPipeline.js";
+
+// What a tool handler gets besides its arguments
+export interface ToolContext {
+  server: Server;
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>;
+  // Sent by the client to receive progress notifications for this call
+  progressToken?: string | number;
+}
+
+// An MCP tool: the definition listed by tools/list and the handler for
+// tools/call. Each tool module exports its tools; server.ts registers them.
+export interface InstagramTool {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: "object";
+    properties: Record<string, object>;
+    required?: string[];
+  };
+  // Arguments arrive as the client sent them; the tool functions validate them
+  handle(
+    args: Record<string, any>,
+    context: ToolContext
+  ): CallToolResult | Promise<CallToolResult>;
+}
+
+export function textResult(text: string): CallToolResult {
+  return { content: [{ type: "text", text }] };
+}
+
+// Sends a post's progress to the client. While the tool call is open, updates
+// go out as progress notifications (if the client sent a progress token) tied
+// to the request; a background run outlives the request, so it only logs.
+export function createProgressReporter(
+  context: ToolContext,
+  background: boolean
+): PostProgressReporter {
+  const { server, extra, progressToken } = context;
+  return (update) => {
+    const log = {
+      level: update.error ? ("error" as const) : ("info" as const),
+      logger: "instagram-post",
+      data: update,
+    };
+    const sent = background
+      ? server.sendLoggingMessage(log)
+      : extra.sendNotification({ method: "notifications/message", params: log });
+    sent.catch((error) => console.error("[ERROR] Progress Notification:", error));
+
+    if (!background && progressToken !== undefined && update.elapsedMs !== undefined) {
+      extra
+        .sendNotification({
+          method: "notifications/progress",
+          params: {
+            progressToken,
+            progress: update.elapsedMs,
+            total: update.maxWaitTimeMs,
+            message: update.message,
+          },
+        })
+        .catch((error) => console.error("[ERROR] Progress Notification:", error));
+    }
+  };
+}
+
+// Input schema shared by every tool that acts on an Instagram account
+export const accountSchema = {
+  type: "string",
+  description:
+    "Instagram user ID or username to act as (see instagram-list-accounts). Defaults to INSTAGRAM_DEFAULT_ACCOUNT, or the only stored account.",
+};
+
+// Input schema shared by every tool that accepts a retry policy
+export const retryPolicySchema = {
+  type: "object",
+  description:
+    "Optional retry policy for rate-limit and transient Graph API failures.",
+  properties: {
+    maxAttempts: {
+      type: "number",
+      description: "Total attempts per API call, including the first (default 3).",
+    },
+    baseDelayMs: {
+      type: "number",
+      description: "Initial backoff delay in milliseconds (default 1000).",
+    },
+    maxDelayMs: {
+      type: "number",
+      description:
+        "Longest delay to wait before giving up on a retry (default 30000).",
+    },
+    usageThresholdPercent: {
+      type: "number",
+      description:
+        "Pause before the next call once X-App-Usage or X-Business-Use-Case-Usage reaches this percentage (default 90).",
+    },
+  },
+};
+
+// Input schema shared by the post tools
+export const idempotencyKeySchema = {
+  type: "string",
+  description:
+    "Key identifying this post. Calling again with the same key resumes a failed attempt from its last completed stage, or returns the earlier result if it was already published, instead of posting twice. A random key is used when omitted.",
+};
+
+// Input schemas shared by the post tools that can preview a post
+export const dryRunSchemas = {
+  dryRun: {
+    type: "boolean",
+    description:
+      "Preview instead of posting: run every check, resolve the account and check the quota, then return the media details, the caption analysis and the exact Graph API requests the post would send (access token redacted). Nothing is published. Default false.",
+  },
+  createContainers: {
+    type: "boolean",
+    description:
+      "With dryRun, also create the media containers and wait for Instagram to process them, without publishing. Local files are uploaded to the media host for this. Unpublished containers expire after 24 hours. Default false.",
+  },
+};
+
+// Input schemas shared by the tools that can repair images before posting
+export const autoFixSchemas = {
+  autoFix: {
+    type: "boolean",
+    description:
+      "Convert images that fail Instagram's checks (PNG/WebP, too large, wrong aspect ratio, non-sRGB) to a compliant sRGB JPEG and post that instead. Needs a media host for the converted file. Default false.",
+  },
+  aspectPolicy: {
+    type: "string",
+    enum: ["pad", "center-crop", "smart-crop"],
+    description:
+      "With autoFix, how to bring the aspect ratio into 4:5 to 1.91:1: add bars, crop the center, or crop around the most salient region (default pad).",
+  },
+  padColor: {
+    type: "string",
+    description: "Bar colour for the pad policy, e.g. #000000 (default white).",
+  },
+};
+
+// Input schema for tagging people on a single image or carousel item
+export const userTagsSchema = {
+  type: "array",
+  maxItems: 20,
+  items: {
+    type: "object",
+    properties: {
+      username: {
+        type: "string",
+        description: "Username of the public account to tag.",
+      },
+      x: {
+        type: "number",
+        minimum: 0,
+        maximum: 1,
+        description:
+          "Horizontal position from the left edge, 0 to 1 (images only).",
+      },
+      y: {
+        type: "number",
+        minimum: 0,
+        maximum: 1,
+        description: "Vertical position from the top edge, 0 to 1 (images only).",
+      },
+    },
+    required: ["username"],
+  },
+  description:
+    "Up to 20 people to tag. Images need x and y for every tag; videos take no position.",
+};
+
+export const locationIdSchema = {
+  type: "string",
+  description:
+    "ID of the location to tag, from instagram-search-locations.",
+};
+
+export const altTextSchema = {
+  type: "string",
+  description: "Alternative text describing the image for screen readers.",
+};
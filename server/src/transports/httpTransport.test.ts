@@ -0,0 +1,115 @@
+import express from "express";
+import { Server as HttpServer } from "http";
+import { AddressInfo } from "net";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  getActiveSessionCount,
+  mountMcpHttpTransport,
+} from "./httpTransport.js";
+
+const IDLE_TIMEOUT_MS = 300;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("Streamable HTTP sessions", () => {
+  let httpServer: HttpServer;
+  let mcpUrl: string;
+  let closedServers: number;
+
+  beforeAll(async () => {
+    const app = express();
+    mountMcpHttpTransport(app, {
+      createServer: () => {
+        const server = new Server(
+          { name: "test", version: "1.0.0" },
+          { capabilities: {} }
+        );
+        server.onclose = () => {
+          closedServers++;
+        };
+        return server;
+      },
+      sessionIdleTimeoutMs: IDLE_TIMEOUT_MS,
+    });
+    httpServer = await new Promise<HttpServer>((resolve) => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    mcpUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  beforeEach(() => {
+    closedServers = 0;
+  });
+
+  function post(body: unknown, sessionId?: string) {
+    return fetch(mcpUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...(sessionId ? { "Mcp-Session-Id": sessionId } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  async function openSession(): Promise<string> {
+    const response = await post({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: {
+        protocolVersion: "2025-03-26",
+        capabilities: {},
+        clientInfo: { name: "test-client", version: "1.0.0" },
+      },
+    });
+    expect(response.status).toBe(200);
+    await response.text();
+    return response.headers.get("mcp-session-id")!;
+  }
+
+  const ping = (sessionId: string, id: number) =>
+    post({ jsonrpc: "2.0", id, method: "ping" }, sessionId);
+
+  it("closes a session that sees no requests", async () => {
+    const sessionId = await openSession();
+    expect(getActiveSessionCount()).toBe(1);
+
+    await sleep(IDLE_TIMEOUT_MS * 2);
+
+    expect(getActiveSessionCount()).toBe(0);
+    expect(closedServers).toBe(1);
+    const response = await ping(sessionId, 2);
+    expect(response.status).toBe(404);
+  });
+
+  it("keeps a session open while it is used", async () => {
+    const sessionId = await openSession();
+    for (let id = 2; id < 6; id++) {
+      await sleep(IDLE_TIMEOUT_MS / 2);
+      const response = await ping(sessionId, id);
+      expect(response.status).toBe(200);
+      await response.text();
+    }
+    expect(getActiveSessionCount()).toBe(1);
+
+    await sleep(IDLE_TIMEOUT_MS * 2);
+    expect(getActiveSessionCount()).toBe(0);
+  });
+
+  it("forgets a session ended with DELETE", async () => {
+    const sessionId = await openSession();
+    const response = await fetch(mcpUrl, {
+      method: "DELETE",
+      headers: { "Mcp-Session-Id": sessionId },
+    });
+    expect(response.status).toBe(200);
+    expect(getActiveSessionCount()).toBe(0);
+    expect(closedServers).toBe(1);
+  });
+});
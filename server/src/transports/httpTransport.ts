@@ -0,0 +1,185 @@
+import { randomUUID, timingSafeEqual } from "crypto";
+import express, { Express, NextFunction, Request, Response } from "express";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+function logInfo(context: string, data: any) {
+  console.error(`[INFO] HttpTransport - ${context}:`, data);
+}
+
+export interface HttpTransportOptions {
+  createServer: () => Server;
+  // Bearer token required on every MCP request; undefined disables auth
+  authToken?: string;
+  // Sessions without a request for this long are closed (default 30 minutes)
+  sessionIdleTimeoutMs?: number;
+}
+
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  idleTimer?: NodeJS.Timeout;
+}
+
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+const sessions = new Map<string, Session>();
+
+export function getActiveSessionCount(): number {
+  return sessions.size;
+}
+
+function tokensMatch(expected: string, actual: string): boolean {
+  const expectedBuffer = Buffer.from(expected);
+  const actualBuffer = Buffer.from(actual);
+  return (
+    expectedBuffer.length === actualBuffer.length &&
+    timingSafeEqual(expectedBuffer, actualBuffer)
+  );
+}
+
+function requireBearerToken(authToken: string | undefined) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!authToken) return next();
+    const header = req.headers.authorization || "";
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+    if (!match || !tokensMatch(authToken, match[1])) {
+      res
+        .status(401)
+        .set("WWW-Authenticate", 'Bearer realm="instagram-mcp"')
+        .json({ error: "Unauthorized" });
+      return;
+    }
+    next();
+  };
+}
+
+function jsonRpcError(res: Response, status: number, message: string) {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+// Server.connect() takes over the transport's onclose, so the session is
+// forgotten from a wrapper installed after connecting
+async function connectSession(
+  server: Server,
+  transport: StreamableHTTPServerTransport | SSEServerTransport
+): Promise<void> {
+  await server.connect(transport);
+  const serverOnClose = transport.onclose;
+  transport.onclose = () => {
+    serverOnClose?.();
+    const sessionId = transport.sessionId;
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session) return;
+    clearTimeout(session.idleTimer);
+    sessions.delete(sessionId!);
+    logInfo("Session Closed", { sessionId });
+  };
+}
+
+// A Streamable HTTP client that goes away without ending its session would
+// otherwise keep its server, and the store listeners it registered, for the
+// life of the process. Each request restarts the timer. SSE sessions end
+// with their stream, so they don't need one.
+function touchSession(sessionId: string, idleTimeoutMs: number): void {
+  const session = sessions.get(sessionId);
+  if (!session) return;
+  clearTimeout(session.idleTimer);
+  session.idleTimer = setTimeout(() => {
+    logInfo("Session Expired", { sessionId, idleTimeoutMs });
+    // Closing the server closes the transport, which forgets the session
+    session.server.close().catch(() => sessions.delete(sessionId));
+  }, idleTimeoutMs);
+  session.idleTimer.unref();
+}
+
+// Mounts the Streamable HTTP endpoint (/mcp) and the legacy SSE endpoints
+// (/sse + /messages) on the existing Express app.
+export function mountMcpHttpTransport(
+  app: Express,
+  options: HttpTransportOptions
+): void {
+  const auth = requireBearerToken(options.authToken);
+  const idleTimeoutMs =
+    options.sessionIdleTimeoutMs || DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+
+  app.post("/mcp", auth, express.json(), async (req, res) => {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (session) {
+      if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+        return jsonRpcError(res, 400, "Session uses the SSE transport");
+      }
+      touchSession(sessionId!, idleTimeoutMs);
+      return session.transport.handleRequest(req, res, req.body);
+    }
+    // An expired or closed session: 404 tells the client to initialize again
+    if (sessionId) {
+      return jsonRpcError(res, 404, "Session not found");
+    }
+    if (!isInitializeRequest(req.body)) {
+      return jsonRpcError(
+        res,
+        400,
+        "Bad Request: No valid session ID provided"
+      );
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        sessions.set(newSessionId, { server, transport });
+        touchSession(newSessionId, idleTimeoutMs);
+        logInfo("Session Opened", {
+          sessionId: newSessionId,
+          type: "streamable-http",
+        });
+      },
+    });
+    const server = options.createServer();
+    await connectSession(server, transport);
+    await transport.handleRequest(req, res, req.body);
+  });
+
+  // GET opens the server-to-client notification stream, DELETE ends the session
+  const handleSessionRequest = async (req: Request, res: Response) => {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (
+      !session ||
+      !(session.transport instanceof StreamableHTTPServerTransport)
+    ) {
+      return sessionId
+        ? jsonRpcError(res, 404, "Session not found")
+        : jsonRpcError(res, 400, "Invalid or missing session ID");
+    }
+    touchSession(sessionId!, idleTimeoutMs);
+    await session.transport.handleRequest(req, res);
+  };
+  app.get("/mcp", auth, handleSessionRequest);
+  app.delete("/mcp", auth, handleSessionRequest);
+
+  app.get("/sse", auth, async (req, res) => {
+    const transport = new SSEServerTransport("/messages", res);
+    const server = options.createServer();
+    sessions.set(transport.sessionId, { server, transport });
+    await connectSession(server, transport);
+    logInfo("Session Opened", { sessionId: transport.sessionId, type: "sse" });
+  });
+
+  app.post("/messages", auth, express.json(), async (req, res) => {
+    const sessionId = req.query.sessionId as string | undefined;
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      return jsonRpcError(res, 400, "Invalid or missing session ID");
+    }
+    await session.transport.handlePostMessage(req, res, req.body);
+  });
+}
@@ -0,0 +1,146 @@
+import { createHash, createHmac } from "crypto";
+
+// Minimal AWS Signature Version 4 for S3-compatible object storage
+// (https://docs.aws.amazon.com/IAM/latest/UserGuide/create-signed-request.html)
+
+export interface SigV4Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+  service?: string;
+}
+
+export interface SignedRequest {
+  url: string;
+  headers: Record<string, string>;
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+// RFC 3986 encoding as required by SigV4 (encodeURIComponent leaves !'()* alone)
+function uriEncode(value: string, encodeSlash = true): string {
+  const encoded = encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return encodeSlash ? encoded : encoded.replace(/%2F/g, "/");
+}
+
+function amzDates(now: Date): { amzDate: string; dateStamp: string } {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, "");
+  return { amzDate, dateStamp: amzDate.slice(0, 8) };
+}
+
+function canonicalQuery(params: URLSearchParams): string {
+  return [...params.entries()]
+    .map(([key, value]) => [uriEncode(key), uriEncode(value)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+}
+
+function signingKey(credentials: SigV4Credentials, dateStamp: string): Buffer {
+  const kDate = hmac(`AWS4${credentials.secretAccessKey}`, dateStamp);
+  const kRegion = hmac(kDate, credentials.region);
+  const kService = hmac(kRegion, credentials.service || "s3");
+  return hmac(kService, "aws4_request");
+}
+
+function stringToSign(
+  amzDate: string,
+  scope: string,
+  canonicalRequest: string
+): string {
+  return [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    sha256Hex(canonicalRequest),
+  ].join("\n");
+}
+
+// Signs a request with an Authorization header
+export function signRequest(
+  method: string,
+  url: string,
+  credentials: SigV4Credentials,
+  body: Buffer | string = "",
+  extraHeaders: Record<string, string> = {},
+  now: Date = new Date()
+): SignedRequest {
+  const parsed = new URL(url);
+  const { amzDate, dateStamp } = amzDates(now);
+  const payloadHash = sha256Hex(body);
+  const scope = `${dateStamp}/${credentials.region}/${credentials.service || "s3"}/aws4_request`;
+
+  const headers: Record<string, string> = {
+    ...Object.fromEntries(
+      Object.entries(extraHeaders).map(([key, value]) => [key.toLowerCase(), value])
+    ),
+    host: parsed.host,
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate,
+  };
+  const headerNames = Object.keys(headers).sort();
+  const canonicalHeaders = headerNames
+    .map((name) => `${name}:${headers[name].trim()}\n`)
+    .join("");
+  const signedHeaders = headerNames.join(";");
+
+  const canonicalRequest = [
+    method,
+    uriEncode(decodeURIComponent(parsed.pathname), false),
+    canonicalQuery(parsed.searchParams),
+    canonicalHeaders,
+    signedHeaders,
+    payloadHash,
+  ].join("\n");
+
+  const signature = createHmac("sha256", signingKey(credentials, dateStamp))
+    .update(stringToSign(amzDate, scope, canonicalRequest))
+    .digest("hex");
+
+  headers.authorization = `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+  delete headers.host;
+  return { url, headers };
+}
+
+// Builds a presigned URL (query-string auth) valid for `expiresInSeconds`
+export function presignUrl(
+  method: string,
+  url: string,
+  credentials: SigV4Credentials,
+  expiresInSeconds: number,
+  now: Date = new Date()
+): string {
+  const parsed = new URL(url);
+  const { amzDate, dateStamp } = amzDates(now);
+  const scope = `${dateStamp}/${credentials.region}/${credentials.service || "s3"}/aws4_request`;
+
+  parsed.searchParams.set("X-Amz-Algorithm", "AWS4-HMAC-SHA256");
+  parsed.searchParams.set("X-Amz-Credential", `${credentials.accessKeyId}/${scope}`);
+  parsed.searchParams.set("X-Amz-Date", amzDate);
+  parsed.searchParams.set("X-Amz-Expires", String(expiresInSeconds));
+  parsed.searchParams.set("X-Amz-SignedHeaders", "host");
+
+  const canonicalRequest = [
+    method,
+    uriEncode(decodeURIComponent(parsed.pathname), false),
+    canonicalQuery(parsed.searchParams),
+    `host:${parsed.host}\n`,
+    "host",
+    "UNSIGNED-PAYLOAD",
+  ].join("\n");
+
+  const signature = createHmac("sha256", signingKey(credentials, dateStamp))
+    .update(stringToSign(amzDate, scope, canonicalRequest))
+    .digest("hex");
+
+  return `${parsed.origin}${parsed.pathname}?${canonicalQuery(parsed.searchParams)}&X-Amz-Signature=${signature}`;
+}
@@ -0,0 +1,150 @@
+import fetch from "node-fetch";
+import {
+  InstagramApiError,
+  InstagramErrorType,
+} from "../services/instagramGraphApi.js";
+
+// Random access to the bytes of a media file, so headers can be read without
+// downloading a whole video when the host supports range requests.
+export interface ByteSource {
+  size: number;
+  contentType?: string;
+  // Returns fewer bytes than requested at the end of the file
+  read(offset: number, length: number): Promise<Buffer>;
+}
+
+const BLOCK_SIZE = 64 * 1024;
+
+export function createBufferByteSource(
+  data: Buffer,
+  contentType?: string
+): ByteSource {
+  return {
+    size: data.length,
+    contentType,
+    async read(offset, length) {
+      return data.subarray(offset, Math.min(offset + length, data.length));
+    },
+  };
+}
+
+async function downloadCapped(
+  body: NodeJS.ReadableStream,
+  maxBytes: number
+): Promise<Buffer | undefined> {
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for await (const chunk of body) {
+    total += chunk.length;
+    if (total > maxBytes) return undefined;
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Fetches the file in 64 KB blocks with Range requests. Hosts that ignore
+// Range are downloaded in full, up to maxBytes; past that the source only
+// reports a size above maxBytes.
+export async function createHttpByteSource(
+  url: string,
+  maxBytes: number
+): Promise<ByteSource> {
+  const fetchRange = async (start: number, end: number) => {
+    const controller = new AbortController();
+    let response;
+    try {
+      response = await fetch(url, {
+        headers: { Range: `bytes=${start}-${end - 1}` },
+        signal: controller.signal,
+      });
+    } catch (error: any) {
+      throw new InstagramApiError(
+        `Media URL not accessible: ${error?.message || "network error"}`,
+        InstagramErrorType.NETWORK_ERROR,
+        undefined,
+        undefined,
+        error
+      );
+    }
+    if (!response.ok) {
+      throw new InstagramApiError(
+        `Media URL not accessible: ${response.status}`,
+        InstagramErrorType.INVALID_REQUEST,
+        response.status
+      );
+    }
+    return { response, controller };
+  };
+
+  const first = await fetchRange(0, BLOCK_SIZE);
+  const contentType = first.response.headers.get("content-type") || undefined;
+
+  if (first.response.status !== 206) {
+    const declared = Number(first.response.headers.get("content-length"));
+    const data =
+      declared > maxBytes
+        ? undefined
+        : await downloadCapped(first.response.body!, maxBytes);
+    if (!data) {
+      // Only the size is known; callers check it before reading
+      first.controller.abort();
+      return {
+        size: declared > maxBytes ? declared : maxBytes + 1,
+        contentType,
+        async read() {
+          throw new InstagramApiError(
+            `Media is larger than ${maxBytes} bytes and was not downloaded`,
+            InstagramErrorType.INVALID_REQUEST
+          );
+        },
+      };
+    }
+    return createBufferByteSource(data, contentType);
+  }
+
+  // Content-Range: bytes 0-65535/1234567
+  const range = first.response.headers.get("content-range") || "";
+  const size = Number(range.split("/")[1]);
+  const blocks = new Map<number, Buffer>([
+    [0, Buffer.from(await first.response.arrayBuffer())],
+  ]);
+  const fileSize = Number.isFinite(size) ? size : blocks.get(0)!.length;
+
+  const getBlock = async (index: number): Promise<Buffer> => {
+    let block = blocks.get(index);
+    if (!block) {
+      const start = index * BLOCK_SIZE;
+      const { response } = await fetchRange(start, start + BLOCK_SIZE);
+      block = Buffer.from(await response.arrayBuffer());
+      blocks.set(index, block);
+    }
+    return block;
+  };
+
+  return {
+    size: fileSize,
+    contentType,
+    async read(offset, length) {
+      const end = Math.min(offset + length, fileSize);
+      // Large reads (a whole moov box) go out as one request
+      if (end - offset > 4 * BLOCK_SIZE) {
+        const { response } = await fetchRange(offset, end);
+        return Buffer.from(await response.arrayBuffer());
+      }
+      const parts: Buffer[] = [];
+      for (let position = offset; position < end; ) {
+        const index = Math.floor(position / BLOCK_SIZE);
+        const block = await getBlock(index);
+        const blockStart = index * BLOCK_SIZE;
+        const slice = block.subarray(
+          position - blockStart,
+          Math.min(end - blockStart, block.length)
+        );
+        if (slice.length === 0) break;
+        parts.push(slice);
+        position += slice.length;
+      }
+      return Buffer.concat(parts);
+    },
+  };
+}
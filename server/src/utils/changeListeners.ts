@@ -0,0 +1,24 @@
+// Callbacks for changes to one of the JSON stores, so every open MCP session
+// can tell its resource subscribers what changed
+export class ChangeListeners<T> {
+  private readonly listeners = new Set<(change: T) => void>();
+
+  // Returns a function that removes the listener
+  add(listener: (change: T) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // A failing listener must not stop the others or the caller
+  notify(change: T): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error("[ERROR] ChangeListeners - Listener failed:", error);
+      }
+    }
+  }
+}
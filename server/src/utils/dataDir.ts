@@ -0,0 +1,17 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+// Directory for the server's persistent state (scheduled jobs, etc.).
+// Read lazily so INSTAGRAM_MCP_DATA_DIR from .env.local applies.
+export function getDataDir(): string {
+  const dataDir = process.env.INSTAGRAM_MCP_DATA_DIR
+    ? path.resolve(process.env.INSTAGRAM_MCP_DATA_DIR)
+    : path.join(os.homedir(), ".instagram-mcp");
+  fs.mkdirSync(dataDir, { recursive: true });
+  return dataDir;
+}
+
+export function resolveDataPath(fileName: string): string {
+  return path.join(getDataDir(), fileName);
+}
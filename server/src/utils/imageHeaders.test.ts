@@ -0,0 +1,97 @@
+import sharp from "sharp";
+import { createBufferByteSource } from "./byteSource.js";
+import { readImageInfo } from "./imageHeaders.js";
+
+const WIDTH = 120;
+const HEIGHT = 80;
+
+function blank(channels: 3 | 4 = 3) {
+  return sharp({
+    create: {
+      width: WIDTH,
+      height: HEIGHT,
+      channels,
+      background: { r: 200, g: 40, b: 40, alpha: 0.5 },
+    },
+  });
+}
+
+const inspect = (data: Buffer) => readImageInfo(createBufferByteSource(data));
+
+describe("readImageInfo", () => {
+  it("reads a JPEG's size, colour space and ICC profile", async () => {
+    const jpeg = await blank().withIccProfile("srgb").jpeg().toBuffer();
+    expect(await inspect(jpeg)).toEqual({
+      format: "jpeg",
+      width: WIDTH,
+      height: HEIGHT,
+      colorSpace: "RGB",
+      iccProfile: expect.stringMatching(/sRGB/),
+    });
+  });
+
+  it("swaps a JPEG's size for an EXIF orientation that turns it", async () => {
+    const jpeg = await blank().jpeg().withMetadata({ orientation: 6 }).toBuffer();
+    expect(await inspect(jpeg)).toMatchObject({
+      orientation: 6,
+      width: HEIGHT,
+      height: WIDTH,
+    });
+  });
+
+  it.each([
+    ["grayscale", "b-w", "grayscale"],
+    ["CMYK", "cmyk", "CMYK"],
+  ] as const)("reads a %s JPEG", async (_, colourspace, colorSpace) => {
+    const jpeg = await blank().toColourspace(colourspace).jpeg().toBuffer();
+    expect((await inspect(jpeg)).colorSpace).toBe(colorSpace);
+  });
+
+  it("reads a PNG with alpha", async () => {
+    expect(await inspect(await blank(4).png().toBuffer())).toMatchObject({
+      format: "png",
+      width: WIDTH,
+      height: HEIGHT,
+      colorSpace: "RGB",
+      hasAlpha: true,
+    });
+  });
+
+  it.each([
+    ["lossy", { lossless: false }, false],
+    ["lossless", { lossless: true }, true],
+  ])("reads a %s WebP", async (_, options, hasAlpha) => {
+    const webp = await blank(hasAlpha ? 4 : 3).webp(options).toBuffer();
+    const info = await inspect(webp);
+    expect(info).toMatchObject({ format: "webp", width: WIDTH, height: HEIGHT });
+    expect(!!info.hasAlpha).toBe(hasAlpha);
+  });
+
+  it("reads GIF and BMP sizes from their headers", async () => {
+    const gif = Buffer.alloc(16);
+    gif.write("GIF89a", "latin1");
+    gif.writeUInt16LE(WIDTH, 6);
+    gif.writeUInt16LE(HEIGHT, 8);
+    expect(await inspect(gif)).toEqual({
+      format: "gif",
+      width: WIDTH,
+      height: HEIGHT,
+      colorSpace: "indexed",
+    });
+
+    // Negative height: rows stored top-down
+    const bmp = Buffer.alloc(54);
+    bmp.write("BM", "latin1");
+    bmp.writeInt32LE(WIDTH, 18);
+    bmp.writeInt32LE(-HEIGHT, 22);
+    expect(await inspect(bmp)).toMatchObject({ format: "bmp", width: WIDTH, height: HEIGHT });
+  });
+
+  it("recognises HEIC by its brand and leaves unknown data alone", async () => {
+    const heic = Buffer.alloc(24);
+    heic.writeUInt32BE(24);
+    heic.write("ftypheic", 4, "latin1");
+    expect(await inspect(heic)).toEqual({ format: "heic" });
+    expect(await inspect(Buffer.from("not an image"))).toEqual({ format: undefined });
+  });
+});
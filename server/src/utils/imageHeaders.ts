@@ -0,0 +1,231 @@
+import { ByteSource } from "./byteSource.js";
+
+// Reads format, dimensions and colour information from image headers
+// without decoding any pixels.
+
+export type ImageFormat = "jpeg" | "png" | "webp" | "gif" | "heic" | "bmp";
+
+export type ImageColorSpace = "RGB" | "grayscale" | "CMYK" | "YCCK" | "indexed";
+
+export interface ImageInfo {
+  format?: ImageFormat;
+  // Displayed size, i.e. after applying the EXIF orientation
+  width?: number;
+  height?: number;
+  colorSpace?: ImageColorSpace;
+  // Description of the embedded ICC profile, e.g. "sRGB IEC61966-2.1"
+  iccProfile?: string;
+  // EXIF orientation (1-8), JPEG only
+  orientation?: number;
+  hasAlpha?: boolean;
+}
+
+const HEADER_BYTES = 64 * 1024;
+
+function detectFormat(head: Buffer): ImageFormat | undefined {
+  if (head.length >= 3 && head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) {
+    return "jpeg";
+  }
+  if (head.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "png";
+  }
+  if (head.toString("latin1", 0, 4) === "RIFF" && head.toString("latin1", 8, 12) === "WEBP") {
+    return "webp";
+  }
+  if (head.toString("latin1", 0, 4) === "GIF8") return "gif";
+  if (head.toString("latin1", 0, 2) === "BM") return "bmp";
+  if (head.toString("latin1", 4, 8) === "ftyp") {
+    const brand = head.toString("latin1", 8, 12);
+    if (["heic", "heix", "hevc", "mif1", "msf1", "avif"].includes(brand)) {
+      return "heic";
+    }
+  }
+  return undefined;
+}
+
+// ICC header: colour space signature at 16, tag table at 128. The profile
+// description lives in the "desc" tag, either as ASCII (v2) or mluc (v4).
+function readIccDescription(profile: Buffer): string | undefined {
+  if (profile.length < 132) return undefined;
+  const tagCount = profile.readUInt32BE(128);
+  for (let i = 0; i < tagCount; i++) {
+    const entry = 132 + i * 12;
+    if (entry + 12 > profile.length) return undefined;
+    if (profile.toString("latin1", entry, entry + 4) !== "desc") continue;
+    const offset = profile.readUInt32BE(entry + 4);
+    if (offset + 12 > profile.length) return undefined;
+    const type = profile.toString("latin1", offset, offset + 4);
+    if (type === "desc") {
+      const length = profile.readUInt32BE(offset + 8);
+      return profile
+        .toString("latin1", offset + 12, Math.min(offset + 12 + length, profile.length))
+        .replace(/\0+$/, "");
+    }
+    if (type === "mluc" && offset + 28 <= profile.length) {
+      const length = profile.readUInt32BE(offset + 20);
+      const start = offset + profile.readUInt32BE(offset + 24);
+      const text = profile.subarray(start, Math.min(start + length, profile.length));
+      // UTF-16BE; swap to little-endian for Node's utf16le decoder
+      return Buffer.from(text).swap16().toString("utf16le").replace(/\0+$/, "");
+    }
+    return undefined;
+  }
+  return undefined;
+}
+
+function readExifOrientation(exif: Buffer): number | undefined {
+  // exif starts after "Exif\0\0" with a TIFF header
+  if (exif.length < 8) return undefined;
+  const littleEndian = exif.toString("latin1", 0, 2) === "II";
+  const u16 = (at: number) => (littleEndian ? exif.readUInt16LE(at) : exif.readUInt16BE(at));
+  const u32 = (at: number) => (littleEndian ? exif.readUInt32LE(at) : exif.readUInt32BE(at));
+  const ifd = u32(4);
+  if (ifd + 2 > exif.length) return undefined;
+  const entries = u16(ifd);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > exif.length) return undefined;
+    if (u16(entry) === 0x0112) return u16(entry + 8);
+  }
+  return undefined;
+}
+
+const JPEG_SOF_MARKERS = new Set([
+  0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf,
+]);
+
+async function readJpeg(source: ByteSource): Promise<ImageInfo> {
+  const info: ImageInfo = { format: "jpeg" };
+  let adobeTransform: number | undefined;
+  let offset = 2;
+
+  while (offset + 4 <= source.size) {
+    const header = await source.read(offset, 4);
+    if (header.length < 4 || header[0] !== 0xff) break;
+    const marker = header[1];
+    // Fill bytes and standalone markers carry no length
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2;
+      continue;
+    }
+    if (marker === 0xd9 || marker === 0xda) break;
+
+    const length = header.readUInt16BE(2);
+    const segmentStart = offset + 4;
+    if (JPEG_SOF_MARKERS.has(marker)) {
+      const sof = await source.read(segmentStart, 6);
+      info.height = sof.readUInt16BE(1);
+      info.width = sof.readUInt16BE(3);
+      const components = sof[5];
+      info.colorSpace =
+        components === 1
+          ? "grayscale"
+          : components === 4
+            ? adobeTransform === 2
+              ? "YCCK"
+              : "CMYK"
+            : "RGB";
+      break;
+    }
+    if (marker === 0xe1 || marker === 0xe2 || marker === 0xee) {
+      const segment = await source.read(segmentStart, length - 2);
+      if (marker === 0xe1 && segment.toString("latin1", 0, 6) === "Exif\0\0") {
+        info.orientation = readExifOrientation(segment.subarray(6));
+      } else if (
+        marker === 0xe2 &&
+        segment.toString("latin1", 0, 12) === "ICC_PROFILE\0" &&
+        segment[12] === 1
+      ) {
+        info.iccProfile = readIccDescription(segment.subarray(14));
+      } else if (marker === 0xee && segment.toString("latin1", 0, 5) === "Adobe") {
+        adobeTransform = segment[11];
+      }
+    }
+    offset = segmentStart + length - 2;
+  }
+
+  // Orientations 5-8 rotate the image by 90 degrees
+  if (info.orientation && info.orientation >= 5 && info.width && info.height) {
+    [info.width, info.height] = [info.height, info.width];
+  }
+  return info;
+}
+
+function readPng(head: Buffer): ImageInfo {
+  const info: ImageInfo = { format: "png" };
+  if (head.length < 33) return info;
+  info.width = head.readUInt32BE(16);
+  info.height = head.readUInt32BE(20);
+  const colorType = head[25];
+  info.colorSpace =
+    colorType === 0 || colorType === 4 ? "grayscale" : colorType === 3 ? "indexed" : "RGB";
+  info.hasAlpha = colorType === 4 || colorType === 6;
+
+  // Colour chunks come before the first IDAT
+  for (let offset = 8; offset + 8 <= head.length; ) {
+    const length = head.readUInt32BE(offset);
+    const type = head.toString("latin1", offset + 4, offset + 8);
+    if (type === "IDAT" || type === "IEND") break;
+    if (type === "sRGB") info.iccProfile = "sRGB";
+    if (type === "iCCP") {
+      const data = head.subarray(offset + 8, offset + 8 + length);
+      info.iccProfile = data.toString("latin1", 0, Math.max(data.indexOf(0), 0));
+    }
+    if (type === "tRNS") info.hasAlpha = true;
+    offset += 12 + length;
+  }
+  return info;
+}
+
+function readWebp(head: Buffer): ImageInfo {
+  const info: ImageInfo = { format: "webp", colorSpace: "RGB" };
+  if (head.length < 30) return info;
+  const chunk = head.toString("latin1", 12, 16);
+  if (chunk === "VP8 ") {
+    info.width = head.readUInt16LE(26) & 0x3fff;
+    info.height = head.readUInt16LE(28) & 0x3fff;
+  } else if (chunk === "VP8L") {
+    const bits = head.readUInt32LE(21);
+    info.width = (bits & 0x3fff) + 1;
+    info.height = ((bits >> 14) & 0x3fff) + 1;
+    info.hasAlpha = ((bits >> 28) & 1) === 1;
+  } else if (chunk === "VP8X") {
+    info.hasAlpha = (head[20] & 0x10) !== 0;
+    info.width = head.readUIntLE(24, 3) + 1;
+    info.height = head.readUIntLE(27, 3) + 1;
+  }
+  return info;
+}
+
+export async function readImageInfo(source: ByteSource): Promise<ImageInfo> {
+  const head = await source.read(0, HEADER_BYTES);
+  const format = detectFormat(head);
+  switch (format) {
+    case "jpeg":
+      return readJpeg(source);
+    case "png":
+      return readPng(head);
+    case "webp":
+      return readWebp(head);
+    case "gif":
+      return {
+        format,
+        width: head.readUInt16LE(6),
+        height: head.readUInt16LE(8),
+        colorSpace: "indexed",
+      };
+    case "bmp":
+      return {
+        format,
+        width: head.readInt32LE(18),
+        height: Math.abs(head.readInt32LE(22)),
+        colorSpace: "RGB",
+      };
+    default:
+      return { format };
+  }
+}
@@ -0,0 +1,22 @@
+import * as fs from "fs";
+import * as path from "path";
+
+// Reads a JSON document, returning the fallback when the file does not exist yet
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, "utf-8");
+  } catch (error: any) {
+    if (error.code === "ENOENT") return fallback;
+    throw error;
+  }
+  return JSON.parse(raw) as T;
+}
+
+// Writes through a temp file and rename so a crash never leaves a torn file
+export function writeJsonFile(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), "utf-8");
+  fs.renameSync(tempPath, filePath);
+}
@@ -0,0 +1,6 @@
+import { randomBytes } from "crypto";
+
+// URL-safe random token, e.g. for OAuth state, nonce and PKCE verifiers
+export function makeToken(byteLength: number = 32): string {
+  return randomBytes(byteLength).toString("base64url");
+}
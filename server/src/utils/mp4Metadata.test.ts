@@ -0,0 +1,176 @@
+import { createBufferByteSource } from "./byteSource.js";
+import { readVideoInfo } from "./mp4Metadata.js";
+
+const MOVIE_TIMESCALE = 1000;
+const VIDEO_TIMESCALE = 15360;
+const AUDIO_TIMESCALE = 44100;
+
+interface Edit {
+  segmentDuration: number;
+  mediaTime: number;
+  rate?: number;
+}
+
+function box(type: string, ...parts: Buffer[]): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(8 + parts.reduce((total, part) => total + part.length, 0));
+  header.write(type, 4, "latin1");
+  return Buffer.concat([header, ...parts]);
+}
+
+function uint32s(...values: number[]): Buffer {
+  const data = Buffer.alloc(values.length * 4);
+  values.forEach((value, i) => data.writeUInt32BE(value, i * 4));
+  return data;
+}
+
+// mvhd and mdhd, version 0: flags, creation, modification, timescale, duration
+function timeHeader(type: string, timescale: number, seconds: number): Buffer {
+  return box(type, uint32s(0, 0, 0, timescale, seconds * timescale), Buffer.alloc(80));
+}
+
+function editList(edits: Edit[]): Buffer {
+  const entries = edits.map(({ segmentDuration, mediaTime, rate = 1 }) => {
+    const entry = Buffer.alloc(12);
+    entry.writeUInt32BE(segmentDuration, 0);
+    entry.writeInt32BE(mediaTime, 4);
+    entry.writeInt16BE(rate, 8);
+    return entry;
+  });
+  return box("edts", box("elst", uint32s(0, edits.length), ...entries));
+}
+
+function track(
+  handler: "vide" | "soun",
+  timescale: number,
+  seconds: number,
+  edits?: Edit[]
+): Buffer {
+  // tkhd: identity matrix at +40, 16.16 width and height at +76
+  const tkhd = Buffer.alloc(84);
+  tkhd.writeUInt32BE(0x10000, 40);
+  tkhd.writeUInt32BE(0x10000, 56);
+  tkhd.writeUInt32BE(1080 * 0x10000, 76);
+  tkhd.writeUInt32BE(1920 * 0x10000, 80);
+
+  const sampleEntry = Buffer.alloc(36);
+  sampleEntry.writeUInt32BE(36);
+  sampleEntry.write(handler === "vide" ? "avc1" : "mp4a", 4, "latin1");
+  if (handler === "soun") {
+    sampleEntry.writeUInt16BE(2, 24);
+    sampleEntry.writeUInt32BE(timescale * 0x10000, 32);
+  }
+
+  return box(
+    "trak",
+    box("tkhd", tkhd),
+    ...(edits ? [editList(edits)] : []),
+    box(
+      "mdia",
+      timeHeader("mdhd", timescale, seconds),
+      box("hdlr", uint32s(0, 0), Buffer.from(handler, "latin1"), Buffer.alloc(13)),
+      box(
+        "minf",
+        box(
+          "stbl",
+          box("stsd", uint32s(0, 1), sampleEntry),
+          box("stts", uint32s(0, 1, seconds * 30, timescale / 30)),
+          box("stsz", uint32s(0, 1000, seconds * 30))
+        )
+      )
+    )
+  );
+}
+
+async function inspect(videoEdits?: Edit[], audioEdits?: Edit[]) {
+  const file = Buffer.concat([
+    box("ftyp", Buffer.from("isom", "latin1"), uint32s(512)),
+    box(
+      "moov",
+      timeHeader("mvhd", MOVIE_TIMESCALE, 10),
+      track("vide", VIDEO_TIMESCALE, 10, videoEdits),
+      track("soun", AUDIO_TIMESCALE, 10, audioEdits)
+    ),
+    box("mdat", Buffer.alloc(64)),
+  ]);
+  return readVideoInfo(createBufferByteSource(file, "video/mp4"));
+}
+
+// Edit durations are in the movie timescale, media times in the track's
+const movie = (seconds: number) => seconds * MOVIE_TIMESCALE;
+
+describe("readVideoInfo", () => {
+  it("reads the tracks of a fast start MP4", async () => {
+    expect(await inspect()).toMatchObject({
+      container: "mp4",
+      brand: "isom",
+      durationSeconds: 10,
+      width: 1080,
+      height: 1920,
+      rotation: 0,
+      videoCodec: "h264",
+      frameRate: 30,
+      videoBitrateKbps: 240,
+      audioCodec: "aac",
+      audioSampleRate: AUDIO_TIMESCALE,
+      audioChannels: 2,
+      fastStart: true,
+    });
+  });
+
+  describe("edit lists", () => {
+    it.each<[string, Edit[] | undefined, Edit[] | undefined]>([
+      ["no edit list", undefined, undefined],
+      [
+        "a B-frame offset on the video",
+        [{ segmentDuration: movie(10), mediaTime: 1024 }],
+        undefined,
+      ],
+      [
+        "AAC priming on the audio",
+        undefined,
+        [{ segmentDuration: movie(10) - 23, mediaTime: 2112 }],
+      ],
+      [
+        "an edit left open by the writer",
+        [{ segmentDuration: 0, mediaTime: 0 }],
+        undefined,
+      ],
+    ])("ignores %s", async (_, videoEdits, audioEdits) => {
+      const info = await inspect(videoEdits, audioEdits);
+      expect(info.editListChangesTiming).toBeUndefined();
+    });
+
+    it.each<[string, Edit[]]>([
+      [
+        "delays the track",
+        [
+          { segmentDuration: movie(2), mediaTime: -1 },
+          { segmentDuration: movie(10), mediaTime: 0 },
+        ],
+      ],
+      [
+        "starts the track late",
+        [{ segmentDuration: movie(7), mediaTime: 3 * VIDEO_TIMESCALE }],
+      ],
+      [
+        "cuts the end of the track",
+        [{ segmentDuration: movie(6), mediaTime: 0 }],
+      ],
+      [
+        "splices segments together",
+        [
+          { segmentDuration: movie(3), mediaTime: 0 },
+          { segmentDuration: movie(3), mediaTime: 6 * VIDEO_TIMESCALE },
+        ],
+      ],
+      [
+        "changes the playback rate",
+        [{ segmentDuration: movie(10), mediaTime: 0, rate: 2 }],
+      ],
+    ])("flags an edit list that %s", async (_, videoEdits) => {
+      const info = await inspect(videoEdits);
+      expect(info.editListChangesTiming).toBe(true);
+    });
+  });
+});
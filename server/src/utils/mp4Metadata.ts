@@ -0,0 +1,330 @@
+import { ByteSource } from "./byteSource.js";
+
+// Reads ISO base media (MP4/MOV) container metadata from the moov box.
+// Only the boxes needed for Instagram's video checks are parsed.
+
+export interface VideoInfo {
+  container?: "mp4" | "mov";
+  brand?: string;
+  durationSeconds?: number;
+  // Displayed size, i.e. after applying the track rotation
+  width?: number;
+  height?: number;
+  rotation?: number;
+  videoCodec?: string;
+  frameRate?: number;
+  videoBitrateKbps?: number;
+  // Whole file, audio included
+  bitrateKbps?: number;
+  audioCodec?: string;
+  audioSampleRate?: number;
+  audioChannels?: number;
+  // moov before mdat, so playback can start before the download finishes
+  fastStart?: boolean;
+  // A track's edit list delays, cuts, splices or retimes it. The short
+  // offsets encoders write for B-frame delay and audio priming don't count.
+  editListChangesTiming?: boolean;
+}
+
+interface Box {
+  type: string;
+  start: number;
+  headerSize: number;
+  size: number;
+}
+
+// A moov box this large is not a real upload; refuse to buffer it
+const MAX_MOOV_BYTES = 64 * 1024 * 1024;
+// Edits that shift or cut a track by less than this are encoder padding
+const EDIT_TOLERANCE_SECONDS = 0.5;
+
+const CODEC_NAMES: Record<string, string> = {
+  avc1: "h264",
+  avc3: "h264",
+  hvc1: "hevc",
+  hev1: "hevc",
+  vp09: "vp9",
+  av01: "av1",
+  mp4v: "mpeg4",
+  mp4a: "aac",
+  "ac-3": "ac3",
+  "ec-3": "eac3",
+  Opus: "opus",
+  ".mp3": "mp3",
+  lpcm: "pcm",
+  sowt: "pcm",
+  twos: "pcm",
+};
+
+function readBoxHeader(data: Buffer, offset: number, end: number): Box | undefined {
+  if (offset + 8 > end) return undefined;
+  let size = data.readUInt32BE(offset);
+  const type = data.toString("latin1", offset + 4, offset + 8);
+  let headerSize = 8;
+  if (size === 1) {
+    if (offset + 16 > end) return undefined;
+    size = Number(data.readBigUInt64BE(offset + 8));
+    headerSize = 16;
+  } else if (size === 0) {
+    size = end - offset;
+  }
+  if (size < headerSize) return undefined;
+  return { type, start: offset, headerSize, size };
+}
+
+function* children(data: Buffer, start: number, end: number): Generator<Box> {
+  for (let offset = start; ; ) {
+    const box = readBoxHeader(data, offset, end);
+    if (!box || box.start + box.size > end) return;
+    yield box;
+    offset += box.size;
+  }
+}
+
+function findChild(data: Buffer, parent: Box, type: string): Box | undefined {
+  for (const box of children(data, parent.start + parent.headerSize, parent.start + parent.size)) {
+    if (box.type === type) return box;
+  }
+  return undefined;
+}
+
+function findPath(data: Buffer, parent: Box, path: string[]): Box | undefined {
+  let box: Box | undefined = parent;
+  for (const type of path) {
+    box = box && findChild(data, box, type);
+  }
+  return box;
+}
+
+function body(box: Box): number {
+  return box.start + box.headerSize;
+}
+
+// mvhd and mdhd share the version-dependent timescale/duration layout
+function readTimescaleDuration(
+  data: Buffer,
+  box: Box
+): { timescale: number; duration: number } {
+  const offset = body(box);
+  if (data[offset] === 1) {
+    return {
+      timescale: data.readUInt32BE(offset + 20),
+      duration: Number(data.readBigUInt64BE(offset + 24)),
+    };
+  }
+  return {
+    timescale: data.readUInt32BE(offset + 12),
+    duration: data.readUInt32BE(offset + 16),
+  };
+}
+
+function readTrackHeader(
+  data: Buffer,
+  box: Box
+): { width: number; height: number; rotation: number } {
+  const offset = body(box);
+  const matrix = offset + (data[offset] === 1 ? 52 : 40);
+  const a = data.readInt32BE(matrix) / 65536;
+  const b = data.readInt32BE(matrix + 4) / 65536;
+  return {
+    width: data.readUInt32BE(matrix + 36) / 65536,
+    height: data.readUInt32BE(matrix + 40) / 65536,
+    rotation: (Math.round((Math.atan2(b, a) * 180) / Math.PI) + 360) % 360,
+  };
+}
+
+function sampleCount(data: Buffer, stts: Box): number {
+  const offset = body(stts);
+  const entries = data.readUInt32BE(offset + 4);
+  let count = 0;
+  for (let i = 0; i < entries; i++) {
+    const entry = offset + 8 + i * 8;
+    if (entry + 8 > stts.start + stts.size) break;
+    count += data.readUInt32BE(entry);
+  }
+  return count;
+}
+
+function totalSampleBytes(data: Buffer, stsz: Box): number {
+  const offset = body(stsz);
+  const sampleSize = data.readUInt32BE(offset + 4);
+  const count = data.readUInt32BE(offset + 8);
+  if (sampleSize !== 0) return sampleSize * count;
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 12 + i * 4;
+    if (entry + 4 > stsz.start + stsz.size) break;
+    total += data.readUInt32BE(entry);
+  }
+  return total;
+}
+
+interface EditListEntry {
+  // In movie time; 0 when the writer left it open
+  segmentSeconds: number;
+  // Where in the media the segment starts; undefined for an empty edit,
+  // which delays the track
+  mediaTimeSeconds?: number;
+  rate: number;
+}
+
+function readEditList(
+  data: Buffer,
+  elst: Box,
+  movieTimescale: number,
+  mediaTimescale: number
+): EditListEntry[] {
+  const offset = body(elst);
+  const version = data[offset];
+  const count = data.readUInt32BE(offset + 4);
+  const entrySize = version === 1 ? 20 : 12;
+  const entries: EditListEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 8 + i * entrySize;
+    if (entry + entrySize > elst.start + elst.size) break;
+    const segmentDuration =
+      version === 1
+        ? Number(data.readBigUInt64BE(entry))
+        : data.readUInt32BE(entry);
+    const mediaTime =
+      version === 1
+        ? Number(data.readBigInt64BE(entry + 8))
+        : data.readInt32BE(entry + 4);
+    const rate = data.readInt16BE(entry + entrySize - 4);
+    entries.push({
+      segmentSeconds: movieTimescale ? segmentDuration / movieTimescale : 0,
+      mediaTimeSeconds:
+        mediaTime === -1 || !mediaTimescale
+          ? undefined
+          : mediaTime / mediaTimescale,
+      rate,
+    });
+  }
+  return entries;
+}
+
+function editsChangeTiming(
+  entries: EditListEntry[],
+  mediaSeconds: number
+): boolean {
+  const edits = entries.filter((entry) => entry.mediaTimeSeconds !== undefined);
+  const delay = entries
+    .filter((entry) => entry.mediaTimeSeconds === undefined)
+    .reduce((total, entry) => total + entry.segmentSeconds, 0);
+  if (delay > EDIT_TOLERANCE_SECONDS || edits.length > 1) return true;
+  if (edits.length === 0) return false;
+  const [edit] = edits;
+  if (edit.rate !== 1) return true;
+  if (edit.mediaTimeSeconds! > EDIT_TOLERANCE_SECONDS) return true;
+  // Plays less of the media than there is
+  return (
+    edit.segmentSeconds > 0 &&
+    mediaSeconds - edit.mediaTimeSeconds! - edit.segmentSeconds >
+      EDIT_TOLERANCE_SECONDS
+  );
+}
+
+function readTrack(
+  data: Buffer,
+  trak: Box,
+  movieTimescale: number,
+  info: VideoInfo
+): void {
+  const mdia = findChild(data, trak, "mdia");
+  const hdlr = mdia && findChild(data, mdia, "hdlr");
+  const mdhd = mdia && findChild(data, mdia, "mdhd");
+  const stbl = mdia && findPath(data, mdia, ["minf", "stbl"]);
+  const stsd = stbl && findChild(data, stbl, "stsd");
+  if (!hdlr || !mdhd || !stbl || !stsd) return;
+
+  const handler = data.toString("latin1", body(hdlr) + 8, body(hdlr) + 12);
+  // First sample description: size(4) + format(4) + entry fields
+  const entry = body(stsd) + 8;
+  const format = data.toString("latin1", entry + 4, entry + 8);
+  const { timescale, duration } = readTimescaleDuration(data, mdhd);
+  const seconds = timescale ? duration / timescale : 0;
+
+  const elst = findPath(data, trak, ["edts", "elst"]);
+  if (
+    elst &&
+    editsChangeTiming(
+      readEditList(data, elst, movieTimescale, timescale),
+      seconds
+    )
+  ) {
+    info.editListChangesTiming = true;
+  }
+
+  if (handler === "vide" && !info.videoCodec) {
+    info.videoCodec = CODEC_NAMES[format] || format;
+    const tkhd = findChild(data, trak, "tkhd");
+    if (tkhd) {
+      const { width, height, rotation } = readTrackHeader(data, tkhd);
+      const quarterTurn = rotation === 90 || rotation === 270;
+      info.width = quarterTurn ? height : width;
+      info.height = quarterTurn ? width : height;
+      info.rotation = rotation;
+    }
+    const stts = findChild(data, stbl, "stts");
+    if (stts && seconds > 0) {
+      info.frameRate = Math.round((sampleCount(data, stts) / seconds) * 100) / 100;
+    }
+    const stsz = findChild(data, stbl, "stsz");
+    if (stsz && seconds > 0) {
+      info.videoBitrateKbps = Math.round((totalSampleBytes(data, stsz) * 8) / seconds / 1000);
+    }
+  } else if (handler === "soun" && !info.audioCodec) {
+    info.audioCodec = CODEC_NAMES[format] || format;
+    // AudioSampleEntry: channel count at +24, 16.16 sample rate at +32
+    info.audioChannels = data.readUInt16BE(entry + 24);
+    info.audioSampleRate = data.readUInt32BE(entry + 32) >>> 16 || timescale;
+  }
+}
+
+export async function readVideoInfo(source: ByteSource): Promise<VideoInfo> {
+  const info: VideoInfo = {};
+  let moov: Buffer | undefined;
+  let sawMdat = false;
+
+  // Walk the top-level boxes; mdat is skipped without reading it
+  for (let offset = 0; offset + 8 <= source.size; ) {
+    const header = await source.read(offset, 16);
+    const box = readBoxHeader(header, 0, header.length);
+    if (!box) break;
+    // A zero size means the box runs to the end of the file
+    if (header.readUInt32BE(0) === 0) box.size = source.size - offset;
+    if (box.type === "ftyp") {
+      info.brand = header.toString("latin1", 8, 12);
+      info.container = info.brand === "qt  " ? "mov" : "mp4";
+    } else if (box.type === "mdat") {
+      sawMdat = true;
+    } else if (box.type === "moov") {
+      if (box.size > MAX_MOOV_BYTES) break;
+      moov = await source.read(offset, box.size);
+      info.fastStart = !sawMdat;
+      break;
+    }
+    offset += box.size;
+  }
+  if (!moov) return info;
+
+  const moovBox = readBoxHeader(moov, 0, moov.length);
+  if (!moovBox) return info;
+  // Old QuickTime files have no ftyp box
+  info.container = info.container || "mov";
+
+  const mvhd = findChild(moov, moovBox, "mvhd");
+  let movieTimescale = 0;
+  if (mvhd) {
+    const { timescale, duration } = readTimescaleDuration(moov, mvhd);
+    movieTimescale = timescale;
+    if (timescale) info.durationSeconds = Math.round((duration / timescale) * 1000) / 1000;
+  }
+  for (const box of children(moov, moovBox.headerSize, moov.length)) {
+    if (box.type === "trak") readTrack(moov, box, movieTimescale, info);
+  }
+  if (info.durationSeconds) {
+    info.bitrateKbps = Math.round((source.size * 8) / info.durationSeconds / 1000);
+  }
+  return info;
+}
@@ -0,0 +1,20 @@
+import { createHash } from "crypto";
+import { createPkcePair } from "./pkce.js";
+
+describe("createPkcePair", () => {
+  it("makes a 43-character verifier with its S256 challenge", () => {
+    const pair = createPkcePair();
+    expect(pair.codeVerifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(pair.codeChallenge).toBe(
+      createHash("sha256").update(pair.codeVerifier).digest("base64url")
+    );
+    expect(pair.codeChallengeMethod).toBe("S256");
+  });
+
+  it("never repeats a verifier", () => {
+    const verifiers = new Set(
+      Array.from({ length: 100 }, () => createPkcePair().codeVerifier)
+    );
+    expect(verifiers.size).toBe(100);
+  });
+});
@@ -0,0 +1,17 @@
+import { createHash } from "crypto";
+import { makeToken } from "./makeToken.js";
+
+export interface PkcePair {
+  codeVerifier: string;
+  codeChallenge: string;
+  codeChallengeMethod: "S256";
+}
+
+// RFC 7636: a 43-character verifier and its SHA-256 challenge
+export function createPkcePair(): PkcePair {
+  const codeVerifier = makeToken(32);
+  const codeChallenge = createHash("sha256")
+    .update(codeVerifier)
+    .digest("base64url");
+  return { codeVerifier, codeChallenge, codeChallengeMethod: "S256" };
+}